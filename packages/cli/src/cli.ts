@@ -8,6 +8,7 @@ import { createVRApp } from './commands/create-vr-app.js';
 import { addAdapter } from './commands/add-adapter.js';
 import { exportProfile } from './commands/export-profile.js';
 import { importProfile } from './commands/import-profile.js';
+import { exportSchema } from './commands/export-schema.js';
 import { initProject } from './commands/init-project.js';
 
 const program = new Command();
@@ -96,6 +97,17 @@ program
   .option('--overwrite', 'Overwrite existing profile')
   .action(importProfile);
 
+// Export schema command
+program
+  .command('export-schema')
+  .alias('schema')
+  .description('Export the preferences JSON Schema or OpenAPI components')
+  .argument('[output]', 'Output file path (prints to stdout when omitted)')
+  .option('-f, --format <format>', 'Schema format (json-schema, openapi)', 'json-schema')
+  .option('--base-uri <uri>', 'Base URI for the JSON Schema $id')
+  .option('--compact', 'Write compact JSON')
+  .action(exportSchema);
+
 // Help command
 program
   .command('help')
@@ -116,14 +128,16 @@ program
     console.log('  add-adapter        Add AI adapter to existing project');
     console.log('  init               Initialize NeuroAdapt in existing project');
     console.log('  export             Export user preference profile');
-    console.log('  import             Import user preference profile\n');
+    console.log('  import             Import user preference profile');
+    console.log('  schema             Export preferences JSON Schema or OpenAPI components\n');
     
     console.log(chalk.white('🔧 Examples:'));
     console.log('  neuroadapt create-app --template next');
     console.log('  neuroadapt quantum my-qc-app --bloch-sphere --typescript');
     console.log('  neuroadapt vr my-vr-app --safe-zones --proximity-detection');
     console.log('  neuroadapt add-adapter openai --key sk-...');
-    console.log('  neuroadapt export --profile my-profile --pretty\n');
+    console.log('  neuroadapt export --profile my-profile --pretty');
+    console.log('  neuroadapt schema preferences.schema.json --format json-schema\n');
     
     console.log(chalk.white('♿ Accessibility Features:'));
     console.log('  • Screen reader support and ARIA labels');
@@ -0,0 +1,60 @@
+/**
+ * Export Schema Command - Export the preferences contract
+ * @fileoverview CLI command for generating JSON Schema and OpenAPI documents from the preference schemas
+ */
+
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  getPreferencesJsonSchema,
+  getPreferencesOpenApiComponents,
+  SCHEMA_VERSION,
+} from '@neuroequality/neuroadapt-core/preferences';
+
+export interface ExportSchemaOptions {
+  format?: 'json-schema' | 'openapi';
+  baseUri?: string;
+  compact?: boolean;
+}
+
+/**
+ * Write the preferences JSON Schema or OpenAPI components to a file, or stdout when no output is given
+ */
+export async function exportSchema(output?: string, options: ExportSchemaOptions = {}) {
+  const format = options.format ?? 'json-schema';
+
+  try {
+    let document: object;
+    switch (format) {
+      case 'json-schema':
+        document = getPreferencesJsonSchema(options.baseUri ? { baseUri: options.baseUri } : {});
+        break;
+      case 'openapi':
+        document = getPreferencesOpenApiComponents();
+        break;
+      default:
+        throw new Error(`Unsupported format: ${format}`);
+    }
+
+    const content = JSON.stringify(document, null, options.compact ? undefined : 2);
+
+    if (!output) {
+      process.stdout.write(`${content}\n`);
+      return;
+    }
+
+    const resolvedOutputPath = path.resolve(output);
+    await fs.ensureDir(path.dirname(resolvedOutputPath));
+    await fs.writeFile(resolvedOutputPath, `${content}\n`, 'utf8');
+
+    console.log(chalk.green('✅ Schema exported:'));
+    console.log(chalk.gray(`📁 File: ${resolvedOutputPath}`));
+    console.log(chalk.gray(`📊 Format: ${format === 'openapi' ? 'OpenAPI 3.1 components' : 'JSON Schema (draft 2020-12)'}`));
+    console.log(chalk.gray(`🏷️  Schema version: ${SCHEMA_VERSION}`));
+  } catch (error) {
+    console.error(chalk.red('Failed to export schema'));
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exit(1);
+  }
+}
@@ -31,7 +31,8 @@ export default defineConfig({
         // Internal packages
         '@neuroadapt/core',
         '@neuroadapt/quantum',
-        '@neuroadapt/vr'
+        '@neuroadapt/vr',
+        /^@neuroequality\/neuroadapt-/
       ],
       output: {
         globals: {
@@ -0,0 +1,228 @@
+/**
+ * An interaction that hints at how hard the user is working. Timestamps
+ * default to the time the signal is recorded.
+ */
+export type InteractionSignal =
+  /** Time spent on a piece of content, against the time it should take to read */
+  | { type: 'dwell'; durationMs: number; expectedMs: number; timestamp?: number }
+  /** Scroll movement in pixels; negative deltas are scrolling back to re-read */
+  | { type: 'scroll'; delta: number; timestamp?: number }
+  /** Pause between focusing an input and starting to type */
+  | { type: 'hesitation'; durationMs: number; timestamp?: number }
+  /** A key press in an input; corrections are Backspace and Delete */
+  | { type: 'keystroke'; correction?: boolean; timestamp?: number }
+  /** A failed validation or other user-facing error */
+  | { type: 'error'; timestamp?: number };
+
+export type InteractionSignalType = InteractionSignal['type'];
+
+/**
+ * Aggregates over the signals in the current window
+ */
+export interface BehavioralMetrics {
+  /** Average of actual over expected reading time; 0 without dwell signals */
+  dwellRatio: number;
+  /** Share of scroll distance that went backwards, 0–1 */
+  rereadRatio: number;
+  /** Average pause before typing, in milliseconds */
+  averageHesitationMs: number;
+  /** Share of keystrokes that were corrections, 0–1 */
+  correctionRate: number;
+  errorCount: number;
+  signalCount: number;
+}
+
+/**
+ * Configuration for behavioural load tracking
+ */
+export interface BehavioralSignalOptions {
+  /** How far back signals count, in milliseconds */
+  windowMs?: number;
+  /** Share of the session score that comes from behaviour, 0–1 */
+  weight?: number;
+  /** Time in the high tier after which a break is offered, in milliseconds */
+  breakAfterMs?: number;
+  /** Signals arriving within this many milliseconds share one session update; 0 updates on every signal */
+  updateIntervalMs?: number;
+  /** Clock, replaceable for tests */
+  now?: () => number;
+}
+
+type TimedSignal = InteractionSignal & { timestamp: number };
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Keeps a sliding window of interaction signals and turns them into a
+ * 0–100 behavioural load score. Each signal family has a fixed share:
+ * dwell 35, re-reading 20, hesitation 20, corrections 10 and errors 15.
+ */
+export class BehavioralSignalTracker {
+  private readonly windowMs: number;
+  private readonly now: () => number;
+  private signals: TimedSignal[] = [];
+
+  constructor(options: Pick<BehavioralSignalOptions, 'windowMs' | 'now'> = {}) {
+    this.windowMs = options.windowMs ?? 120000;
+    this.now = options.now ?? Date.now;
+  }
+
+  record(signal: InteractionSignal): void {
+    const timed = { ...signal, timestamp: signal.timestamp ?? this.now() } as TimedSignal;
+    this.signals.push(timed);
+    this.prune(Math.max(timed.timestamp, this.now()));
+  }
+
+  hasSignals(): boolean {
+    this.prune(this.now());
+    return this.signals.length > 0;
+  }
+
+  getMetrics(): BehavioralMetrics {
+    this.prune(this.now());
+
+    let dwellTotal = 0;
+    let dwellCount = 0;
+    let forward = 0;
+    let back = 0;
+    let hesitationTotal = 0;
+    let hesitationCount = 0;
+    let keystrokes = 0;
+    let corrections = 0;
+    let errorCount = 0;
+
+    for (const signal of this.signals) {
+      switch (signal.type) {
+        case 'dwell':
+          if (signal.expectedMs > 0) {
+            dwellTotal += signal.durationMs / signal.expectedMs;
+            dwellCount++;
+          }
+          break;
+        case 'scroll':
+          if (signal.delta < 0) back -= signal.delta;
+          else forward += signal.delta;
+          break;
+        case 'hesitation':
+          hesitationTotal += signal.durationMs;
+          hesitationCount++;
+          break;
+        case 'keystroke':
+          keystrokes++;
+          if (signal.correction) corrections++;
+          break;
+        case 'error':
+          errorCount++;
+          break;
+      }
+    }
+
+    return {
+      dwellRatio: dwellCount > 0 ? dwellTotal / dwellCount : 0,
+      rereadRatio: forward + back > 0 ? back / (forward + back) : 0,
+      averageHesitationMs: hesitationCount > 0 ? hesitationTotal / hesitationCount : 0,
+      correctionRate: keystrokes > 0 ? corrections / keystrokes : 0,
+      errorCount,
+      signalCount: this.signals.length,
+    };
+  }
+
+  /**
+   * Behavioural load score, 0–100. Pass metrics already computed to avoid
+   * another pass over the window.
+   */
+  getScore(metrics: BehavioralMetrics = this.getMetrics()): number {
+    // Up to 20% over the estimate is normal reading; triple is struggling
+    const dwell = clamp01((metrics.dwellRatio - 1.2) / 1.8) * 35;
+    // Some scrolling back is normal; 40% of the distance is re-reading a lot
+    const reread = clamp01((metrics.rereadRatio - 0.1) / 0.3) * 20;
+    const hesitation = clamp01((metrics.averageHesitationMs - 2000) / 8000) * 20;
+    const corrections = clamp01(metrics.correctionRate / 0.3) * 10;
+    const errors = clamp01(metrics.errorCount / 3) * 15;
+
+    return Math.round(dwell + reread + hesitation + corrections + errors);
+  }
+
+  clear(): void {
+    this.signals = [];
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    this.signals = this.signals.filter(signal => signal.timestamp >= cutoff);
+  }
+}
+
+const EDITABLE_SELECTOR = 'input, textarea, select, [contenteditable=""], [contenteditable="true"]';
+
+/**
+ * Listen for scrolling, typing, hesitation and validation errors under
+ * `root` and report them as signals. Returns a function that stops
+ * listening.
+ */
+export function observeInteractions(
+  root: Document | HTMLElement,
+  onSignal: (signal: InteractionSignal) => void,
+  now: () => number = Date.now
+): () => void {
+  const scrollPositions = new WeakMap<EventTarget, number>();
+  const focusedAt = new WeakMap<EventTarget, number>();
+
+  const getScrollTop = (target: EventTarget): number => {
+    if (target instanceof Element) {
+      return target.scrollTop;
+    }
+    const scrolling = (target as Document).scrollingElement;
+    return scrolling ? scrolling.scrollTop : 0;
+  };
+
+  const onScroll = (event: Event) => {
+    const target = event.target;
+    if (!target) return;
+    const top = getScrollTop(target);
+    const previous = scrollPositions.get(target);
+    scrollPositions.set(target, top);
+    if (previous !== undefined && top !== previous) {
+      onSignal({ type: 'scroll', delta: top - previous, timestamp: now() });
+    }
+  };
+
+  const onFocusIn = (event: Event) => {
+    if (event.target instanceof Element && event.target.matches(EDITABLE_SELECTOR)) {
+      focusedAt.set(event.target, now());
+    }
+  };
+
+  const onKeyDown = (event: Event) => {
+    const { target, key } = event as KeyboardEvent;
+    if (!(target instanceof Element) || !target.matches(EDITABLE_SELECTOR)) return;
+
+    const focused = focusedAt.get(target);
+    if (focused !== undefined) {
+      focusedAt.delete(target);
+      onSignal({ type: 'hesitation', durationMs: now() - focused, timestamp: now() });
+    }
+
+    const correction = key === 'Backspace' || key === 'Delete';
+    if (correction || key.length === 1) {
+      onSignal({ type: 'keystroke', correction, timestamp: now() });
+    }
+  };
+
+  const onInvalid = () => {
+    onSignal({ type: 'error', timestamp: now() });
+  };
+
+  // Scroll and invalid do not bubble, so listen in the capture phase
+  root.addEventListener('scroll', onScroll, { capture: true, passive: true });
+  root.addEventListener('focusin', onFocusIn);
+  root.addEventListener('keydown', onKeyDown);
+  root.addEventListener('invalid', onInvalid, true);
+
+  return () => {
+    root.removeEventListener('scroll', onScroll, { capture: true });
+    root.removeEventListener('focusin', onFocusIn);
+    root.removeEventListener('keydown', onKeyDown);
+    root.removeEventListener('invalid', onInvalid, true);
+  };
+}
@@ -0,0 +1,600 @@
+/**
+ * Formats the chunker understands. `text` splits on blank lines only.
+ */
+export type ContentFormat = 'text' | 'markdown' | 'html';
+
+/**
+ * Kinds of block in parsed content
+ */
+export type ContentBlockType = 'heading' | 'paragraph' | 'list' | 'code' | 'table' | 'blockquote' | 'rule' | 'html';
+
+/**
+ * A top-level block of content
+ */
+export interface ContentBlock {
+  type: ContentBlockType;
+  /** Original Markdown or HTML for the block */
+  source: string;
+  /** Plain text, for summaries and sentence counting */
+  text: string;
+  /** Heading level, 1–6 */
+  level?: number;
+  /** Code block language, when given */
+  language?: string;
+  /** List items or table rows, as source */
+  items?: string[];
+}
+
+/**
+ * A heading and everything under it up to the next heading of the same
+ * or a higher level
+ */
+export interface ContentSection {
+  heading: ContentBlock | null;
+  level: number;
+  blocks: ContentBlock[];
+  children: ContentSection[];
+}
+
+/**
+ * One piece of chunked content
+ */
+export interface ContentChunk {
+  index: number;
+  /** Heading of the section the chunk belongs to */
+  heading: string | null;
+  /** Headings from the top of the document down to the chunk's section */
+  headingPath: string[];
+  /** Short description of the chunk, e.g. for "up next" previews */
+  summary: string;
+  /** Whether the chunk carries on the previous chunk's section */
+  continued: boolean;
+  blocks: ContentBlock[];
+  /** Source of the chunk's blocks, in the input format */
+  content: string;
+}
+
+/**
+ * Options for chunkContent
+ */
+export interface ChunkOptions {
+  format?: ContentFormat | 'auto';
+  /** Sentences (or list items, code blocks, tables) per chunk */
+  chunkSize?: number;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_BLOCK = /^ {0,3}<\/?[a-z][\w-]*(?:\s|\/?>|$)/i;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+
+/**
+ * Guess the format from the content's shape
+ */
+export function detectContentFormat(content: string): ContentFormat {
+  const trimmed = content.trim();
+  if (/^<([a-z][\w-]*)[\s>][\s\S]*<\/\1>$/i.test(trimmed) || /^<!doctype html/i.test(trimmed)) {
+    return 'html';
+  }
+
+  const lines = trimmed.split('\n');
+  const markdownLine = lines.some((line, index) =>
+    FENCE.test(line) ||
+    (ATX_HEADING.test(line) && /^ {0,3}#{1,6}\s/.test(line)) ||
+    LIST_ITEM.test(line) ||
+    /^ {0,3}>/.test(line) ||
+    (line.includes('|') && TABLE_DELIMITER.test(lines[index + 1] ?? ''))
+  );
+  return markdownLine ? 'markdown' : 'text';
+}
+
+/**
+ * Parse content into top-level blocks
+ */
+export function parseBlocks(content: string, format: ContentFormat): ContentBlock[] {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdownBlocks(content);
+    case 'html':
+      return parseHtmlBlocks(content);
+    default:
+      return content
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(paragraph => paragraph.length > 0)
+        .map(paragraph => ({ type: 'paragraph', source: paragraph, text: paragraph }));
+  }
+}
+
+/**
+ * Parse content into a tree of sections under a root section without a heading
+ */
+export function parseContent(content: string, format: ContentFormat | 'auto' = 'auto'): ContentSection {
+  const blocks = parseBlocks(content, format === 'auto' ? detectContentFormat(content) : format);
+  const root: ContentSection = { heading: null, level: 0, blocks: [], children: [] };
+  const stack: ContentSection[] = [root];
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const level = block.level ?? 1;
+      while (stack.length > 1 && stack[stack.length - 1]!.level >= level) {
+        stack.pop();
+      }
+      const section: ContentSection = { heading: block, level, blocks: [], children: [] };
+      stack[stack.length - 1]!.children.push(section);
+      stack.push(section);
+    } else {
+      stack[stack.length - 1]!.blocks.push(block);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Split content into chunks at semantic boundaries. Every heading starts a
+ * chunk; long sections are split between paragraphs, sentences or list
+ * items. Code blocks, tables and raw HTML are never split, and a lead-in
+ * paragraph ending in a colon stays with the block it introduces.
+ */
+export function chunkContent(content: string, options: ChunkOptions = {}): ContentChunk[] {
+  const format = !options.format || options.format === 'auto' ? detectContentFormat(content) : options.format;
+  const chunkSize = Math.max(1, options.chunkSize ?? 5);
+  const chunks: ContentChunk[] = [];
+  const separator = format === 'html' ? '\n' : '\n\n';
+
+  let current: { headingPath: string[]; blocks: ContentBlock[]; weight: number } | null = null;
+
+  const flush = () => {
+    if (current && current.blocks.length > 0) {
+      const heading = current.headingPath[current.headingPath.length - 1] ?? null;
+      const previous = chunks[chunks.length - 1];
+      chunks.push({
+        index: chunks.length,
+        heading,
+        headingPath: current.headingPath,
+        summary: summarize(current.blocks, heading),
+        continued: previous !== undefined &&
+          current.blocks[0]?.type !== 'heading' &&
+          previous.headingPath.join('\n') === current.headingPath.join('\n'),
+        blocks: current.blocks,
+        content: current.blocks.map(block => block.source).join(separator),
+      });
+    }
+  };
+
+  const visit = (section: ContentSection, headingPath: string[]) => {
+    if (section.heading) {
+      // Headings with nothing under them yet stay with the next heading
+      if (current && current.weight > 0) {
+        flush();
+        current = null;
+      }
+      current ??= { headingPath, blocks: [], weight: 0 };
+      current.headingPath = headingPath;
+      current.blocks.push(section.heading);
+    }
+
+    const pieces = section.blocks.flatMap(block => splitBlock(block, chunkSize, format));
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i]!;
+      if (piece.block.type === 'rule') {
+        // A thematic break is a boundary in itself
+        flush();
+        current = null;
+        continue;
+      }
+
+      // Lead-ins ("Install it like this:") move with the next block
+      const next = pieces[i + 1];
+      const group = piece.block.type === 'paragraph' && /:\s*$/.test(piece.block.text) && next && next.block.type !== 'rule'
+        ? [piece, next]
+        : [piece];
+      const weight = group.reduce((sum, item) => sum + item.weight, 0);
+
+      if (current && current.weight > 0 && current.weight + weight > chunkSize) {
+        flush();
+        current = null;
+      }
+      current ??= { headingPath, blocks: [], weight: 0 };
+      for (const item of group) {
+        current.blocks.push(item.block);
+        current.weight += item.weight;
+      }
+      i += group.length - 1;
+    }
+
+    for (const child of section.children) {
+      visit(child, [...headingPath, child.heading?.text ?? '']);
+    }
+  };
+
+  visit(parseContent(content, format), []);
+  flush();
+
+  return chunks;
+}
+
+interface ChunkPiece {
+  block: ContentBlock;
+  weight: number;
+}
+
+/**
+ * Break a block into pieces that fit a chunk. Paragraphs split between
+ * sentences and lists between items; everything else stays whole.
+ */
+function splitBlock(block: ContentBlock, chunkSize: number, format: ContentFormat): ChunkPiece[] {
+  if (block.type === 'paragraph') {
+    const weight = Math.max(splitSentences(block.text).length, 1);
+    // HTML paragraphs carry inline markup that sentence splitting would break
+    if (weight <= chunkSize || format === 'html') {
+      return [{ block, weight }];
+    }
+
+    // Split the source rather than the plain text so links, code spans and
+    // emphasis survive. Each piece is weighed by the sentences in its text.
+    const pieces: ChunkPiece[] = [];
+    let start = 0;
+    let previous = 0;
+    let sentences = 0;
+    const ends = sourceSentenceEnds(block.source);
+    ends.forEach((end, index) => {
+      sentences += Math.max(splitSentences(stripMarkup(block.source.slice(previous, end), format)).length, 1);
+      previous = end;
+      if (sentences >= chunkSize || index === ends.length - 1) {
+        const source = block.source.slice(start, end).trim();
+        const text = format === 'text' ? source : stripMarkup(source, format).replace(/\s*\n\s*/g, ' ');
+        pieces.push({ block: { type: 'paragraph', source, text }, weight: sentences });
+        start = end;
+        sentences = 0;
+      }
+    });
+    return pieces.length > 1 ? pieces : [{ block, weight }];
+  }
+
+  if (block.type === 'list' && block.items) {
+    if (block.items.length <= chunkSize) {
+      return [{ block, weight: block.items.length }];
+    }
+
+    const ordered = /^<ol/i.test(block.source);
+    let start = 1;
+    return groups(block.items, chunkSize).map(items => {
+      const source = format === 'html'
+        ? `<${ordered ? 'ol' : 'ul'}${ordered && start > 1 ? ` start="${start}"` : ''}>${items.join('')}</${ordered ? 'ol' : 'ul'}>`
+        : items.join('\n');
+      start += items.length;
+      return {
+        block: { type: 'list', source, text: items.map(item => stripMarkup(item, format)).join('\n'), items },
+        weight: items.length,
+      };
+    });
+  }
+
+  return [{ block, weight: block.type === 'rule' ? 0 : 1 }];
+}
+
+function groups<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * Split into sentences, keeping their punctuation
+ */
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+(?:[.!?]+["'”’)\]]*|$)/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Offsets just past each sentence in Markdown source, ending with the
+ * source's length. Punctuation inside code spans, link destinations and
+ * autolinks or inline tags does not end a sentence.
+ */
+function sourceSentenceEnds(source: string): number[] {
+  const ends: number[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i]!;
+    if (char === '`') {
+      const run = /^`+/.exec(source.slice(i))![0];
+      const close = source.indexOf(run, i + run.length);
+      i = close === -1 ? i + run.length : close + run.length;
+    } else if (char === ']' && source[i + 1] === '(') {
+      const close = source.indexOf(')', i);
+      i = close === -1 ? i + 2 : close + 1;
+    } else if (char === '<' && /^<[^\s>][^>]*>/.test(source.slice(i))) {
+      i = source.indexOf('>', i) + 1;
+    } else if (/[.!?]/.test(char)) {
+      const end = i + /^[.!?]+["'”’)\]*_~]*/.exec(source.slice(i))![0].length;
+      if (end < source.length && /\s/.test(source[end]!)) {
+        ends.push(end);
+      }
+      i = end;
+    } else {
+      i++;
+    }
+  }
+  if (ends[ends.length - 1] !== source.length) {
+    ends.push(source.length);
+  }
+  return ends;
+}
+
+function summarize(blocks: ContentBlock[], heading: string | null): string {
+  const prose = blocks.find(block => block.type === 'paragraph' || block.type === 'blockquote' || block.type === 'list');
+  if (prose) {
+    const first = splitSentences(prose.text.split('\n')[0] ?? '')[0] ?? prose.text;
+    return first.length > 120 ? `${first.slice(0, 119).trimEnd()}…` : first;
+  }
+
+  const code = blocks.find(block => block.type === 'code');
+  if (code) {
+    return code.language ? `Code example (${code.language})` : 'Code example';
+  }
+
+  const table = blocks.find(block => block.type === 'table');
+  if (table) {
+    return `Table with ${table.items?.length ?? 0} rows`;
+  }
+
+  return heading ?? '';
+}
+
+function stripMarkup(source: string, format: ContentFormat): string {
+  if (format === 'html') {
+    return source.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+  }
+  return source
+    .replace(/^\s*(?:[-*+]|\d{1,9}[.)])\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]+/g, '')
+    .trim();
+}
+
+function parseMarkdownBlocks(content: string): ContentBlock[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: ContentBlock[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const source = paragraph.join('\n');
+      blocks.push({ type: 'paragraph', source, text: stripMarkup(source, 'markdown').replace(/\s*\n\s*/g, ' ') });
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (line.trim() === '') {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1]!;
+      const start = i;
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i]!)) {
+        i++;
+      }
+      const body = lines.slice(start + 1, i);
+      i++;
+      blocks.push({
+        type: 'code',
+        source: lines.slice(start, i).join('\n'),
+        text: body.join('\n'),
+        ...(fence[2] && { language: fence[2] }),
+      });
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading && /^ {0,3}#{1,6}(\s|$)/.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'heading', source: line, text: stripMarkup(heading[2] ?? '', 'markdown'), level: heading[1]!.length });
+      i++;
+      continue;
+    }
+
+    const setext = SETEXT_UNDERLINE.exec(line);
+    if (setext && paragraph.length > 0) {
+      const source = [...paragraph, line].join('\n');
+      blocks.push({
+        type: 'heading',
+        source,
+        text: stripMarkup(paragraph.join(' '), 'markdown'),
+        level: setext[1]!.startsWith('=') ? 1 : 2,
+      });
+      paragraph = [];
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule', source: line, text: '' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DELIMITER.test(lines[i + 1] ?? '') && paragraph.length === 0) {
+      const start = i;
+      i += 2;
+      while (i < lines.length && lines[i]!.trim() !== '' && lines[i]!.includes('|')) {
+        i++;
+      }
+      const rows = [lines[start]!, ...lines.slice(start + 2, i)];
+      blocks.push({
+        type: 'table',
+        source: lines.slice(start, i).join('\n'),
+        text: rows.map(row => row.replace(/^\s*\||\|\s*$/g, '').split('|').map(cell => cell.trim()).join(', ')).join('\n'),
+        items: rows,
+      });
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      flushParagraph();
+      const start = i;
+      while (i < lines.length && lines[i]!.trim() !== '') {
+        i++;
+      }
+      const source = lines.slice(start, i).join('\n');
+      blocks.push({ type: 'blockquote', source, text: stripMarkup(source, 'markdown').replace(/\s*\n\s*/g, ' ') });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem && (paragraph.length === 0 || line.trim().length > listItem[0].length)) {
+      flushParagraph();
+      const indent = listItem[1]!.length;
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i]!;
+        const item = LIST_ITEM.exec(current);
+        if (item && item[1]!.length === indent) {
+          items.push([current]);
+        } else if (current.trim() === '') {
+          // A blank line ends the list unless indented content or another item follows
+          const next = lines.slice(i + 1).find(candidate => candidate.trim() !== '');
+          const nextItem = next ? LIST_ITEM.exec(next) : null;
+          if (!next || !(nextItem && nextItem[1]!.length === indent) && !/^\s{2,}/.test(next)) {
+            break;
+          }
+          items[items.length - 1]!.push(current);
+        } else if (/^\s/.test(current) || !HTML_BLOCK.test(current) && !FENCE.test(current) && !ATX_HEADING.test(current)) {
+          items[items.length - 1]!.push(current);
+        } else {
+          break;
+        }
+        i++;
+      }
+      const itemSources = items.map(item => item.join('\n').replace(/\n+$/, ''));
+      blocks.push({
+        type: 'list',
+        source: itemSources.join('\n'),
+        text: itemSources.map(item => stripMarkup(item, 'markdown')).join('\n'),
+        items: itemSources,
+      });
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line) && paragraph.length === 0) {
+      const start = i;
+      while (i < lines.length && lines[i]!.trim() !== '') {
+        i++;
+      }
+      const source = lines.slice(start, i).join('\n');
+      blocks.push({ type: 'html', source, text: stripMarkup(source, 'html') });
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line) && paragraph.length === 0) {
+      const start = i;
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]!) || lines[i]!.trim() === '' && INDENTED_CODE.test(lines[i + 1] ?? ''))) {
+        i++;
+      }
+      const source = lines.slice(start, i).join('\n');
+      blocks.push({ type: 'code', source, text: source.replace(/^(?: {4}|\t)/gm, '') });
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+const HTML_BLOCK_TYPES: Record<string, ContentBlockType> = {
+  p: 'paragraph',
+  ul: 'list',
+  ol: 'list',
+  dl: 'list',
+  pre: 'code',
+  table: 'table',
+  blockquote: 'blockquote',
+  hr: 'rule',
+};
+
+// Wrappers whose children are the real blocks
+const HTML_CONTAINERS = new Set(['div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'body']);
+
+/**
+ * Parse HTML with the DOM. Without DOMParser (e.g. on a server) the markup
+ * is stripped and the text chunked as paragraphs.
+ */
+function parseHtmlBlocks(content: string): ContentBlock[] {
+  if (typeof DOMParser === 'undefined') {
+    return parseBlocks(content.replace(/<\/(p|div|h[1-6]|li|tr|pre|blockquote)>/gi, '\n\n').replace(/<[^>]*>/g, ''), 'text');
+  }
+
+  const document = new DOMParser().parseFromString(content, 'text/html');
+  const blocks: ContentBlock[] = [];
+
+  const visit = (parent: Element) => {
+    for (const node of parent.childNodes) {
+      if (node.nodeType === 3) {
+        const text = node.textContent?.trim() ?? '';
+        if (text) {
+          // textContent is decoded, so escape it again before it is rendered as HTML
+          blocks.push({ type: 'paragraph', source: escapeHtml(text), text });
+        }
+        continue;
+      }
+      if (!(node instanceof Element)) {
+        continue;
+      }
+
+      const tag = node.tagName.toLowerCase();
+      const text = (node.textContent ?? '').replace(/\s+/g, ' ').trim();
+      const heading = /^h([1-6])$/.exec(tag);
+
+      if (heading) {
+        blocks.push({ type: 'heading', source: node.outerHTML, text, level: Number(heading[1]) });
+      } else if (HTML_CONTAINERS.has(tag)) {
+        visit(node);
+      } else {
+        const type = HTML_BLOCK_TYPES[tag] ?? 'html';
+        const block: ContentBlock = { type, source: node.outerHTML, text };
+        if (type === 'list') {
+          block.items = [...node.children].filter(child => /^(li|dt|dd)$/i.test(child.tagName)).map(child => child.outerHTML);
+        } else if (type === 'table') {
+          block.items = [...node.querySelectorAll('tr')].map(row => row.outerHTML);
+        } else if (type === 'code') {
+          const language = /language-([\w-]+)/.exec(node.querySelector('code')?.className ?? '')?.[1];
+          if (language) {
+            block.language = language;
+          }
+        }
+        blocks.push(block);
+      }
+    }
+  };
+
+  visit(document.body);
+  return blocks;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -7,4 +7,68 @@ export type {
   TextMetrics,
   CognitiveLoadConfig,
   StrategyFunction,
-} from './load-engine.js'; 
\ No newline at end of file
+  SessionLoadScore,
+} from './load-engine.js';
+
+export { SessionMemory, SessionMemorySnapshotSchema } from './session-memory.js';
+export type {
+  SessionMemoryEvents,
+  SessionMemoryOptions,
+  SessionMemorySnapshot,
+  ExplanationRecord,
+  AdaptationRecord,
+} from './session-memory.js';
+
+export { BehavioralSignalTracker, observeInteractions } from './behavioral-signals.js';
+export type {
+  InteractionSignal,
+  InteractionSignalType,
+  BehavioralMetrics,
+  BehavioralSignalOptions,
+} from './behavioral-signals.js';
+
+export {
+  READABILITY_METRICS,
+  READABILITY_LANGUAGES,
+  computeTextStatistics,
+  countSyllables,
+  isComplexWord,
+  tokenizeWords,
+  resolveReadabilityLanguage,
+} from './readability.js';
+export type { ReadabilityMetric, TextStatistics } from './readability.js';
+
+export {
+  chunkContent,
+  parseContent,
+  parseBlocks,
+  detectContentFormat,
+} from './chunking.js';
+export type {
+  ContentFormat,
+  ContentBlockType,
+  ContentBlock,
+  ContentSection,
+  ContentChunk,
+  ChunkOptions,
+} from './chunking.js';
+
+export {
+  PlainLanguageSimplifier,
+  SIMPLIFICATION_PROFILES,
+  DEFAULT_PLAIN_LANGUAGE_LEXICON,
+  checkFaithfulness,
+} from './simplification.js';
+export type {
+  CefrLevel,
+  ExplanationLevel,
+  PlainLanguageEntry,
+  SimplificationProfile,
+  SimplificationMessage,
+  SimplificationAIAdapter,
+  SimplifierOptions,
+  SimplificationChangeType,
+  SimplificationChange,
+  SimplificationResult,
+  FaithfulnessReport,
+} from './simplification.js';
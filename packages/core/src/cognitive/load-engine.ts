@@ -2,6 +2,31 @@ import { EventEmitter } from 'eventemitter3';
 
 import type { CognitivePreferences } from '../preferences/schemas.js';
 
+import {
+  BehavioralSignalTracker,
+  observeInteractions,
+  type BehavioralMetrics,
+  type BehavioralSignalOptions,
+  type InteractionSignal,
+} from './behavioral-signals.js';
+import { chunkContent as splitIntoChunks, type ChunkOptions, type ContentChunk } from './chunking.js';
+import {
+  READABILITY_METRICS,
+  computeTextStatistics,
+  getEaseMetricId,
+  isComplexWord,
+  isMetricForLanguage,
+  resolveReadabilityLanguage,
+  tokenizeWords,
+  type ReadabilityMetric,
+} from './readability.js';
+import { SessionMemory, type ExplanationRecord, type SessionMemoryOptions } from './session-memory.js';
+import {
+  PlainLanguageSimplifier,
+  type SimplificationResult,
+  type SimplifierOptions,
+} from './simplification.js';
+
 /**
  * Cognitive load tiers based on calculated scores
  */
@@ -19,6 +44,21 @@ export interface CognitiveLoadEvents {
   'load-score': (data: { score: number; tier: CognitiveTier; context?: string }) => void;
   'strategy-suggested': (strategy: AdaptationStrategy, context: string) => void;
   'adaptation-applied': (strategy: AdaptationStrategy, result: string) => void;
+  'session-score': (data: SessionLoadScore) => void;
+  'tier-change': (tier: CognitiveTier, previous: CognitiveTier) => void;
+}
+
+/**
+ * Live load score for the session, fusing text and behaviour
+ */
+export interface SessionLoadScore {
+  score: number;
+  tier: CognitiveTier;
+  /** Score of the most recently analyzed text, if any */
+  textScore: number | null;
+  /** Score from interaction signals in the current window, if any */
+  behaviorScore: number | null;
+  behavior: BehavioralMetrics;
 }
 
 /**
@@ -29,8 +69,13 @@ export interface TextMetrics {
   sentenceCount: number;
   averageWordsPerSentence: number;
   complexWords: number;
+  syllableCount: number;
   readingTimeEstimate: number;
+  /** Reading ease on the Flesch scale, using the formula for the text's language */
   fleschScore: number;
+  /** Every readability metric that applies to the language, by metric id */
+  readability: Record<string, number>;
+  language: string;
   denseSections: string[];
 }
 
@@ -39,8 +84,19 @@ export interface TextMetrics {
  */
 export interface CognitiveLoadConfig {
   preferences: CognitivePreferences;
-  sessionMemory?: boolean;
+  /** Remember adaptations and explained topics; pass options to persist them */
+  sessionMemory?: boolean | SessionMemoryOptions;
   adaptationThreshold?: number;
+  /** Language of the analyzed text (BCP 47); selects syllable rules and metrics */
+  language?: string;
+  /** Extra readability metrics on top of the built-in ones */
+  metrics?: ReadabilityMetric[];
+  /** Lexicon, glossary and optional AI adapter for plain-language rewrites */
+  simplification?: SimplifierOptions;
+  /** Window, weighting and break timing for interaction signals */
+  behavior?: BehavioralSignalOptions;
+  /** Text the `chunk` strategy puts between chunks, e.g. a translated marker */
+  chunkSeparator?: string;
 }
 
 /**
@@ -48,15 +104,6 @@ export interface CognitiveLoadConfig {
  */
 export type StrategyFunction = (text: string, context?: string) => string;
 
-/**
- * Session memory for avoiding repeated explanations
- */
-interface SessionMemory {
-  explanations: Set<string>;
-  adaptations: Map<string, string>;
-  timestamp: number;
-}
-
 /**
  * CognitiveLoadEngine analyzes text and user interactions to detect
  * cognitive overload and suggest appropriate adaptations
@@ -67,19 +114,44 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
   private readonly strategies = new Map<AdaptationStrategy, StrategyFunction>();
   private readonly memoryEnabled: boolean;
   private readonly adaptationThreshold: number;
+  private readonly metrics = new Map<string, ReadabilityMetric>();
+  private readonly simplifier: PlainLanguageSimplifier;
+  private readonly behavior: BehavioralSignalTracker;
+  private readonly behaviorWeight: number;
+  private readonly breakAfterMs: number;
+  private readonly updateIntervalMs: number;
+  private readonly chunkSeparator: string;
+  private readonly now: () => number;
+  private language: string;
+  private lastTextScore: number | null = null;
+  private sessionTier: CognitiveTier = 'low';
+  private highSince: number | null = null;
+  private breakOffered = false;
+  private updateTimer: ReturnType<typeof setTimeout> | undefined;
+  private breakTimer: ReturnType<typeof setTimeout> | undefined;
 
   constructor(config: CognitiveLoadConfig) {
     super();
     
     this.preferences = config.preferences;
-    this.memoryEnabled = config.sessionMemory ?? true;
+    this.memoryEnabled = config.sessionMemory !== false;
     this.adaptationThreshold = config.adaptationThreshold ?? 70;
+    this.language = resolveReadabilityLanguage(config.language ?? 'en');
+    this.simplifier = new PlainLanguageSimplifier(config.simplification);
+    this.now = config.behavior?.now ?? Date.now;
+    this.behavior = new BehavioralSignalTracker({ ...config.behavior, now: this.now });
+    this.behaviorWeight = Math.min(Math.max(config.behavior?.weight ?? 0.5, 0), 1);
+    this.breakAfterMs = config.behavior?.breakAfterMs ?? 120000;
+    this.updateIntervalMs = config.behavior?.updateIntervalMs ?? 250;
+    this.chunkSeparator = config.chunkSeparator ?? '\n\n[Continue when ready]\n\n';
+
+    for (const metric of [...Object.values(READABILITY_METRICS), ...(config.metrics ?? [])]) {
+      this.metrics.set(metric.id, metric);
+    }
     
-    this.sessionMemory = {
-      explanations: new Set(),
-      adaptations: new Map(),
-      timestamp: Date.now(),
-    };
+    this.sessionMemory = new SessionMemory(
+      typeof config.sessionMemory === 'object' ? config.sessionMemory : {}
+    );
 
     this.initializeStrategies();
   }
@@ -99,21 +171,95 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
       this.suggestAdaptation(text, score, context);
     }
 
+    this.lastTextScore = score;
+    this.updateSessionScore();
+
     return metrics;
   }
 
+  /**
+   * Feed an interaction signal into the live session score. Scrolling and
+   * typing fire many signals a second, so the score is updated at most
+   * once per `behavior.updateIntervalMs`.
+   */
+  recordSignal(signal: InteractionSignal): void {
+    this.behavior.record(signal);
+    if (this.updateIntervalMs <= 0) {
+      this.updateSessionScore();
+    } else if (this.updateTimer === undefined) {
+      this.updateTimer = setTimeout(() => this.updateSessionScore(), this.updateIntervalMs);
+    }
+  }
+
+  /**
+   * Start timing how long the user spends on `text`. Call the returned
+   * function when they move on to record the dwell time against the
+   * reading time estimate.
+   */
+  trackReading(text: string): () => void {
+    const startedAt = this.now();
+    const expectedMs = this.expectedReadingMs(text);
+    return () => {
+      this.recordSignal({ type: 'dwell', durationMs: this.now() - startedAt, expectedMs });
+    };
+  }
+
+  /**
+   * Record scrolling, typing, hesitation and validation errors under
+   * `root` as signals. Returns a function that stops observing.
+   */
+  observeInteractions(root: Document | HTMLElement = document): () => void {
+    return observeInteractions(root, signal => this.recordSignal(signal), this.now);
+  }
+
+  /**
+   * Current session score: the last text score and the behavioural score,
+   * weighted by `behavior.weight`, or whichever of the two is available
+   */
+  getSessionScore(): SessionLoadScore {
+    const behavior = this.behavior.getMetrics();
+    const behaviorScore = behavior.signalCount > 0 ? this.behavior.getScore(behavior) : null;
+    let score = 0;
+    if (behaviorScore !== null && this.lastTextScore !== null) {
+      score = Math.round(this.lastTextScore * (1 - this.behaviorWeight) + behaviorScore * this.behaviorWeight);
+    } else {
+      score = behaviorScore ?? this.lastTextScore ?? 0;
+    }
+
+    return {
+      score,
+      tier: this.getCognitiveTier(score),
+      textScore: this.lastTextScore,
+      behaviorScore,
+      behavior,
+    };
+  }
+
+  /**
+   * Forget interaction signals and the last text score
+   */
+  resetSession(): void {
+    this.behavior.clear();
+    this.lastTextScore = null;
+    this.sessionTier = 'low';
+    this.highSince = null;
+    this.breakOffered = false;
+    this.clearTimers();
+  }
+
+  /**
+   * Stop pending score updates and break checks, and remove all listeners
+   */
+  destroy(): void {
+    this.clearTimers();
+    this.removeAllListeners();
+  }
+
   /**
    * Estimate reading time for given text based on user preferences
    */
   readingTimeEstimate(text: string): number {
-    const wordCount = this.countWords(text);
-    const baseWPM = this.getReadingSpeed();
-    
-    // Adjust for complexity
-    const complexityFactor = this.getComplexityFactor(text);
-    const adjustedWPM = baseWPM / complexityFactor;
-    
-    return Math.ceil(wordCount / adjustedWPM);
+    return Math.ceil(this.expectedReadingMs(text) / 60000);
   }
 
   /**
@@ -143,21 +289,45 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
 
     // Check session memory to avoid repetition
     const memoryKey = `${strategy}:${text.substring(0, 100)}`;
-    if (this.memoryEnabled && this.sessionMemory.adaptations.has(memoryKey)) {
-      return this.sessionMemory.adaptations.get(memoryKey)!;
+    const remembered = this.memoryEnabled ? this.sessionMemory.getAdaptation(memoryKey) : null;
+    if (remembered !== null) {
+      return remembered;
     }
 
     const result = strategyFn(text, context);
     
     // Store in session memory
     if (this.memoryEnabled) {
-      this.sessionMemory.adaptations.set(memoryKey, result);
+      this.sessionMemory.setAdaptation(memoryKey, strategy, result);
     }
 
     this.emit('adaptation-applied', strategy, result);
     return result;
   }
 
+  /**
+   * Split Markdown, HTML or plain text into chunks at headings and block
+   * boundaries, sized by the `chunkSize` preference. Code blocks and
+   * tables are never split.
+   */
+  chunkContent(content: string, options: ChunkOptions = {}): ContentChunk[] {
+    return splitIntoChunks(content, {
+      chunkSize: this.preferences.chunkSize || 3,
+      ...options,
+    });
+  }
+
+  /**
+   * Rewrite text in plain language for the `explanationLevel` preference.
+   * Uses the configured AI adapter when there is one and falls back to the
+   * rule pipeline if its rewrite fails the faithfulness check.
+   */
+  async simplifyText(text: string): Promise<SimplificationResult> {
+    const result = await this.simplifier.simplify(text, this.preferences.explanationLevel);
+    this.emit('adaptation-applied', 'simplifyLanguage', result.text);
+    return result;
+  }
+
   /**
    * Register a custom adaptation strategy
    */
@@ -165,13 +335,78 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
     this.strategies.set(name, fn);
   }
 
+  /**
+   * Register a custom readability metric, or replace a built-in one by id
+   */
+  registerMetric(metric: ReadabilityMetric): void {
+    this.metrics.set(metric.id, metric);
+  }
+
+  /**
+   * Readability metrics that apply to the current language
+   */
+  getMetrics(): ReadabilityMetric[] {
+    return [...this.metrics.values()].filter(metric => isMetricForLanguage(metric, this.language));
+  }
+
+  /**
+   * Switch the language of analyzed text. Languages without built-in rules
+   * are analyzed as English.
+   */
+  setLanguage(language: string): void {
+    this.language = resolveReadabilityLanguage(language);
+  }
+
+  getLanguage(): string {
+    return this.language;
+  }
+
   /**
    * Clear session memory
    */
   clearMemory(): void {
-    this.sessionMemory.explanations.clear();
-    this.sessionMemory.adaptations.clear();
-    this.sessionMemory.timestamp = Date.now();
+    this.sessionMemory.clear();
+  }
+
+  /**
+   * Load persisted session memory. Call once before relying on
+   * `hasExplained()` or cached adaptations after a reload.
+   */
+  async loadMemory(): Promise<void> {
+    await this.sessionMemory.initialize();
+  }
+
+  /**
+   * Whether `topic` was already explained in this or a persisted session
+   */
+  hasExplained(topic: string): boolean {
+    return this.memoryEnabled && this.sessionMemory.hasExplained(topic);
+  }
+
+  /**
+   * Record that `topic` has been explained so it is not explained again
+   */
+  markExplained(topic: string, detail: string = this.preferences.explanationLevel): ExplanationRecord | null {
+    return this.memoryEnabled ? this.sessionMemory.markExplained(topic, detail) : null;
+  }
+
+  /**
+   * Return `explanation` the first time `topic` comes up and null after
+   * that, recording it as explained
+   */
+  explainOnce(topic: string, explanation: string): string | null {
+    if (this.hasExplained(topic)) {
+      return null;
+    }
+    this.markExplained(topic);
+    return explanation;
+  }
+
+  /**
+   * Session memory, for export, import and events
+   */
+  getSessionMemory(): SessionMemory {
+    return this.sessionMemory;
   }
 
   /**
@@ -187,14 +422,26 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
     const words = this.countWords(text);
     const sentences = this.splitIntoSentences(text);
     const complexWords = this.countComplexWords(text);
+    const statistics = computeTextStatistics(text, this.language, {
+      wordCount: words,
+      sentenceCount: sentences.length,
+    });
+
+    const readability: Record<string, number> = {};
+    for (const metric of this.getMetrics()) {
+      readability[metric.id] = metric.compute(statistics);
+    }
     
     const metrics: TextMetrics = {
       wordCount: words,
       sentenceCount: sentences.length,
       averageWordsPerSentence: words / Math.max(sentences.length, 1),
       complexWords,
+      syllableCount: statistics.syllables,
       readingTimeEstimate: this.readingTimeEstimate(text),
-      fleschScore: this.calculateFleschScore(words, sentences.length, complexWords),
+      fleschScore: readability[getEaseMetricId(this.language)] ?? 0,
+      readability,
+      language: this.language,
       denseSections: this.denseSections(text),
     };
 
@@ -271,22 +518,72 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
       strategy = 'chunk';
     }
 
+    if (strategy === 'offerBreak') {
+      this.breakOffered = true;
+    }
+
     this.emit('strategy-suggested', strategy, context || 'high cognitive load detected');
   }
 
+  /**
+   * Emit the session score and tier changes, and offer a break once per
+   * stretch in the high tier: straight away from 85, or after
+   * `breakAfterMs` of sustained high load
+   */
+  private updateSessionScore(): void {
+    clearTimeout(this.updateTimer);
+    this.updateTimer = undefined;
+
+    const session = this.getSessionScore();
+    this.emit('session-score', session);
+
+    const previous = this.sessionTier;
+    this.sessionTier = session.tier;
+    if (session.tier !== previous) {
+      this.emit('tier-change', session.tier, previous);
+    }
+
+    if (session.tier !== 'high') {
+      this.highSince = null;
+      this.breakOffered = false;
+      clearTimeout(this.breakTimer);
+      this.breakTimer = undefined;
+      return;
+    }
+
+    const now = this.now();
+    this.highSince ??= now;
+    if (this.breakOffered) {
+      return;
+    }
+    if (session.score >= 85 || now - this.highSince >= this.breakAfterMs) {
+      this.breakOffered = true;
+      clearTimeout(this.breakTimer);
+      this.breakTimer = undefined;
+      this.emit('strategy-suggested', 'offerBreak', 'sustained cognitive load detected');
+    } else if (this.breakTimer === undefined) {
+      // A user stuck under high load may stop interacting, so check again
+      // once the stretch is long enough rather than waiting for a signal
+      this.breakTimer = setTimeout(() => {
+        this.breakTimer = undefined;
+        this.updateSessionScore();
+      }, this.highSince + this.breakAfterMs - now);
+    }
+  }
+
+  private clearTimers(): void {
+    clearTimeout(this.updateTimer);
+    clearTimeout(this.breakTimer);
+    this.updateTimer = undefined;
+    this.breakTimer = undefined;
+  }
+
   private initializeStrategies(): void {
     // Chunking strategy
     this.strategies.set('chunk', (text: string) => {
-      const sentences = this.splitIntoSentences(text);
-      const chunkSize = this.preferences.chunkSize || 3;
-      const chunks: string[] = [];
-
-      for (let i = 0; i < sentences.length; i += chunkSize) {
-        const chunk = sentences.slice(i, i + chunkSize).join(' ');
-        chunks.push(chunk);
-      }
-
-      return chunks.join('\n\n[Continue when ready]\n\n');
+      return this.chunkContent(text)
+        .map(chunk => chunk.content)
+        .join(this.chunkSeparator);
     });
 
     // Break offering strategy
@@ -296,19 +593,25 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
 
     // Language simplification strategy
     this.strategies.set('simplifyLanguage', (text: string) => {
-      return text
-        .replace(/\b(utilize|utilization)\b/gi, 'use')
-        .replace(/\b(demonstrate|demonstrates)\b/gi, 'show')
-        .replace(/\b(facilitate|facilitates)\b/gi, 'help')
-        .replace(/\b(implement|implementation)\b/gi, 'put in place')
-        .replace(/\b(methodology)\b/gi, 'method')
-        .replace(/\b(subsequently)\b/gi, 'then')
-        .replace(/\b(furthermore)\b/gi, 'also')
-        .replace(/\b(nevertheless)\b/gi, 'however')
+      return this.simplifier.applyRules(text, this.preferences.explanationLevel).text
         + '\n\n[Simplified for easier reading]';
     });
   }
 
+  private expectedReadingMs(text: string): number {
+    const wordCount = this.countWords(text);
+    if (wordCount === 0) {
+      return 0;
+    }
+    const baseWPM = this.getReadingSpeed();
+
+    // Adjust for complexity
+    const complexityFactor = this.getComplexityFactor(text);
+    const adjustedWPM = baseWPM / complexityFactor;
+
+    return wordCount / adjustedWPM * 60000;
+  }
+
   private getReadingSpeed(): number {
     switch (this.preferences.readingSpeed) {
       case 'slow': return 150;
@@ -334,27 +637,18 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
   }
 
   private countComplexWords(text: string): number {
-    const words = text.toLowerCase().match(/\b\w+\b/g) || [];
+    const words = tokenizeWords(text.toLowerCase());
     return words.filter(word => this.isComplexWord(word)).length;
   }
 
   private isComplexWord(word: string): boolean {
     // Words with 3+ syllables or technical terms
     return (
-      this.countSyllables(word) >= 3 ||
-      /^(implementation|functionality|configuration|optimization|methodology)/.test(word) ||
-      word.length > 12
+      isComplexWord(word, this.language) ||
+      /^(implementation|functionality|configuration|optimization|methodology)/.test(word)
     );
   }
 
-  private countSyllables(word: string): number {
-    const vowels = word.match(/[aeiouy]+/gi);
-    const silentE = /e$/i.test(word);
-    const syllableCount = vowels ? vowels.length : 1;
-    
-    return silentE && syllableCount > 1 ? syllableCount - 1 : syllableCount;
-  }
-
   private isDenseSentence(sentence: string): boolean {
     const words = this.countWords(sentence);
     const complexWords = this.countComplexWords(sentence);
@@ -365,11 +659,4 @@ export class CognitiveLoadEngine extends EventEmitter<CognitiveLoadEvents> {
       sentence.split(',').length > 4
     );
   }
-
-  private calculateFleschScore(words: number, sentences: number, complexWords: number): number {
-    const avgSentenceLength = words / Math.max(sentences, 1);
-    const avgSyllablesPerWord = (words + complexWords) / Math.max(words, 1);
-    
-    return 206.835 - (1.015 * avgSentenceLength) - (84.6 * avgSyllablesPerWord);
-  }
 } 
\ No newline at end of file
@@ -0,0 +1,242 @@
+/**
+ * Counts gathered from a text, shared by every readability metric
+ */
+export interface TextStatistics {
+  language: string;
+  words: number;
+  sentences: number;
+  syllables: number;
+  /** Letters and digits, for character-based formulas */
+  letters: number;
+  /** Words of three or more syllables, as used by Gunning Fog and SMOG */
+  polysyllables: number;
+}
+
+/**
+ * A readability formula. Register custom ones with
+ * `CognitiveLoadEngine.registerMetric()`.
+ */
+export interface ReadabilityMetric {
+  id: string;
+  name: string;
+  /** Languages the formula is calibrated for; omit for language-independent metrics */
+  languages?: readonly string[];
+  /** `ease`: 0–100, higher is easier. `grade`: school grade needed to follow the text. */
+  scale: 'ease' | 'grade';
+  compute(stats: TextStatistics): number;
+}
+
+/**
+ * Per-language rules for counting syllables and spotting complex words
+ */
+interface LanguageProfile {
+  countSyllables(word: string): number;
+  /** Syllables from which a word counts as complex */
+  complexWordSyllables: number;
+  /** Length from which a word counts as complex */
+  longWordLength: number;
+  /** Reading ease metric on the Flesch scale, used for cognitive load scoring */
+  easeMetric: string;
+}
+
+const words = (stats: TextStatistics) => Math.max(stats.words, 1);
+const sentences = (stats: TextStatistics) => Math.max(stats.sentences, 1);
+const wordsPerSentence = (stats: TextStatistics) => stats.words / sentences(stats);
+const syllablesPerWord = (stats: TextStatistics) => stats.syllables / words(stats);
+
+/**
+ * Built-in readability metrics
+ */
+export const READABILITY_METRICS = {
+  fleschReadingEase: {
+    id: 'fleschReadingEase',
+    name: 'Flesch Reading Ease',
+    languages: ['en'],
+    scale: 'ease',
+    compute: stats => 206.835 - 1.015 * wordsPerSentence(stats) - 84.6 * syllablesPerWord(stats),
+  },
+  fleschKincaidGrade: {
+    id: 'fleschKincaidGrade',
+    name: 'Flesch-Kincaid Grade Level',
+    languages: ['en'],
+    scale: 'grade',
+    compute: stats => 0.39 * wordsPerSentence(stats) + 11.8 * syllablesPerWord(stats) - 15.59,
+  },
+  gunningFog: {
+    id: 'gunningFog',
+    name: 'Gunning Fog Index',
+    languages: ['en'],
+    scale: 'grade',
+    compute: stats => 0.4 * (wordsPerSentence(stats) + 100 * stats.polysyllables / words(stats)),
+  },
+  smog: {
+    id: 'smog',
+    name: 'SMOG Grade',
+    languages: ['en'],
+    scale: 'grade',
+    compute: stats => 1.043 * Math.sqrt(stats.polysyllables * 30 / sentences(stats)) + 3.1291,
+  },
+  colemanLiau: {
+    id: 'colemanLiau',
+    name: 'Coleman-Liau Index',
+    languages: ['en'],
+    scale: 'grade',
+    compute: stats => 0.0588 * (stats.letters / words(stats) * 100) - 0.296 * (stats.sentences / words(stats) * 100) - 15.8,
+  },
+  amstad: {
+    id: 'amstad',
+    name: 'Amstad (German Flesch)',
+    languages: ['de'],
+    scale: 'ease',
+    compute: stats => 180 - wordsPerSentence(stats) - 58.5 * syllablesPerWord(stats),
+  },
+  fernandezHuerta: {
+    id: 'fernandezHuerta',
+    name: 'Fernández-Huerta (Spanish Flesch)',
+    languages: ['es'],
+    scale: 'ease',
+    compute: stats => 206.84 - 60 * syllablesPerWord(stats) - 1.02 * wordsPerSentence(stats),
+  },
+  kandelMoles: {
+    id: 'kandelMoles',
+    name: 'Kandel-Moles (French Flesch)',
+    languages: ['fr'],
+    scale: 'ease',
+    compute: stats => 207 - 1.015 * wordsPerSentence(stats) - 73.6 * syllablesPerWord(stats),
+  },
+} satisfies Record<string, ReadabilityMetric>;
+
+/**
+ * Count vowel groups, treating each group as one syllable
+ */
+function countVowelGroups(word: string, vowels: RegExp): string[] {
+  return word.toLowerCase().match(vowels) ?? [];
+}
+
+const SPANISH_STRONG_VOWELS = /[aeoáéíóú]{2}/g;
+
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  en: {
+    countSyllables: word => {
+      const count = Math.max(countVowelGroups(word, /[aeiouy]+/g).length, 1);
+      // Silent final e: "make", "house"
+      return /e$/i.test(word) && count > 1 ? count - 1 : count;
+    },
+    complexWordSyllables: 3,
+    longWordLength: 12,
+    easeMetric: 'fleschReadingEase',
+  },
+  de: {
+    // Diphthongs (ei, au, eu, äu, ie) are single vowel groups already
+    countSyllables: word => Math.max(countVowelGroups(word, /[aeiouyäöü]+/g).length, 1),
+    // Compounds make long words routine in German
+    complexWordSyllables: 4,
+    longWordLength: 16,
+    easeMetric: 'amstad',
+  },
+  es: {
+    countSyllables: word => {
+      const groups = countVowelGroups(word, /[aeiouáéíóúü]+/g);
+      // Two strong vowels side by side are separate syllables (hiatus): "le-er"
+      const hiatus = groups.reduce((sum, group) => sum + (group.match(SPANISH_STRONG_VOWELS)?.length ?? 0), 0);
+      return Math.max(groups.length + hiatus, 1);
+    },
+    // Spanish averages about two syllables per word
+    complexWordSyllables: 4,
+    longWordLength: 12,
+    easeMetric: 'fernandezHuerta',
+  },
+  fr: {
+    countSyllables: word => {
+      const count = Math.max(countVowelGroups(word, /[aeiouyàâäéèêëîïôöùûüœæ]+/g).length, 1);
+      // Mute final e: "table", "tables"
+      return /[^aeiouy]es?$/i.test(word) && count > 1 ? count - 1 : count;
+    },
+    complexWordSyllables: 4,
+    longWordLength: 12,
+    easeMetric: 'kandelMoles',
+  },
+};
+
+/**
+ * Primary language subtag with a built-in profile: `de-AT` → `de`.
+ * Unsupported languages fall back to English.
+ */
+export function resolveReadabilityLanguage(language: string): string {
+  const primary = language.toLowerCase().split(/[-_]/)[0] ?? '';
+  return primary in LANGUAGE_PROFILES ? primary : 'en';
+}
+
+function getProfile(language: string): LanguageProfile {
+  return LANGUAGE_PROFILES[resolveReadabilityLanguage(language)]!;
+}
+
+/**
+ * Languages with built-in syllable counting and a reading ease metric
+ */
+export const READABILITY_LANGUAGES = Object.keys(LANGUAGE_PROFILES);
+
+/**
+ * Split text into words, keeping accented letters and inner apostrophes
+ * and hyphens
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) ?? [];
+}
+
+export function countSyllables(word: string, language = 'en'): number {
+  return getProfile(language).countSyllables(word);
+}
+
+export function isComplexWord(word: string, language = 'en'): boolean {
+  const profile = getProfile(language);
+  return profile.countSyllables(word) >= profile.complexWordSyllables || word.length > profile.longWordLength;
+}
+
+/**
+ * Id of the reading ease metric used for a language
+ */
+export function getEaseMetricId(language: string): string {
+  return getProfile(language).easeMetric;
+}
+
+/**
+ * Gather the statistics readability metrics need. `wordCount` and
+ * `sentenceCount` let callers keep their own word and sentence splitting.
+ */
+export function computeTextStatistics(
+  text: string,
+  language: string,
+  counts: { wordCount: number; sentenceCount: number }
+): TextStatistics {
+  const profile = getProfile(language);
+  const tokens = tokenizeWords(text);
+  let syllables = 0;
+  let polysyllables = 0;
+  let letters = 0;
+
+  for (const token of tokens) {
+    const count = profile.countSyllables(token);
+    syllables += count;
+    if (count >= 3) {
+      polysyllables++;
+    }
+    letters += token.replace(/['’-]/g, '').length;
+  }
+
+  return {
+    language: resolveReadabilityLanguage(language),
+    words: counts.wordCount,
+    sentences: counts.sentenceCount,
+    syllables,
+    letters,
+    polysyllables,
+  };
+}
+
+/**
+ * Whether a metric applies to text in `language`
+ */
+export function isMetricForLanguage(metric: ReadabilityMetric, language: string): boolean {
+  return !metric.languages || metric.languages.includes(resolveReadabilityLanguage(language));
+}
@@ -0,0 +1,367 @@
+import { EventEmitter } from 'eventemitter3';
+import { z, ZodError } from 'zod';
+
+import { PreferencesSchema, type Preferences } from '../preferences/schemas.js';
+import type { PreferenceStorage } from '../preferences/storage.js';
+
+const ExplanationRecordSchema = z.object({
+  topic: z.string().min(1),
+  /** How the topic was explained, e.g. an explanation level or a short summary */
+  detail: z.string().optional(),
+  firstExplainedAt: z.string().datetime(),
+  lastExplainedAt: z.string().datetime(),
+  count: z.number().int().min(1),
+  expiresAt: z.string().datetime().nullable(),
+});
+
+const AdaptationRecordSchema = z.object({
+  key: z.string().min(1),
+  strategy: z.string(),
+  result: z.string(),
+  createdAt: z.string().datetime(),
+  expiresAt: z.string().datetime().nullable(),
+});
+
+export const SessionMemorySnapshotSchema = z.object({
+  version: z.literal(1),
+  startedAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  explanations: z.array(ExplanationRecordSchema),
+  adaptations: z.array(AdaptationRecordSchema),
+});
+
+export type ExplanationRecord = z.infer<typeof ExplanationRecordSchema>;
+export type AdaptationRecord = z.infer<typeof AdaptationRecordSchema>;
+export type SessionMemorySnapshot = z.infer<typeof SessionMemorySnapshotSchema>;
+
+/**
+ * Events emitted by SessionMemory
+ */
+export interface SessionMemoryEvents {
+  loaded: (snapshot: SessionMemorySnapshot) => void;
+  saved: (snapshot: SessionMemorySnapshot) => void;
+  explained: (record: ExplanationRecord) => void;
+  cleared: () => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * Configuration for SessionMemory
+ */
+export interface SessionMemoryOptions {
+  /** Backend to persist to; memory stays in-process without one */
+  storage?: PreferenceStorage;
+  storageKey?: string;
+  /** How long a topic counts as explained; null keeps it until cleared */
+  explanationTtlMs?: number | null;
+  /** How long an adapted text is reused; null keeps it until cleared */
+  adaptationTtlMs?: number | null;
+  /** Save after every change */
+  autoSave?: boolean;
+  /** Clock, replaceable for tests */
+  now?: () => number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Topics are matched case- and whitespace-insensitively
+ */
+function normalizeTopic(topic: string): string {
+  return topic.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * SessionMemory remembers which topics a user has had explained and which
+ * adapted texts they have been shown, with expiry. It persists through a
+ * PreferenceStorage under its own key, stored in the `metadata` of a
+ * default preferences record, and can be exported for review.
+ */
+export class SessionMemory extends EventEmitter<SessionMemoryEvents> {
+  private readonly storage: PreferenceStorage | null;
+  private readonly storageKey: string;
+  private readonly explanationTtlMs: number | null;
+  private readonly adaptationTtlMs: number | null;
+  private readonly autoSave: boolean;
+  private readonly now: () => number;
+  private explanations = new Map<string, ExplanationRecord>();
+  private adaptations = new Map<string, AdaptationRecord>();
+  private startedAt: number;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private loading: Promise<void> = Promise.resolve();
+
+  constructor(options: SessionMemoryOptions = {}) {
+    super();
+
+    this.storage = options.storage ?? null;
+    this.storageKey = options.storageKey || 'cognitive-session';
+    this.explanationTtlMs = options.explanationTtlMs === undefined ? 30 * DAY_MS : options.explanationTtlMs;
+    this.adaptationTtlMs = options.adaptationTtlMs === undefined ? DAY_MS : options.adaptationTtlMs;
+    this.autoSave = options.autoSave ?? true;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+  }
+
+  /**
+   * Load saved memory from storage, dropping expired entries. Loaded
+   * records are merged into anything recorded before the load finished,
+   * newer records winning, and saves wait for the load so they cannot
+   * overwrite the stored memory first. Unreadable data is reported through
+   * `error` and ignored.
+   */
+  async initialize(): Promise<void> {
+    this.loading = this.load();
+    await this.loading;
+  }
+
+  /**
+   * Whether `topic` has been explained and the record has not expired
+   */
+  hasExplained(topic: string): boolean {
+    return this.getExplanation(topic) !== null;
+  }
+
+  getExplanation(topic: string): ExplanationRecord | null {
+    const key = normalizeTopic(topic);
+    const record = this.explanations.get(key);
+    if (!record) {
+      return null;
+    }
+    if (this.isExpired(record.expiresAt)) {
+      this.explanations.delete(key);
+      return null;
+    }
+    return { ...record };
+  }
+
+  /**
+   * Record that `topic` was explained. Explaining it again extends the
+   * expiry and increments the count.
+   */
+  markExplained(topic: string, detail?: string): ExplanationRecord {
+    const key = normalizeTopic(topic);
+    const now = new Date(this.now()).toISOString();
+    const existing = this.getExplanation(topic);
+    const detailText = detail ?? existing?.detail;
+    const record: ExplanationRecord = {
+      topic: existing?.topic ?? topic.trim(),
+      ...(detailText !== undefined && { detail: detailText }),
+      firstExplainedAt: existing?.firstExplainedAt ?? now,
+      lastExplainedAt: now,
+      count: (existing?.count ?? 0) + 1,
+      expiresAt: this.expiryFromNow(this.explanationTtlMs),
+    };
+
+    this.explanations.set(key, record);
+    this.emit('explained', { ...record });
+    this.scheduleSave();
+    return { ...record };
+  }
+
+  forgetExplanation(topic: string): void {
+    if (this.explanations.delete(normalizeTopic(topic))) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Topics explained so far, oldest first
+   */
+  getExplainedTopics(): ExplanationRecord[] {
+    this.pruneExpired();
+    return [...this.explanations.values()]
+      .sort((a, b) => a.firstExplainedAt.localeCompare(b.firstExplainedAt))
+      .map(record => ({ ...record }));
+  }
+
+  getAdaptation(key: string): string | null {
+    const record = this.adaptations.get(key);
+    if (!record) {
+      return null;
+    }
+    if (this.isExpired(record.expiresAt)) {
+      this.adaptations.delete(key);
+      return null;
+    }
+    return record.result;
+  }
+
+  setAdaptation(key: string, strategy: string, result: string): void {
+    this.adaptations.set(key, {
+      key,
+      strategy,
+      result,
+      createdAt: new Date(this.now()).toISOString(),
+      expiresAt: this.expiryFromNow(this.adaptationTtlMs),
+    });
+    this.scheduleSave();
+  }
+
+  /**
+   * Forget everything and start a new session
+   */
+  clear(): void {
+    this.explanations.clear();
+    this.adaptations.clear();
+    this.startedAt = this.now();
+    this.emit('cleared');
+    this.scheduleSave();
+  }
+
+  /**
+   * Persist the current memory
+   */
+  async save(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    // Never write before a pending load has read what is stored
+    await this.loading;
+    const snapshot = this.snapshot();
+    try {
+      await this.storage.set(this.storageKey, this.toPreferences(snapshot));
+      this.emit('saved', snapshot);
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      this.emit('error', errorObj);
+      throw errorObj;
+    }
+  }
+
+  /**
+   * Wait for automatic saves to finish
+   */
+  async flush(): Promise<void> {
+    await this.pendingSave;
+  }
+
+  /**
+   * Export the memory as JSON, e.g. for a support worker to review what a
+   * user has been shown
+   */
+  export(): string {
+    return JSON.stringify(this.snapshot(), null, 2);
+  }
+
+  /**
+   * Import memory exported by `export()`. With `merge`, imported entries
+   * are added to the current ones, newer records winning; otherwise they
+   * replace them.
+   */
+  async import(json: string, options: { merge?: boolean } = {}): Promise<void> {
+    let snapshot: SessionMemorySnapshot;
+    try {
+      snapshot = SessionMemorySnapshotSchema.parse(JSON.parse(json));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error('Invalid JSON format');
+      }
+      if (error instanceof ZodError) {
+        throw new Error(`Invalid session memory format: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+      }
+      throw error;
+    }
+
+    if (options.merge) {
+      this.merge(snapshot);
+    } else {
+      this.restore(snapshot);
+    }
+
+    if (this.autoSave) {
+      await this.save();
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const stored = await this.storage.get(this.storageKey);
+      const snapshot = stored?.metadata?.['sessionMemory'];
+      if (snapshot !== undefined) {
+        const parsed = SessionMemorySnapshotSchema.parse(snapshot);
+        this.startedAt = Math.min(this.startedAt, Date.parse(parsed.startedAt));
+        this.merge(parsed);
+        this.emit('loaded', this.snapshot());
+      }
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      this.emit('error', errorObj);
+    }
+  }
+
+  private snapshot(): SessionMemorySnapshot {
+    this.pruneExpired();
+    return {
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+      updatedAt: new Date(this.now()).toISOString(),
+      explanations: [...this.explanations.values()].map(record => ({ ...record })),
+      adaptations: [...this.adaptations.values()].map(record => ({ ...record })),
+    };
+  }
+
+  private restore(snapshot: SessionMemorySnapshot): void {
+    this.startedAt = Date.parse(snapshot.startedAt);
+    this.explanations = new Map(snapshot.explanations.map(record => [normalizeTopic(record.topic), record]));
+    this.adaptations = new Map(snapshot.adaptations.map(record => [record.key, record]));
+    this.pruneExpired();
+  }
+
+  private merge(snapshot: SessionMemorySnapshot): void {
+    for (const record of snapshot.explanations) {
+      const existing = this.explanations.get(normalizeTopic(record.topic));
+      if (!existing || existing.lastExplainedAt < record.lastExplainedAt) {
+        this.explanations.set(normalizeTopic(record.topic), record);
+      }
+    }
+    for (const record of snapshot.adaptations) {
+      const existing = this.adaptations.get(record.key);
+      if (!existing || existing.createdAt < record.createdAt) {
+        this.adaptations.set(record.key, record);
+      }
+    }
+    this.pruneExpired();
+  }
+
+  private toPreferences(snapshot: SessionMemorySnapshot): Preferences {
+    return PreferencesSchema.parse({
+      sensory: {},
+      cognitive: {},
+      ai: {},
+      vr: {},
+      lastModified: snapshot.updatedAt,
+      metadata: { sessionMemory: snapshot },
+    });
+  }
+
+  private scheduleSave(): void {
+    if (!this.autoSave || !this.storage) {
+      return;
+    }
+    // Chain saves so they land in order, after any load (see save());
+    // failures are reported via `error`
+    this.pendingSave = this.pendingSave.then(() => this.save()).catch(() => {});
+  }
+
+  private pruneExpired(): void {
+    for (const [key, record] of this.explanations) {
+      if (this.isExpired(record.expiresAt)) this.explanations.delete(key);
+    }
+    for (const [key, record] of this.adaptations) {
+      if (this.isExpired(record.expiresAt)) this.adaptations.delete(key);
+    }
+  }
+
+  private isExpired(expiresAt: string | null): boolean {
+    return expiresAt !== null && Date.parse(expiresAt) <= this.now();
+  }
+
+  private expiryFromNow(ttlMs: number | null): string | null {
+    return ttlMs === null ? null : new Date(this.now() + ttlMs).toISOString();
+  }
+}
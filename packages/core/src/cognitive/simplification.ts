@@ -0,0 +1,471 @@
+import type { CognitivePreferences } from '../preferences/schemas.js';
+
+/**
+ * Common European Framework of Reference language levels
+ */
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+const CEFR_ORDER: Record<CefrLevel, number> = { A1: 1, A2: 2, B1: 3, B2: 4, C1: 5, C2: 6 };
+
+/**
+ * A word or phrase and its plain-language replacement
+ */
+export interface PlainLanguageEntry {
+  term: string;
+  replacement: string;
+  /** Level at which readers are expected to know the term */
+  cefr: CefrLevel;
+}
+
+export type ExplanationLevel = CognitivePreferences['explanationLevel'];
+
+/**
+ * What the pipeline does at each explanation level
+ */
+export interface SimplificationProfile {
+  /** Terms above this level are replaced */
+  targetLevel: CefrLevel;
+  /** Sentences longer than this are split where they have a clean boundary */
+  maxSentenceWords: number;
+  activeVoice: boolean;
+  glossary: boolean;
+  /** Use the AI rewrite when an adapter is configured */
+  aiRewrite: boolean;
+}
+
+export const SIMPLIFICATION_PROFILES: Record<ExplanationLevel, SimplificationProfile> = {
+  simple: { targetLevel: 'A2', maxSentenceWords: 15, activeVoice: true, glossary: true, aiRewrite: true },
+  detailed: { targetLevel: 'B1', maxSentenceWords: 25, activeVoice: true, glossary: true, aiRewrite: true },
+  expert: { targetLevel: 'C1', maxSentenceWords: Infinity, activeVoice: false, glossary: false, aiRewrite: false },
+};
+
+/**
+ * Built-in English plain-language lexicon
+ */
+export const DEFAULT_PLAIN_LANGUAGE_LEXICON: readonly PlainLanguageEntry[] = [
+  { term: 'utilize', replacement: 'use', cefr: 'B2' },
+  { term: 'utilizes', replacement: 'uses', cefr: 'B2' },
+  { term: 'utilized', replacement: 'used', cefr: 'B2' },
+  { term: 'utilizing', replacement: 'using', cefr: 'B2' },
+  { term: 'utilization', replacement: 'use', cefr: 'C1' },
+  { term: 'demonstrate', replacement: 'show', cefr: 'B2' },
+  { term: 'demonstrates', replacement: 'shows', cefr: 'B2' },
+  { term: 'demonstrated', replacement: 'showed', cefr: 'B2' },
+  { term: 'facilitate', replacement: 'help', cefr: 'C1' },
+  { term: 'facilitates', replacement: 'helps', cefr: 'C1' },
+  { term: 'implement', replacement: 'put in place', cefr: 'B2' },
+  { term: 'implementation', replacement: 'put in place', cefr: 'B2' },
+  { term: 'methodology', replacement: 'method', cefr: 'C1' },
+  { term: 'subsequently', replacement: 'then', cefr: 'B2' },
+  { term: 'furthermore', replacement: 'also', cefr: 'B2' },
+  { term: 'nevertheless', replacement: 'however', cefr: 'B2' },
+  { term: 'consequently', replacement: 'so', cefr: 'B2' },
+  { term: 'accordingly', replacement: 'so', cefr: 'C1' },
+  { term: 'commence', replacement: 'start', cefr: 'C1' },
+  { term: 'terminate', replacement: 'end', cefr: 'B2' },
+  { term: 'endeavor', replacement: 'try', cefr: 'C1' },
+  { term: 'approximately', replacement: 'about', cefr: 'B1' },
+  { term: 'sufficient', replacement: 'enough', cefr: 'B2' },
+  { term: 'numerous', replacement: 'many', cefr: 'B2' },
+  { term: 'additional', replacement: 'more', cefr: 'B1' },
+  { term: 'assist', replacement: 'help', cefr: 'B1' },
+  { term: 'obtain', replacement: 'get', cefr: 'B2' },
+  { term: 'purchase', replacement: 'buy', cefr: 'B1' },
+  { term: 'require', replacement: 'need', cefr: 'B1' },
+  { term: 'requires', replacement: 'needs', cefr: 'B1' },
+  { term: 'modify', replacement: 'change', cefr: 'B2' },
+  { term: 'indicate', replacement: 'show', cefr: 'B2' },
+  { term: 'inquire', replacement: 'ask', cefr: 'B2' },
+  { term: 'regarding', replacement: 'about', cefr: 'B2' },
+  { term: 'prior to', replacement: 'before', cefr: 'B2' },
+  { term: 'in order to', replacement: 'to', cefr: 'B1' },
+  { term: 'expedite', replacement: 'speed up', cefr: 'C1' },
+  { term: 'ascertain', replacement: 'find out', cefr: 'C2' },
+  { term: 'ameliorate', replacement: 'improve', cefr: 'C2' },
+  { term: 'notwithstanding', replacement: 'despite', cefr: 'C2' },
+  { term: 'aforementioned', replacement: 'this', cefr: 'C2' },
+];
+
+/**
+ * Chat message shape shared with `AIAdapter` from the AI package
+ */
+export interface SimplificationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: number;
+}
+
+/**
+ * The part of `AIAdapter` the simplifier needs; any adapter from the AI
+ * package fits
+ */
+export interface SimplificationAIAdapter {
+  complete(
+    messages: SimplificationMessage[],
+    options?: { maxTokens?: number; temperature?: number }
+  ): Promise<{ content: string }>;
+}
+
+/**
+ * Configuration options for PlainLanguageSimplifier
+ */
+export interface SimplifierOptions {
+  /** Replaces the built-in lexicon; spread DEFAULT_PLAIN_LANGUAGE_LEXICON to extend it */
+  lexicon?: readonly PlainLanguageEntry[];
+  /** Jargon and its definition, inserted in parentheses on first use */
+  glossary?: Record<string, string>;
+  ai?: SimplificationAIAdapter;
+  /** Minimum content overlap for an AI rewrite to be accepted, 0–1 */
+  minFaithfulness?: number;
+}
+
+export type SimplificationChangeType = 'lexicon' | 'active-voice' | 'split' | 'glossary' | 'ai-rewrite';
+
+export interface SimplificationChange {
+  type: SimplificationChangeType;
+  from: string;
+  to: string;
+}
+
+/**
+ * Whether a rewrite kept the meaning of the original
+ */
+export interface FaithfulnessReport {
+  faithful: boolean;
+  /** Share of the original's content words found in the rewrite, 0–1 */
+  score: number;
+  issues: string[];
+}
+
+export interface SimplificationResult {
+  text: string;
+  original: string;
+  level: ExplanationLevel;
+  changes: SimplificationChange[];
+  usedAI: boolean;
+  /** Present when an AI rewrite was attempted */
+  faithfulness?: FaithfulnessReport;
+  /** Why an attempted AI rewrite was not used */
+  fallbackReason?: string;
+}
+
+// Past participles that differ from the simple past, for active voice rewrites
+const IRREGULAR_PARTICIPLES: Record<string, string> = {
+  written: 'wrote', given: 'gave', taken: 'took', seen: 'saw', done: 'did',
+  chosen: 'chose', known: 'knew', shown: 'showed', driven: 'drove', eaten: 'ate',
+  broken: 'broke', spoken: 'spoke', forgotten: 'forgot', begun: 'began', drawn: 'drew',
+  grown: 'grew', thrown: 'threw', hidden: 'hid', stolen: 'stole', frozen: 'froze',
+  made: 'made', built: 'built', sent: 'sent', found: 'found', held: 'held',
+  paid: 'paid', told: 'told', sold: 'sold', bought: 'bought', brought: 'brought',
+  caught: 'caught', taught: 'taught', thought: 'thought', led: 'led', kept: 'kept',
+  left: 'left', read: 'read', run: 'ran', set: 'set', put: 'put', won: 'won',
+};
+
+const DETERMINERS = new Set(['the', 'a', 'an', 'this', 'that', 'these', 'those', 'our', 'your', 'their', 'his', 'her', 'its', 'my', 'some', 'each', 'every']);
+
+// Personal pronouns by case, for swapping subject and object
+const SUBJECT_PRONOUNS: Record<string, string> = { i: 'me', he: 'him', she: 'her', we: 'us', they: 'them', it: 'it', you: 'you' };
+const OBJECT_PRONOUNS: Record<string, string> = { me: 'I', him: 'he', her: 'she', us: 'we', them: 'they', it: 'it', you: 'you' };
+const PLURAL_PRONOUNS = new Set(['I', 'we', 'they', 'you']);
+
+const PASSIVE_SENTENCE = /^(\s*)([^,;]+?)\s+(was|were|has been|have been)\s+([a-z]+)\s+by\s+([^,;]+?)([.!?]*)(\s*)$/i;
+
+const SPLIT_BOUNDARY = /;\s+|,\s+(?:and|but|so)\s+/gi;
+
+const NEGATION = /\b(?:not|no|never|none|nobody|nothing|neither|nor|cannot|without)\b|n't\b/gi;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'being', 'between', 'both', 'could', 'does', 'each', 'from',
+  'have', 'into', 'just', 'more', 'most', 'much', 'must', 'only', 'other', 'over', 'same', 'should', 'some',
+  'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through',
+  'very', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your',
+]);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Whether a sentence-initial subject is capitalised only because it starts
+ * the sentence. "The board" and "Old files" are; "Sam" and "New York" are
+ * not, and a lone capitalised word counts as a name unless its plural verb
+ * says otherwise ("Results were").
+ */
+function isCommonNounPhrase(subject: string, auxiliary: string): boolean {
+  const [first = '', ...rest] = subject.split(/\s+/);
+  if (DETERMINERS.has(first.toLowerCase())) {
+    return true;
+  }
+  if (!/^[A-Z][a-z]+$/.test(first)) {
+    return false;
+  }
+  return rest.length > 0
+    ? rest.every(word => !/^[A-Z]/.test(word))
+    : /^(?:were|have been)$/i.test(auxiliary) && /s$/.test(first);
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph.match(/[^.!?]+(?:[.!?]+["'”’)\]]*\s*|$)/g) ?? [];
+}
+
+/**
+ * Compare a rewrite with its original: numbers, names and negations must
+ * survive, and most content words (or their plain-language replacements)
+ * must still be there
+ */
+export function checkFaithfulness(
+  original: string,
+  rewrite: string,
+  options: { lexicon?: readonly PlainLanguageEntry[]; minScore?: number } = {}
+): FaithfulnessReport {
+  const issues: string[] = [];
+  const rewriteLower = rewrite.toLowerCase();
+
+  for (const number of original.match(/\d+(?:[.,]\d+)*/g) ?? []) {
+    if (!rewrite.includes(number)) {
+      issues.push(`Missing number: ${number}`);
+    }
+  }
+
+  // Capitalized words that do not start a sentence are taken as names
+  for (const [, name] of original.matchAll(/(?<![.!?]\s+|^)\b([A-Z][a-zA-Z]+)/g)) {
+    if (name && !rewriteLower.includes(name.toLowerCase())) {
+      issues.push(`Missing name: ${name}`);
+    }
+  }
+
+  const originalNegations = original.match(NEGATION)?.length ?? 0;
+  const rewriteNegations = rewrite.match(NEGATION)?.length ?? 0;
+  if (rewriteNegations < originalNegations) {
+    issues.push('Negation dropped');
+  }
+
+  const replacements = new Map((options.lexicon ?? DEFAULT_PLAIN_LANGUAGE_LEXICON).map(entry => [entry.term, entry.replacement.toLowerCase()]));
+  const contentWords = [...new Set(original.toLowerCase().match(/[a-z]{4,}/g) ?? [])].filter(word => !STOPWORDS.has(word));
+  const kept = contentWords.filter(word => {
+    // Match on a stem so "configured" still counts as "configure"
+    const stem = word.length > 5 ? word.slice(0, -2) : word;
+    const replacement = replacements.get(word);
+    return rewriteLower.includes(stem) || (replacement !== undefined && rewriteLower.includes(replacement));
+  });
+  const score = contentWords.length === 0 ? 1 : kept.length / contentWords.length;
+  if (score < (options.minScore ?? 0.5)) {
+    issues.push(`Low content overlap: ${Math.round(score * 100)}%`);
+  }
+
+  const ratio = countWords(rewrite) / Math.max(countWords(original), 1);
+  if (ratio > 1.8) {
+    issues.push('Rewrite adds content');
+  } else if (ratio < 0.3) {
+    issues.push('Rewrite drops content');
+  }
+
+  return { faithful: issues.length === 0, score, issues };
+}
+
+/**
+ * PlainLanguageSimplifier rewrites English text in plain language. The
+ * rule pipeline swaps hard words from a CEFR-levelled lexicon, turns
+ * simple passives active, splits long sentences at clean boundaries and
+ * defines jargon on first use. With an AI adapter, `simplify()` asks the
+ * model for a rewrite and keeps it only if it passes a faithfulness check.
+ */
+export class PlainLanguageSimplifier {
+  private readonly lexicon: readonly PlainLanguageEntry[];
+  private readonly glossary: Record<string, string>;
+  private readonly ai: SimplificationAIAdapter | null;
+  private readonly minFaithfulness: number;
+
+  constructor(options: SimplifierOptions = {}) {
+    // Longest terms first, so phrases win over the words inside them
+    this.lexicon = [...(options.lexicon ?? DEFAULT_PLAIN_LANGUAGE_LEXICON)].sort((a, b) => b.term.length - a.term.length);
+    this.glossary = options.glossary ?? {};
+    this.ai = options.ai ?? null;
+    this.minFaithfulness = options.minFaithfulness ?? 0.5;
+  }
+
+  /**
+   * Simplify with the AI rewrite where the level allows it, falling back
+   * to the rule pipeline when there is no adapter, the call fails or the
+   * rewrite is not faithful
+   */
+  async simplify(text: string, level: ExplanationLevel = 'detailed'): Promise<SimplificationResult> {
+    const profile = SIMPLIFICATION_PROFILES[level];
+    if (!this.ai || !profile.aiRewrite || text.trim() === '') {
+      return this.applyRules(text, level);
+    }
+
+    let rewrite: string;
+    try {
+      const response = await this.ai.complete([
+        { role: 'system', content: this.buildPrompt(profile), timestamp: Date.now() },
+        { role: 'user', content: text, timestamp: Date.now() },
+      ], { temperature: 0 });
+      rewrite = response.content.trim();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...this.applyRules(text, level), fallbackReason: `AI rewrite failed: ${message}` };
+    }
+
+    const faithfulness = checkFaithfulness(text, rewrite, { lexicon: this.lexicon, minScore: this.minFaithfulness });
+    if (!faithfulness.faithful) {
+      return {
+        ...this.applyRules(text, level),
+        faithfulness,
+        fallbackReason: `AI rewrite was not faithful: ${faithfulness.issues.join('; ')}`,
+      };
+    }
+
+    // Glossary definitions are ours to add, not the model's
+    const changes: SimplificationChange[] = [{ type: 'ai-rewrite', from: text, to: rewrite }];
+    const result = profile.glossary ? this.insertGlossary(rewrite, changes) : rewrite;
+    return { text: result, original: text, level, changes, usedAI: true, faithfulness };
+  }
+
+  /**
+   * Run the rule pipeline only; synchronous
+   */
+  applyRules(text: string, level: ExplanationLevel = 'detailed'): SimplificationResult {
+    const profile = SIMPLIFICATION_PROFILES[level];
+    const changes: SimplificationChange[] = [];
+
+    let result = this.replaceTerms(text, profile.targetLevel, changes);
+
+    result = result
+      .split(/(\n\s*\n)/)
+      .map(part => /^\n\s*\n$/.test(part) ? part : splitSentences(part)
+        .map(sentence => profile.activeVoice ? this.toActiveVoice(sentence, changes) : sentence)
+        .flatMap(sentence => this.splitLongSentence(sentence, profile.maxSentenceWords, changes))
+        .join(''))
+      .join('');
+
+    if (profile.glossary) {
+      result = this.insertGlossary(result, changes);
+    }
+
+    return { text: result, original: text, level, changes, usedAI: false };
+  }
+
+  private buildPrompt(profile: SimplificationProfile): string {
+    return [
+      `Rewrite the user's text in plain English for a reader at CEFR level ${profile.targetLevel}.`,
+      `Use short sentences of at most ${Number.isFinite(profile.maxSentenceWords) ? profile.maxSentenceWords : 25} words and the active voice.`,
+      'Keep every fact, number, name and negation. Do not add information.',
+      'Reply with the rewritten text only.',
+    ].join(' ');
+  }
+
+  private replaceTerms(text: string, targetLevel: CefrLevel, changes: SimplificationChange[]): string {
+    let result = text;
+    for (const entry of this.lexicon) {
+      if (CEFR_ORDER[entry.cefr] <= CEFR_ORDER[targetLevel]) {
+        continue;
+      }
+      const pattern = new RegExp(`\\b${escapeRegExp(entry.term).replace(/\s+/g, '\\s+')}\\b`, 'gi');
+      result = result.replace(pattern, match => {
+        const replacement = /^[A-Z]/.test(match) ? capitalize(entry.replacement) : entry.replacement;
+        changes.push({ type: 'lexicon', from: match, to: replacement });
+        return replacement;
+      });
+    }
+    return result;
+  }
+
+  /**
+   * "The report was written by Sam." → "Sam wrote the report." Only short,
+   * comma-free past and present perfect passives are rewritten.
+   */
+  private toActiveVoice(sentence: string, changes: SimplificationChange[]): string {
+    const match = PASSIVE_SENTENCE.exec(sentence);
+    if (!match) {
+      return sentence;
+    }
+
+    const [, lead = '', subject = '', auxiliary = '', participle = '', agent = '', punctuation = '', trail = ''] = match;
+    const lowerParticiple = participle.toLowerCase();
+    const irregular = IRREGULAR_PARTICIPLES[lowerParticiple];
+    if ((!irregular && !lowerParticiple.endsWith('ed')) || countWords(subject) > 6 || countWords(agent) > 6) {
+      return sentence;
+    }
+
+    // The agent becomes the subject and the old subject the object, so
+    // pronouns change case: "He was seen by them." → "They saw him."
+    const agentPronoun = OBJECT_PRONOUNS[agent.toLowerCase()];
+    const subjectPronoun = SUBJECT_PRONOUNS[subject.toLowerCase()];
+    if ((!agentPronoun && SUBJECT_PRONOUNS[agent.toLowerCase()]) || (!subjectPronoun && OBJECT_PRONOUNS[subject.toLowerCase()])) {
+      return sentence;
+    }
+
+    const perfect = auxiliary.toLowerCase().startsWith('ha');
+    const plural = agentPronoun ? PLURAL_PRONOUNS.has(agentPronoun) : /s$/i.test(agent) && !/ss$/i.test(agent);
+    const verb = perfect ? `${plural ? 'have' : 'has'} ${lowerParticiple}` : (irregular ?? lowerParticiple);
+    const object = subjectPronoun ?? (isCommonNounPhrase(subject, auxiliary)
+      ? subject.charAt(0).toLowerCase() + subject.slice(1)
+      : subject);
+
+    const active = `${lead}${capitalize(agentPronoun ?? agent)} ${verb} ${object}${punctuation}${trail}`;
+    changes.push({ type: 'active-voice', from: sentence.trim(), to: active.trim() });
+    return active;
+  }
+
+  /**
+   * Split at a semicolon or ", and/but/so", as near the middle as possible,
+   * until the pieces fit or no clean boundary is left
+   */
+  private splitLongSentence(sentence: string, maxWords: number, changes: SimplificationChange[]): string[] {
+    if (countWords(sentence) <= maxWords) {
+      return [sentence];
+    }
+
+    const half = countWords(sentence) / 2;
+    let best: { index: number; length: number; conjunction: string } | null = null;
+    for (const match of sentence.matchAll(SPLIT_BOUNDARY)) {
+      const index = match.index ?? 0;
+      const before = countWords(sentence.slice(0, index));
+      const after = countWords(sentence.slice(index + match[0].length));
+      if (before < 3 || after < 3) {
+        continue;
+      }
+      if (!best || Math.abs(before - half) < Math.abs(countWords(sentence.slice(0, best.index)) - half)) {
+        best = { index, length: match[0].length, conjunction: match[0].replace(/[;,]/g, '').trim().toLowerCase() };
+      }
+    }
+    if (!best) {
+      return [sentence];
+    }
+
+    const trail = /\s*$/.exec(sentence)?.[0] ?? '';
+    const first = `${sentence.slice(0, best.index).trimEnd()}. `;
+    // "and" just joins; "but" and "so" carry meaning and stay
+    const rest = sentence.slice(best.index + best.length);
+    const second = best.conjunction === 'and' || best.conjunction === '' ? capitalize(rest) : `${capitalize(best.conjunction)} ${rest}`;
+    changes.push({ type: 'split', from: sentence.trim(), to: `${first}${second}`.trim() });
+
+    return [
+      ...this.splitLongSentence(first, maxWords, changes),
+      ...this.splitLongSentence(second.trimEnd() + trail, maxWords, changes),
+    ];
+  }
+
+  private insertGlossary(text: string, changes: SimplificationChange[]): string {
+    let result = text;
+    const terms = Object.keys(this.glossary).sort((a, b) => b.length - a.length);
+    for (const term of terms) {
+      const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b(?!\\s*\\()`, 'i');
+      result = result.replace(pattern, match => {
+        const defined = `${match} (${this.glossary[term]})`;
+        changes.push({ type: 'glossary', from: match, to: defined });
+        return defined;
+      });
+    }
+    return result;
+  }
+}
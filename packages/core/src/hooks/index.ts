@@ -3,4 +3,5 @@
  * @fileoverview Export hooks that don't depend on React
  */
 
-export { useCognitiveLoad } from './useCognitiveLoad'; 
\ No newline at end of file
+export { useCognitiveLoad } from './useCognitiveLoad';
+export { useFocusTrap, useRouteFocus, useRovingTabIndex, useSkipLinks } from './useFocusManagement';
@@ -2,12 +2,23 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 
 import { CognitiveLoadEngine } from '../cognitive/index.js';
 import type { CognitivePreferences } from '../preferences/schemas.js';
-import type { CognitiveTier, AdaptationStrategy, TextMetrics } from '../cognitive/index.js';
+import type {
+  CognitiveTier,
+  AdaptationStrategy,
+  TextMetrics,
+  InteractionSignal,
+  SessionLoadScore,
+  SessionMemoryOptions,
+} from '../cognitive/index.js';
 
 export interface CognitiveLoadHookOptions {
-  sessionMemory?: boolean;
+  /** Pass options with a storage backend to persist memory across reloads */
+  sessionMemory?: boolean | SessionMemoryOptions;
   adaptationThreshold?: number;
   autoAnalyze?: boolean;
+  language?: string;
+  /** Record scrolling, typing and validation errors on the document */
+  observeInteractions?: boolean;
 }
 
 export interface CognitiveLoadHookState {
@@ -17,6 +28,7 @@ export interface CognitiveLoadHookState {
   currentTier: CognitiveTier;
   lastMetrics: TextMetrics | null;
   suggestedStrategies: AdaptationStrategy[];
+  session: SessionLoadScore | null;
 }
 
 /**
@@ -37,6 +49,7 @@ export function useCognitiveLoad(
     currentTier: 'low',
     lastMetrics: null,
     suggestedStrategies: [],
+    session: null,
   });
 
   const engineRef = useRef<CognitiveLoadEngine | null>(null);
@@ -51,6 +64,7 @@ export function useCognitiveLoad(
         preferences,
         sessionMemory: options.sessionMemory ?? true,
         adaptationThreshold: options.adaptationThreshold ?? 70,
+        ...(options.language && { language: options.language }),
       });
 
       // Set up event listeners
@@ -71,14 +85,30 @@ export function useCognitiveLoad(
         }));
       };
 
+      const onSessionScore = (session: SessionLoadScore) => {
+        setState(prev => ({ ...prev, session }));
+      };
+
       engineRef.current.on('load-score', onLoadScore);
       engineRef.current.on('strategy-suggested', onStrategySuggested);
+      engineRef.current.on('session-score', onSessionScore);
 
       cleanup.push(() => {
         engineRef.current?.off('load-score', onLoadScore);
         engineRef.current?.off('strategy-suggested', onStrategySuggested);
+        engineRef.current?.off('session-score', onSessionScore);
       });
 
+      // Load failures are reported through the session memory's error event
+      void engineRef.current.loadMemory();
+
+      if (options.observeInteractions && typeof document !== 'undefined') {
+        cleanup.push(engineRef.current.observeInteractions(document));
+      }
+
+      const engine = engineRef.current;
+      cleanup.push(() => engine.destroy());
+
       eventListenersRef.current = cleanup;
 
       setState(prev => ({ ...prev, isLoading: false }));
@@ -89,7 +119,7 @@ export function useCognitiveLoad(
         error: error instanceof Error ? error.message : 'Failed to initialize cognitive load engine' 
       }));
     }
-  }, [preferences, options.sessionMemory, options.adaptationThreshold]);
+  }, [preferences, options.sessionMemory, options.adaptationThreshold, options.language, options.observeInteractions]);
 
   // Analyze text content
   const analyzeText = useCallback((text: string, context?: string): TextMetrics | null => {
@@ -129,6 +159,17 @@ export function useCognitiveLoad(
     }
   }, []);
 
+  // Record an interaction signal
+  const recordSignal = useCallback((signal: InteractionSignal) => {
+    engineRef.current?.recordSignal(signal);
+  }, []);
+
+  // Time how long the user spends reading text
+  const trackReading = useCallback((text: string): () => void => {
+    if (!engineRef.current) return () => {};
+    return engineRef.current.trackReading(text);
+  }, []);
+
   // Get reading time estimate
   const getReadingTimeEstimate = useCallback((text: string): number => {
     if (!engineRef.current) return 0;
@@ -228,6 +269,8 @@ export function useCognitiveLoad(
     getReadingTimeEstimate,
     getDenseSections,
     getCognitiveTier,
+    recordSignal,
+    trackReading,
     
     // Adaptation functions
     applyStrategy,
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import type { RefObject } from 'react';
+
+import {
+  FocusTrap,
+  FocusRestoration,
+  RovingTabIndex,
+  SkipLinks,
+} from '../sensory/index.js';
+import type {
+  FocusTrapOptions,
+  FocusRestorationOptions,
+  RovingTabIndexOptions,
+  SkipLinksOptions,
+  SkipLink,
+} from '../sensory/index.js';
+
+export interface FocusTrapHookOptions extends FocusTrapOptions {
+  /** Called when Escape is pressed inside the trap */
+  onEscape?: () => void;
+}
+
+/**
+ * React hook that traps focus inside a container while `active`,
+ * e.g. for a modal dialog
+ *
+ * @param containerRef - Ref to the container element
+ * @param active - Whether the trap is active
+ * @param options - Configuration options
+ */
+export function useFocusTrap(
+  containerRef: RefObject<HTMLElement>,
+  active: boolean,
+  options: FocusTrapHookOptions = {}
+) {
+  const onEscapeRef = useRef(options.onEscape);
+  onEscapeRef.current = options.onEscape;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+
+    const { onEscape: _onEscape, ...trapOptions } = options;
+    const trap = new FocusTrap(container, trapOptions);
+    trap.on('escape', () => onEscapeRef.current?.());
+    trap.activate();
+
+    return () => {
+      trap.removeAllListeners();
+      trap.deactivate();
+    };
+  }, [active, containerRef, options.initialFocus, options.returnFocus, options.escapeDeactivates]);
+}
+
+/**
+ * React hook that moves focus across client-side route changes: focus is
+ * saved when leaving a route and restored when coming back, and new routes
+ * focus their main content
+ *
+ * @param routeKey - Key of the current route, e.g. the pathname
+ * @param options - Configuration options
+ * @returns The FocusRestoration instance (for advanced usage)
+ */
+export function useRouteFocus(routeKey: string, options: FocusRestorationOptions = {}) {
+  const restorationRef = useRef<FocusRestoration | null>(null);
+  const previousKeyRef = useRef<string | null>(null);
+
+  if (!restorationRef.current) {
+    restorationRef.current = new FocusRestoration(options);
+  }
+
+  // Save focus during render, before the new route replaces the old DOM
+  if (previousKeyRef.current !== null && previousKeyRef.current !== routeKey) {
+    restorationRef.current.leave(previousKeyRef.current);
+  }
+
+  useEffect(() => {
+    const previousKey = previousKeyRef.current;
+    previousKeyRef.current = routeKey;
+
+    // The first render is the initial page load; leave focus to the browser
+    if (previousKey !== null && previousKey !== routeKey) {
+      restorationRef.current?.enter(routeKey);
+    }
+  }, [routeKey]);
+
+  return restorationRef.current;
+}
+
+/**
+ * React hook that gives a composite widget a roving tabindex
+ *
+ * @param containerRef - Ref to the widget element
+ * @param options - Configuration options
+ * @returns Current item index and control functions
+ */
+export function useRovingTabIndex(
+  containerRef: RefObject<HTMLElement>,
+  options: RovingTabIndexOptions = {}
+) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const rovingRef = useRef<RovingTabIndex | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const roving = new RovingTabIndex(container, options);
+    roving.on('change', (_element, index) => setCurrentIndex(index));
+    roving.start();
+    rovingRef.current = roving;
+    setCurrentIndex(Math.max(roving.getItems().indexOf(roving.getCurrent()!), 0));
+
+    return () => {
+      roving.removeAllListeners();
+      roving.stop();
+      rovingRef.current = null;
+    };
+  }, [containerRef, options.itemSelector, options.orientation, options.loop]);
+
+  // Call after items are added or removed
+  const refresh = useCallback(() => {
+    rovingRef.current?.refresh();
+  }, []);
+
+  const setCurrent = useCallback((index: number, focus = true) => {
+    rovingRef.current?.setCurrent(index, focus);
+  }, []);
+
+  return {
+    currentIndex,
+    refresh,
+    setCurrent,
+  };
+}
+
+/**
+ * React hook that generates skip links from the page's landmarks
+ *
+ * @param options - Configuration options
+ * @param deps - Values that change the landmarks, e.g. the route
+ * @returns The generated links
+ */
+export function useSkipLinks(options: SkipLinksOptions = {}, deps: unknown[] = []) {
+  const [links, setLinks] = useState<readonly SkipLink[]>([]);
+  const skipLinksRef = useRef<SkipLinks | null>(null);
+
+  useEffect(() => {
+    const skipLinks = new SkipLinks(options);
+    skipLinks.apply();
+    skipLinksRef.current = skipLinks;
+    setLinks(skipLinks.getLinks());
+
+    return () => {
+      skipLinks.remove();
+      skipLinksRef.current = null;
+    };
+  }, [options.root, options.prefix, options.landmarks?.join(',')]);
+
+  useEffect(() => {
+    if (!skipLinksRef.current) return;
+
+    skipLinksRef.current.refresh();
+    setLinks([...skipLinksRef.current.getLinks()]);
+  }, deps);
+
+  return links;
+}
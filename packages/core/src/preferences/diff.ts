@@ -0,0 +1,78 @@
+import type { Preferences } from './schemas.js';
+
+/**
+ * Preference sections that are diffed field-by-field rather than as a whole
+ */
+const NESTED_SECTIONS = ['sensory', 'cognitive', 'ai', 'vr', 'metadata', 'namespaces'] as const;
+
+/**
+ * Fields that change on every write and carry no user-facing meaning
+ */
+const IGNORED_FIELDS = new Set(['lastModified']);
+
+/**
+ * Compute the minimal set of changes between two preference snapshots.
+ * Nested sections only contain the fields that actually changed, so the
+ * result has the same shape as a `PreferencesUpdate`.
+ */
+export function diffPreferences(previous: Preferences, next: Preferences): Partial<Preferences> {
+  const diff: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+
+    const before = (previous as Record<string, unknown>)[key];
+    const after = (next as Record<string, unknown>)[key];
+
+    if ((NESTED_SECTIONS as readonly string[]).includes(key) && isPlainObject(before) && isPlainObject(after)) {
+      const sectionDiff = diffSection(before, after);
+      if (Object.keys(sectionDiff).length > 0) {
+        diff[key] = sectionDiff;
+      }
+      continue;
+    }
+
+    if (!isEqual(before, after)) {
+      diff[key] = after;
+    }
+  }
+
+  return diff as Partial<Preferences>;
+}
+
+/**
+ * Check whether two preference snapshots differ in any user-facing field
+ */
+export function hasPreferenceChanges(previous: Preferences, next: Preferences): boolean {
+  return Object.keys(diffPreferences(previous, next)).length > 0;
+}
+
+function diffSection(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, unknown> {
+  const diff: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (!isEqual(before[key], after[key])) {
+      diff[key] = after[key];
+    }
+  }
+
+  return diff;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,251 @@
+import type { Preferences } from './schemas.js';
+import type { PreferenceStorage } from './storage.js';
+
+/**
+ * Options for EncryptedPreferenceStorage
+ */
+export interface EncryptedStorageOptions {
+  /** Passphrase the AES-GCM key is derived from */
+  passphrase: string;
+  /** PBKDF2 iteration count used for newly written entries */
+  iterations?: number;
+  /** Read entries that were stored before encryption was enabled */
+  allowPlaintext?: boolean;
+  /** WebCrypto implementation; defaults to `globalThis.crypto` */
+  crypto?: Crypto;
+}
+
+/**
+ * Envelope written to the wrapped storage in place of plaintext preferences
+ */
+export interface EncryptedPreferencesEnvelope {
+  encrypted: {
+    version: 1;
+    algorithm: 'AES-GCM';
+    kdf: 'PBKDF2-SHA256';
+    iterations: number;
+    salt: string;
+    iv: string;
+    data: string;
+  };
+}
+
+const DEFAULT_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * A derived key and the PBKDF2 inputs it came from
+ */
+interface DerivedKey {
+  salt: string;
+  iterations: number;
+  key: Promise<CryptoKey>;
+}
+
+/**
+ * PreferenceStorage wrapper that encrypts entries at rest with AES-GCM.
+ * The key is derived from a passphrase with PBKDF2, once per instance
+ * with a random salt; every write uses a fresh IV, and the storage key is
+ * bound as additional authenticated data so entries cannot be swapped
+ * between keys.
+ *
+ * Unlike the other backends, `get` throws for entries it cannot decrypt
+ * or that are unexpectedly plaintext instead of returning null, so a
+ * wrong passphrase is not mistaken for an empty slot. PreferenceStore
+ * then becomes read-only rather than saving defaults over the entry.
+ */
+export class EncryptedPreferenceStorage implements PreferenceStorage {
+  readonly encrypted = true;
+  private readonly inner: PreferenceStorage;
+  private readonly passphrase: string;
+  private readonly iterations: number;
+  private readonly allowPlaintext: boolean;
+  private readonly crypto: Crypto;
+  private writeKey: DerivedKey | null = null;
+  /** Keys for entries written with another salt, one per storage key */
+  private readonly readKeys = new Map<string, DerivedKey>();
+
+  constructor(inner: PreferenceStorage, options: EncryptedStorageOptions) {
+    if (!options.passphrase) {
+      throw new Error('EncryptedPreferenceStorage requires a non-empty passphrase');
+    }
+
+    const cryptoImpl = options.crypto ?? globalThis.crypto;
+    if (!cryptoImpl?.subtle) {
+      throw new Error('WebCrypto is not available in this environment');
+    }
+
+    this.inner = inner;
+    this.passphrase = options.passphrase;
+    this.iterations = options.iterations ?? DEFAULT_ITERATIONS;
+    this.allowPlaintext = options.allowPlaintext ?? false;
+    this.crypto = cryptoImpl;
+  }
+
+  async get(key: string): Promise<Preferences | null> {
+    const stored: unknown = await this.inner.get(key);
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+
+    if (!isEnvelope(stored)) {
+      if (this.allowPlaintext) {
+        return stored as Preferences;
+      }
+      throw new Error(`Preferences for key "${key}" are not encrypted`);
+    }
+
+    try {
+      const { iterations, salt, iv, data } = stored.encrypted;
+      const cryptoKey = await this.getReadKey(key, salt, iterations);
+      const plaintext = await this.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv), additionalData: encode(key) },
+        cryptoKey,
+        fromBase64(data)
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext)) as Preferences;
+    } catch {
+      throw new Error(`Failed to decrypt preferences for key "${key}": wrong passphrase or corrupted data`);
+    }
+  }
+
+  async set(key: string, preferences: Preferences): Promise<void> {
+    const { salt, key: keyPromise } = this.getWriteKey();
+    const iv = this.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const cryptoKey = await keyPromise;
+
+    const ciphertext = await this.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encode(key) },
+      cryptoKey,
+      encode(JSON.stringify(preferences))
+    );
+
+    const envelope: EncryptedPreferencesEnvelope = {
+      encrypted: {
+        version: 1,
+        algorithm: 'AES-GCM',
+        kdf: 'PBKDF2-SHA256',
+        iterations: this.iterations,
+        salt,
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(ciphertext)),
+      },
+    };
+
+    // The wrapped storage only persists JSON, so the envelope stands in for preferences
+    await this.inner.set(key, envelope as unknown as Preferences);
+    this.readKeys.delete(key);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.inner.remove(key);
+  }
+
+  async list(): Promise<string[]> {
+    return this.inner.list();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.inner.exists(key);
+  }
+
+  /**
+   * Check whether the entry stored under a key is encrypted
+   */
+  async isEncrypted(key: string): Promise<boolean> {
+    return isEnvelope(await this.inner.get(key));
+  }
+
+  /**
+   * Encrypt every plaintext entry in the wrapped storage.
+   * Returns the keys that were encrypted.
+   */
+  async encryptExisting(): Promise<string[]> {
+    const encrypted: string[] = [];
+    for (const key of await this.inner.list()) {
+      const stored: unknown = await this.inner.get(key);
+      if (stored && !isEnvelope(stored)) {
+        await this.set(key, stored as Preferences);
+        encrypted.push(key);
+      }
+    }
+    return encrypted;
+  }
+
+  private getWriteKey(): DerivedKey {
+    if (!this.writeKey) {
+      const salt = toBase64(this.crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+      this.writeKey = { salt, iterations: this.iterations, key: this.deriveKey(salt, this.iterations) };
+    }
+    return this.writeKey;
+  }
+
+  /**
+   * Key for an entry: the write key if this instance wrote it, otherwise
+   * the key cached for that storage key, replaced when its salt changes
+   */
+  private getReadKey(storageKey: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const write = this.writeKey;
+    if (write && write.salt === salt && write.iterations === iterations) {
+      return write.key;
+    }
+
+    const cached = this.readKeys.get(storageKey);
+    if (cached && cached.salt === salt && cached.iterations === iterations) {
+      return cached.key;
+    }
+
+    const key = this.deriveKey(salt, iterations);
+    this.readKeys.set(storageKey, { salt, iterations, key });
+    return key;
+  }
+
+  private deriveKey(salt: string, iterations: number): Promise<CryptoKey> {
+    return this.crypto.subtle
+      .importKey('raw', encode(this.passphrase), 'PBKDF2', false, ['deriveKey'])
+      .then(baseKey =>
+        this.crypto.subtle.deriveKey(
+          { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+          baseKey,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        )
+      );
+  }
+}
+
+function isEnvelope(value: unknown): value is EncryptedPreferencesEnvelope {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const encrypted = (value as Record<string, unknown>).encrypted;
+  return (
+    typeof encrypted === 'object' &&
+    encrypted !== null &&
+    (encrypted as Record<string, unknown>).algorithm === 'AES-GCM' &&
+    typeof (encrypted as Record<string, unknown>).data === 'string'
+  );
+}
+
+function encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
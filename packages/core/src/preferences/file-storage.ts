@@ -0,0 +1,150 @@
+import type { Preferences } from './schemas.js';
+import type { PreferenceStorage } from './storage.js';
+
+/**
+ * Options for FilePreferenceStorage
+ */
+export interface FileStorageOptions {
+  /** Path of the JSON file holding all preference entries */
+  filePath: string;
+  /** Indentation used when writing the file; 0 writes compact JSON */
+  indent?: number;
+}
+
+/**
+ * JSON-file implementation of PreferenceStorage for Node, Electron and CLI use.
+ * All keys live in a single file that is written atomically (temp file +
+ * rename) and writes are serialized so concurrent `set` calls cannot clobber
+ * each other. Node modules are loaded lazily so browser bundles stay clean.
+ */
+export class FilePreferenceStorage implements PreferenceStorage {
+  private readonly filePath: string;
+  private readonly indent: number;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileStorageOptions | string) {
+    const resolved = typeof options === 'string' ? { filePath: options } : options;
+    this.filePath = resolved.filePath;
+    this.indent = resolved.indent ?? 2;
+  }
+
+  async get(key: string): Promise<Preferences | null> {
+    try {
+      const entries = await this.readEntries();
+      return entries[key] ?? null;
+    } catch (error) {
+      console.warn(`Failed to get preferences for key "${key}":`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, preferences: Preferences): Promise<void> {
+    try {
+      await this.update(entries => {
+        entries[key] = preferences;
+      });
+    } catch (error) {
+      throw new Error(`Failed to save preferences for key "${key}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await this.update(entries => {
+        delete entries[key];
+      });
+    } catch (error) {
+      console.warn(`Failed to remove preferences for key "${key}":`, error);
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      return Object.keys(await this.readEntries());
+    } catch (error) {
+      console.warn('Failed to list preference keys:', error);
+      return [];
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const entries = await this.readEntries();
+      return Object.prototype.hasOwnProperty.call(entries, key);
+    } catch (error) {
+      console.warn(`Failed to check existence for key "${key}":`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Clear all preferences from storage (for testing/reset)
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.update(entries => {
+        for (const key of Object.keys(entries)) {
+          delete entries[key];
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to clear preferences storage:', error);
+    }
+  }
+
+  private async readEntries(): Promise<Record<string, Preferences>> {
+    // Wait for pending writes so reads observe them
+    await this.writeQueue.catch(() => undefined);
+    return this.readFile();
+  }
+
+  private update(mutate: (entries: Record<string, Preferences>) => void): Promise<void> {
+    const next = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const entries = await this.readFile();
+        mutate(entries);
+        await this.writeFile(entries);
+      });
+
+    this.writeQueue = next;
+    return next;
+  }
+
+  private async readFile(): Promise<Record<string, Preferences>> {
+    const fs = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    if (!content.trim()) {
+      return {};
+    }
+
+    const parsed: unknown = JSON.parse(content);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Preference file "${this.filePath}" does not contain a JSON object`);
+    }
+    return parsed as Record<string, Preferences>;
+  }
+
+  private async writeFile(entries: Record<string, Preferences>): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await import('node:path');
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    const serialized = JSON.stringify(entries, null, this.indent || undefined);
+    // Preferences can reveal disability information, so keep the file private to the user
+    await fs.writeFile(tempPath, serialized, { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
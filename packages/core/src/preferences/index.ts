@@ -1,6 +1,11 @@
 // Core preference management exports
 export { PreferenceStore } from './store.js';
-export type { PreferenceStoreConfig, PreferenceStoreEvents } from './store.js';
+export type {
+  PreferenceStoreConfig,
+  PreferenceStoreEvents,
+  PreferenceHistoryState,
+  PreferenceTransaction,
+} from './store.js';
 
 // Schema and validation exports
 export {
@@ -10,6 +15,9 @@ export {
   CognitivePreferencesSchema,
   AIPreferencesSchema,
   VRPreferencesSchema,
+  PreferenceNamespaceEntrySchema,
+  PreferenceSourceSchema,
+  SYSTEM_SYNCED_SENSORY_FIELDS,
   SCHEMA_VERSION,
 } from './schemas.js';
 export type {
@@ -19,13 +27,113 @@ export type {
   CognitivePreferences,
   AIPreferences,
   VRPreferences,
+  PreferenceNamespaceEntry,
+  PreferenceSource,
+  SystemSyncedSensoryField,
   ValidationError,
 } from './schemas.js';
 
+// Plugin preference namespaces
+export { PreferenceNamespaceRegistry, definePreferenceNamespace, defaultNamespaceRegistry } from './namespaces.js';
+export type {
+  PreferenceNamespace,
+  PreferenceNamespaceDefinition,
+  NamespaceMigration,
+  NamespaceMigrationFunction,
+  NamespaceData,
+  NamespaceUpdate,
+} from './namespaces.js';
+
+// JSON Schema and OpenAPI export
+export {
+  zodToJsonSchema,
+  getPreferencesJsonSchema,
+  getPreferencesOpenApiComponents,
+  JSON_SCHEMA_DIALECT,
+  PREFERENCES_SCHEMA_BASE_URI,
+} from './json-schema.js';
+export type {
+  JsonSchema,
+  OpenApiComponentsDocument,
+  ZodToJsonSchemaOptions,
+  PreferencesJsonSchemaOptions,
+} from './json-schema.js';
+
+// Profile management
+export { ProfileManager, detectDeviceClass } from './profiles.js';
+export type {
+  ProfileManagerConfig,
+  ProfileManagerEvents,
+  ProfileInfo,
+  ProfileContext,
+  ProfileCondition,
+  ProfileRule,
+  DeviceClass,
+} from './profiles.js';
+
+// Operating system media-query sync
+export { SystemPreferenceBridge, readSystemPreferences, mapSystemPreferences } from './system-preferences.js';
+export type {
+  SystemPreferenceBridgeConfig,
+  SystemPreferenceBridgeEvents,
+  SystemPreferenceState,
+  SystemSensoryPreferences,
+  ContrastPreference,
+  MediaQueryMatcher,
+} from './system-preferences.js';
+
+// Cross-tab and cross-device sync
+export {
+  PreferenceSync,
+  BroadcastChannelSyncTransport,
+  StorageEventSyncTransport,
+  HttpSyncTransport,
+  compareClocks,
+} from './sync.js';
+export type {
+  PreferenceSyncConfig,
+  PreferenceSyncEvents,
+  SyncTransport,
+  SyncMessage,
+  SyncField,
+  SyncStrategy,
+  SyncConflict,
+  ConflictResolver,
+  VectorClock,
+  HttpSyncTransportOptions,
+} from './sync.js';
+
+// Diff utilities
+export { diffPreferences, hasPreferenceChanges } from './diff.js';
+
 // Storage implementations
 export { LocalStoragePreferenceStorage, MemoryPreferenceStorage } from './storage.js';
 export type { PreferenceStorage } from './storage.js';
+export { IndexedDBPreferenceStorage } from './indexeddb-storage.js';
+export type { IndexedDBStorageOptions } from './indexeddb-storage.js';
+export { FilePreferenceStorage } from './file-storage.js';
+export type { FileStorageOptions } from './file-storage.js';
+export { EncryptedPreferenceStorage } from './encrypted-storage.js';
+export type { EncryptedStorageOptions, EncryptedPreferencesEnvelope } from './encrypted-storage.js';
 
 // Migration system
-export { MigrationRegistry, defaultMigrationRegistry } from './migration.js';
-export type { MigrationFunction } from './migration.js';
\ No newline at end of file
+export {
+  MigrationRegistry,
+  defaultMigrationRegistry,
+  compareVersions,
+  KNOWN_SCHEMA_VERSIONS,
+} from './migration.js';
+export type {
+  MigrationFunction,
+  MigrationDirection,
+  MigrationFieldChange,
+  MigrationStepReport,
+  MigrationReport,
+} from './migration.js';
+export { verifyMigrationChain, assertMigrationChain, MIGRATION_FIXTURES } from './migration-testing.js';
+export type {
+  MigrationFixture,
+  MigrationChainOptions,
+  MigrationChainFailure,
+  MigrationChainResult,
+} from './migration-testing.js';
\ No newline at end of file
@@ -0,0 +1,182 @@
+import type { Preferences } from './schemas.js';
+import type { PreferenceStorage } from './storage.js';
+
+/**
+ * Options for IndexedDBPreferenceStorage
+ */
+export interface IndexedDBStorageOptions {
+  databaseName?: string;
+  storeName?: string;
+  /** IndexedDB factory to use; defaults to the global `indexedDB` */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * IndexedDB implementation of PreferenceStorage for browsers.
+ * Unlike localStorage it is asynchronous, not limited to ~5MB and
+ * available from workers.
+ */
+export class IndexedDBPreferenceStorage implements PreferenceStorage {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory | undefined;
+  private database: Promise<IDBDatabase> | undefined;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.databaseName = options.databaseName || 'neuroadapt';
+    this.storeName = options.storeName || 'preferences';
+    this.factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+  }
+
+  async get(key: string): Promise<Preferences | null> {
+    try {
+      const result = await this.request<Preferences | undefined>('readonly', store => store.get(key));
+      return result ?? null;
+    } catch (error) {
+      console.warn(`Failed to get preferences for key "${key}":`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, preferences: Preferences): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.put(preferences, key));
+    } catch (error) {
+      throw new Error(`Failed to save preferences for key "${key}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn(`Failed to remove preferences for key "${key}":`, error);
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+      return keys.map(String);
+    } catch (error) {
+      console.warn('Failed to list preference keys:', error);
+      return [];
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const count = await this.request<number>('readonly', store => store.count(key));
+      return count > 0;
+    } catch (error) {
+      console.warn(`Failed to check existence for key "${key}":`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Clear all preferences from storage (for testing/reset)
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.clear());
+    } catch (error) {
+      console.warn('Failed to clear preferences storage:', error);
+    }
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  async close(): Promise<void> {
+    if (!this.database) {
+      return;
+    }
+    const database = await this.database.catch(() => undefined);
+    database?.close();
+    this.database = undefined;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.database) {
+      return this.database;
+    }
+
+    const factory = this.factory;
+    if (!factory) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    const opening = this.connect(factory)
+      .then(database => this.ensureStore(factory, database))
+      .then(database => {
+        // Close when another storage upgrades the database to add its store
+        database.onversionchange = () => {
+          database.close();
+          if (this.database === opening) {
+            this.database = undefined;
+          }
+        };
+        return database;
+      });
+    this.database = opening;
+
+    // Allow a retry on the next call if opening failed
+    opening.catch(() => {
+      if (this.database === opening) {
+        this.database = undefined;
+      }
+    });
+
+    return opening;
+  }
+
+  private connect(factory: IDBFactory, version?: number): Promise<IDBDatabase> {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+      const request = version === undefined
+        ? factory.open(this.databaseName)
+        : factory.open(this.databaseName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB database'));
+    });
+  }
+
+  /**
+   * Object stores can only be created in a version upgrade, so a database
+   * created by a storage with another `storeName` is reopened one version up
+   */
+  private async ensureStore(factory: IDBFactory, database: IDBDatabase): Promise<IDBDatabase> {
+    if (database.objectStoreNames.contains(this.storeName)) {
+      return database;
+    }
+
+    const version = database.version + 1;
+    database.close();
+    return this.ensureStore(factory, await this.connect(factory, version));
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      let result: T;
+
+      request.onsuccess = () => {
+        result = request.result as T;
+      };
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('IndexedDB transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
@@ -0,0 +1,282 @@
+import { z, type ZodTypeAny } from 'zod';
+import {
+  PreferencesSchema,
+  PreferencesUpdateSchema,
+  SensoryPreferencesSchema,
+  CognitivePreferencesSchema,
+  AIPreferencesSchema,
+  VRPreferencesSchema,
+  SCHEMA_VERSION,
+} from './schemas.js';
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * OpenAPI 3.1 document holding the preference schemas as reusable components
+ */
+export interface OpenApiComponentsDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+/**
+ * Options for converting a Zod schema
+ */
+export interface ZodToJsonSchemaOptions {
+  /** Named schemas that are emitted as `$ref`s instead of being inlined */
+  definitions?: Record<string, ZodTypeAny>;
+  /** Prefix for generated `$ref`s; defaults to `#/$defs/` */
+  refPrefix?: string;
+}
+
+/**
+ * Options for the generated preferences JSON Schema
+ */
+export interface PreferencesJsonSchemaOptions {
+  /** Base URI for the `$id`; the schema version and `.json` are appended */
+  baseUri?: string;
+}
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+export const PREFERENCES_SCHEMA_BASE_URI = 'https://schemas.neuroadapt.dev/preferences';
+
+// Named sub-schemas shared by the JSON Schema and OpenAPI outputs
+const PREFERENCE_DEFINITIONS: Record<string, ZodTypeAny> = {
+  SensoryPreferences: SensoryPreferencesSchema,
+  CognitivePreferences: CognitivePreferencesSchema,
+  AIPreferences: AIPreferencesSchema,
+  VRPreferences: VRPreferencesSchema,
+};
+
+/**
+ * Convert a Zod schema to JSON Schema.
+ *
+ * The result describes what the Zod schema accepts as input: fields with a
+ * `.default()` are optional and carry a `default` keyword. Only the Zod types
+ * used by preference schemas are supported; anything else throws so the
+ * contract never silently loses constraints.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny, options: ZodToJsonSchemaOptions = {}): JsonSchema {
+  const refs = new Map<ZodTypeAny, string>();
+  for (const [name, definition] of Object.entries(options.definitions ?? {})) {
+    refs.set(definition, `${options.refPrefix ?? '#/$defs/'}${name}`);
+  }
+  return convert(schema, refs, [], true);
+}
+
+/**
+ * Generate the JSON Schema for stored preference documents.
+ * The `$id` is versioned with SCHEMA_VERSION so consumers can pin a contract.
+ */
+export function getPreferencesJsonSchema(options: PreferencesJsonSchemaOptions = {}): JsonSchema {
+  const baseUri = (options.baseUri ?? PREFERENCES_SCHEMA_BASE_URI).replace(/\/+$/, '');
+  const $defs: Record<string, JsonSchema> = {};
+  for (const [name, definition] of Object.entries(PREFERENCE_DEFINITIONS)) {
+    $defs[name] = zodToJsonSchema(definition);
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: `${baseUri}/${SCHEMA_VERSION}.json`,
+    title: 'NeuroAdapt Preferences',
+    description: `User accessibility preferences, schema version ${SCHEMA_VERSION}`,
+    ...zodToJsonSchema(PreferencesSchema, { definitions: PREFERENCE_DEFINITIONS }),
+    $defs,
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document with the preference schemas under
+ * `components.schemas`, ready to be referenced from an API description
+ */
+export function getPreferencesOpenApiComponents(): OpenApiComponentsDocument {
+  const refPrefix = '#/components/schemas/';
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, definition] of Object.entries(PREFERENCE_DEFINITIONS)) {
+    schemas[name] = zodToJsonSchema(definition);
+  }
+  schemas.Preferences = zodToJsonSchema(PreferencesSchema, { definitions: PREFERENCE_DEFINITIONS, refPrefix });
+  schemas.PreferencesUpdate = zodToJsonSchema(PreferencesUpdateSchema);
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'NeuroAdapt Preferences',
+      version: SCHEMA_VERSION,
+      description: 'Shared preference contract generated from the NeuroAdapt Zod schemas',
+    },
+    components: { schemas },
+  };
+}
+
+function convert(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>, path: string[], isRoot = false): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref && !isRoot) {
+    return { $ref: ref };
+  }
+
+  const result = convertType(schema, refs, path);
+  if (schema.description && result.description === undefined) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convertType(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>, path: string[]): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+      properties[key] = convert(value, refs, [...path, key]);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    const result: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) {
+      result.required = required;
+    }
+    // Zod strips unknown keys by default, so only strict objects reject them
+    if (schema._def.unknownKeys === 'strict') {
+      result.additionalProperties = false;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return convert(schema.unwrap(), refs, path);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema.removeDefault(), refs, path), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [convert(schema.unwrap(), refs, path), { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      switch (check.kind) {
+        case 'datetime':
+          result.format = 'date-time';
+          break;
+        case 'email':
+          result.format = 'email';
+          break;
+        case 'url':
+          result.format = 'uri';
+          break;
+        case 'uuid':
+          result.format = 'uuid';
+          break;
+        case 'min':
+          result.minLength = check.value;
+          break;
+        case 'max':
+          result.maxLength = check.value;
+          break;
+        case 'regex':
+          result.pattern = check.regex.source;
+          break;
+        default:
+          throw unsupported(`string check "${check.kind}"`, path);
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      switch (check.kind) {
+        case 'int':
+          result.type = 'integer';
+          break;
+        case 'min':
+          if (check.inclusive) {
+            result.minimum = check.value;
+          } else {
+            result.exclusiveMinimum = check.value;
+          }
+          break;
+        case 'max':
+          if (check.inclusive) {
+            result.maximum = check.value;
+          } else {
+            result.exclusiveMaximum = check.value;
+          }
+          break;
+        default:
+          throw unsupported(`number check "${check.kind}"`, path);
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: convert(schema.element, refs, [...path, 'items']) };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: convert(schema.valueSchema, refs, [...path, '*']) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(option => convert(option, refs, path)) };
+  }
+
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return {};
+  }
+
+  throw unsupported(`Zod type "${String(schema._def.typeName)}"`, path);
+}
+
+function unsupported(what: string, path: string[]): Error {
+  const location = path.length > 0 ? path.join('.') : '(root)';
+  return new Error(`Cannot convert ${what} at "${location}" to JSON Schema`);
+}
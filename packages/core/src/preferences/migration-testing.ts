@@ -0,0 +1,439 @@
+import { PreferencesSchema, SCHEMA_VERSION } from './schemas.js';
+import type { MigrationRegistry } from './migration.js';
+
+/**
+ * A stored preferences document for a given schema version, plus the
+ * fields it is expected to have after migrating to the current version
+ */
+export interface MigrationFixture {
+  version: string;
+  input: Record<string, unknown>;
+  /** Subset of the migrated result that must match exactly */
+  expected?: Record<string, unknown>;
+}
+
+/**
+ * Options for verifying a migration chain
+ */
+export interface MigrationChainOptions {
+  /** Migrate back down to each fixture's version and up again, expecting the same result */
+  roundTrip?: boolean;
+  /** Fail if a version known to the registry has no fixture */
+  requireAllVersions?: boolean;
+}
+
+/**
+ * A single failed check
+ */
+export interface MigrationChainFailure {
+  version: string;
+  message: string;
+}
+
+/**
+ * Outcome of verifying a migration chain
+ */
+export interface MigrationChainResult {
+  passed: boolean;
+  failures: MigrationChainFailure[];
+}
+
+/**
+ * Canonical documents for every shipped schema version
+ */
+export const MIGRATION_FIXTURES: readonly MigrationFixture[] = [
+  {
+    version: '1.0.0',
+    input: {
+      schemaVersion: '1.0.0',
+      sensory: {
+        motionReduction: true,
+        highContrast: false,
+        colorVisionFilter: 'none',
+        fontSize: 1.2,
+        reducedFlashing: true,
+        darkMode: true,
+      },
+      cognitive: {
+        readingSpeed: 'slow',
+        explanationLevel: 'simple',
+        processingPace: 'relaxed',
+        chunkSize: 3,
+        allowInterruptions: false,
+        preferVisualCues: true,
+      },
+      ai: {
+        tone: 'calm-supportive',
+        responseLength: 'brief',
+        useAnalogies: false,
+        allowUndo: true,
+      },
+    },
+    expected: {
+      sensory: { fontSize: 1.2 },
+      ai: { tone: 'calm-supportive', consistencyLevel: 'moderate' },
+      vr: { comfortRadius: 1.5, locomotionType: 'comfort' },
+    },
+  },
+  {
+    version: '1.0.1',
+    input: {
+      schemaVersion: '1.0.1',
+      sensory: {
+        motionReduction: false,
+        highContrast: true,
+        colorVisionFilter: 'protanopia',
+        fontSize: 1.0,
+        reducedFlashing: false,
+        darkMode: false,
+      },
+      cognitive: {
+        readingSpeed: 'medium',
+        explanationLevel: 'detailed',
+        processingPace: 'standard',
+        chunkSize: 5,
+        allowInterruptions: true,
+        preferVisualCues: false,
+      },
+      ai: {
+        tone: 'neutral',
+        responseLength: 'standard',
+        useAnalogies: true,
+        allowUndo: true,
+      },
+      vr: {
+        comfortRadius: 2.0,
+        safeSpaceEnabled: true,
+        locomotionType: 'teleport',
+        personalSpace: 1.5,
+        panicButtonEnabled: true,
+      },
+    },
+    expected: {
+      sensory: { colorVisionFilter: 'protanopia' },
+      ai: { consistencyLevel: 'moderate' },
+      vr: { comfortRadius: 2.0 },
+    },
+  },
+  {
+    version: '1.1.0',
+    input: {
+      schemaVersion: '1.1.0',
+      sensory: {
+        motionReduction: false,
+        highContrast: false,
+        colorVisionFilter: 'deuteranopia',
+        fontSize: 1.5,
+        reducedFlashing: true,
+        darkMode: true,
+      },
+      cognitive: {
+        readingSpeed: 'fast',
+        explanationLevel: 'expert',
+        processingPace: 'quick',
+        chunkSize: 8,
+        allowInterruptions: true,
+        preferVisualCues: false,
+      },
+      ai: {
+        tone: 'professional',
+        responseLength: 'detailed',
+        consistencyLevel: 'high',
+        useAnalogies: true,
+        allowUndo: false,
+      },
+      vr: {
+        comfortRadius: 1.5,
+        safeSpaceEnabled: false,
+        locomotionType: 'smooth',
+        personalSpace: 1.0,
+        panicButtonEnabled: true,
+      },
+    },
+    expected: {
+      sensory: { colorVisionFilter: 'deuteranopia', colorVisionSeverity: 1, colorVisionMode: 'correct' },
+      ai: { consistencyLevel: 'high' },
+    },
+  },
+  {
+    version: '1.2.0',
+    input: {
+      schemaVersion: '1.2.0',
+      sensory: {
+        motionReduction: true,
+        highContrast: false,
+        colorVisionFilter: 'achromatopsia',
+        colorVisionSeverity: 0.6,
+        colorVisionMode: 'simulate',
+        fontSize: 1.25,
+        reducedFlashing: true,
+        darkMode: false,
+      },
+      cognitive: {
+        readingSpeed: 'slow',
+        explanationLevel: 'simple',
+        processingPace: 'relaxed',
+        chunkSize: 3,
+        allowInterruptions: false,
+        preferVisualCues: true,
+      },
+      ai: {
+        tone: 'calm-supportive',
+        responseLength: 'brief',
+        consistencyLevel: 'high',
+        useAnalogies: true,
+        allowUndo: true,
+      },
+      vr: {
+        comfortRadius: 2.5,
+        safeSpaceEnabled: true,
+        locomotionType: 'teleport',
+        personalSpace: 1.5,
+        panicButtonEnabled: true,
+      },
+    },
+    expected: {
+      sensory: {
+        colorVisionFilter: 'achromatopsia',
+        colorVisionSeverity: 0.6,
+        colorVisionMode: 'simulate',
+        readingFont: 'default',
+        readingGuide: 'off',
+      },
+    },
+  },
+  {
+    version: '1.3.0',
+    input: {
+      schemaVersion: '1.3.0',
+      sensory: {
+        motionReduction: false,
+        highContrast: true,
+        colorVisionFilter: 'none',
+        colorVisionSeverity: 1,
+        colorVisionMode: 'correct',
+        fontSize: 1.5,
+        reducedFlashing: false,
+        darkMode: true,
+        letterSpacing: 0.12,
+        wordSpacing: 0.16,
+        lineHeight: 1.5,
+        paragraphSpacing: 2,
+        readingFont: 'opendyslexic',
+        readingGuide: 'line-focus',
+        bionicReading: true,
+      },
+      cognitive: {
+        readingSpeed: 'slow',
+        explanationLevel: 'simple',
+        processingPace: 'relaxed',
+        chunkSize: 3,
+        allowInterruptions: false,
+        preferVisualCues: true,
+      },
+      ai: {
+        tone: 'calm-supportive',
+        responseLength: 'brief',
+        consistencyLevel: 'high',
+        useAnalogies: true,
+        allowUndo: true,
+      },
+      vr: {
+        comfortRadius: 2.5,
+        safeSpaceEnabled: true,
+        locomotionType: 'teleport',
+        personalSpace: 1.5,
+        panicButtonEnabled: true,
+      },
+    },
+    expected: {
+      sensory: {
+        letterSpacing: 0.12,
+        lineHeight: 1.5,
+        readingFont: 'opendyslexic',
+        readingGuide: 'line-focus',
+        bionicReading: true,
+        reducedTransparency: false,
+        systemSync: { motionReduction: 'system', highContrast: 'explicit', darkMode: 'explicit' },
+      },
+    },
+  },
+  {
+    version: '1.4.0',
+    input: {
+      schemaVersion: '1.4.0',
+      sensory: {
+        motionReduction: true,
+        highContrast: false,
+        colorVisionFilter: 'tritanopia',
+        colorVisionSeverity: 1,
+        colorVisionMode: 'correct',
+        fontSize: 1.1,
+        reducedFlashing: true,
+        darkMode: false,
+        letterSpacing: 0,
+        wordSpacing: 0.16,
+        lineHeight: 0,
+        paragraphSpacing: 0,
+        readingFont: 'default',
+        readingGuide: 'ruler',
+        bionicReading: false,
+        reducedTransparency: true,
+        systemSync: {
+          motionReduction: 'system',
+          highContrast: 'system',
+          darkMode: 'explicit',
+          reducedTransparency: 'explicit',
+        },
+      },
+      cognitive: {
+        readingSpeed: 'medium',
+        explanationLevel: 'detailed',
+        processingPace: 'standard',
+        chunkSize: 4,
+        allowInterruptions: true,
+        preferVisualCues: true,
+      },
+      ai: {
+        tone: 'neutral',
+        responseLength: 'standard',
+        consistencyLevel: 'moderate',
+        useAnalogies: false,
+        allowUndo: true,
+      },
+      vr: {
+        comfortRadius: 1.5,
+        safeSpaceEnabled: true,
+        locomotionType: 'comfort',
+        personalSpace: 1.0,
+        panicButtonEnabled: true,
+      },
+    },
+    expected: {
+      sensory: { reducedTransparency: true, systemSync: { darkMode: 'explicit', reducedTransparency: 'explicit' } },
+    },
+  },
+];
+
+/**
+ * Migrate every fixture to the current schema version and check that the
+ * result validates, matches the fixture's expectations and (optionally)
+ * survives a down/up round trip
+ */
+export async function verifyMigrationChain(
+  registry: MigrationRegistry,
+  fixtures: readonly MigrationFixture[] = MIGRATION_FIXTURES,
+  options: MigrationChainOptions = {}
+): Promise<MigrationChainResult> {
+  const failures: MigrationChainFailure[] = [];
+
+  if (options.requireAllVersions) {
+    const covered = new Set(fixtures.map(fixture => fixture.version));
+    for (const version of registry.getVersions()) {
+      if (!covered.has(version)) {
+        failures.push({ version, message: 'No fixture for this version' });
+      }
+    }
+  }
+
+  for (const fixture of fixtures) {
+    const fail = (message: string) => failures.push({ version: fixture.version, message });
+
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = await registry.migrate(structuredClone(fixture.input)) as Record<string, unknown>;
+    } catch (error) {
+      fail(`Migration threw: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const validation = PreferencesSchema.safeParse(migrated);
+    if (!validation.success) {
+      for (const issue of validation.error.errors) {
+        fail(`Migrated result is invalid at "${issue.path.join('.')}": ${issue.message}`);
+      }
+    }
+
+    if (migrated.schemaVersion !== SCHEMA_VERSION) {
+      fail(`Expected schemaVersion ${SCHEMA_VERSION}, got ${String(migrated.schemaVersion)}`);
+    }
+
+    if (fixture.expected) {
+      for (const mismatch of findMismatches(fixture.expected, migrated)) {
+        fail(mismatch);
+      }
+    }
+
+    if (options.roundTrip && fixture.version !== SCHEMA_VERSION) {
+      try {
+        const downgraded = await registry.migrateTo(migrated, fixture.version);
+        const upgraded = await registry.migrate(downgraded) as Record<string, unknown>;
+        if (stableStringify(withoutTimestamp(upgraded)) !== stableStringify(withoutTimestamp(migrated))) {
+          fail(`Round trip through ${fixture.version} changed the preferences`);
+        }
+      } catch (error) {
+        fail(`Round trip threw: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return { passed: failures.length === 0, failures };
+}
+
+/**
+ * Like verifyMigrationChain, but throws a single error listing every failure.
+ * Works with any test runner.
+ */
+export async function assertMigrationChain(
+  registry: MigrationRegistry,
+  fixtures: readonly MigrationFixture[] = MIGRATION_FIXTURES,
+  options: MigrationChainOptions = {}
+): Promise<void> {
+  const { passed, failures } = await verifyMigrationChain(registry, fixtures, options);
+  if (!passed) {
+    const details = failures.map(failure => `  [${failure.version}] ${failure.message}`).join('\n');
+    throw new Error(`Migration chain verification failed:\n${details}`);
+  }
+}
+
+function findMismatches(expected: Record<string, unknown>, actual: Record<string, unknown>, path = ''): string[] {
+  const mismatches: string[] = [];
+
+  for (const [key, expectedValue] of Object.entries(expected)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const actualValue = actual[key];
+
+    if (typeof expectedValue === 'object' && expectedValue !== null && !Array.isArray(expectedValue)) {
+      if (typeof actualValue !== 'object' || actualValue === null) {
+        mismatches.push(`Expected "${fieldPath}" to be an object, got ${JSON.stringify(actualValue)}`);
+        continue;
+      }
+      mismatches.push(...findMismatches(expectedValue as Record<string, unknown>, actualValue as Record<string, unknown>, fieldPath));
+      continue;
+    }
+
+    if (JSON.stringify(actualValue) !== JSON.stringify(expectedValue)) {
+      mismatches.push(`Expected "${fieldPath}" to be ${JSON.stringify(expectedValue)}, got ${JSON.stringify(actualValue)}`);
+    }
+  }
+
+  return mismatches;
+}
+
+function withoutTimestamp(preferences: Record<string, unknown>): Record<string, unknown> {
+  const { lastModified: _lastModified, ...rest } = preferences;
+  return rest;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
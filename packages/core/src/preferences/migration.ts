@@ -6,11 +6,59 @@ import { SCHEMA_VERSION } from './schemas.js';
  */
 export type MigrationFunction = (preferences: unknown) => Promise<unknown> | unknown;
 
+/**
+ * Direction of a migration step
+ */
+export type MigrationDirection = 'up' | 'down';
+
+/**
+ * A single field difference produced by a migration step
+ */
+export interface MigrationFieldChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Report for one step of a migration chain
+ */
+export interface MigrationStepReport {
+  from: string;
+  to: string;
+  direction: MigrationDirection;
+  /** False when no migration is registered for the step and it was a no-op */
+  applied: boolean;
+  changes: MigrationFieldChange[];
+}
+
+/**
+ * Result of a migration dry run
+ */
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: MigrationStepReport[];
+  result: Record<string, unknown>;
+}
+
+/**
+ * Schema versions that have shipped, oldest first
+ */
+export const KNOWN_SCHEMA_VERSIONS: readonly string[] = ['1.0.0', '1.0.1', '1.1.0', '1.2.0', '1.3.0', '1.4.0'];
+
 /**
  * Migration registry for handling schema version changes
  */
 export class MigrationRegistry {
   private readonly migrations = new Map<string, MigrationFunction>();
+  private readonly downMigrations = new Map<string, MigrationFunction>();
+  private readonly versions: Set<string>;
+
+  constructor(versions: readonly string[] = KNOWN_SCHEMA_VERSIONS) {
+    this.versions = new Set([...versions, SCHEMA_VERSION]);
+  }
 
   /**
    * Register a migration from one version to another
@@ -19,6 +67,21 @@ export class MigrationRegistry {
     this.migrations.set(fromVersion, migration);
   }
 
+  /**
+   * Register a down-migration from a version to the version before it, so
+   * older app builds can read profiles written by newer ones
+   */
+  registerDownMigration(fromVersion: string, migration: MigrationFunction): void {
+    this.downMigrations.set(fromVersion, migration);
+  }
+
+  /**
+   * Get all versions the registry can migrate between, oldest first
+   */
+  getVersions(): string[] {
+    return [...this.versions].sort(compareVersions);
+  }
+
   /**
    * Apply migrations to bring preferences to current schema version
    */
@@ -43,10 +106,8 @@ export class MigrationRegistry {
 
     // Apply migrations in sequence
     let migratedPrefs = prefs;
-    const migrationPath = this.getMigrationPath(currentVersion, SCHEMA_VERSION);
-
-    for (const version of migrationPath) {
-      const migration = this.migrations.get(version);
+    for (const step of this.getMigrationPath(currentVersion, SCHEMA_VERSION)) {
+      const migration = this.getMigration(step);
       if (migration) {
         migratedPrefs = await migration(migratedPrefs) as Record<string, unknown>;
       }
@@ -60,21 +121,94 @@ export class MigrationRegistry {
     return this.ensureValidStructure(result);
   }
 
+  /**
+   * Migrate preferences up or down to a specific schema version. The result
+   * is not validated against the current schema, since older versions may
+   * not satisfy it.
+   */
+  async migrateTo(preferences: unknown, targetVersion: string): Promise<Record<string, unknown>> {
+    const report = await this.runChain(preferences, targetVersion, false);
+    return report.result;
+  }
+
+  /**
+   * Run the migration chain on a copy of the preferences and report what
+   * each step changed, without touching the input
+   */
+  async dryRun(preferences: unknown, targetVersion: string = SCHEMA_VERSION): Promise<MigrationReport> {
+    return this.runChain(preferences, targetVersion, true);
+  }
+
+  private async runChain(preferences: unknown, targetVersion: string, collectChanges: boolean): Promise<MigrationReport> {
+    if (!this.versions.has(targetVersion)) {
+      throw new Error(`Unknown target schema version "${targetVersion}"`);
+    }
+
+    const source = preferences && typeof preferences === 'object'
+      ? structuredClone(preferences as Record<string, unknown>)
+      : {};
+    const fromVersion = (source.schemaVersion as string) || '1.0.0';
+
+    let current = source;
+    const steps: MigrationStepReport[] = [];
+
+    for (const step of this.getMigrationPath(fromVersion, targetVersion)) {
+      const migration = this.getMigration(step);
+      const before = collectChanges ? structuredClone(current) : current;
+
+      if (migration) {
+        current = await migration(current) as Record<string, unknown>;
+      }
+      current = { ...current, schemaVersion: step.to };
+
+      steps.push({
+        ...step,
+        applied: Boolean(migration),
+        changes: collectChanges ? diffObjects(before, current) : [],
+      });
+    }
+
+    return { fromVersion, toVersion: targetVersion, steps, result: current };
+  }
+
+  private getMigration(step: { from: string; direction: MigrationDirection }): MigrationFunction | undefined {
+    return step.direction === 'up' ? this.migrations.get(step.from) : this.downMigrations.get(step.from);
+  }
+
   /**
    * Get the migration path from source to target version
    */
-  private getMigrationPath(fromVersion: string, toVersion: string): string[] {
-    // For now, simple implementation - in production, this would handle
-    // complex version ordering and dependency resolution
-    const versions = ['1.0.0', '1.0.1', '1.1.0'];
-    const fromIndex = versions.indexOf(fromVersion);
+  private getMigrationPath(
+    fromVersion: string,
+    toVersion: string
+  ): Array<{ from: string; to: string; direction: MigrationDirection }> {
+    const versions = this.getVersions();
+    let fromIndex = versions.indexOf(fromVersion);
     const toIndex = versions.indexOf(toVersion);
 
-    if (fromIndex === -1 || toIndex === -1 || fromIndex >= toIndex) {
+    // Data older than every registered version goes through the whole chain
+    if (fromIndex === -1 && /^\d+(\.\d+)*$/.test(fromVersion) && compareVersions(fromVersion, versions[0]!) < 0) {
+      fromIndex = 0;
+    }
+    // Data from a newer build or with a mistyped version must not pass as migrated
+    if (fromIndex === -1) {
+      throw new Error(`Unknown source schema version "${fromVersion}"`);
+    }
+    if (toIndex === -1 || fromIndex === toIndex) {
       return [];
     }
 
-    return versions.slice(fromIndex, toIndex);
+    const path: Array<{ from: string; to: string; direction: MigrationDirection }> = [];
+    if (fromIndex < toIndex) {
+      for (let i = fromIndex; i < toIndex; i++) {
+        path.push({ from: versions[i]!, to: versions[i + 1]!, direction: 'up' });
+      }
+    } else {
+      for (let i = fromIndex; i > toIndex; i--) {
+        path.push({ from: versions[i]!, to: versions[i - 1]!, direction: 'down' });
+      }
+    }
+    return path;
   }
 
   /**
@@ -117,9 +251,25 @@ export class MigrationRegistry {
         motionReduction: false,
         highContrast: false,
         colorVisionFilter: 'none',
+        colorVisionSeverity: 1,
+        colorVisionMode: 'correct',
         fontSize: 1.0,
         reducedFlashing: false,
         darkMode: false,
+        letterSpacing: 0,
+        wordSpacing: 0,
+        lineHeight: 0,
+        paragraphSpacing: 0,
+        readingFont: 'default',
+        readingGuide: 'off',
+        bionicReading: false,
+        reducedTransparency: false,
+        systemSync: {
+          motionReduction: 'system',
+          highContrast: 'system',
+          darkMode: 'system',
+          reducedTransparency: 'system',
+        },
       },
       cognitive: {
         readingSpeed: 'medium',
@@ -147,6 +297,56 @@ export class MigrationRegistry {
   }
 }
 
+/**
+ * Compare two dotted version strings numerically
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * List leaf-level differences between two plain objects
+ */
+function diffObjects(before: unknown, after: unknown, path = ''): MigrationFieldChange[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  // Report added or removed sections field by field
+  if (before === undefined && isObject(after)) {
+    return diffObjects({}, after, path);
+  }
+  if (isObject(before) && after === undefined) {
+    return diffObjects(before, {}, path);
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: MigrationFieldChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      changes.push(...diffObjects(before[key], after[key], path ? `${path}.${key}` : key));
+    }
+    return changes;
+  }
+
+  if (before === undefined && after !== undefined) {
+    return [{ path, type: 'added', after }];
+  }
+  if (before !== undefined && after === undefined) {
+    return [{ path, type: 'removed', before }];
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    return [{ path, type: 'changed', before, after }];
+  }
+  return [];
+}
+
 // Default migration registry with built-in migrations
 export const defaultMigrationRegistry = new MigrationRegistry();
 
@@ -178,4 +378,108 @@ defaultMigrationRegistry.registerMigration('1.0.1', (prefs: unknown) => {
       consistencyLevel: ai.consistencyLevel || 'moderate',
     },
   };
-}); 
\ No newline at end of file
+});
+
+defaultMigrationRegistry.registerMigration('1.1.0', (prefs: unknown) => {
+  // Migration from 1.1.0 to 1.2.0: Add color vision severity and mode
+  const p = prefs as Record<string, unknown>;
+  const sensory = (p.sensory as Record<string, unknown>) || {};
+  return {
+    ...p,
+    sensory: {
+      ...sensory,
+      colorVisionSeverity: sensory.colorVisionSeverity ?? 1,
+      colorVisionMode: sensory.colorVisionMode || 'correct',
+    },
+  };
+});
+
+defaultMigrationRegistry.registerMigration('1.2.0', (prefs: unknown) => {
+  // Migration from 1.2.0 to 1.3.0: Add reading aids
+  const p = prefs as Record<string, unknown>;
+  return {
+    ...p,
+    sensory: {
+      letterSpacing: 0,
+      wordSpacing: 0,
+      lineHeight: 0,
+      paragraphSpacing: 0,
+      readingFont: 'default',
+      readingGuide: 'off',
+      bionicReading: false,
+      ...((p.sensory as Record<string, unknown>) || {}),
+    },
+  };
+});
+
+defaultMigrationRegistry.registerMigration('1.3.0', (prefs: unknown) => {
+  // Migration from 1.3.0 to 1.4.0: Add reduced transparency and per-field system sync.
+  // Values that differ from the defaults were chosen by the user, so they stay explicit.
+  const p = prefs as Record<string, unknown>;
+  const sensory = (p.sensory as Record<string, unknown>) || {};
+  const source = (value: unknown) => (value === true ? 'explicit' : 'system');
+  return {
+    ...p,
+    sensory: {
+      ...sensory,
+      reducedTransparency: sensory.reducedTransparency ?? false,
+      systemSync: sensory.systemSync ?? {
+        motionReduction: source(sensory.motionReduction),
+        highContrast: source(sensory.highContrast),
+        darkMode: source(sensory.darkMode),
+        reducedTransparency: 'system',
+      },
+    },
+  };
+});
+
+// Built-in down-migrations so older builds can read newer profiles
+defaultMigrationRegistry.registerDownMigration('1.4.0', (prefs: unknown) => {
+  // Migration from 1.4.0 to 1.3.0: Drop reduced transparency and system sync sources
+  const p = prefs as Record<string, unknown>;
+  const {
+    reducedTransparency: _reducedTransparency,
+    systemSync: _systemSync,
+    ...sensory
+  } = (p.sensory as Record<string, unknown>) || {};
+  return { ...p, sensory };
+});
+
+defaultMigrationRegistry.registerDownMigration('1.3.0', (prefs: unknown) => {
+  // Migration from 1.3.0 to 1.2.0: Drop reading aids
+  const p = prefs as Record<string, unknown>;
+  const {
+    letterSpacing: _letterSpacing,
+    wordSpacing: _wordSpacing,
+    lineHeight: _lineHeight,
+    paragraphSpacing: _paragraphSpacing,
+    readingFont: _readingFont,
+    readingGuide: _readingGuide,
+    bionicReading: _bionicReading,
+    ...sensory
+  } = (p.sensory as Record<string, unknown>) || {};
+  return { ...p, sensory };
+});
+
+defaultMigrationRegistry.registerDownMigration('1.2.0', (prefs: unknown) => {
+  // Migration from 1.2.0 to 1.1.0: Drop color vision severity and mode; achromatopsia has no 1.1.0 equivalent
+  const p = prefs as Record<string, unknown>;
+  const { colorVisionSeverity: _severity, colorVisionMode: _mode, ...sensory } = (p.sensory as Record<string, unknown>) || {};
+  if (sensory.colorVisionFilter === 'achromatopsia') {
+    sensory.colorVisionFilter = 'none';
+  }
+  return { ...p, sensory };
+});
+
+defaultMigrationRegistry.registerDownMigration('1.1.0', (prefs: unknown) => {
+  // Migration from 1.1.0 to 1.0.1: Drop AI consistency level
+  const p = prefs as Record<string, unknown>;
+  const { consistencyLevel: _consistencyLevel, ...ai } = (p.ai as Record<string, unknown>) || {};
+  return { ...p, ai };
+});
+
+defaultMigrationRegistry.registerDownMigration('1.0.1', (prefs: unknown) => {
+  // Migration from 1.0.1 to 1.0.0: Drop VR preferences
+  const { vr: _vr, ...rest } = prefs as Record<string, unknown>;
+  return rest;
+});
@@ -0,0 +1,186 @@
+import type { z, AnyZodObject } from 'zod';
+
+import type { PreferenceNamespaceEntry } from './schemas.js';
+import { compareVersions } from './migration.js';
+
+/**
+ * Upgrades a namespace's data by one version. Namespace migrations are
+ * synchronous so typed getters can resolve stored data on read.
+ */
+export type NamespaceMigrationFunction = (data: unknown) => unknown;
+
+/**
+ * A single migration step for a namespace
+ */
+export interface NamespaceMigration {
+  from: string;
+  to: string;
+  migrate: NamespaceMigrationFunction;
+}
+
+/**
+ * Definition a plugin provides for its preference namespace
+ */
+export interface PreferenceNamespaceDefinition<S extends AnyZodObject> {
+  /** Unique name; letters, digits, `-` and `_`, starting with a letter */
+  name: string;
+  /** Zod object schema for the namespace data */
+  schema: S;
+  /** Current version of the namespace data; defaults to 1.0.0 */
+  version?: string;
+  /** Input for the defaults; defaults to `{}`, so every field needs a `.default()` unless given here */
+  defaults?: z.input<S>;
+  /** Steps that upgrade data written by older plugin versions */
+  migrations?: NamespaceMigration[];
+}
+
+/**
+ * A registered-ready namespace. Pass it to PreferenceStore's namespace
+ * methods to get data typed by the schema.
+ */
+export interface PreferenceNamespace<S extends AnyZodObject = AnyZodObject> {
+  readonly name: string;
+  readonly schema: S;
+  readonly version: string;
+  readonly defaults: z.output<S>;
+  readonly migrations: readonly NamespaceMigration[];
+}
+
+/**
+ * Data stored in a namespace
+ */
+export type NamespaceData<N extends PreferenceNamespace> = z.output<N['schema']>;
+
+/**
+ * Partial update accepted for a namespace
+ */
+export type NamespaceUpdate<N extends PreferenceNamespace> = Partial<z.input<N['schema']>>;
+
+const NAMESPACE_NAME_PATTERN = /^[a-zA-Z][\w-]*$/;
+
+/**
+ * Define a preference namespace. Defaults are computed and validated up
+ * front so a broken definition fails at startup rather than on first read.
+ */
+export function definePreferenceNamespace<S extends AnyZodObject>(
+  definition: PreferenceNamespaceDefinition<S>
+): PreferenceNamespace<S> {
+  if (!NAMESPACE_NAME_PATTERN.test(definition.name)) {
+    throw new Error(`Invalid preference namespace name "${definition.name}"`);
+  }
+
+  const parsed = definition.schema.safeParse(definition.defaults ?? {});
+  if (!parsed.success) {
+    throw new Error(
+      `Preference namespace "${definition.name}" has invalid defaults: ${parsed.error.errors.map(e => e.message).join(', ')}`
+    );
+  }
+
+  return {
+    name: definition.name,
+    schema: definition.schema,
+    version: definition.version ?? '1.0.0',
+    defaults: parsed.data,
+    migrations: [...(definition.migrations ?? [])],
+  };
+}
+
+/**
+ * Registry of plugin preference namespaces. PreferenceStore uses it to
+ * validate and migrate namespace data on updates and imports.
+ */
+export class PreferenceNamespaceRegistry {
+  private readonly namespaces = new Map<string, PreferenceNamespace>();
+
+  /**
+   * Register a namespace. Registering the same namespace again is a no-op;
+   * registering a different one under a taken name throws.
+   */
+  register<S extends AnyZodObject>(namespace: PreferenceNamespace<S>): PreferenceNamespace<S> {
+    const existing = this.namespaces.get(namespace.name);
+    if (existing && existing !== namespace) {
+      throw new Error(`Preference namespace "${namespace.name}" is already registered`);
+    }
+    this.namespaces.set(namespace.name, namespace as unknown as PreferenceNamespace);
+    return namespace;
+  }
+
+  /**
+   * Remove a namespace. Stored data is kept so it is available if the plugin returns.
+   */
+  unregister(name: string): boolean {
+    return this.namespaces.delete(name);
+  }
+
+  get(name: string): PreferenceNamespace | undefined {
+    return this.namespaces.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.namespaces.has(name);
+  }
+
+  list(): string[] {
+    return [...this.namespaces.keys()];
+  }
+
+  /**
+   * Migrate a stored entry to the namespace's current version and validate it.
+   * A missing entry resolves to the defaults. Throws a ZodError for invalid data.
+   */
+  resolve<S extends AnyZodObject>(namespace: PreferenceNamespace<S>, entry: PreferenceNamespaceEntry | undefined): z.output<S> {
+    if (!entry) {
+      return structuredClone(namespace.defaults);
+    }
+
+    const data = migrateNamespaceData(namespace, entry);
+    return namespace.schema.parse({ ...structuredClone(namespace.defaults), ...(data as object) });
+  }
+
+  /**
+   * Migrate and validate every registered namespace in a set of stored
+   * entries. Entries for unregistered namespaces are passed through untouched.
+   */
+  normalize(entries: Record<string, PreferenceNamespaceEntry> | undefined): Record<string, PreferenceNamespaceEntry> | undefined {
+    if (!entries) {
+      return entries;
+    }
+
+    const normalized: Record<string, PreferenceNamespaceEntry> = {};
+    for (const [name, entry] of Object.entries(entries)) {
+      const namespace = this.namespaces.get(name);
+      normalized[name] = namespace
+        ? { version: namespace.version, data: this.resolve(namespace, entry) }
+        : entry;
+    }
+    return normalized;
+  }
+}
+
+function migrateNamespaceData(namespace: PreferenceNamespace, entry: PreferenceNamespaceEntry): unknown {
+  let version = entry.version;
+  let data: unknown = structuredClone(entry.data);
+
+  if (compareVersions(version, namespace.version) > 0) {
+    throw new Error(
+      `Preference namespace "${namespace.name}" was written by a newer version (${version}) than registered (${namespace.version})`
+    );
+  }
+
+  while (compareVersions(version, namespace.version) < 0) {
+    const step = namespace.migrations.find(migration => migration.from === version);
+    if (!step) {
+      throw new Error(`No migration for preference namespace "${namespace.name}" from version ${version}`);
+    }
+    if (compareVersions(step.to, version) <= 0) {
+      throw new Error(`Migration for preference namespace "${namespace.name}" from ${version} does not move forward`);
+    }
+    data = step.migrate(data);
+    version = step.to;
+  }
+
+  return data;
+}
+
+// Default registry used by PreferenceStore
+export const defaultNamespaceRegistry = new PreferenceNamespaceRegistry();
@@ -0,0 +1,486 @@
+import { EventEmitter } from 'eventemitter3';
+
+import { PreferencesSchema, PreferencesUpdateSchema, type Preferences, type PreferencesUpdate } from './schemas.js';
+import type { PreferenceStorage } from './storage.js';
+import type { PreferenceStore } from './store.js';
+
+/**
+ * Device classes used by device-based profile rules
+ */
+export type DeviceClass = 'mobile' | 'tablet' | 'desktop' | 'vr';
+
+/**
+ * Summary of a stored preference profile
+ */
+export interface ProfileInfo {
+  id: string;
+  name: string;
+  lastModified?: string;
+}
+
+/**
+ * Context used to evaluate auto-switching rules
+ */
+export interface ProfileContext {
+  date?: Date;
+  deviceClass?: DeviceClass;
+  route?: string;
+}
+
+/**
+ * Conditions a profile rule can match on. All conditions of a rule must match.
+ */
+export type ProfileCondition =
+  | {
+      type: 'time';
+      /** Start of the window as `HH:MM` (24h) */
+      start: string;
+      /** End of the window as `HH:MM` (24h); may be earlier than start to wrap midnight */
+      end: string;
+      /** Days of week (0 = Sunday) the window applies to; defaults to every day */
+      days?: number[];
+    }
+  | { type: 'device'; deviceClass: DeviceClass | DeviceClass[] }
+  | { type: 'route'; pattern: string | RegExp }
+  | { type: 'custom'; test: (context: ProfileContext) => boolean };
+
+/**
+ * Rule that activates a profile when its conditions match the current context
+ */
+export interface ProfileRule {
+  profileId: string;
+  conditions: ProfileCondition[];
+  priority?: number;
+}
+
+/**
+ * Events emitted by ProfileManager
+ */
+export interface ProfileManagerEvents {
+  'profile-created': (profile: ProfileInfo) => void;
+  'profile-removed': (id: string) => void;
+  'profile-renamed': (profile: ProfileInfo, previousName: string) => void;
+  'profile-activated': (id: string, previousId: string | null) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Configuration for ProfileManager
+ */
+export interface ProfileManagerConfig {
+  store: PreferenceStore;
+  /** Must be the same storage backend the store was created with */
+  storage: PreferenceStorage;
+  rules?: ProfileRule[];
+  autoSwitch?: boolean;
+  /** Profile to fall back to when no rule matches during auto-switching */
+  fallbackProfileId?: string;
+  keyPrefix?: string;
+}
+
+/**
+ * ProfileManager keeps several named preference profiles in a single
+ * PreferenceStorage and switches the PreferenceStore between them, either
+ * explicitly or automatically based on context rules
+ */
+export class ProfileManager extends EventEmitter<ProfileManagerEvents> {
+  private readonly store: PreferenceStore;
+  private readonly storage: PreferenceStorage;
+  private readonly keyPrefix: string;
+  private readonly fallbackProfileId: string | undefined;
+  private rules: ProfileRule[] = [];
+  private autoSwitch: boolean;
+  private context: ProfileContext = {};
+  private activeProfileId: string | null = null;
+  private autoSwitchTimer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(config: ProfileManagerConfig) {
+    super();
+
+    this.store = config.store;
+    this.storage = config.storage;
+    this.keyPrefix = config.keyPrefix || 'profile:';
+    this.fallbackProfileId = config.fallbackProfileId;
+    for (const rule of config.rules || []) {
+      this.addRule(rule);
+    }
+    this.autoSwitch = config.autoSwitch ?? true;
+
+    const currentKey = this.store.getStorageKey();
+    if (currentKey.startsWith(this.keyPrefix)) {
+      this.activeProfileId = currentKey.substring(this.keyPrefix.length);
+    }
+  }
+
+  /**
+   * List all stored profiles
+   */
+  async listProfiles(): Promise<ProfileInfo[]> {
+    const keys = await this.storage.list();
+    const profiles: ProfileInfo[] = [];
+
+    for (const key of keys) {
+      if (!key.startsWith(this.keyPrefix)) {
+        continue;
+      }
+      const id = key.substring(this.keyPrefix.length);
+      const preferences = await this.storage.get(key);
+      if (preferences) {
+        profiles.push(this.toProfileInfo(id, preferences));
+      }
+    }
+
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a single profile summary, or null if it does not exist
+   */
+  async getProfile(id: string): Promise<ProfileInfo | null> {
+    const preferences = await this.storage.get(this.getKey(id));
+    return preferences ? this.toProfileInfo(id, preferences) : null;
+  }
+
+  /**
+   * Create a new profile from defaults plus optional overrides
+   */
+  async createProfile(name: string, overrides: PreferencesUpdate = {}, id?: string): Promise<ProfileInfo> {
+    const profileId = id ?? (await this.generateId(name));
+    if (await this.storage.exists(this.getKey(profileId))) {
+      throw new Error(`Profile "${profileId}" already exists`);
+    }
+
+    const validatedOverrides = PreferencesUpdateSchema.parse(overrides);
+    const base = PreferencesSchema.parse({ sensory: {}, cognitive: {}, ai: {}, vr: {} });
+    const preferences = PreferencesSchema.parse({
+      ...base,
+      ...validatedOverrides,
+      sensory: { ...base.sensory, ...validatedOverrides.sensory },
+      cognitive: { ...base.cognitive, ...validatedOverrides.cognitive },
+      ai: { ...base.ai, ...validatedOverrides.ai },
+      vr: { ...base.vr, ...validatedOverrides.vr },
+      profileName: name,
+      lastModified: new Date().toISOString(),
+    });
+
+    await this.storage.set(this.getKey(profileId), preferences);
+
+    const profile = this.toProfileInfo(profileId, preferences);
+    this.emit('profile-created', profile);
+    return profile;
+  }
+
+  /**
+   * Create a copy of an existing profile under a new name
+   */
+  async cloneProfile(sourceId: string, name: string, id?: string): Promise<ProfileInfo> {
+    const source = await this.requireProfile(sourceId);
+    const profileId = id ?? (await this.generateId(name));
+    if (await this.storage.exists(this.getKey(profileId))) {
+      throw new Error(`Profile "${profileId}" already exists`);
+    }
+
+    const preferences: Preferences = {
+      ...structuredClone(source),
+      profileName: name,
+      lastModified: new Date().toISOString(),
+    };
+    await this.storage.set(this.getKey(profileId), preferences);
+
+    const profile = this.toProfileInfo(profileId, preferences);
+    this.emit('profile-created', profile);
+    return profile;
+  }
+
+  /**
+   * Change the display name of a profile. The profile id stays stable so
+   * rules referring to it keep working.
+   */
+  async renameProfile(id: string, name: string): Promise<ProfileInfo> {
+    if (id === this.activeProfileId) {
+      const previousName = this.store.getPreferences().profileName ?? id;
+      await this.store.updatePreferences({ profileName: name });
+      // An auto-saving store has already written the new name
+      if (!this.store.isAutoSaveEnabled()) {
+        await this.store.save();
+      }
+      const profile = this.toProfileInfo(id, this.store.getPreferences());
+      this.emit('profile-renamed', profile, previousName);
+      return profile;
+    }
+
+    const preferences = await this.requireProfile(id);
+    const previousName = preferences.profileName ?? id;
+    const renamed: Preferences = {
+      ...preferences,
+      profileName: name,
+      lastModified: new Date().toISOString(),
+    };
+    await this.storage.set(this.getKey(id), renamed);
+
+    const profile = this.toProfileInfo(id, renamed);
+    this.emit('profile-renamed', profile, previousName);
+    return profile;
+  }
+
+  /**
+   * Delete a profile. The active profile cannot be deleted.
+   */
+  async removeProfile(id: string): Promise<void> {
+    if (id === this.activeProfileId) {
+      throw new Error(`Cannot remove active profile "${id}"`);
+    }
+
+    await this.requireProfile(id);
+    await this.storage.remove(this.getKey(id));
+    this.rules = this.rules.filter(rule => rule.profileId !== id);
+
+    this.emit('profile-removed', id);
+  }
+
+  /**
+   * Make a profile the active one, switching the underlying PreferenceStore
+   */
+  async activateProfile(id: string): Promise<void> {
+    if (id === this.activeProfileId) {
+      return;
+    }
+
+    await this.requireProfile(id);
+
+    const previousId = this.activeProfileId;
+    await this.store.switchProfile(this.getKey(id));
+    this.activeProfileId = id;
+
+    this.emit('profile-activated', id, previousId);
+  }
+
+  /**
+   * Get the id of the active profile, or null if the store is not on a profile key
+   */
+  getActiveProfileId(): string | null {
+    return this.activeProfileId;
+  }
+
+  /**
+   * Add an auto-switching rule. Time conditions are checked here, so a
+   * malformed rule fails when it is added rather than on the next evaluation.
+   */
+  addRule(rule: ProfileRule): void {
+    for (const condition of rule.conditions) {
+      if (condition.type === 'time') {
+        parseTime(condition.start);
+        parseTime(condition.end);
+      }
+    }
+    this.rules.push(rule);
+  }
+
+  /**
+   * Remove all auto-switching rules for a profile
+   */
+  removeRules(profileId: string): void {
+    this.rules = this.rules.filter(rule => rule.profileId !== profileId);
+  }
+
+  /**
+   * Get the configured auto-switching rules
+   */
+  getRules(): readonly ProfileRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Enable or disable automatic profile switching
+   */
+  setAutoSwitch(enabled: boolean): void {
+    this.autoSwitch = enabled;
+    if (!enabled) {
+      this.stopAutoSwitch();
+    }
+  }
+
+  /**
+   * Find the profile whose rules best match the given context. Higher
+   * priority wins; rules with equal priority are resolved in insertion order.
+   */
+  resolveProfile(context: ProfileContext = this.context): string | null {
+    const evaluationContext: ProfileContext = { ...context, date: context.date ?? new Date() };
+    let best: ProfileRule | undefined;
+
+    for (const rule of this.rules) {
+      if (!rule.conditions.every(condition => matchesCondition(condition, evaluationContext))) {
+        continue;
+      }
+      if (!best || (rule.priority ?? 0) > (best.priority ?? 0)) {
+        best = rule;
+      }
+    }
+
+    return best?.profileId ?? this.fallbackProfileId ?? null;
+  }
+
+  /**
+   * Update the switching context (device, route, ...) and re-evaluate rules
+   */
+  async updateContext(context: Partial<ProfileContext>): Promise<string | null> {
+    this.context = { ...this.context, ...context };
+    return this.evaluate();
+  }
+
+  /**
+   * Re-evaluate rules against the current context and activate the matching
+   * profile when auto-switching is enabled. Errors, e.g. from a custom rule,
+   * are emitted as `error` and resolve to null.
+   */
+  async evaluate(): Promise<string | null> {
+    try {
+      const profileId = this.resolveProfile();
+      if (this.autoSwitch && profileId && profileId !== this.activeProfileId) {
+        await this.activateProfile(profileId);
+      }
+      return profileId;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      this.emit('error', errorObj);
+      return null;
+    }
+  }
+
+  /**
+   * Periodically re-evaluate rules so time-of-day rules take effect
+   */
+  startAutoSwitch(intervalMs = 60000): void {
+    this.stopAutoSwitch();
+    this.autoSwitch = true;
+    this.autoSwitchTimer = setInterval(() => {
+      void this.evaluate();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop periodic rule evaluation
+   */
+  stopAutoSwitch(): void {
+    if (this.autoSwitchTimer !== undefined) {
+      clearInterval(this.autoSwitchTimer);
+      this.autoSwitchTimer = undefined;
+    }
+  }
+
+  /**
+   * Stop timers and remove all listeners
+   */
+  destroy(): void {
+    this.stopAutoSwitch();
+    this.removeAllListeners();
+  }
+
+  private async requireProfile(id: string): Promise<Preferences> {
+    const preferences = await this.storage.get(this.getKey(id));
+    if (!preferences) {
+      throw new Error(`Profile "${id}" does not exist`);
+    }
+    return preferences;
+  }
+
+  private async generateId(name: string): Promise<string> {
+    const base = name
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'profile';
+
+    let candidate = base;
+    let suffix = 2;
+    while (await this.storage.exists(this.getKey(candidate))) {
+      candidate = `${base}-${suffix++}`;
+    }
+    return candidate;
+  }
+
+  private getKey(id: string): string {
+    return `${this.keyPrefix}${id}`;
+  }
+
+  private toProfileInfo(id: string, preferences: Preferences): ProfileInfo {
+    return {
+      id,
+      name: preferences.profileName ?? id,
+      ...(preferences.lastModified && { lastModified: preferences.lastModified }),
+    };
+  }
+}
+
+/**
+ * Best-effort detection of the current device class
+ */
+export function detectDeviceClass(): DeviceClass {
+  if (typeof window === 'undefined' || typeof navigator === 'undefined') {
+    return 'desktop';
+  }
+
+  if (/OculusBrowser|Quest|Vive|Pico/i.test(navigator.userAgent)) {
+    return 'vr';
+  }
+
+  const width = window.innerWidth;
+  const coarsePointer = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+
+  if (coarsePointer && width < 768) return 'mobile';
+  if (coarsePointer && width < 1280) return 'tablet';
+  return 'desktop';
+}
+
+function matchesCondition(condition: ProfileCondition, context: ProfileContext): boolean {
+  switch (condition.type) {
+    case 'time':
+      return matchesTimeWindow(condition, context.date ?? new Date());
+    case 'device': {
+      if (!context.deviceClass) return false;
+      const classes = Array.isArray(condition.deviceClass) ? condition.deviceClass : [condition.deviceClass];
+      return classes.includes(context.deviceClass);
+    }
+    case 'route': {
+      if (context.route === undefined) return false;
+      if (condition.pattern instanceof RegExp) {
+        return condition.pattern.test(context.route);
+      }
+      return condition.pattern.endsWith('*')
+        ? context.route.startsWith(condition.pattern.slice(0, -1))
+        : context.route === condition.pattern;
+    }
+    case 'custom':
+      return condition.test(context);
+  }
+}
+
+function matchesTimeWindow(condition: { start: string; end: string; days?: number[] }, date: Date): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = parseTime(condition.start);
+  const end = parseTime(condition.end);
+
+  // Windows that wrap midnight (e.g. 20:00-06:00) belong to the day they started on
+  const wraps = start > end;
+  const inWindow = wraps ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+  if (!inWindow) {
+    return false;
+  }
+
+  if (!condition.days || condition.days.length === 0) {
+    return true;
+  }
+
+  const day = wraps && minutes < end ? (date.getDay() + 6) % 7 : date.getDay();
+  return condition.days.includes(day);
+}
+
+function parseTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+  if (!match || hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time "${value}", expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
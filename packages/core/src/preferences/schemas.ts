@@ -1,16 +1,44 @@
 import { z } from 'zod';
 
 // Schema version for migrations
-export const SCHEMA_VERSION = '1.1.0';
+export const SCHEMA_VERSION = '1.4.0';
+
+// Sensory fields that can follow the operating system's media queries
+export const SYSTEM_SYNCED_SENSORY_FIELDS = ['motionReduction', 'highContrast', 'darkMode', 'reducedTransparency'] as const;
+
+// Whether the operating system setting or the user's own value wins
+export const PreferenceSourceSchema = z.enum(['system', 'explicit']);
 
 // Core sensory preferences
 export const SensoryPreferencesSchema = z.object({
   motionReduction: z.boolean().default(false),
   highContrast: z.boolean().default(false),
-  colorVisionFilter: z.enum(['none', 'protanopia', 'deuteranopia', 'tritanopia']).default('none'),
+  colorVisionFilter: z.enum(['none', 'protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia']).default('none'),
+  colorVisionSeverity: z.number().min(0).max(1).default(1),
+  colorVisionMode: z.enum(['correct', 'simulate']).default('correct'),
   fontSize: z.number().min(0.5).max(3.0).default(1.0),
   reducedFlashing: z.boolean().default(false),
   darkMode: z.boolean().default(false),
+  // Reading aids; spacing is in em (line height is a multiplier) and 0 keeps the page's own value
+  letterSpacing: z.number().min(0).max(0.5).default(0),
+  wordSpacing: z.number().min(0).max(1).default(0),
+  lineHeight: z.number().min(0).max(3).default(0),
+  paragraphSpacing: z.number().min(0).max(4).default(0),
+  readingFont: z.enum(['default', 'opendyslexic', 'atkinson-hyperlegible', 'lexend']).default('default'),
+  readingGuide: z.enum(['off', 'ruler', 'line-focus']).default('off'),
+  bionicReading: z.boolean().default(false),
+  reducedTransparency: z.boolean().default(false),
+  systemSync: z.object({
+    motionReduction: PreferenceSourceSchema.default('system'),
+    highContrast: PreferenceSourceSchema.default('system'),
+    darkMode: PreferenceSourceSchema.default('system'),
+    reducedTransparency: PreferenceSourceSchema.default('system'),
+  }).default({
+    motionReduction: 'system',
+    highContrast: 'system',
+    darkMode: 'system',
+    reducedTransparency: 'system',
+  }),
 });
 
 // Cognitive load preferences
@@ -41,6 +69,12 @@ export const VRPreferencesSchema = z.object({
   panicButtonEnabled: z.boolean().default(true),
 });
 
+// Plugin-owned data, validated against the schema registered for its namespace
+export const PreferenceNamespaceEntrySchema = z.object({
+  version: z.string(),
+  data: z.record(z.unknown()),
+});
+
 // Complete preferences schema
 export const PreferencesSchema = z.object({
   schemaVersion: z.string().default(SCHEMA_VERSION),
@@ -52,6 +86,7 @@ export const PreferencesSchema = z.object({
   ai: AIPreferencesSchema,
   vr: VRPreferencesSchema,
   metadata: z.record(z.unknown()).optional(),
+  namespaces: z.record(PreferenceNamespaceEntrySchema).optional(),
 });
 
 // Type exports
@@ -59,13 +94,24 @@ export type SensoryPreferences = z.infer<typeof SensoryPreferencesSchema>;
 export type CognitivePreferences = z.infer<typeof CognitivePreferencesSchema>;
 export type AIPreferences = z.infer<typeof AIPreferencesSchema>;
 export type VRPreferences = z.infer<typeof VRPreferencesSchema>;
+export type PreferenceSource = z.infer<typeof PreferenceSourceSchema>;
+export type SystemSyncedSensoryField = (typeof SYSTEM_SYNCED_SENSORY_FIELDS)[number];
+export type PreferenceNamespaceEntry = z.infer<typeof PreferenceNamespaceEntrySchema>;
 export type Preferences = z.infer<typeof PreferencesSchema>;
 
-// Partial update schema for safe mutations
-export const PreferencesUpdateSchema = PreferencesSchema.partial().omit({
+// Partial update schema for safe mutations. Sections are partial too, so
+// fields missing from an update are left alone instead of reset to defaults.
+export const PreferencesUpdateSchema = PreferencesSchema.omit({
   schemaVersion: true,
   lastModified: true,
-});
+})
+  .extend({
+    sensory: SensoryPreferencesSchema.partial(),
+    cognitive: CognitivePreferencesSchema.partial(),
+    ai: AIPreferencesSchema.partial(),
+    vr: VRPreferencesSchema.partial(),
+  })
+  .partial();
 
 export type PreferencesUpdate = z.infer<typeof PreferencesUpdateSchema>;
 
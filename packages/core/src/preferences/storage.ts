@@ -9,6 +9,8 @@ export interface PreferenceStorage {
   remove(key: string): Promise<void>;
   list(): Promise<string[]>;
   exists(key: string): Promise<boolean>;
+  /** True if entries are encrypted at rest */
+  readonly encrypted?: boolean;
 }
 
 /**
@@ -11,6 +11,14 @@ import {
 } from './schemas.js';
 import { type PreferenceStorage, LocalStoragePreferenceStorage } from './storage.js';
 import { defaultMigrationRegistry, type MigrationRegistry } from './migration.js';
+import { diffPreferences, hasPreferenceChanges } from './diff.js';
+import {
+  defaultNamespaceRegistry,
+  type PreferenceNamespace,
+  type PreferenceNamespaceRegistry,
+  type NamespaceData,
+  type NamespaceUpdate,
+} from './namespaces.js';
 
 /**
  * Events emitted by PreferenceStore
@@ -21,6 +29,32 @@ export interface PreferenceStoreEvents {
   loaded: (preferences: Preferences) => void;
   saved: (preferences: Preferences) => void;
   error: (error: Error) => void;
+  history: (state: PreferenceHistoryState) => void;
+}
+
+/**
+ * Undo/redo availability reported by the `history` event
+ */
+export interface PreferenceHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Handle passed to `PreferenceStore.transaction` callbacks. Writes made
+ * through it are staged in the transaction and reads include them; it
+ * cannot be used once the transaction has finished.
+ */
+export interface PreferenceTransaction {
+  getPreferences(): Preferences;
+  updatePreferences(updates: PreferencesUpdate): Promise<void>;
+  reset(): Promise<void>;
+  import(json: string): Promise<void>;
+  getNamespace<N extends PreferenceNamespace>(namespace: N): NamespaceData<N>;
+  updateNamespace<N extends PreferenceNamespace>(namespace: N, updates: NamespaceUpdate<N>): Promise<void>;
+  resetNamespace<N extends PreferenceNamespace>(namespace: N): Promise<void>;
+  /** Nested transactions join this one */
+  transaction<T>(fn: (tx: PreferenceTransaction) => Promise<T> | T): Promise<T>;
 }
 
 /**
@@ -29,8 +63,10 @@ export interface PreferenceStoreEvents {
 export interface PreferenceStoreConfig {
   storage?: PreferenceStorage;
   migrationRegistry?: MigrationRegistry;
+  namespaceRegistry?: PreferenceNamespaceRegistry;
   autoSave?: boolean;
   storageKey?: string;
+  historyLimit?: number;
 }
 
 /**
@@ -39,25 +75,42 @@ export interface PreferenceStoreConfig {
 export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
   private readonly storage: PreferenceStorage;
   private readonly migrationRegistry: MigrationRegistry;
+  private readonly namespaceRegistry: PreferenceNamespaceRegistry;
   private readonly autoSave: boolean;
-  private readonly storageKey: string;
+  private storageKey: string;
   private preferences: Preferences;
   private isInitialized = false;
+  /** Why the stored preferences could not be loaded; saving is refused until they are replaced */
+  private loadError: Error | null = null;
+  private readonly historyLimit: number;
+  private undoStack: Preferences[] = [];
+  private redoStack: Preferences[] = [];
+  private transactionDraft: Preferences | null = null;
+  private transactionHandle: PreferenceTransaction | null = null;
+  /** Whether the open transaction reset or imported the whole preferences */
+  private transactionReplaces = false;
+  /** Settles when the open transaction has committed or rolled back */
+  private transactionDone: Promise<void> | null = null;
 
   constructor(config: PreferenceStoreConfig = {}) {
     super();
 
     this.storage = config.storage || new LocalStoragePreferenceStorage();
     this.migrationRegistry = config.migrationRegistry || defaultMigrationRegistry;
+    this.namespaceRegistry = config.namespaceRegistry || defaultNamespaceRegistry;
     this.autoSave = config.autoSave ?? true;
     this.storageKey = config.storageKey || 'default';
+    this.historyLimit = config.historyLimit ?? 50;
 
     // Initialize with default preferences
     this.preferences = this.getDefaultPreferences();
   }
 
   /**
-   * Initialize the store by loading preferences from storage
+   * Initialize the store by loading preferences from storage. If the stored
+   * preferences cannot be read or migrated, the store continues with
+   * defaults but becomes read-only, so the stored data is not overwritten
+   * until `reset()` or `import()` replaces it.
    */
   async initialize(): Promise<void> {
     try {
@@ -70,68 +123,172 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
       this.isInitialized = true;
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
+      this.loadError = errorObj;
       this.emit('error', errorObj);
       this.isInitialized = true; // Continue with defaults
     }
   }
 
   /**
-   * Get current preferences
+   * Get current preferences. Updates staged in an open transaction are only
+   * visible through its handle.
    */
   getPreferences(): Preferences {
     return structuredClone(this.preferences);
   }
 
   /**
-   * Update preferences with validation
+   * Update preferences with validation. While a transaction is open the
+   * update waits for it to finish.
    */
   async updatePreferences(updates: PreferencesUpdate): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
     }
+    while (this.transactionDone) {
+      await this.transactionDone;
+    }
 
-    try {
-      // Validate the update
-      const validatedUpdate = PreferencesUpdateSchema.parse(updates);
-
-      // Create new preferences by merging
-      const previousState = structuredClone(this.preferences);
-      const newPreferences = this.mergePreferences(this.preferences, validatedUpdate);
+    const previousState = this.preferences;
+    this.preferences = this.applyUpdate(this.preferences, updates);
+    await this.commit(previousState);
+  }
 
-      // Validate the complete result
-      const validatedPreferences = PreferencesSchema.parse(newPreferences);
+  /**
+   * Apply a change made elsewhere, e.g. by another tab or device. It is
+   * not recorded in history but applied to every undo and redo snapshot
+   * as well, so stepping through local changes never reverts it.
+   */
+  async applyExternalUpdate(updates: PreferencesUpdate): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    while (this.transactionDone) {
+      await this.transactionDone;
+    }
 
-      // Update timestamp
-      validatedPreferences.lastModified = new Date().toISOString();
+    const previousState = this.preferences;
+    this.preferences = this.applyUpdate(this.preferences, updates);
+    this.undoStack = this.undoStack.map(snapshot => this.applyUpdate(snapshot, updates));
+    this.redoStack = this.redoStack.map(snapshot => this.applyUpdate(snapshot, updates));
+    await this.commit(previousState, false);
+  }
 
-      // Update internal state
-      this.preferences = validatedPreferences;
+  /**
+   * Apply several updates atomically. `fn` receives a transaction handle;
+   * updates made through it are validated as they are staged, but
+   * committed, recorded in history, emitted as a single `change` event and
+   * persisted only once `fn` resolves. If `fn` throws, nothing is applied.
+   * Writes made directly on the store while the transaction is open wait
+   * until it has finished, so `fn` must write through the handle; `undo`,
+   * `redo` and `switchProfile` throw while it is open.
+   */
+  async transaction<T>(fn: (tx: PreferenceTransaction) => Promise<T> | T): Promise<T> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    while (this.transactionDone) {
+      await this.transactionDone;
+    }
 
-      // Emit change event with only the changed fields
-      this.emit('change', updates as Partial<Preferences>, previousState);
+    const previousState = structuredClone(this.preferences);
+    const tx = this.createTransaction();
+    this.transactionDraft = structuredClone(this.preferences);
+    this.transactionHandle = tx;
+    this.transactionReplaces = false;
+    let finish!: () => void;
+    this.transactionDone = new Promise(resolve => {
+      finish = resolve;
+    });
 
-      // Auto-save if enabled
-      if (this.autoSave) {
-        await this.save();
+    try {
+      let result: T;
+      let draft: Preferences;
+      try {
+        result = await fn(tx);
+        draft = this.transactionDraft;
+      } finally {
+        this.transactionDraft = null;
+        this.transactionHandle = null;
       }
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const validationErrors: ValidationError[] = error.errors.map(err => ({
-          path: err.path.map(String),
-          message: err.message,
-          code: err.code,
-        }));
-        this.emit('invalid', validationErrors);
-        throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+
+      if (hasPreferenceChanges(previousState, draft)) {
+        if (this.transactionReplaces) {
+          this.loadError = null;
+        }
+        this.preferences = draft;
+        await this.commit(previousState);
       }
-      throw error;
+      return result;
+    } finally {
+      this.transactionDone = null;
+      finish();
     }
   }
 
   /**
-   * Save preferences to storage
+   * Revert the most recent change. Returns false if there is nothing to undo.
+   */
+  async undo(): Promise<boolean> {
+    this.assertNoTransaction('undo');
+    const target = this.undoStack.pop();
+    if (!target) {
+      return false;
+    }
+
+    this.redoStack.push(structuredClone(this.preferences));
+    await this.restoreSnapshot(target);
+    return true;
+  }
+
+  /**
+   * Re-apply the most recently undone change. Returns false if there is nothing to redo.
+   */
+  async redo(): Promise<boolean> {
+    this.assertNoTransaction('redo');
+    const target = this.redoStack.pop();
+    if (!target) {
+      return false;
+    }
+
+    this.undoStack.push(structuredClone(this.preferences));
+    await this.restoreSnapshot(target);
+    return true;
+  }
+
+  /**
+   * Check if there is a change that can be undone
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check if there is an undone change that can be redone
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Drop all undo/redo history
+   */
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emitHistory();
+  }
+
+  /**
+   * Save preferences to storage. Throws while the store is read-only.
    */
   async save(): Promise<void> {
+    if (this.loadError) {
+      throw new Error(
+        `Preferences for "${this.storageKey}" could not be loaded and are left untouched; reset or import to replace them`
+      );
+    }
+
     try {
       await this.storage.set(this.storageKey, this.preferences);
       this.emit('saved', this.preferences);
@@ -143,17 +300,18 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
   }
 
   /**
-   * Reset preferences to defaults
+   * Reset preferences to defaults. This also replaces stored preferences
+   * that could not be loaded.
    */
   async reset(): Promise<void> {
-    const previousState = structuredClone(this.preferences);
-    this.preferences = this.getDefaultPreferences();
-
-    this.emit('change', this.preferences, previousState);
-
-    if (this.autoSave) {
-      await this.save();
+    while (this.transactionDone) {
+      await this.transactionDone;
     }
+
+    this.loadError = null;
+    const previousState = this.preferences;
+    this.preferences = this.getDefaultPreferences();
+    await this.commit(previousState);
   }
 
   /**
@@ -164,37 +322,19 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
   }
 
   /**
-   * Import preferences from JSON
+   * Import preferences from JSON. This also replaces stored preferences
+   * that could not be loaded.
    */
   async import(json: string): Promise<void> {
-    try {
-      const imported = JSON.parse(json);
-      const migrated = await this.migrationRegistry.migrate(imported);
-      const validated = PreferencesSchema.parse(migrated);
-
-      const previousState = structuredClone(this.preferences);
-      this.preferences = validated;
-
-      this.emit('change', validated, previousState);
-
-      if (this.autoSave) {
-        await this.save();
-      }
-    } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error('Invalid JSON format');
-      }
-      if (error instanceof ZodError) {
-        const validationErrors: ValidationError[] = error.errors.map(err => ({
-          path: err.path.map(String),
-          message: err.message,
-          code: err.code,
-        }));
-        this.emit('invalid', validationErrors);
-        throw new Error(`Invalid preferences format: ${validationErrors.map(e => e.message).join(', ')}`);
-      }
-      throw error;
+    const validated = await this.parseImport(json);
+    while (this.transactionDone) {
+      await this.transactionDone;
     }
+
+    this.loadError = null;
+    const previousState = this.preferences;
+    this.preferences = validated;
+    await this.commit(previousState);
   }
 
   /**
@@ -216,6 +356,78 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
     return structuredClone(this.preferences.vr);
   }
 
+  /**
+   * Register a plugin namespace with this store's registry so raw updates,
+   * imports and synced changes to it are validated and migrated
+   */
+  registerNamespace<N extends PreferenceNamespace>(namespace: N): N {
+    this.namespaceRegistry.register(namespace);
+    return namespace;
+  }
+
+  /**
+   * Get a plugin namespace's data, migrated to its current version.
+   * Falls back to the namespace defaults if nothing valid is stored.
+   */
+  getNamespace<N extends PreferenceNamespace>(namespace: N): NamespaceData<N> {
+    return this.resolveNamespace(namespace, this.preferences);
+  }
+
+  /**
+   * Update fields of a plugin namespace. The namespace is registered if it
+   * is not already, and the update goes through `updatePreferences`, so it
+   * is validated and recorded in history.
+   */
+  async updateNamespace<N extends PreferenceNamespace>(namespace: N, updates: NamespaceUpdate<N>): Promise<void> {
+    while (this.transactionDone) {
+      await this.transactionDone;
+    }
+    const data = { ...this.resolveNamespace(namespace, this.preferences), ...updates };
+    await this.updatePreferences(this.namespaceUpdate(namespace, data));
+  }
+
+  /**
+   * Reset a plugin namespace to its defaults
+   */
+  async resetNamespace<N extends PreferenceNamespace>(namespace: N): Promise<void> {
+    await this.updatePreferences(this.namespaceUpdate(namespace, structuredClone(namespace.defaults)));
+  }
+
+  /**
+   * Get the storage key the store currently reads from and writes to
+   */
+  getStorageKey(): string {
+    return this.storageKey;
+  }
+
+  /**
+   * Switch the store to another storage key (e.g. a different profile).
+   * Preferences are loaded and migrated from the new key, falling back to
+   * defaults, and a `change` event is emitted with the fields that differ.
+   */
+  async switchProfile(storageKey: string): Promise<void> {
+    this.assertNoTransaction('switchProfile');
+    if (storageKey === this.storageKey && this.isInitialized) {
+      return;
+    }
+
+    const stored = await this.storage.get(storageKey);
+    const next = stored
+      ? await this.migrationRegistry.migrate(stored)
+      : this.getDefaultPreferences();
+
+    const previousState = structuredClone(this.preferences);
+    this.storageKey = storageKey;
+    this.preferences = next;
+    this.isInitialized = true;
+    this.loadError = null;
+    // History belongs to the previous profile
+    this.clearHistory();
+
+    this.emit('change', diffPreferences(previousState, next), previousState);
+    this.emit('loaded', this.preferences);
+  }
+
   /**
    * Check if store is initialized
    */
@@ -224,7 +436,192 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
   }
 
   /**
-   * Deep merge preferences with updates
+   * Check if the stored preferences could not be loaded. A read-only store
+   * keeps changes in memory but does not save them.
+   */
+  isReadOnly(): boolean {
+    return this.loadError !== null;
+  }
+
+  /**
+   * Check if the storage backend encrypts preferences at rest
+   */
+  isEncrypted(): boolean {
+    return this.storage.encrypted === true;
+  }
+
+  /**
+   * Check if changes are saved as they are made
+   */
+  isAutoSaveEnabled(): boolean {
+    return this.autoSave;
+  }
+
+  /**
+   * Push a snapshot onto the undo stack if the state actually changed
+   */
+  private recordHistory(previousState: Preferences, nextState: Preferences): void {
+    if (this.historyLimit <= 0 || !hasPreferenceChanges(previousState, nextState)) {
+      return;
+    }
+
+    this.undoStack.push(structuredClone(previousState));
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.emitHistory();
+  }
+
+  private assertNoTransaction(action: string): void {
+    if (this.transactionDraft) {
+      throw new Error(`Cannot ${action} inside a transaction`);
+    }
+  }
+
+  /**
+   * Build the handle for a new transaction. Its writes go to the draft,
+   * and it throws once the transaction is no longer the open one.
+   */
+  private createTransaction(): PreferenceTransaction {
+    const draft = (): Preferences => {
+      if (this.transactionHandle !== tx || !this.transactionDraft) {
+        throw new Error('Transaction has already finished');
+      }
+      return this.transactionDraft;
+    };
+
+    const tx: PreferenceTransaction = {
+      getPreferences: () => structuredClone(draft()),
+      updatePreferences: async updates => {
+        this.transactionDraft = this.applyUpdate(draft(), updates);
+      },
+      reset: async () => {
+        draft();
+        this.transactionDraft = this.getDefaultPreferences();
+        this.transactionReplaces = true;
+      },
+      import: async json => {
+        draft();
+        const validated = await this.parseImport(json);
+        draft();
+        this.transactionDraft = validated;
+        this.transactionReplaces = true;
+      },
+      getNamespace: namespace => this.resolveNamespace(namespace, draft()),
+      updateNamespace: (namespace, updates) =>
+        tx.updatePreferences(this.namespaceUpdate(namespace, { ...this.resolveNamespace(namespace, draft()), ...updates })),
+      resetNamespace: namespace =>
+        tx.updatePreferences(this.namespaceUpdate(namespace, structuredClone(namespace.defaults))),
+      transaction: async fn => {
+        draft();
+        return fn(tx);
+      },
+    };
+    return tx;
+  }
+
+  /**
+   * Validate an update and merge it into a base state
+   */
+  private applyUpdate(base: Preferences, updates: PreferencesUpdate): Preferences {
+    try {
+      const validatedUpdate = PreferencesUpdateSchema.parse(updates);
+      const namespaces = this.namespaceRegistry.normalize(validatedUpdate.namespaces);
+      if (namespaces) {
+        validatedUpdate.namespaces = namespaces;
+      }
+
+      const validatedPreferences = PreferencesSchema.parse(this.mergePreferences(base, validatedUpdate));
+      validatedPreferences.lastModified = new Date().toISOString();
+      return validatedPreferences;
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationErrors = toValidationErrors(error);
+        this.emit('invalid', validationErrors);
+        throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse, migrate and validate exported preferences
+   */
+  private async parseImport(json: string): Promise<Preferences> {
+    try {
+      const imported = JSON.parse(json);
+      const migrated = await this.migrationRegistry.migrate(imported);
+      const validated = PreferencesSchema.parse(migrated);
+      const namespaces = this.namespaceRegistry.normalize(validated.namespaces);
+      if (namespaces) {
+        validated.namespaces = namespaces;
+      }
+      return validated;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error('Invalid JSON format');
+      }
+      if (error instanceof ZodError) {
+        const validationErrors = toValidationErrors(error);
+        this.emit('invalid', validationErrors);
+        throw new Error(`Invalid preferences format: ${validationErrors.map(e => e.message).join(', ')}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record, announce and persist a change from `previousState` to the current preferences
+   */
+  private async commit(previousState: Preferences, record = true): Promise<void> {
+    if (record) {
+      this.recordHistory(previousState, this.preferences);
+    }
+    this.emit('change', diffPreferences(previousState, this.preferences), previousState);
+
+    if (this.autoSave && !this.loadError) {
+      await this.save();
+    }
+  }
+
+  private resolveNamespace<N extends PreferenceNamespace>(namespace: N, preferences: Preferences): NamespaceData<N> {
+    const entry = preferences.namespaces?.[namespace.name];
+    try {
+      return this.namespaceRegistry.resolve(namespace, entry);
+    } catch (error) {
+      console.warn(`Invalid data for preference namespace "${namespace.name}", using defaults:`, error);
+      return structuredClone(namespace.defaults);
+    }
+  }
+
+  /**
+   * Register a namespace and build the update that stores `data` for it
+   */
+  private namespaceUpdate<N extends PreferenceNamespace>(namespace: N, data: NamespaceData<N>): PreferencesUpdate {
+    this.registerNamespace(namespace);
+    return { namespaces: { [namespace.name]: { version: namespace.version, data } } };
+  }
+
+  private async restoreSnapshot(snapshot: Preferences): Promise<void> {
+    const previousState = structuredClone(this.preferences);
+    this.preferences = { ...snapshot, lastModified: new Date().toISOString() };
+
+    this.emit('change', diffPreferences(previousState, this.preferences), previousState);
+    this.emitHistory();
+
+    if (this.autoSave && !this.loadError) {
+      await this.save();
+    }
+  }
+
+  private emitHistory(): void {
+    this.emit('history', { canUndo: this.canUndo(), canRedo: this.canRedo() });
+  }
+
+  /**
+   * Deep merge preferences with updates. The result is re-validated by the
+   * caller, which also fills any fields explicitly set to undefined.
    */
   private mergePreferences(current: Preferences, updates: PreferencesUpdate): Preferences {
     return {
@@ -235,7 +632,8 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
       ai: updates.ai ? { ...current.ai, ...updates.ai } : current.ai,
       vr: updates.vr ? { ...current.vr, ...updates.vr } : current.vr,
       metadata: updates.metadata ? { ...current.metadata, ...updates.metadata } : current.metadata,
-    };
+      namespaces: updates.namespaces ? { ...current.namespaces, ...updates.namespaces } : current.namespaces,
+    } as Preferences;
   }
 
   /**
@@ -249,9 +647,25 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
         motionReduction: false,
         highContrast: false,
         colorVisionFilter: 'none',
+        colorVisionSeverity: 1,
+        colorVisionMode: 'correct',
         fontSize: 1.0,
         reducedFlashing: false,
         darkMode: false,
+        letterSpacing: 0,
+        wordSpacing: 0,
+        lineHeight: 0,
+        paragraphSpacing: 0,
+        readingFont: 'default',
+        readingGuide: 'off',
+        bionicReading: false,
+        reducedTransparency: false,
+        systemSync: {
+          motionReduction: 'system',
+          highContrast: 'system',
+          darkMode: 'system',
+          reducedTransparency: 'system',
+        },
       },
       cognitive: {
         readingSpeed: 'medium',
@@ -277,4 +691,11 @@ export class PreferenceStore extends EventEmitter<PreferenceStoreEvents> {
       },
     };
   }
-}
\ No newline at end of file
+}
+function toValidationErrors(error: ZodError): ValidationError[] {
+  return error.errors.map(err => ({
+    path: err.path.map(String),
+    message: err.message,
+    code: err.code,
+  }));
+}
@@ -0,0 +1,604 @@
+import { EventEmitter } from 'eventemitter3';
+
+import type { Preferences, PreferencesUpdate } from './schemas.js';
+import type { PreferenceStore } from './store.js';
+
+/**
+ * Vector clock mapping replica ids to their change counters
+ */
+export type VectorClock = Record<string, number>;
+
+/**
+ * Value and write stamp of a single synced field
+ */
+export interface SyncField {
+  value: unknown;
+  timestamp: number;
+  origin: string;
+}
+
+/**
+ * Message exchanged between replicas. Carries every synced field so a replica
+ * that missed earlier messages still converges.
+ */
+export interface SyncMessage {
+  type: 'preferences';
+  origin: string;
+  storageKey: string;
+  clock: VectorClock;
+  fields: Record<string, SyncField>;
+}
+
+/**
+ * Transport that delivers sync messages between replicas
+ */
+export interface SyncTransport {
+  publish(message: SyncMessage): Promise<void> | void;
+  /** Register a handler for incoming messages; returns an unsubscribe function */
+  subscribe(handler: (message: SyncMessage) => void): () => void;
+  close?(): void;
+  /** True if published messages are written to unencrypted persistent storage */
+  readonly storesPlaintext?: boolean;
+}
+
+/**
+ * Merge strategies for incoming changes
+ */
+export type SyncStrategy = 'lww' | 'vector-clock';
+
+/**
+ * Description of a field changed concurrently on two replicas
+ */
+export interface SyncConflict {
+  path: string;
+  local: SyncField;
+  remote: SyncField;
+}
+
+/**
+ * Custom resolver for vector-clock conflicts; returns the value to keep
+ */
+export type ConflictResolver = (conflict: SyncConflict) => unknown;
+
+/**
+ * Events emitted by PreferenceSync
+ */
+export interface PreferenceSyncEvents {
+  'remote-change': (diff: Partial<Preferences>, origin: string) => void;
+  'conflict': (conflicts: SyncConflict[]) => void;
+  'published': (message: SyncMessage) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Configuration for PreferenceSync
+ */
+export interface PreferenceSyncConfig {
+  store: PreferenceStore;
+  transports: SyncTransport[];
+  replicaId?: string;
+  strategy?: SyncStrategy;
+  resolveConflict?: ConflictResolver;
+  now?: () => number;
+}
+
+/**
+ * Sections synced field-by-field; other top-level fields sync as a whole
+ */
+const SECTIONS = ['sensory', 'cognitive', 'ai', 'vr'] as const;
+const SYNCED_TOP_LEVEL = ['profileName', 'userId', 'metadata'] as const;
+
+/**
+ * PreferenceSync keeps a PreferenceStore in step with other tabs and devices.
+ * Local changes are stamped per field and published on every transport;
+ * remote messages are merged with per-field last-writer-wins or a vector
+ * clock, and applied to the store so it emits `change` as usual. Remote
+ * changes are kept out of the store's undo history.
+ */
+export class PreferenceSync extends EventEmitter<PreferenceSyncEvents> {
+  private readonly store: PreferenceStore;
+  private readonly transports: SyncTransport[];
+  private readonly replicaId: string;
+  private readonly strategy: SyncStrategy;
+  private readonly resolveConflict: ConflictResolver | undefined;
+  private readonly now: () => number;
+  private fields: Record<string, SyncField> = {};
+  private clock: VectorClock = {};
+  private storageKey: string;
+  private unsubscribers: Array<() => void> = [];
+  private applyingRemote = false;
+  private started = false;
+
+  private readonly handleChange = (): void => {
+    void this.onLocalChange();
+  };
+
+  constructor(config: PreferenceSyncConfig) {
+    super();
+
+    this.store = config.store;
+    this.transports = config.transports;
+    this.replicaId = config.replicaId || createReplicaId();
+    this.strategy = config.strategy || 'lww';
+    this.resolveConflict = config.resolveConflict;
+    this.now = config.now || Date.now;
+    this.storageKey = this.store.getStorageKey();
+
+    if (this.store.isEncrypted() && this.transports.some(transport => transport.storesPlaintext)) {
+      throw new Error('Preferences kept in encrypted storage cannot be synced through a transport that stores them in plaintext');
+    }
+  }
+
+  /**
+   * Start listening for local and remote changes
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.resetState();
+    this.store.on('change', this.handleChange);
+    for (const transport of this.transports) {
+      this.unsubscribers.push(transport.subscribe(message => void this.receive(message)));
+    }
+    this.started = true;
+  }
+
+  /**
+   * Stop syncing and close transports
+   */
+  stop(): void {
+    this.store.off('change', this.handleChange);
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    for (const transport of this.transports) {
+      transport.close?.();
+    }
+    this.started = false;
+  }
+
+  /**
+   * Get this replica's id
+   */
+  getReplicaId(): string {
+    return this.replicaId;
+  }
+
+  /**
+   * Get a copy of the current vector clock
+   */
+  getClock(): VectorClock {
+    return { ...this.clock };
+  }
+
+  /**
+   * Publish the full current state, e.g. after coming back online
+   */
+  async publish(): Promise<void> {
+    const message: SyncMessage = {
+      type: 'preferences',
+      origin: this.replicaId,
+      storageKey: this.storageKey,
+      clock: { ...this.clock },
+      fields: structuredClone(this.fields),
+    };
+
+    await Promise.all(
+      this.transports.map(async transport => {
+        try {
+          await transport.publish(message);
+        } catch (error) {
+          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        }
+      })
+    );
+
+    this.emit('published', message);
+  }
+
+  /**
+   * Merge a message from another replica into the store
+   */
+  async receive(message: SyncMessage): Promise<void> {
+    if (message.type !== 'preferences' || message.origin === this.replicaId) {
+      return;
+    }
+    if (message.storageKey !== this.store.getStorageKey()) {
+      return;
+    }
+
+    const accepted = this.strategy === 'vector-clock'
+      ? this.mergeVectorClock(message)
+      : this.mergeLastWriterWins(message.fields);
+
+    if (accepted.length === 0) {
+      return;
+    }
+
+    const update = buildUpdate(accepted.map(path => [path, this.fields[path]!.value]));
+
+    this.applyingRemote = true;
+    try {
+      await this.store.applyExternalUpdate(update);
+      this.emit('remote-change', update as Partial<Preferences>, message.origin);
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  private async onLocalChange(): Promise<void> {
+    if (this.applyingRemote) {
+      return;
+    }
+
+    // A profile switch starts a fresh sync history for the new key
+    if (this.store.getStorageKey() !== this.storageKey) {
+      this.resetState();
+      return;
+    }
+
+    const current = flattenPreferences(this.store.getPreferences());
+    const timestamp = this.now();
+    let changed = false;
+
+    for (const [path, value] of Object.entries(current)) {
+      const existing = this.fields[path];
+      if (!existing || !isEqual(existing.value, value)) {
+        this.fields[path] = { value, timestamp, origin: this.replicaId };
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    this.clock[this.replicaId] = (this.clock[this.replicaId] ?? 0) + 1;
+    await this.publish();
+  }
+
+  /**
+   * Accept every remote field with a newer stamp (ties broken by replica id)
+   */
+  private mergeLastWriterWins(fields: Record<string, SyncField>): string[] {
+    const accepted: string[] = [];
+
+    for (const [path, remote] of Object.entries(fields)) {
+      const local = this.fields[path];
+      if (local && !isNewer(remote, local)) {
+        continue;
+      }
+      this.fields[path] = { ...remote };
+      if (!local || !isEqual(local.value, remote.value)) {
+        accepted.push(path);
+      }
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Accept remote state that causally follows ours; resolve concurrent edits
+   * with the conflict resolver, falling back to last-writer-wins
+   */
+  private mergeVectorClock(message: SyncMessage): string[] {
+    const order = compareClocks(message.clock, this.clock);
+    if (order === 'before' || order === 'equal') {
+      return [];
+    }
+
+    this.clock = mergeClocks(this.clock, message.clock);
+
+    if (order === 'after') {
+      const accepted: string[] = [];
+      for (const [path, remote] of Object.entries(message.fields)) {
+        const local = this.fields[path];
+        this.fields[path] = { ...remote };
+        if (!local || !isEqual(local.value, remote.value)) {
+          accepted.push(path);
+        }
+      }
+      return accepted;
+    }
+
+    const conflicts: SyncConflict[] = [];
+    const accepted: string[] = [];
+
+    for (const [path, remote] of Object.entries(message.fields)) {
+      const local = this.fields[path];
+      if (local && isEqual(local.value, remote.value)) {
+        continue;
+      }
+      if (!local) {
+        this.fields[path] = { ...remote };
+        accepted.push(path);
+        continue;
+      }
+
+      const conflict: SyncConflict = { path, local: { ...local }, remote: { ...remote } };
+      conflicts.push(conflict);
+
+      const resolved = this.resolveConflict
+        ? this.resolveConflict(conflict)
+        : isNewer(remote, local) ? remote.value : local.value;
+
+      if (!isEqual(resolved, local.value)) {
+        this.fields[path] = { value: resolved, timestamp: Math.max(local.timestamp, remote.timestamp), origin: remote.origin };
+        accepted.push(path);
+      }
+    }
+
+    if (conflicts.length > 0) {
+      this.emit('conflict', conflicts);
+    }
+
+    return accepted;
+  }
+
+  private resetState(): void {
+    this.storageKey = this.store.getStorageKey();
+    this.clock = {};
+    this.fields = {};
+
+    // Existing values get a zero stamp so any real remote write wins over them
+    for (const [path, value] of Object.entries(flattenPreferences(this.store.getPreferences()))) {
+      this.fields[path] = { value, timestamp: 0, origin: this.replicaId };
+    }
+  }
+}
+
+/**
+ * Transport for tabs of the same origin using BroadcastChannel
+ */
+export class BroadcastChannelSyncTransport implements SyncTransport {
+  private readonly channel: BroadcastChannel;
+
+  constructor(channelName = 'neuroadapt:preferences') {
+    if (typeof BroadcastChannel === 'undefined') {
+      throw new Error('BroadcastChannel is not available in this environment');
+    }
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  publish(message: SyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(handler: (message: SyncMessage) => void): () => void {
+    const listener = (event: MessageEvent) => handler(event.data as SyncMessage);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Transport for tabs using localStorage `storage` events, for browsers
+ * without BroadcastChannel. Messages carry preference values and pass
+ * through localStorage in plaintext, so PreferenceSync refuses this
+ * transport for a store with encrypted storage.
+ */
+export class StorageEventSyncTransport implements SyncTransport {
+  readonly storesPlaintext = true;
+  private readonly key: string;
+
+  constructor(key = 'neuroadapt:preferences:sync') {
+    this.key = key;
+  }
+
+  publish(message: SyncMessage): void {
+    // The storage event only fires when the value changes, so add a nonce
+    localStorage.setItem(this.key, JSON.stringify({ message, nonce: Math.random() }));
+    // Other tabs have been notified; don't leave the values at rest
+    localStorage.removeItem(this.key);
+  }
+
+  subscribe(handler: (message: SyncMessage) => void): () => void {
+    const listener = (event: StorageEvent) => {
+      if (event.key !== this.key || !event.newValue) {
+        return;
+      }
+      try {
+        handler((JSON.parse(event.newValue) as { message: SyncMessage }).message);
+      } catch (error) {
+        console.warn('Ignoring malformed preference sync message:', error);
+      }
+    };
+    window.addEventListener('storage', listener);
+    return () => window.removeEventListener('storage', listener);
+  }
+}
+
+/**
+ * Options for HttpSyncTransport
+ */
+export interface HttpSyncTransportOptions {
+  /** Endpoint accepting POSTed messages and returning `{ messages, cursor }` on GET */
+  endpoint: string;
+  pollInterval?: number;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport for cross-device sync through an HTTP relay.
+ * Messages are POSTed as JSON; new messages are polled with
+ * `GET <endpoint>?since=<cursor>`, which must answer
+ * `{ "messages": SyncMessage[], "cursor": string }`.
+ */
+export class HttpSyncTransport implements SyncTransport {
+  private readonly endpoint: string;
+  private readonly pollInterval: number;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+  private readonly handlers = new Set<(message: SyncMessage) => void>();
+  private cursor: string | undefined;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private polling: Promise<void> | undefined;
+
+  constructor(options: HttpSyncTransportOptions) {
+    this.endpoint = options.endpoint;
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.headers = options.headers || {};
+    this.fetchImpl = options.fetch || globalThis.fetch.bind(globalThis);
+  }
+
+  async publish(message: SyncMessage): Promise<void> {
+    const response = await this.fetchImpl(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Preference sync failed: HTTP ${response.status}`);
+    }
+  }
+
+  subscribe(handler: (message: SyncMessage) => void): () => void {
+    this.handlers.add(handler);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.pollInterval);
+    }
+    return () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  /**
+   * Fetch and dispatch messages newer than the last cursor
+   */
+  poll(): Promise<void> {
+    // Never run two polls at once, or messages could be delivered twice
+    if (!this.polling) {
+      this.polling = this.fetchMessages().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async fetchMessages(): Promise<void> {
+    const url = this.cursor === undefined
+      ? this.endpoint
+      : `${this.endpoint}${this.endpoint.includes('?') ? '&' : '?'}since=${encodeURIComponent(this.cursor)}`;
+
+    try {
+      const response = await this.fetchImpl(url, { headers: this.headers });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const body = (await response.json()) as { messages?: SyncMessage[]; cursor?: string };
+      if (body.cursor !== undefined) {
+        this.cursor = body.cursor;
+      }
+      for (const message of body.messages || []) {
+        for (const handler of this.handlers) {
+          handler(message);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to poll preference sync endpoint:', error);
+    }
+  }
+}
+
+/**
+ * Compare two vector clocks
+ */
+export function compareClocks(a: VectorClock, b: VectorClock): 'before' | 'after' | 'equal' | 'concurrent' {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const id of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const av = a[id] ?? 0;
+    const bv = b[id] ?? 0;
+    if (av > bv) aAhead = true;
+    if (bv > av) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged: VectorClock = { ...a };
+  for (const [id, value] of Object.entries(b)) {
+    merged[id] = Math.max(merged[id] ?? 0, value);
+  }
+  return merged;
+}
+
+function isNewer(candidate: SyncField, current: SyncField): boolean {
+  if (candidate.timestamp !== current.timestamp) {
+    return candidate.timestamp > current.timestamp;
+  }
+  return candidate.origin > current.origin;
+}
+
+function flattenPreferences(preferences: Preferences): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  for (const section of SECTIONS) {
+    for (const [field, value] of Object.entries(preferences[section])) {
+      flat[`${section}.${field}`] = value;
+    }
+  }
+  for (const field of SYNCED_TOP_LEVEL) {
+    if (preferences[field] !== undefined) {
+      flat[field] = preferences[field];
+    }
+  }
+  // Namespace names cannot contain dots, so each namespace syncs as one field
+  for (const [name, entry] of Object.entries(preferences.namespaces ?? {})) {
+    flat[`namespaces.${name}`] = entry;
+  }
+
+  return flat;
+}
+
+function buildUpdate(entries: Array<[string, unknown]>): PreferencesUpdate {
+  const update: Record<string, unknown> = {};
+
+  for (const [path, value] of entries) {
+    const [section, field] = path.split('.');
+    if (field === undefined) {
+      update[section!] = value;
+      continue;
+    }
+    const target = (update[section!] ??= {}) as Record<string, unknown>;
+    target[field] = value;
+  }
+
+  return update as PreferencesUpdate;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function createReplicaId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `replica-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
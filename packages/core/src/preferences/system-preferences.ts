@@ -0,0 +1,297 @@
+import { EventEmitter } from 'eventemitter3';
+
+import {
+  SYSTEM_SYNCED_SENSORY_FIELDS,
+  type PreferenceSource,
+  type Preferences,
+  type PreferencesUpdate,
+  type SensoryPreferences,
+  type SystemSyncedSensoryField,
+} from './schemas.js';
+import type { PreferenceStore } from './store.js';
+
+/**
+ * Value of the `prefers-contrast` media feature
+ */
+export type ContrastPreference = 'no-preference' | 'more' | 'less' | 'custom';
+
+/**
+ * Accessibility-related media features reported by the operating system
+ */
+export interface SystemPreferenceState {
+  reducedMotion: boolean;
+  contrast: ContrastPreference;
+  colorScheme: 'light' | 'dark';
+  forcedColors: boolean;
+  reducedTransparency: boolean;
+}
+
+/**
+ * `window.matchMedia` or a substitute (for tests and non-browser hosts)
+ */
+export type MediaQueryMatcher = (query: string) => MediaQueryList;
+
+/**
+ * Sensory values derived from the system state
+ */
+export type SystemSensoryPreferences = Pick<SensoryPreferences, SystemSyncedSensoryField>;
+
+/**
+ * Events emitted by SystemPreferenceBridge
+ */
+export interface SystemPreferenceBridgeEvents {
+  'system-change': (state: SystemPreferenceState) => void;
+  'synced': (changes: Partial<SystemSensoryPreferences>) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Configuration for SystemPreferenceBridge
+ */
+export interface SystemPreferenceBridgeConfig {
+  store: PreferenceStore;
+  matchMedia?: MediaQueryMatcher;
+}
+
+const SYSTEM_MEDIA_QUERIES = {
+  reducedMotion: '(prefers-reduced-motion: reduce)',
+  contrastMore: '(prefers-contrast: more)',
+  contrastLess: '(prefers-contrast: less)',
+  contrastCustom: '(prefers-contrast: custom)',
+  dark: '(prefers-color-scheme: dark)',
+  forcedColors: '(forced-colors: active)',
+  reducedTransparency: '(prefers-reduced-transparency: reduce)',
+} as const;
+
+/**
+ * Read the accessibility media features. Without `matchMedia` (e.g. during
+ * server rendering) every feature reports its no-preference value.
+ */
+export function readSystemPreferences(matchMedia: MediaQueryMatcher | null = getDefaultMatcher()): SystemPreferenceState {
+  const matches = (query: string) => matchMedia?.(query).matches ?? false;
+
+  return {
+    reducedMotion: matches(SYSTEM_MEDIA_QUERIES.reducedMotion),
+    contrast: matches(SYSTEM_MEDIA_QUERIES.contrastMore) ? 'more'
+      : matches(SYSTEM_MEDIA_QUERIES.contrastLess) ? 'less'
+      : matches(SYSTEM_MEDIA_QUERIES.contrastCustom) ? 'custom'
+      : 'no-preference',
+    colorScheme: matches(SYSTEM_MEDIA_QUERIES.dark) ? 'dark' : 'light',
+    forcedColors: matches(SYSTEM_MEDIA_QUERIES.forcedColors),
+    reducedTransparency: matches(SYSTEM_MEDIA_QUERIES.reducedTransparency),
+  };
+}
+
+/**
+ * Map system media features onto sensory preferences. Forced colors
+ * (e.g. Windows High Contrast) counts as a request for high contrast.
+ */
+export function mapSystemPreferences(state: SystemPreferenceState): SystemSensoryPreferences {
+  return {
+    motionReduction: state.reducedMotion,
+    highContrast: state.contrast === 'more' || state.forcedColors,
+    darkMode: state.colorScheme === 'dark',
+    reducedTransparency: state.reducedTransparency,
+  };
+}
+
+/**
+ * SystemPreferenceBridge keeps sensory preferences in step with the
+ * operating system. Each synced field has a source in
+ * `sensory.systemSync`: `system` fields take the OS value whenever it
+ * changes, the store loads a profile or the bridge starts; `explicit`
+ * fields keep the user's own value. A `system` field that changes for any
+ * other reason than a sync, e.g. through a settings form calling
+ * `store.updatePreferences`, becomes `explicit`.
+ */
+export class SystemPreferenceBridge extends EventEmitter<SystemPreferenceBridgeEvents> {
+  private readonly store: PreferenceStore;
+  private readonly matchMedia: MediaQueryMatcher | null;
+  private readonly queries: MediaQueryList[] = [];
+  private started = false;
+  private storageKey: string | null = null;
+  /** Values being written by sync(), so their change events are not taken as user choices */
+  private syncing: Partial<SystemSensoryPreferences> | null = null;
+
+  private readonly handleSystemChange = (): void => {
+    this.emit('system-change', this.getSystemState());
+    void this.sync();
+  };
+
+  private readonly handleLoaded = (): void => {
+    void this.sync();
+  };
+
+  private readonly handleChange = (diff: Partial<Preferences>, previousState: Preferences): void => {
+    // A profile switch loads values rather than choosing them
+    const storageKey = this.store.getStorageKey();
+    if (storageKey !== this.storageKey) {
+      this.storageKey = storageKey;
+      return;
+    }
+    // Updates that set sources themselves (setExplicit, setSource, seeds) are left alone
+    const changed = diff.sensory;
+    if (!changed || changed.systemSync) {
+      return;
+    }
+
+    const sensory = this.store.getPreferences().sensory;
+    const chosen = SYSTEM_SYNCED_SENSORY_FIELDS.filter(field =>
+      field in changed &&
+      sensory.systemSync[field] === 'system' &&
+      sensory[field] !== previousState.sensory[field] &&
+      this.syncing?.[field] !== sensory[field]
+    );
+    if (chosen.length > 0) {
+      void this.markExplicit(chosen);
+    }
+  };
+
+  constructor(config: SystemPreferenceBridgeConfig) {
+    super();
+
+    this.store = config.store;
+    this.matchMedia = config.matchMedia ?? getDefaultMatcher();
+  }
+
+  /**
+   * Apply the current system values and start tracking changes
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    if (this.matchMedia) {
+      for (const query of Object.values(SYSTEM_MEDIA_QUERIES)) {
+        const list = this.matchMedia(query);
+        list.addEventListener?.('change', this.handleSystemChange);
+        this.queries.push(list);
+      }
+    }
+    this.storageKey = this.store.getStorageKey();
+    this.store.on('loaded', this.handleLoaded);
+    this.store.on('change', this.handleChange);
+
+    await this.sync();
+  }
+
+  /**
+   * Stop tracking system changes
+   */
+  stop(): void {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+
+    for (const list of this.queries) {
+      list.removeEventListener?.('change', this.handleSystemChange);
+    }
+    this.queries.length = 0;
+    this.store.off('loaded', this.handleLoaded);
+    this.store.off('change', this.handleChange);
+  }
+
+  getSystemState(): SystemPreferenceState {
+    return readSystemPreferences(this.matchMedia);
+  }
+
+  /**
+   * Preferences for seeding a new profile, e.g.
+   * `profiles.createProfile('Work', bridge.getSeed())`
+   */
+  getSeed(): PreferencesUpdate {
+    return {
+      sensory: {
+        ...mapSystemPreferences(this.getSystemState()),
+        systemSync: Object.fromEntries(
+          SYSTEM_SYNCED_SENSORY_FIELDS.map(field => [field, 'system'])
+        ) as SensoryPreferences['systemSync'],
+      },
+    };
+  }
+
+  getSource(field: SystemSyncedSensoryField): PreferenceSource {
+    return this.store.getPreferences().sensory.systemSync[field];
+  }
+
+  /**
+   * Choose whether the system or the user's value wins for a field.
+   * Switching to `system` applies the system value straight away.
+   */
+  async setSource(field: SystemSyncedSensoryField, source: PreferenceSource): Promise<void> {
+    const sensory = this.store.getPreferences().sensory;
+    const update: Partial<SensoryPreferences> = {
+      systemSync: { ...sensory.systemSync, [field]: source },
+    };
+    if (source === 'system') {
+      update[field] = mapSystemPreferences(this.getSystemState())[field];
+    }
+    await this.store.updatePreferences({ sensory: update });
+  }
+
+  /**
+   * Set a field to the user's own value and stop following the system for it
+   */
+  async setExplicit(field: SystemSyncedSensoryField, value: boolean): Promise<void> {
+    const sensory = this.store.getPreferences().sensory;
+    await this.store.updatePreferences({
+      sensory: {
+        [field]: value,
+        systemSync: { ...sensory.systemSync, [field]: 'explicit' },
+      },
+    });
+  }
+
+  /**
+   * Copy system values into every field whose source is `system`
+   */
+  async sync(): Promise<Partial<SystemSensoryPreferences>> {
+    try {
+      const sensory = this.store.getPreferences().sensory;
+      const system = mapSystemPreferences(this.getSystemState());
+      const changes: Partial<SystemSensoryPreferences> = {};
+
+      for (const field of SYSTEM_SYNCED_SENSORY_FIELDS) {
+        if (sensory.systemSync[field] === 'system' && sensory[field] !== system[field]) {
+          changes[field] = system[field];
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        this.syncing = changes;
+        try {
+          await this.store.updatePreferences({ sensory: changes });
+        } finally {
+          this.syncing = null;
+        }
+        this.emit('synced', changes);
+      }
+      return changes;
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      return {};
+    }
+  }
+
+  private async markExplicit(fields: SystemSyncedSensoryField[]): Promise<void> {
+    try {
+      const sensory = this.store.getPreferences().sensory;
+      const systemSync = { ...sensory.systemSync };
+      for (const field of fields) {
+        systemSync[field] = 'explicit';
+      }
+      await this.store.updatePreferences({ sensory: { systemSync } });
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
+
+function getDefaultMatcher(): MediaQueryMatcher | null {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    ? query => window.matchMedia(query)
+    : null;
+}
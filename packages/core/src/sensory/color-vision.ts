@@ -0,0 +1,246 @@
+/**
+ * Color vision deficiency simulation and correction.
+ *
+ * All matrices operate on linear RGB (sRGB primaries), which is also the
+ * color space SVG filters use with `color-interpolation-filters="linearRGB"`.
+ * Protanopia and deuteranopia use Viénot et al. (1999), which is accurate
+ * for those deficiencies with a single projection. Tritanopia uses Brettel
+ * et al. (1997), which needs two half-plane projections chosen per color.
+ * Anomalous trichromacy is approximated by interpolating towards identity.
+ */
+
+/**
+ * Deficiencies that can be simulated or corrected
+ */
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+/**
+ * `simulate` shows how content looks with the deficiency (for designers);
+ * `correct` daltonizes content so confusable colors become distinguishable
+ */
+export type ColorVisionMode = 'simulate' | 'correct';
+
+/**
+ * Row-major 3x3 matrix applied to linear RGB
+ */
+export type ColorMatrix = readonly [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Linear transform for a deficiency. When `split` is present, colors on the
+ * negative side of the plane through grey with the given normal use
+ * `split.matrix` instead of `matrix` (Brettel's second half-plane).
+ */
+export interface ColorVisionTransform {
+  matrix: ColorMatrix;
+  split?: {
+    normal: readonly [number, number, number];
+    matrix: ColorMatrix;
+  };
+}
+
+/**
+ * Options for building a color vision transform
+ */
+export interface ColorVisionTransformOptions {
+  mode?: ColorVisionMode;
+  /** 0 = normal vision, 1 = full dichromacy/monochromacy; values between model anomalous trichromacy */
+  severity?: number;
+}
+
+const IDENTITY: ColorMatrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Viénot, Brettel & Mollon (1999), linear sRGB
+const VIENOT_PROTANOPIA: ColorMatrix = [
+  0.11238, 0.88762, 0.0,
+  0.11238, 0.88762, 0.0,
+  0.00401, -0.00401, 1.0,
+];
+
+const VIENOT_DEUTERANOPIA: ColorMatrix = [
+  0.29275, 0.70725, 0.0,
+  0.29275, 0.70725, 0.0,
+  -0.02234, 0.02234, 1.0,
+];
+
+// Brettel, Viénot & Mollon (1997) tritanopia half-planes and separation normal, linear sRGB
+const BRETTEL_TRITANOPIA = {
+  matrix: [
+    1.01277, 0.13548, -0.14826,
+    -0.01243, 0.86812, 0.14431,
+    0.07589, 0.805, 0.11911,
+  ] as ColorMatrix,
+  split: {
+    normal: [0.03901, -0.02788, -0.01113] as const,
+    matrix: [
+      0.93678, 0.18979, -0.12657,
+      0.06154, 0.81526, 0.1232,
+      -0.37562, 1.12767, 0.24796,
+    ] as ColorMatrix,
+  },
+};
+
+// Rec. 709 luminance, used for rod monochromacy
+const LUMINANCE = [0.2126, 0.7152, 0.0722] as const;
+const ACHROMATOPSIA: ColorMatrix = [...LUMINANCE, ...LUMINANCE, ...LUMINANCE];
+
+// Daltonization error shifts (Fidaner et al.): move the information lost in
+// the missing channel into channels the viewer can still distinguish
+const PROTAN_DEUTAN_ERROR_SHIFT: ColorMatrix = [0, 0, 0, 0.7, 1, 0, 0.7, 0, 1];
+const TRITAN_ERROR_SHIFT: ColorMatrix = [0, 0, 0.7, 0, 0, 0.7, 0, 0, 0];
+
+// Achromats only see lightness, so correction encodes red–green and
+// blue–yellow differences as lightness. The weights sum to zero so greys are unchanged.
+const ACHROMATOPSIA_LIGHTNESS_WEIGHTS = [0.35, -0.65, 0.3] as const;
+
+/**
+ * Build the linear-RGB transform that simulates or corrects a deficiency
+ */
+export function getColorVisionTransform(
+  deficiency: ColorVisionDeficiency,
+  options: ColorVisionTransformOptions = {}
+): ColorVisionTransform {
+  const mode = options.mode ?? 'simulate';
+  const severity = clamp(options.severity ?? 1, 0, 1);
+
+  if (deficiency === 'achromatopsia') {
+    if (mode === 'simulate') {
+      return { matrix: mix(IDENTITY, ACHROMATOPSIA, severity) };
+    }
+    const [r, g, b] = ACHROMATOPSIA_LIGHTNESS_WEIGHTS;
+    const correction: ColorMatrix = [1 + r, g, b, r, 1 + g, b, r, g, 1 + b];
+    return { matrix: mix(IDENTITY, correction, severity) };
+  }
+
+  const simulation = getDichromatSimulation(deficiency);
+  const errorShift = deficiency === 'tritanopia' ? TRITAN_ERROR_SHIFT : PROTAN_DEUTAN_ERROR_SHIFT;
+  const build = (matrix: ColorMatrix): ColorMatrix => {
+    const simulated = mix(IDENTITY, matrix, severity);
+    return mode === 'simulate' ? simulated : daltonize(simulated, errorShift);
+  };
+
+  const transform: ColorVisionTransform = { matrix: build(simulation.matrix) };
+  if (simulation.split) {
+    transform.split = { normal: simulation.split.normal, matrix: build(simulation.split.matrix) };
+  }
+  return transform;
+}
+
+/**
+ * Apply a transform to an sRGB color with 0-255 channels
+ */
+export function transformColor(
+  rgb: readonly [number, number, number],
+  transform: ColorVisionTransform
+): [number, number, number] {
+  const linear = rgb.map(channel => srgbToLinear(channel / 255)) as [number, number, number];
+  const matrix = transform.split && dot(transform.split.normal, linear) < 0
+    ? transform.split.matrix
+    : transform.matrix;
+  return multiply(matrix, linear).map(channel => Math.round(linearToSrgb(clamp(channel, 0, 1)) * 255)) as [number, number, number];
+}
+
+/**
+ * Convenience wrapper: how a color looks to someone with the deficiency
+ */
+export function simulateColor(
+  rgb: readonly [number, number, number],
+  deficiency: ColorVisionDeficiency,
+  severity = 1
+): [number, number, number] {
+  return transformColor(rgb, getColorVisionTransform(deficiency, { mode: 'simulate', severity }));
+}
+
+/**
+ * Serialize a transform as an SVG `<filter>` element. Brettel's two
+ * half-planes are combined with a hard alpha mask computed from the
+ * separation plane, so the whole filter runs on the GPU.
+ */
+export function createColorVisionFilterMarkup(id: string, transform: ColorVisionTransform): string {
+  const open = `<filter id="${id}" color-interpolation-filters="linearRGB" x="0" y="0" width="100%" height="100%">`;
+
+  if (!transform.split) {
+    return `${open}<feColorMatrix type="matrix" values="${toFeValues(transform.matrix)}"/></filter>`;
+  }
+
+  // Scale the plane test so any non-grey color saturates the mask to 0 or 1
+  const [nr, ng, nb] = transform.split.normal.map(value => value * 10000);
+  const mask = `0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 ${format(nr!)} ${format(ng!)} ${format(nb!)} 0 0`;
+
+  return [
+    open,
+    `<feColorMatrix in="SourceGraphic" type="matrix" values="${toFeValues(transform.matrix)}" result="positive"/>`,
+    `<feColorMatrix in="SourceGraphic" type="matrix" values="${toFeValues(transform.split.matrix)}" result="negative"/>`,
+    `<feColorMatrix in="SourceGraphic" type="matrix" values="${mask}" result="side"/>`,
+    '<feComposite in="positive" in2="side" operator="in" result="positive-part"/>',
+    '<feComposite in="negative" in2="side" operator="out" result="negative-part"/>',
+    '<feComposite in="positive-part" in2="negative-part" operator="arithmetic" k1="0" k2="1" k3="1" k4="0"/>',
+    '</filter>',
+  ].join('');
+}
+
+function getDichromatSimulation(deficiency: Exclude<ColorVisionDeficiency, 'achromatopsia'>): ColorVisionTransform {
+  switch (deficiency) {
+    case 'protanopia':
+      return { matrix: VIENOT_PROTANOPIA };
+    case 'deuteranopia':
+      return { matrix: VIENOT_DEUTERANOPIA };
+    case 'tritanopia':
+      return BRETTEL_TRITANOPIA;
+  }
+}
+
+/**
+ * corrected = rgb + E (rgb - S rgb) = (I + E (I - S)) rgb
+ */
+function daltonize(simulation: ColorMatrix, errorShift: ColorMatrix): ColorMatrix {
+  const error = IDENTITY.map((value, i) => value - simulation[i]!) as unknown as ColorMatrix;
+  const shifted = multiplyMatrices(errorShift, error);
+  return IDENTITY.map((value, i) => value + shifted[i]!) as unknown as ColorMatrix;
+}
+
+function mix(from: ColorMatrix, to: ColorMatrix, amount: number): ColorMatrix {
+  return from.map((value, i) => value + (to[i]! - value) * amount) as unknown as ColorMatrix;
+}
+
+function multiplyMatrices(a: ColorMatrix, b: ColorMatrix): ColorMatrix {
+  const result: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result.push(a[row * 3]! * b[col]! + a[row * 3 + 1]! * b[3 + col]! + a[row * 3 + 2]! * b[6 + col]!);
+    }
+  }
+  return result as unknown as ColorMatrix;
+}
+
+function multiply(matrix: ColorMatrix, [r, g, b]: readonly [number, number, number]): [number, number, number] {
+  return [
+    matrix[0] * r + matrix[1] * g + matrix[2] * b,
+    matrix[3] * r + matrix[4] * g + matrix[5] * b,
+    matrix[6] * r + matrix[7] * g + matrix[8] * b,
+  ];
+}
+
+function dot(a: readonly [number, number, number], b: readonly [number, number, number]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function toFeValues(matrix: ColorMatrix): string {
+  const rows = [0, 1, 2].map(row => `${matrix.slice(row * 3, row * 3 + 3).map(format).join(' ')} 0 0`);
+  return [...rows, '0 0 0 1 0'].join(' ');
+}
+
+function format(value: number): string {
+  return Number(value.toFixed(5)).toString();
+}
+
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,534 @@
+import { EventEmitter } from 'eventemitter3';
+
+/**
+ * WCAG conformance level to repair towards
+ */
+export type ContrastLevel = 'AA' | 'AAA';
+
+/**
+ * An sRGB color with 0-255 channels and 0-1 alpha
+ */
+export interface RGBAColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * A text element whose color was rewritten
+ */
+export interface ContrastRepair {
+  element: HTMLElement;
+  /** Contrast ratio before the repair */
+  ratio: number;
+  /** Contrast ratio after the repair; below `target` if the target was unreachable */
+  repairedRatio: number;
+  target: number;
+  foreground: string;
+  background: string;
+  repairedColor: string;
+}
+
+/**
+ * Events emitted by ContrastRepairEngine
+ */
+export interface ContrastRepairEngineEvents {
+  'repaired': (repairs: ContrastRepair[]) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Configuration options for ContrastRepairEngine
+ */
+export interface ContrastRepairOptions {
+  /** Root of the subtree to repair; defaults to `document.body` */
+  root?: HTMLElement;
+  level?: ContrastLevel;
+  /** Keep newly inserted or restyled content compliant */
+  observe?: boolean;
+  prefix?: string;
+}
+
+/**
+ * Minimum ratios per level for normal and large text (WCAG 1.4.3 / 1.4.6)
+ */
+const CONTRAST_TARGETS: Record<ContrastLevel, { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+const SKIPPED_TAGS = new Set(['HEAD', 'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IMG', 'VIDEO', 'CANVAS', 'IFRAME']);
+
+// Canvas color used when no ancestor paints a background
+const DEFAULT_BACKGROUND: RGBAColor = { r: 255, g: 255, b: 255, a: 1 };
+const DEFAULT_FOREGROUND: RGBAColor = { r: 0, g: 0, b: 0, a: 1 };
+
+/**
+ * ContrastRepairEngine walks a DOM subtree, measures the WCAG contrast of
+ * each text element against its effective background and, where it falls
+ * short, rewrites the text color through a CSS custom property. Hue and
+ * saturation are kept; only lightness changes. Repairs are reversible.
+ */
+export class ContrastRepairEngine extends EventEmitter<ContrastRepairEngineEvents> {
+  private readonly root: HTMLElement;
+  private readonly level: ContrastLevel;
+  private readonly observe: boolean;
+  private readonly attribute: string;
+  private readonly property: string;
+  private readonly repaired = new Set<HTMLElement>();
+  private styleElement: HTMLStyleElement | null = null;
+  private observer: MutationObserver | null = null;
+  private running = false;
+
+  constructor(options: ContrastRepairOptions = {}) {
+    super();
+
+    this.root = options.root || document.body;
+    this.level = options.level || 'AA';
+    this.observe = options.observe ?? true;
+    const prefix = options.prefix || 'neuro';
+    this.attribute = `data-${prefix}-contrast-repaired`;
+    this.property = `--${prefix}-contrast-color`;
+  }
+
+  /**
+   * Repair the subtree and, if enabled, start watching it for changes
+   */
+  start(): ContrastRepair[] {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    this.styleElement = document.createElement('style');
+    // Doubled attribute selector outranks `[data-theme] *` theme rules
+    this.styleElement.textContent = `[${this.attribute}][${this.attribute}] { color: var(${this.property}) !important; }`;
+    document.head.appendChild(this.styleElement);
+
+    const repairs = this.scan();
+
+    if (this.observe && typeof MutationObserver !== 'undefined') {
+      this.observer = new MutationObserver(records => this.handleMutations(records));
+      this.connectObserver();
+    }
+
+    return repairs;
+  }
+
+  /**
+   * Stop watching and restore every rewritten color
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+
+    this.observer?.disconnect();
+    this.observer = null;
+    this.restore();
+
+    if (this.styleElement?.parentNode) {
+      this.styleElement.parentNode.removeChild(this.styleElement);
+    }
+    this.styleElement = null;
+  }
+
+  /**
+   * Check and repair every text element under `subtree` (the root by default)
+   */
+  scan(subtree: HTMLElement = this.root): ContrastRepair[] {
+    const repairs = this.repairSubtree(subtree);
+    if (repairs.length > 0) {
+      this.emit('repaired', repairs);
+    }
+    return repairs;
+  }
+
+  /**
+   * Undo all repairs without stopping the engine
+   */
+  restore(): void {
+    this.withObserverPaused(() => {
+      for (const element of this.repaired) {
+        this.clearRepair(element);
+      }
+    });
+    this.repaired.clear();
+  }
+
+  /**
+   * Elements whose colors are currently rewritten
+   */
+  getRepairedElements(): HTMLElement[] {
+    return [...this.repaired].filter(element => element.isConnected);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private repairElement(element: HTMLElement): ContrastRepair | null {
+    if (!hasOwnText(element)) {
+      return null;
+    }
+
+    // Measure against the author's color, not a previous repair
+    if (this.repaired.has(element)) {
+      this.clearRepair(element);
+      this.repaired.delete(element);
+    }
+
+    const style = getComputedStyle(element);
+    const background = getEffectiveBackground(element);
+    const foreground = composite(resolveColor(element, style.color) ?? DEFAULT_FOREGROUND, background);
+    const target = isLargeText(style) ? CONTRAST_TARGETS[this.level].large : CONTRAST_TARGETS[this.level].normal;
+    const ratio = getContrastRatio(foreground, background);
+
+    if (ratio >= target) {
+      return null;
+    }
+
+    const repairedColor = adjustForContrast(foreground, background, target);
+    element.style.setProperty(this.property, toCssColor(repairedColor));
+    element.setAttribute(this.attribute, '');
+    this.repaired.add(element);
+
+    return {
+      element,
+      ratio,
+      repairedRatio: getContrastRatio(repairedColor, background),
+      target,
+      foreground: toCssColor(foreground),
+      background: toCssColor(background),
+      repairedColor: toCssColor(repairedColor),
+    };
+  }
+
+  private clearRepair(element: HTMLElement): void {
+    element.style.removeProperty(this.property);
+    element.removeAttribute(this.attribute);
+  }
+
+  private handleMutations(records: MutationRecord[]): void {
+    const roots = new Set<HTMLElement>();
+
+    for (const record of records) {
+      if (record.type === 'childList') {
+        record.addedNodes.forEach(node => {
+          if (node instanceof HTMLElement) {
+            roots.add(node);
+          } else if (node.parentElement) {
+            roots.add(node.parentElement);
+          }
+        });
+      } else if (record.target instanceof HTMLElement) {
+        roots.add(record.target);
+      }
+    }
+
+    // Skip subtrees already covered by an ancestor in this batch
+    for (const element of roots) {
+      let ancestor = element.parentElement;
+      while (ancestor) {
+        if (roots.has(ancestor)) {
+          roots.delete(element);
+          break;
+        }
+        ancestor = ancestor.parentElement;
+      }
+    }
+
+    const repairs: ContrastRepair[] = [];
+    for (const element of roots) {
+      if (element.isConnected && this.root.contains(element)) {
+        repairs.push(...this.repairSubtree(element));
+      }
+    }
+    if (repairs.length > 0) {
+      this.emit('repaired', repairs);
+    }
+  }
+
+  private repairSubtree(subtree: HTMLElement): ContrastRepair[] {
+    const repairs: ContrastRepair[] = [];
+    try {
+      this.withObserverPaused(() => {
+        for (const element of collectElements(subtree)) {
+          const repair = this.repairElement(element);
+          if (repair) {
+            repairs.push(repair);
+          }
+        }
+      });
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+    return repairs;
+  }
+
+  /**
+   * Run `fn` without observing our own attribute writes. Records queued
+   * before pausing are handled afterwards so user changes are not lost.
+   */
+  private withObserverPaused(fn: () => void): void {
+    if (!this.observer) {
+      fn();
+      return;
+    }
+
+    const pending = this.observer.takeRecords();
+    this.observer.disconnect();
+    try {
+      fn();
+    } finally {
+      this.connectObserver();
+    }
+
+    if (pending.length > 0) {
+      queueMicrotask(() => this.observer && this.handleMutations(pending));
+    }
+  }
+
+  private connectObserver(): void {
+    this.observer?.observe(this.root, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['style', 'class'],
+    });
+  }
+}
+
+/**
+ * Parse a CSS color in hex, `rgb()`/`rgba()` or `transparent` form
+ */
+export function parseColor(value: string): RGBAColor | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1]!;
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(digit => digit + digit).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) {
+      return null;
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] === undefined
+      ? 1
+      : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: alpha };
+  }
+
+  return null;
+}
+
+/**
+ * WCAG relative luminance of an opaque color
+ */
+export function getRelativeLuminance(color: RGBAColor): number {
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r! + 0.7152 * g! + 0.0722 * b!;
+}
+
+/**
+ * WCAG contrast ratio between two opaque colors, from 1 to 21
+ */
+export function getContrastRatio(foreground: RGBAColor, background: RGBAColor): number {
+  const a = getRelativeLuminance(foreground);
+  const b = getRelativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Change only the lightness of `foreground` until it reaches `target`
+ * contrast against `background`, choosing the direction that needs the
+ * smaller change. If neither direction can reach the target, the
+ * highest-contrast result is returned.
+ */
+export function adjustForContrast(foreground: RGBAColor, background: RGBAColor, target: number): RGBAColor {
+  const [hue, saturation, lightness] = rgbToHsl(foreground);
+  const candidates: Array<{ color: RGBAColor; ratio: number; change: number }> = [];
+
+  for (const direction of [-1, 1] as const) {
+    const extreme = direction < 0 ? 0 : 1;
+    const extremeColor = hslToRgb(hue, saturation, extreme);
+    if (getContrastRatio(extremeColor, background) < target) {
+      candidates.push({ color: extremeColor, ratio: getContrastRatio(extremeColor, background), change: Infinity });
+      continue;
+    }
+
+    // Binary search for the smallest lightness change that reaches the target
+    let low = lightness;
+    let high = extreme;
+    for (let i = 0; i < 24; i++) {
+      const mid = (low + high) / 2;
+      if (getContrastRatio(hslToRgb(hue, saturation, mid), background) >= target) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    const color = hslToRgb(hue, saturation, high);
+    candidates.push({ color, ratio: getContrastRatio(color, background), change: Math.abs(high - lightness) });
+  }
+
+  candidates.sort((a, b) => a.change - b.change || b.ratio - a.ratio);
+  return candidates[0]!.color;
+}
+
+function collectElements(subtree: HTMLElement): HTMLElement[] {
+  const elements: HTMLElement[] = [];
+  const visit = (element: Element) => {
+    if (SKIPPED_TAGS.has(element.tagName.toUpperCase())) {
+      return;
+    }
+    if (element instanceof HTMLElement) {
+      elements.push(element);
+    }
+    for (const child of Array.from(element.children)) {
+      visit(child);
+    }
+  };
+  visit(subtree);
+  return elements;
+}
+
+function hasOwnText(element: HTMLElement): boolean {
+  return Array.from(element.childNodes).some(
+    node => node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').trim().length > 0
+  );
+}
+
+/**
+ * WCAG large text: at least 24px, or 18.66px (14pt) when bold
+ */
+function isLargeText(style: CSSStyleDeclaration): boolean {
+  const size = parseFloat(style.fontSize) || 16;
+  const weight = style.fontWeight === 'bold' ? 700 : parseInt(style.fontWeight, 10) || 400;
+  return size >= 24 || (size >= 18.66 && weight >= 700);
+}
+
+/**
+ * Composite every translucent background from the element up to the first opaque one
+ */
+function getEffectiveBackground(element: HTMLElement): RGBAColor {
+  const layers: RGBAColor[] = [];
+  let current: HTMLElement | null = element;
+
+  while (current) {
+    const color = parseColor(getComputedStyle(current).backgroundColor);
+    if (color && color.a > 0) {
+      layers.push(color);
+      if (color.a >= 1) {
+        break;
+      }
+    }
+    current = current.parentElement;
+  }
+
+  return layers.reduceRight((below, layer) => composite(layer, below), DEFAULT_BACKGROUND);
+}
+
+/**
+ * Resolve a computed color, following `var()` references through inline
+ * custom properties for environments that do not resolve them
+ */
+function resolveColor(element: HTMLElement, value: string): RGBAColor | null {
+  const reference = value.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/);
+  if (!reference) {
+    return value ? parseColor(value) : null;
+  }
+
+  let current: HTMLElement | null = element;
+  while (current) {
+    const custom = current.style.getPropertyValue(reference[1]!);
+    if (custom) {
+      return parseColor(custom);
+    }
+    current = current.parentElement;
+  }
+  return reference[2] ? parseColor(reference[2]) : null;
+}
+
+function composite(top: RGBAColor, bottom: RGBAColor): RGBAColor {
+  if (top.a >= 1) {
+    return top;
+  }
+  return {
+    r: top.r * top.a + bottom.r * (1 - top.a),
+    g: top.g * top.a + bottom.g * (1 - top.a),
+    b: top.b * top.a + bottom.b * (1 - top.a),
+    a: 1,
+  };
+}
+
+function toCssColor(color: RGBAColor): string {
+  return `rgb(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)})`;
+}
+
+function rgbToHsl({ r, g, b }: RGBAColor): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+
+  if (max === min) {
+    return [0, 0, lightness];
+  }
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let hue: number;
+  if (max === red) {
+    hue = (green - blue) / delta + (green < blue ? 6 : 0);
+  } else if (max === green) {
+    hue = (blue - red) / delta + 2;
+  } else {
+    hue = (red - green) / delta + 4;
+  }
+  return [hue / 6, saturation, lightness];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): RGBAColor {
+  if (saturation === 0) {
+    const value = Math.round(lightness * 255);
+    return { r: value, g: value, b: value, a: 1 };
+  }
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const channel = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+
+  return {
+    r: Math.round(channel(hue + 1 / 3) * 255),
+    g: Math.round(channel(hue) * 255),
+    b: Math.round(channel(hue - 1 / 3) * 255),
+    a: 1,
+  };
+}
@@ -0,0 +1,521 @@
+import { EventEmitter } from 'eventemitter3';
+
+import { parseColor, type RGBAColor } from './contrast-repair.js';
+
+/**
+ * Which WCAG 2.3.1 threshold was exceeded
+ */
+export type FlashKind = 'general' | 'red';
+
+/**
+ * One sampled frame of an element: a grid of sRGB colors (0-255 channels)
+ * and the on-screen area each grid cell covers in CSS pixels
+ */
+export interface FlashFrame {
+  pixels: ReadonlyArray<readonly [number, number, number]>;
+  pixelArea: number;
+}
+
+/**
+ * Captures the current frame of an element, or null if it cannot be read
+ * (for example a cross-origin video)
+ */
+export type FlashFrameSampler = (element: HTMLElement) => FlashFrame | null;
+
+/**
+ * Flash statistics over the last second for one element
+ */
+export interface FlashAnalysis {
+  /** Highest flashes per second of any single cell */
+  generalFlashes: number;
+  redFlashes: number;
+  /** Screen area (px²) of cells flashing above the limit */
+  generalArea: number;
+  redArea: number;
+}
+
+/**
+ * An element found to exceed a flash threshold
+ */
+export interface FlashDetection {
+  element: HTMLElement;
+  kind: FlashKind;
+  flashesPerSecond: number;
+  area: number;
+  /** What was done about it; null when mitigation is off */
+  mitigation: 'paused' | 'dimmed' | null;
+}
+
+/**
+ * Events emitted by FlashDetector
+ */
+export interface FlashDetectorEvents {
+  'flash-detected': (detection: FlashDetection) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Options for FlashAnalyzer
+ */
+export interface FlashAnalyzerOptions {
+  maxFlashesPerSecond?: number;
+  /** Length of the sliding window in ms */
+  window?: number;
+}
+
+/**
+ * Configuration options for FlashDetector
+ */
+export interface FlashDetectorOptions extends FlashAnalyzerOptions {
+  /** Root of the subtree to monitor; defaults to `document.body` */
+  root?: HTMLElement;
+  /** Samples per second; must be well above twice the flash limit to see alternations */
+  sampleRate?: number;
+  /** Flashing area allowed before content fails, in px² */
+  areaThreshold?: number;
+  /** Pause or dim offending elements */
+  mitigate?: boolean;
+  sampler?: FlashFrameSampler;
+  prefix?: string;
+}
+
+// WCAG 2.3.1 general flash: opposing changes of at least 10% relative
+// luminance where the darker state is below 0.80
+const GENERAL_FLASH_DELTA = 0.1;
+const GENERAL_FLASH_DARK_LIMIT = 0.8;
+
+// WCAG 2.3.1 red flash: a change of more than 20 in (R - G - B) * 320 where
+// either state is saturated red, R / (R + G + B) >= 0.8
+const RED_FLASH_DELTA = 20;
+const SATURATED_RED_RATIO = 0.8;
+
+/**
+ * 25% of a 10° visual field (341 x 256 px at typical viewing distance),
+ * the area WCAG allows to flash
+ */
+export const FLASH_AREA_THRESHOLD = 0.25 * 341 * 256;
+
+// Frames are downscaled to this many cells per side before analysis
+const SAMPLE_GRID = 16;
+
+const SAMPLED_MEDIA = 'video, canvas';
+
+interface TransitionTracker {
+  extreme: number;
+  extremeSaturated: boolean;
+  direction: -1 | 0 | 1;
+  transitions: number[];
+}
+
+interface CellState {
+  luminance: TransitionTracker;
+  red: TransitionTracker;
+}
+
+interface Mitigation {
+  kind: 'paused' | 'dimmed';
+  animations: Animation[];
+  filter: string;
+  filterPriority: string;
+}
+
+/**
+ * FlashAnalyzer counts WCAG 2.3.1 flashes in a stream of frames from one
+ * source. A flash is a pair of opposing transitions; each cell of the
+ * frame is tracked separately so the flashing area can be measured.
+ */
+export class FlashAnalyzer {
+  private readonly maxFlashes: number;
+  private readonly window: number;
+  private cells: CellState[] = [];
+
+  constructor(options: FlashAnalyzerOptions = {}) {
+    this.maxFlashes = options.maxFlashesPerSecond ?? 3;
+    this.window = options.window ?? 1000;
+  }
+
+  /**
+   * Add a frame captured at `time` (ms) and return the statistics for the window ending there
+   */
+  addFrame(time: number, frame: FlashFrame): FlashAnalysis {
+    // A different grid means a different source; start over
+    if (this.cells.length !== frame.pixels.length) {
+      this.cells = frame.pixels.map(() => ({ luminance: createTracker(), red: createTracker() }));
+    }
+
+    const analysis: FlashAnalysis = { generalFlashes: 0, redFlashes: 0, generalArea: 0, redArea: 0 };
+    const since = time - this.window;
+
+    frame.pixels.forEach((pixel, i) => {
+      const cell = this.cells[i]!;
+      const linear = pixel.map(channel => toLinear(channel / 255)) as [number, number, number];
+      const luminance = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+      const sum = linear[0] + linear[1] + linear[2];
+      const redness = Math.max(0, (linear[0] - linear[1] - linear[2]) * 320);
+      const saturated = sum > 0 && linear[0] / sum >= SATURATED_RED_RATIO;
+
+      track(cell.luminance, time, luminance, false, (from, to) =>
+        Math.abs(to - from) >= GENERAL_FLASH_DELTA && Math.min(from, to) < GENERAL_FLASH_DARK_LIMIT
+      );
+      track(cell.red, time, redness, saturated, (from, to, fromSaturated) =>
+        Math.abs(to - from) > RED_FLASH_DELTA && (fromSaturated || saturated)
+      );
+
+      const generalFlashes = countFlashes(cell.luminance, since);
+      const redFlashes = countFlashes(cell.red, since);
+      analysis.generalFlashes = Math.max(analysis.generalFlashes, generalFlashes);
+      analysis.redFlashes = Math.max(analysis.redFlashes, redFlashes);
+      if (generalFlashes > this.maxFlashes) {
+        analysis.generalArea += frame.pixelArea;
+      }
+      if (redFlashes > this.maxFlashes) {
+        analysis.redArea += frame.pixelArea;
+      }
+    });
+
+    return analysis;
+  }
+
+  reset(): void {
+    this.cells = [];
+  }
+}
+
+/**
+ * FlashDetector samples videos, canvases and animated elements under a
+ * root several times a second and checks their luminance changes against
+ * the WCAG 2.3.1 general-flash and red-flash thresholds. Offending media
+ * and animations are paused; anything else (such as a canvas) is dimmed.
+ * Mitigations other than pausing media are undone by `restore()`/`stop()`.
+ */
+export class FlashDetector extends EventEmitter<FlashDetectorEvents> {
+  private readonly root: HTMLElement;
+  private readonly sampleRate: number;
+  private readonly areaThreshold: number;
+  private readonly mitigate: boolean;
+  private readonly sampler: FlashFrameSampler;
+  private readonly analyzerOptions: FlashAnalyzerOptions;
+  private readonly maxFlashes: number;
+  private readonly attribute: string;
+  private readonly analyzers = new Map<HTMLElement, FlashAnalyzer>();
+  private readonly watched = new Set<HTMLElement>();
+  private readonly flagged = new Set<HTMLElement>();
+  private readonly mitigations = new Map<HTMLElement, Mitigation>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: FlashDetectorOptions = {}) {
+    super();
+
+    this.root = options.root || document.body;
+    this.sampleRate = options.sampleRate ?? 20;
+    this.areaThreshold = options.areaThreshold ?? FLASH_AREA_THRESHOLD;
+    this.mitigate = options.mitigate ?? true;
+    this.sampler = options.sampler || sampleElementFrame;
+    this.maxFlashes = options.maxFlashesPerSecond ?? 3;
+    this.analyzerOptions = {
+      maxFlashesPerSecond: this.maxFlashes,
+      ...(options.window !== undefined ? { window: options.window } : {}),
+    };
+    this.attribute = `data-${options.prefix || 'neuro'}-flash-mitigated`;
+  }
+
+  /**
+   * Start sampling on an interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.sample(), 1000 / this.sampleRate);
+  }
+
+  /**
+   * Stop sampling and undo mitigations
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.restore();
+    this.analyzers.clear();
+    this.flagged.clear();
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Monitor an element that is not a video, canvas or running animation,
+   * such as one animated from script
+   */
+  watch(element: HTMLElement): void {
+    this.watched.add(element);
+  }
+
+  unwatch(element: HTMLElement): void {
+    this.watched.delete(element);
+    this.analyzers.delete(element);
+  }
+
+  /**
+   * Take one sample of every monitored element. Called by the interval
+   * timer; exposed for custom render loops and tests.
+   */
+  sample(time: number = now()): FlashDetection[] {
+    const detections: FlashDetection[] = [];
+
+    try {
+      const targets = this.collectTargets();
+
+      // Forget elements that went away
+      for (const element of this.analyzers.keys()) {
+        if (!targets.has(element)) {
+          this.analyzers.delete(element);
+        }
+      }
+
+      for (const element of targets) {
+        if (this.flagged.has(element)) {
+          continue;
+        }
+
+        const frame = this.sampler(element);
+        if (!frame) {
+          continue;
+        }
+
+        let analyzer = this.analyzers.get(element);
+        if (!analyzer) {
+          analyzer = new FlashAnalyzer(this.analyzerOptions);
+          this.analyzers.set(element, analyzer);
+        }
+
+        const detection = this.evaluate(element, analyzer.addFrame(time, frame));
+        if (detection) {
+          detections.push(detection);
+        }
+      }
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+
+    for (const detection of detections) {
+      this.emit('flash-detected', detection);
+    }
+    return detections;
+  }
+
+  /**
+   * Undo mitigations and allow flagged elements to be checked again
+   */
+  restore(): void {
+    for (const [element, mitigation] of this.mitigations) {
+      mitigation.animations.forEach(animation => animation.play());
+      element.style.removeProperty('filter');
+      if (mitigation.filter) {
+        element.style.setProperty('filter', mitigation.filter, mitigation.filterPriority);
+      }
+      element.removeAttribute(this.attribute);
+    }
+    this.mitigations.clear();
+    this.flagged.clear();
+  }
+
+  /**
+   * Elements that exceeded a threshold since the last restore
+   */
+  getFlaggedElements(): HTMLElement[] {
+    return [...this.flagged];
+  }
+
+  private evaluate(element: HTMLElement, analysis: FlashAnalysis): FlashDetection | null {
+    // Red flashes are the stricter finding, so report them first
+    const kind: FlashKind | null =
+      analysis.redArea > this.areaThreshold && analysis.redFlashes > this.maxFlashes ? 'red'
+      : analysis.generalArea > this.areaThreshold && analysis.generalFlashes > this.maxFlashes ? 'general'
+      : null;
+
+    if (!kind) {
+      return null;
+    }
+
+    this.flagged.add(element);
+    this.analyzers.delete(element);
+
+    return {
+      element,
+      kind,
+      flashesPerSecond: kind === 'red' ? analysis.redFlashes : analysis.generalFlashes,
+      area: kind === 'red' ? analysis.redArea : analysis.generalArea,
+      mitigation: this.mitigate ? this.applyMitigation(element) : null,
+    };
+  }
+
+  private applyMitigation(element: HTMLElement): 'paused' | 'dimmed' {
+    const animations = (element.getAnimations?.() ?? []).filter(animation => animation.playState === 'running');
+    let kind: Mitigation['kind'] = 'dimmed';
+
+    if (element instanceof HTMLMediaElement) {
+      // Media stays paused after restore; resuming is left to the user
+      element.pause();
+      kind = 'paused';
+    } else if (animations.length > 0) {
+      animations.forEach(animation => animation.pause());
+      kind = 'paused';
+    }
+
+    const mitigation: Mitigation = {
+      kind,
+      animations,
+      filter: element.style.getPropertyValue('filter'),
+      filterPriority: element.style.getPropertyPriority('filter'),
+    };
+
+    if (kind === 'dimmed') {
+      // Compressing contrast shrinks every luminance change below the threshold
+      element.style.setProperty('filter', 'contrast(0.2) brightness(0.7)', 'important');
+    }
+
+    element.setAttribute(this.attribute, kind);
+    this.mitigations.set(element, mitigation);
+    return kind;
+  }
+
+  private collectTargets(): Set<HTMLElement> {
+    const targets = new Set<HTMLElement>();
+
+    this.root.querySelectorAll<HTMLElement>(SAMPLED_MEDIA).forEach(element => targets.add(element));
+
+    if (typeof document.getAnimations === 'function') {
+      for (const animation of document.getAnimations()) {
+        const target = (animation.effect as KeyframeEffect | null)?.target;
+        if (animation.playState === 'running' && target instanceof HTMLElement && this.root.contains(target)) {
+          targets.add(target);
+        }
+      }
+    }
+
+    for (const element of this.watched) {
+      if (element.isConnected) {
+        targets.add(element);
+      }
+    }
+
+    return targets;
+  }
+}
+
+/**
+ * Default sampler: media is drawn into a small canvas; other elements are
+ * sampled as their composited background color
+ */
+export function sampleElementFrame(element: HTMLElement): FlashFrame | null {
+  const rect = element.getBoundingClientRect();
+  const area = rect.width * rect.height;
+
+  if (element instanceof HTMLVideoElement || element instanceof HTMLCanvasElement) {
+    return sampleMediaFrame(element, area);
+  }
+
+  const style = getComputedStyle(element);
+  const background = parseColor(style.backgroundColor) ?? { r: 255, g: 255, b: 255, a: 0 };
+  const opacity = parseFloat(style.opacity);
+  const alpha = background.a * (Number.isNaN(opacity) ? 1 : opacity);
+  const color: RGBAColor = {
+    r: background.r * alpha + 255 * (1 - alpha),
+    g: background.g * alpha + 255 * (1 - alpha),
+    b: background.b * alpha + 255 * (1 - alpha),
+    a: 1,
+  };
+
+  return { pixels: [[color.r, color.g, color.b]], pixelArea: area };
+}
+
+let sampleCanvas: HTMLCanvasElement | null = null;
+
+function sampleMediaFrame(element: HTMLVideoElement | HTMLCanvasElement, area: number): FlashFrame | null {
+  if (element instanceof HTMLVideoElement && (element.paused || element.readyState < 2)) {
+    return null;
+  }
+
+  sampleCanvas ??= document.createElement('canvas');
+  sampleCanvas.width = SAMPLE_GRID;
+  sampleCanvas.height = SAMPLE_GRID;
+
+  let data: Uint8ClampedArray;
+  try {
+    const context = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      return null;
+    }
+    context.drawImage(element, 0, 0, SAMPLE_GRID, SAMPLE_GRID);
+    data = context.getImageData(0, 0, SAMPLE_GRID, SAMPLE_GRID).data;
+  } catch {
+    // Cross-origin media taints the canvas and cannot be read
+    return null;
+  }
+
+  const pixels: Array<[number, number, number]> = [];
+  for (let i = 0; i < data.length; i += 4) {
+    pixels.push([data[i]!, data[i + 1]!, data[i + 2]!]);
+  }
+  return { pixels, pixelArea: area / pixels.length };
+}
+
+function createTracker(): TransitionTracker {
+  return { extreme: Number.NaN, extremeSaturated: false, direction: 0, transitions: [] };
+}
+
+/**
+ * Follow a signal's running extreme and record a transition each time it
+ * reverses by enough to satisfy `isTransition`
+ */
+function track(
+  tracker: TransitionTracker,
+  time: number,
+  value: number,
+  saturated: boolean,
+  isTransition: (from: number, to: number, fromSaturated: boolean) => boolean
+): void {
+  if (Number.isNaN(tracker.extreme)) {
+    tracker.extreme = value;
+    tracker.extremeSaturated = saturated;
+    return;
+  }
+
+  const direction = Math.sign(value - tracker.extreme) as -1 | 0 | 1;
+  if (direction === 0) {
+    return;
+  }
+
+  // Still moving the same way as the last transition: extend it
+  if (direction === tracker.direction) {
+    tracker.extreme = value;
+    tracker.extremeSaturated = saturated;
+    return;
+  }
+
+  if (isTransition(tracker.extreme, value, tracker.extremeSaturated)) {
+    tracker.transitions.push(time);
+    tracker.direction = direction;
+    tracker.extreme = value;
+    tracker.extremeSaturated = saturated;
+  }
+}
+
+function countFlashes(tracker: TransitionTracker, since: number): number {
+  while (tracker.transitions.length > 0 && tracker.transitions[0]! <= since) {
+    tracker.transitions.shift();
+  }
+  return Math.floor(tracker.transitions.length / 2);
+}
+
+function toLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
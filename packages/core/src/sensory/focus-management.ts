@@ -0,0 +1,709 @@
+import { EventEmitter } from 'eventemitter3';
+
+/**
+ * Elements that can take keyboard focus
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'area[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'iframe',
+  'audio[controls]',
+  'video[controls]',
+  'summary',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[tabindex]',
+].join(', ');
+
+/**
+ * Focusable elements under `container` in tab order, skipping disabled,
+ * hidden and inert content and anything with a negative tabindex
+ */
+export function getFocusableElements(container: Element): HTMLElement[] {
+  const elements = [...container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)].filter(element =>
+    element.tabIndex >= 0 &&
+    !(element as HTMLButtonElement).disabled &&
+    !element.closest('[hidden], [inert], [aria-hidden="true"]')
+  );
+
+  // Positive tabindex values come first, in ascending order; the sort is stable
+  const positive = elements.filter(element => element.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex);
+  return [...positive, ...elements.filter(element => element.tabIndex === 0)];
+}
+
+function focusElement(element: HTMLElement, preventScroll = false): boolean {
+  element.focus({ preventScroll });
+  return document.activeElement === element;
+}
+
+/**
+ * Events emitted by FocusTrap
+ */
+export interface FocusTrapEvents {
+  'activated': () => void;
+  'deactivated': () => void;
+  /** Escape was pressed inside the trap, e.g. to close a dialog */
+  'escape': () => void;
+}
+
+/**
+ * Configuration options for FocusTrap
+ */
+export interface FocusTrapOptions {
+  /** Element to focus on activation, or a selector inside the container; defaults to the first focusable element */
+  initialFocus?: HTMLElement | string | false;
+  /** Focus the element that was focused before activation when deactivated */
+  returnFocus?: boolean;
+  /** Deactivate when Escape is pressed */
+  escapeDeactivates?: boolean;
+}
+
+// Active traps, innermost last. Only the innermost trap handles focus.
+const trapStack: FocusTrap[] = [];
+
+/**
+ * FocusTrap keeps Tab and Shift+Tab cycling inside a container, as modal
+ * dialogs require. Traps nest: activating one pauses the trap below it
+ * until it is deactivated.
+ */
+export class FocusTrap extends EventEmitter<FocusTrapEvents> {
+  private readonly container: HTMLElement;
+  private readonly options: Required<FocusTrapOptions>;
+  private returnTarget: HTMLElement | null = null;
+  private lastFocused: HTMLElement | null = null;
+  private active = false;
+
+  constructor(container: HTMLElement, options: FocusTrapOptions = {}) {
+    super();
+
+    this.container = container;
+    this.options = {
+      initialFocus: options.initialFocus ?? '',
+      returnFocus: options.returnFocus ?? true,
+      escapeDeactivates: options.escapeDeactivates ?? true,
+    };
+  }
+
+  activate(): void {
+    if (this.active) {
+      return;
+    }
+    this.active = true;
+
+    this.returnTarget = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    trapStack.push(this);
+
+    document.addEventListener('keydown', this.handleKeyDown, true);
+    document.addEventListener('focusin', this.handleFocusIn, true);
+
+    this.focusInitial();
+    this.emit('activated');
+  }
+
+  deactivate(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    document.removeEventListener('keydown', this.handleKeyDown, true);
+    document.removeEventListener('focusin', this.handleFocusIn, true);
+
+    const index = trapStack.indexOf(this);
+    if (index !== -1) {
+      trapStack.splice(index, 1);
+    }
+
+    if (this.options.returnFocus && this.returnTarget?.isConnected) {
+      focusElement(this.returnTarget, true);
+    }
+    this.returnTarget = null;
+    this.lastFocused = null;
+
+    this.emit('deactivated');
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Whether a nested trap currently has control
+   */
+  isPaused(): boolean {
+    return this.active && trapStack[trapStack.length - 1] !== this;
+  }
+
+  private focusInitial(): void {
+    const { initialFocus } = this.options;
+    if (initialFocus === false) {
+      return;
+    }
+
+    const target = initialFocus instanceof HTMLElement
+      ? initialFocus
+      : initialFocus
+        ? this.container.querySelector<HTMLElement>(initialFocus)
+        : getFocusableElements(this.container)[0] ?? null;
+
+    if (target) {
+      focusElement(target);
+    } else {
+      this.focusContainer();
+    }
+  }
+
+  /**
+   * A trap without focusable content focuses the container itself
+   */
+  private focusContainer(): void {
+    if (!this.container.hasAttribute('tabindex')) {
+      this.container.setAttribute('tabindex', '-1');
+    }
+    focusElement(this.container);
+  }
+
+  private readonly handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.isPaused()) {
+      return;
+    }
+
+    if (event.key === 'Escape') {
+      this.emit('escape');
+      if (this.options.escapeDeactivates) {
+        event.preventDefault();
+        this.deactivate();
+      }
+      return;
+    }
+
+    if (event.key !== 'Tab') {
+      return;
+    }
+
+    const focusable = getFocusableElements(this.container);
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (!first || !last) {
+      event.preventDefault();
+      this.focusContainer();
+      return;
+    }
+
+    const current = document.activeElement;
+    const outside = !(current instanceof Node) || !this.container.contains(current);
+    if (event.shiftKey && (outside || current === first || current === this.container)) {
+      event.preventDefault();
+      focusElement(last);
+    } else if (!event.shiftKey && (outside || current === last)) {
+      event.preventDefault();
+      focusElement(first);
+    }
+  };
+
+  private readonly handleFocusIn = (event: FocusEvent): void => {
+    if (this.isPaused()) {
+      return;
+    }
+
+    const target = event.target;
+    if (target instanceof HTMLElement && this.container.contains(target)) {
+      this.lastFocused = target;
+      return;
+    }
+
+    // Focus escaped (e.g. a click outside); pull it back
+    const fallback = this.lastFocused?.isConnected ? this.lastFocused : getFocusableElements(this.container)[0];
+    if (fallback) {
+      focusElement(fallback);
+    } else {
+      this.focusContainer();
+    }
+  };
+}
+
+/**
+ * Configuration options for FocusRestoration
+ */
+export interface FocusRestorationOptions {
+  /** Part of the page that is re-rendered on navigation; defaults to `document.body` */
+  root?: HTMLElement;
+  /** Where focus goes on a page that has no saved focus, tried in order */
+  contentSelectors?: string[];
+}
+
+const DEFAULT_CONTENT_SELECTORS = ['main h1', '[role="main"] h1', 'h1', 'main', '[role="main"]'];
+
+interface SavedFocus {
+  element: HTMLElement;
+  // Child indices from the root, for when the route re-renders its elements
+  path: number[];
+}
+
+/**
+ * FocusRestoration moves focus sensibly across client-side route changes.
+ * Focus is saved per route key when leaving a route and restored when
+ * coming back; routes without saved focus focus their main content, so
+ * screen reader and keyboard users start at the top of the new page
+ * rather than on a link that no longer exists.
+ */
+export class FocusRestoration {
+  private readonly root: HTMLElement | null;
+  private readonly contentSelectors: string[];
+  private readonly saved = new Map<string, SavedFocus>();
+
+  constructor(options: FocusRestorationOptions = {}) {
+    this.root = options.root ?? null;
+    this.contentSelectors = options.contentSelectors ?? DEFAULT_CONTENT_SELECTORS;
+  }
+
+  /**
+   * Remember the focused element for `key`
+   */
+  save(key: string): void {
+    const element = document.activeElement;
+    const root = this.getRoot();
+    if (!(element instanceof HTMLElement) || element === document.body || !root.contains(element)) {
+      return;
+    }
+    this.saved.set(key, { element, path: getElementPath(root, element) });
+  }
+
+  /**
+   * Focus the element saved for `key`, or the element at the same position
+   * if the route re-rendered it. Returns whether focus moved.
+   */
+  restore(key: string): boolean {
+    const saved = this.saved.get(key);
+    if (!saved) {
+      return false;
+    }
+
+    const element = saved.element.isConnected ? saved.element : resolveElementPath(this.getRoot(), saved.path);
+    return element instanceof HTMLElement && focusElement(element);
+  }
+
+  /**
+   * Focus the main content (by default the page heading). Non-focusable
+   * targets get `tabindex="-1"` so focus can land on them.
+   */
+  focusContent(): HTMLElement | null {
+    const root = this.getRoot();
+    const target = this.contentSelectors
+      .map(selector => root.querySelector<HTMLElement>(selector))
+      .find(element => element !== null);
+    if (!target) {
+      return null;
+    }
+    if (target.tabIndex < 0 && !target.hasAttribute('tabindex')) {
+      target.setAttribute('tabindex', '-1');
+    }
+    return focusElement(target) ? target : null;
+  }
+
+  /**
+   * Call before rendering the new route: save focus for `from`
+   */
+  leave(from: string): void {
+    this.save(from);
+  }
+
+  /**
+   * Call after rendering the new route: restore its saved focus or focus its content
+   */
+  enter(to: string): void {
+    if (!this.restore(to)) {
+      this.focusContent();
+    }
+  }
+
+  forget(key: string): void {
+    this.saved.delete(key);
+  }
+
+  private getRoot(): HTMLElement {
+    return this.root ?? document.body;
+  }
+}
+
+function getElementPath(root: Element, element: Element): number[] {
+  const path: number[] = [];
+  let current: Element | null = element;
+  while (current && current !== root) {
+    const parent: Element | null = current.parentElement;
+    if (!parent) {
+      break;
+    }
+    path.unshift([...parent.children].indexOf(current));
+    current = parent;
+  }
+  return path;
+}
+
+function resolveElementPath(root: Element, path: number[]): Element | null {
+  let current: Element | null = root;
+  for (const index of path) {
+    current = current?.children[index] ?? null;
+  }
+  return current;
+}
+
+/**
+ * Arrow keys that move through a roving tabindex group
+ */
+export type RovingOrientation = 'horizontal' | 'vertical' | 'both';
+
+/**
+ * Events emitted by RovingTabIndex
+ */
+export interface RovingTabIndexEvents {
+  'change': (element: HTMLElement, index: number) => void;
+}
+
+/**
+ * Configuration options for RovingTabIndex
+ */
+export interface RovingTabIndexOptions {
+  /** Items in the group; defaults to the common composite widget roles */
+  itemSelector?: string;
+  orientation?: RovingOrientation;
+  /** Wrap from the last item to the first and back */
+  loop?: boolean;
+}
+
+const DEFAULT_ITEM_SELECTOR = '[role="tab"], [role="option"], [role="menuitem"], [role="menuitemradio"], [role="menuitemcheckbox"], [role="radio"], [role="treeitem"], [role="gridcell"]';
+
+/**
+ * RovingTabIndex makes a composite widget (tab list, menu, listbox,
+ * toolbar) a single tab stop: only the current item has `tabindex="0"`
+ * and arrow keys, Home and End move between items.
+ */
+export class RovingTabIndex extends EventEmitter<RovingTabIndexEvents> {
+  private readonly container: HTMLElement;
+  private readonly itemSelector: string;
+  private readonly orientation: RovingOrientation;
+  private readonly loop: boolean;
+  private readonly originalTabIndex = new Map<HTMLElement, string | null>();
+  private items: HTMLElement[] = [];
+  private current = 0;
+  private running = false;
+
+  constructor(container: HTMLElement, options: RovingTabIndexOptions = {}) {
+    super();
+
+    this.container = container;
+    this.itemSelector = options.itemSelector || DEFAULT_ITEM_SELECTOR;
+    this.orientation = options.orientation ?? 'both';
+    this.loop = options.loop ?? true;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    this.container.addEventListener('keydown', this.handleKeyDown);
+    this.container.addEventListener('focusin', this.handleFocusIn);
+    this.refresh();
+  }
+
+  /**
+   * Stop handling keys and put back the items' own tabindex values
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+
+    this.container.removeEventListener('keydown', this.handleKeyDown);
+    this.container.removeEventListener('focusin', this.handleFocusIn);
+
+    for (const [element, tabIndex] of this.originalTabIndex) {
+      if (tabIndex === null) {
+        element.removeAttribute('tabindex');
+      } else {
+        element.setAttribute('tabindex', tabIndex);
+      }
+    }
+    this.originalTabIndex.clear();
+    this.items = [];
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Pick up items added or removed since the last refresh. The current
+   * item stays current if it is still there; otherwise the selected item
+   * (`aria-selected`/`aria-checked`) or the first one becomes current.
+   */
+  refresh(): void {
+    const previous = this.items[this.current];
+    this.items = [...this.container.querySelectorAll<HTMLElement>(this.itemSelector)].filter(item =>
+      !item.closest('[hidden], [inert]') && item.getAttribute('aria-disabled') !== 'true'
+    );
+
+    for (const item of this.items) {
+      if (!this.originalTabIndex.has(item)) {
+        this.originalTabIndex.set(item, item.getAttribute('tabindex'));
+      }
+    }
+
+    const kept = previous ? this.items.indexOf(previous) : -1;
+    const selected = this.items.findIndex(item =>
+      item.getAttribute('aria-selected') === 'true' || item.getAttribute('aria-checked') === 'true'
+    );
+    this.current = kept !== -1 ? kept : Math.max(selected, 0);
+    this.updateTabIndex();
+  }
+
+  getItems(): readonly HTMLElement[] {
+    return this.items;
+  }
+
+  getCurrent(): HTMLElement | null {
+    return this.items[this.current] ?? null;
+  }
+
+  /**
+   * Make an item current, by index or element, and optionally focus it
+   */
+  setCurrent(item: number | HTMLElement, focus = true): void {
+    const index = typeof item === 'number' ? item : this.items.indexOf(item);
+    const element = this.items[index];
+    if (!element) {
+      return;
+    }
+
+    const changed = index !== this.current;
+    this.current = index;
+    this.updateTabIndex();
+    if (focus) {
+      focusElement(element);
+    }
+    if (changed) {
+      this.emit('change', element, index);
+    }
+  }
+
+  private updateTabIndex(): void {
+    this.items.forEach((item, index) => item.setAttribute('tabindex', index === this.current ? '0' : '-1'));
+  }
+
+  private move(delta: number): void {
+    const count = this.items.length;
+    if (count === 0) {
+      return;
+    }
+    const next = this.current + delta;
+    this.setCurrent(this.loop ? (next + count) % count : Math.min(Math.max(next, 0), count - 1));
+  }
+
+  private readonly handleKeyDown = (event: KeyboardEvent): void => {
+    const horizontal = this.orientation !== 'vertical';
+    const vertical = this.orientation !== 'horizontal';
+    // Right-to-left layouts reverse the horizontal arrows
+    const rtl = getComputedStyle(this.container).direction === 'rtl';
+
+    switch (event.key) {
+      case 'ArrowRight':
+        if (!horizontal) return;
+        this.move(rtl ? -1 : 1);
+        break;
+      case 'ArrowLeft':
+        if (!horizontal) return;
+        this.move(rtl ? 1 : -1);
+        break;
+      case 'ArrowDown':
+        if (!vertical) return;
+        this.move(1);
+        break;
+      case 'ArrowUp':
+        if (!vertical) return;
+        this.move(-1);
+        break;
+      case 'Home':
+        this.setCurrent(0);
+        break;
+      case 'End':
+        this.setCurrent(this.items.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  private readonly handleFocusIn = (event: FocusEvent): void => {
+    const item = event.target instanceof HTMLElement ? event.target.closest<HTMLElement>(this.itemSelector) : null;
+    if (item && this.items.includes(item)) {
+      this.setCurrent(item, false);
+    }
+  };
+}
+
+/**
+ * Landmark roles that skip links can point at
+ */
+export type LandmarkRole = 'main' | 'navigation' | 'search' | 'complementary' | 'contentinfo';
+
+/**
+ * Configuration options for SkipLinks
+ */
+export interface SkipLinksOptions {
+  /** Where to look for landmarks; defaults to `document.body` */
+  root?: HTMLElement;
+  /** Landmarks to link to, in order */
+  landmarks?: LandmarkRole[];
+  /** Link text per landmark */
+  labels?: Partial<Record<LandmarkRole, string>>;
+  prefix?: string;
+}
+
+/**
+ * A generated skip link and the landmark it jumps to
+ */
+export interface SkipLink {
+  role: LandmarkRole;
+  link: HTMLAnchorElement;
+  target: HTMLElement;
+}
+
+const LANDMARK_SELECTORS: Record<LandmarkRole, string> = {
+  main: 'main, [role="main"]',
+  navigation: 'nav, [role="navigation"]',
+  search: 'search, [role="search"]',
+  complementary: 'aside, [role="complementary"]',
+  contentinfo: 'footer, [role="contentinfo"]',
+};
+
+const DEFAULT_SKIP_LABELS: Record<LandmarkRole, string> = {
+  main: 'Skip to main content',
+  navigation: 'Skip to navigation',
+  search: 'Skip to search',
+  complementary: 'Skip to sidebar',
+  contentinfo: 'Skip to footer',
+};
+
+/**
+ * SkipLinks generates "Skip to …" links from the page's landmarks and
+ * inserts them at the start of the body. The links stay visually hidden
+ * until focused; their `skip-link` class picks up AccessibleFocusRing's
+ * skip link styles.
+ */
+export class SkipLinks {
+  private readonly root: HTMLElement | null;
+  private readonly landmarks: LandmarkRole[];
+  private readonly labels: Record<LandmarkRole, string>;
+  private readonly prefix: string;
+  private container: HTMLElement | null = null;
+  private styleElement: HTMLStyleElement | null = null;
+  private links: SkipLink[] = [];
+  private readonly addedAttributes: Array<[HTMLElement, string]> = [];
+  private generatedIds = 0;
+
+  constructor(options: SkipLinksOptions = {}) {
+    this.root = options.root ?? null;
+    this.landmarks = options.landmarks ?? ['main', 'navigation', 'search'];
+    this.labels = { ...DEFAULT_SKIP_LABELS, ...options.labels };
+    this.prefix = options.prefix || 'neuro';
+  }
+
+  apply(): void {
+    if (this.container) {
+      return;
+    }
+
+    this.styleElement = document.createElement('style');
+    this.styleElement.id = `${this.prefix}-skip-links-styles`;
+    this.styleElement.textContent = `
+  .${this.prefix}-skip-links a:not(:focus) {
+    position: absolute !important;
+    width: 1px !important;
+    height: 1px !important;
+    overflow: hidden !important;
+    clip-path: inset(50%) !important;
+    white-space: nowrap !important;
+  }
+`;
+    document.head.appendChild(this.styleElement);
+
+    this.container = document.createElement('nav');
+    this.container.className = `${this.prefix}-skip-links`;
+    this.container.setAttribute('aria-label', 'Skip links');
+    document.body.insertBefore(this.container, document.body.firstChild);
+
+    this.refresh();
+  }
+
+  remove(): void {
+    this.container?.remove();
+    this.container = null;
+    this.styleElement?.remove();
+    this.styleElement = null;
+    this.links = [];
+
+    for (const [element, attribute] of this.addedAttributes) {
+      element.removeAttribute(attribute);
+    }
+    this.addedAttributes.length = 0;
+  }
+
+  isActive(): boolean {
+    return this.container !== null;
+  }
+
+  /**
+   * Regenerate the links after landmarks change, e.g. on route changes
+   */
+  refresh(): void {
+    if (!this.container) {
+      return;
+    }
+
+    this.container.replaceChildren();
+    this.links = [];
+    const root = this.root ?? document.body;
+
+    for (const role of this.landmarks) {
+      const target = [...root.querySelectorAll<HTMLElement>(LANDMARK_SELECTORS[role])]
+        .find(element => !this.container!.contains(element) && !element.closest('[hidden]'));
+      if (!target) {
+        continue;
+      }
+
+      if (!target.id) {
+        target.id = `${this.prefix}-landmark-${++this.generatedIds}`;
+        this.addedAttributes.push([target, 'id']);
+      }
+      // Landmarks are not focusable by default; without this, activating
+      // the link scrolls but leaves focus where it was
+      if (!target.hasAttribute('tabindex')) {
+        target.setAttribute('tabindex', '-1');
+        this.addedAttributes.push([target, 'tabindex']);
+      }
+
+      const link = document.createElement('a');
+      link.className = 'skip-link';
+      link.href = `#${target.id}`;
+      link.textContent = this.labels[role];
+      link.addEventListener('click', event => {
+        event.preventDefault();
+        focusElement(target);
+      });
+
+      this.container.appendChild(link);
+      this.links.push({ role, link, target });
+    }
+  }
+
+  getLinks(): readonly SkipLink[] {
+    return this.links;
+  }
+}
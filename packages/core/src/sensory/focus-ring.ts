@@ -1,3 +1,5 @@
+import { isForcedColorsActive, onForcedColorsChange } from './forced-colors.js';
+
 /**
  * Configuration options for AccessibleFocusRing
  */
@@ -34,6 +36,8 @@ export class AccessibleFocusRing {
   private readonly options: Required<FocusRingOptions>;
   private styleElement: HTMLStyleElement | undefined;
   private isApplied = false;
+  private forcedColors = false;
+  private unsubscribeForcedColors: (() => void) | null = null;
 
   constructor(options: FocusRingOptions = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -47,7 +51,14 @@ export class AccessibleFocusRing {
       return;
     }
 
+    this.forcedColors = isForcedColorsActive();
     this.createStyleElement();
+    this.unsubscribeForcedColors = onForcedColorsChange(active => {
+      this.forcedColors = active;
+      if (this.styleElement) {
+        this.styleElement.textContent = this.generateCSS();
+      }
+    });
     this.isApplied = true;
   }
 
@@ -64,6 +75,8 @@ export class AccessibleFocusRing {
     }
     this.styleElement = undefined;
 
+    this.unsubscribeForcedColors?.();
+    this.unsubscribeForcedColors = null;
     this.isApplied = false;
   }
 
@@ -86,6 +99,13 @@ export class AccessibleFocusRing {
     return this.isApplied;
   }
 
+  /**
+   * Check if the ring is drawn for forced-colors mode (system colors, no shadows)
+   */
+  isForcedColorsMode(): boolean {
+    return this.forcedColors;
+  }
+
   /**
    * Get current focus ring options
    */
@@ -101,6 +121,10 @@ export class AccessibleFocusRing {
   }
 
   private generateCSS(): string {
+    return this.forcedColors ? this.generateForcedColorsCSS() : this.generateDefaultCSS();
+  }
+
+  private generateDefaultCSS(): string {
     const { color, width, offset, style, borderRadius, duration, className } = this.options;
 
     return `
@@ -159,6 +183,14 @@ export class AccessibleFocusRing {
         }
       }
 
+      /* Forced colors compatibility */
+      @media (forced-colors: active) {
+        .${className} *:focus {
+          outline-color: Highlight !important;
+          box-shadow: none !important;
+        }
+      }
+
       /* Reduced motion compatibility */
       @media (prefers-reduced-motion: reduce) {
         .${className} *:focus {
@@ -186,6 +218,47 @@ export class AccessibleFocusRing {
     `;
   }
 
+  /**
+   * Forced colors replace author colors and drop box-shadows, so the ring
+   * is a plain outline in the system Highlight color
+   */
+  private generateForcedColorsCSS(): string {
+    const { width, offset, style, borderRadius, className } = this.options;
+
+    return `
+      /* Accessible Focus Ring Styles (forced colors) */
+      .${className} *:focus,
+      .${className} *:focus-visible,
+      .${className} [role="button"]:focus-within,
+      .${className} [role="tab"]:focus-within,
+      .${className} [role="menuitem"]:focus-within {
+        outline: ${width} ${style} Highlight !important;
+        outline-offset: ${offset} !important;
+        box-shadow: none !important;
+      }
+
+      /* Skip link focus enhancement */
+      .${className} .skip-link:focus {
+        position: absolute !important;
+        top: 10px !important;
+        left: 10px !important;
+        z-index: 9999 !important;
+        padding: 8px 16px !important;
+        background: Canvas !important;
+        color: CanvasText !important;
+        border: ${width} solid CanvasText !important;
+        text-decoration: none !important;
+        border-radius: ${borderRadius} !important;
+        font-weight: bold !important;
+      }
+
+      /* Remove default focus for elements with our enhanced focus */
+      .${className} *:focus:not(:focus-visible) {
+        outline: none !important;
+      }
+    `;
+  }
+
   /**
    * Create a focus ring with high contrast settings
    */
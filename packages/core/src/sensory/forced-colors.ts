@@ -0,0 +1,28 @@
+/**
+ * Media query for Windows High Contrast and other forced-color modes
+ */
+export const FORCED_COLORS_QUERY = '(forced-colors: active)';
+
+/**
+ * Check whether the browser is currently forcing a system color palette
+ */
+export function isForcedColorsActive(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia(FORCED_COLORS_QUERY).matches;
+}
+
+/**
+ * Call `listener` whenever forced colors turn on or off. Returns an
+ * unsubscribe function; a no-op where media queries are unavailable.
+ */
+export function onForcedColorsChange(listener: (active: boolean) => void): () => void {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return () => {};
+  }
+
+  const query = window.matchMedia(FORCED_COLORS_QUERY);
+  const handler = () => listener(query.matches);
+  query.addEventListener?.('change', handler);
+  return () => query.removeEventListener?.('change', handler);
+}
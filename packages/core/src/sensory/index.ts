@@ -7,5 +7,99 @@ export type {
   VisualAdaptations,
 } from './visual-adapter.js';
 
+export {
+  getColorVisionTransform,
+  transformColor,
+  simulateColor,
+  createColorVisionFilterMarkup,
+} from './color-vision.js';
+export type {
+  ColorVisionDeficiency,
+  ColorVisionMode,
+  ColorMatrix,
+  ColorVisionTransform,
+  ColorVisionTransformOptions,
+} from './color-vision.js';
+
+export {
+  ContrastRepairEngine,
+  parseColor,
+  getRelativeLuminance,
+  getContrastRatio,
+  adjustForContrast,
+} from './contrast-repair.js';
+export type {
+  ContrastLevel,
+  RGBAColor,
+  ContrastRepair,
+  ContrastRepairEngineEvents,
+  ContrastRepairOptions,
+} from './contrast-repair.js';
+
+export { MotionController } from './motion-controller.js';
+export type {
+  MotionSource,
+  MotionPauseSummary,
+  MotionControllerEvents,
+  MotionControllerOptions,
+} from './motion-controller.js';
+
+export {
+  FlashDetector,
+  FlashAnalyzer,
+  sampleElementFrame,
+  FLASH_AREA_THRESHOLD,
+} from './flash-detector.js';
+export type {
+  FlashKind,
+  FlashFrame,
+  FlashFrameSampler,
+  FlashAnalysis,
+  FlashDetection,
+  FlashDetectorEvents,
+  FlashAnalyzerOptions,
+  FlashDetectorOptions,
+} from './flash-detector.js';
+
+export {
+  ReadingGuideOverlay,
+  applyBionicEmphasis,
+  removeBionicEmphasis,
+  createReadingAidsCSS,
+  READING_FONT_STACKS,
+  WCAG_TEXT_SPACING,
+} from './reading-aids.js';
+export type {
+  ReadingFont,
+  ReadingGuideMode,
+  ReadingGuideOptions,
+  TextSpacing,
+} from './reading-aids.js';
+
 export { AccessibleFocusRing } from './focus-ring.js';
-export type { FocusRingOptions } from './focus-ring.js'; 
\ No newline at end of file
+export type { FocusRingOptions } from './focus-ring.js';
+
+export {
+  FORCED_COLORS_QUERY,
+  isForcedColorsActive,
+  onForcedColorsChange,
+} from './forced-colors.js';
+
+export {
+  FocusTrap,
+  FocusRestoration,
+  RovingTabIndex,
+  SkipLinks,
+  getFocusableElements,
+} from './focus-management.js';
+export type {
+  FocusTrapEvents,
+  FocusTrapOptions,
+  FocusRestorationOptions,
+  RovingOrientation,
+  RovingTabIndexEvents,
+  RovingTabIndexOptions,
+  LandmarkRole,
+  SkipLinksOptions,
+  SkipLink,
+} from './focus-management.js';
@@ -0,0 +1,321 @@
+import { EventEmitter } from 'eventemitter3';
+
+/**
+ * Where the current reduced-motion decision comes from
+ */
+export type MotionSource = 'preference' | 'system';
+
+/**
+ * What was stopped when motion was reduced
+ */
+export interface MotionPauseSummary {
+  /** Infinite animations paused; they resume when motion is allowed again */
+  paused: number;
+  /** Finite animations jumped to their end state */
+  finished: number;
+  media: number;
+}
+
+/**
+ * Events emitted by MotionController
+ */
+export interface MotionControllerEvents {
+  'change': (reduced: boolean, source: MotionSource) => void;
+  'paused': (summary: MotionPauseSummary) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Configuration options for MotionController
+ */
+export interface MotionControllerOptions {
+  /** Root of the subtree to control; defaults to `document.documentElement` */
+  root?: HTMLElement;
+  /** Stop animations and autoplay media added after motion was reduced */
+  observe?: boolean;
+  /** Elements moved by scroll-linked parallax scripts */
+  parallaxSelector?: string;
+  prefix?: string;
+}
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const DEFAULT_PARALLAX_SELECTOR = '[data-parallax], [data-speed], [data-rellax-speed], .parallax, .rellax, .jarallax';
+
+interface PausedMedia {
+  element: HTMLMediaElement;
+  wasPlaying: boolean;
+}
+
+/**
+ * MotionController stops motion that CSS alone cannot: Web Animations API
+ * and CSS animations (via `getAnimations()`), autoplaying media and
+ * scroll-linked parallax. `prefers-reduced-motion` decides by default; an
+ * explicit preference set with `setPreference()` overrides it.
+ *
+ * `requestAnimationFrame` loops cannot be stopped from outside, so
+ * libraries should check `shouldAnimate()` or listen for `change`.
+ */
+export class MotionController extends EventEmitter<MotionControllerEvents> {
+  private readonly root: HTMLElement;
+  private readonly observe: boolean;
+  private readonly parallaxSelector: string;
+  private readonly stillClass: string;
+  private readonly pausedAnimations = new Set<Animation>();
+  private readonly pausedMedia = new Map<HTMLMediaElement, PausedMedia>();
+  private preference: boolean | null = null;
+  private mediaQuery: MediaQueryList | null = null;
+  private observer: MutationObserver | null = null;
+  private styleElement: HTMLStyleElement | null = null;
+  private reduced = false;
+  private running = false;
+
+  constructor(options: MotionControllerOptions = {}) {
+    super();
+
+    this.root = options.root || document.documentElement;
+    this.observe = options.observe ?? true;
+    this.parallaxSelector = options.parallaxSelector || DEFAULT_PARALLAX_SELECTOR;
+    this.stillClass = `${options.prefix || 'neuro'}-motion-still`;
+  }
+
+  /**
+   * Start following the system setting and apply the current decision
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    if (typeof window !== 'undefined' && typeof window.matchMedia === 'function') {
+      this.mediaQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+      this.mediaQuery.addEventListener?.('change', this.handleSystemChange);
+    }
+
+    this.root.addEventListener('animationstart', this.handleAnimationStart, true);
+    this.root.addEventListener('transitionrun', this.handleAnimationStart, true);
+
+    this.update();
+  }
+
+  /**
+   * Stop following the system setting and let everything move again
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+
+    this.mediaQuery?.removeEventListener?.('change', this.handleSystemChange);
+    this.mediaQuery = null;
+    this.root.removeEventListener('animationstart', this.handleAnimationStart, true);
+    this.root.removeEventListener('transitionrun', this.handleAnimationStart, true);
+
+    if (this.reduced) {
+      this.reduced = false;
+      this.resume();
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Force reduced motion on or off; null defers to `prefers-reduced-motion`
+   */
+  setPreference(reduce: boolean | null): void {
+    this.preference = reduce;
+    if (this.running) {
+      this.update();
+    }
+  }
+
+  getSource(): MotionSource {
+    return this.preference === null ? 'system' : 'preference';
+  }
+
+  isReduced(): boolean {
+    return this.running ? this.reduced : this.resolve();
+  }
+
+  /**
+   * Gate for animation libraries and `requestAnimationFrame` loops
+   */
+  shouldAnimate(): boolean {
+    return !this.isReduced();
+  }
+
+  private resolve(): boolean {
+    if (this.preference !== null) {
+      return this.preference;
+    }
+    const query = this.mediaQuery ?? (
+      typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+        ? window.matchMedia(REDUCED_MOTION_QUERY)
+        : null
+    );
+    return query?.matches ?? false;
+  }
+
+  private update(): void {
+    const reduced = this.resolve();
+    if (reduced === this.reduced) {
+      return;
+    }
+    this.reduced = reduced;
+
+    try {
+      if (reduced) {
+        this.reduce();
+      } else {
+        this.resume();
+      }
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+
+    this.emit('change', reduced, this.getSource());
+  }
+
+  private reduce(): void {
+    this.styleElement = document.createElement('style');
+    this.styleElement.textContent = `
+  .${this.stillClass},
+  .${this.stillClass} * {
+    background-attachment: scroll !important;
+    scroll-behavior: auto !important;
+  }
+
+  .${this.stillClass} :is(${this.parallaxSelector}) {
+    transform: none !important;
+    translate: none !important;
+  }
+`;
+    document.head.appendChild(this.styleElement);
+    this.root.classList.add(this.stillClass);
+
+    const summary = this.stopMotion(this.root);
+
+    if (this.observe && typeof MutationObserver !== 'undefined') {
+      this.observer = new MutationObserver(records => this.handleMutations(records));
+      this.observer.observe(this.root, { childList: true, subtree: true });
+    }
+
+    this.emit('paused', summary);
+  }
+
+  private resume(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+
+    for (const animation of this.pausedAnimations) {
+      if (animation.playState === 'paused') {
+        animation.play();
+      }
+    }
+    this.pausedAnimations.clear();
+
+    for (const { element, wasPlaying } of this.pausedMedia.values()) {
+      element.autoplay = true;
+      if (wasPlaying) {
+        element.play()?.catch(() => {
+          // Autoplay policies may refuse; the user can still press play
+        });
+      }
+    }
+    this.pausedMedia.clear();
+
+    this.root.classList.remove(this.stillClass);
+    if (this.styleElement?.parentNode) {
+      this.styleElement.parentNode.removeChild(this.styleElement);
+    }
+    this.styleElement = null;
+  }
+
+  /**
+   * Pause or finish running animations and stop autoplay media under `subtree`
+   */
+  private stopMotion(subtree: Element): MotionPauseSummary {
+    const summary: MotionPauseSummary = { paused: 0, finished: 0, media: 0 };
+
+    const animations = typeof document.getAnimations === 'function' ? document.getAnimations() : [];
+    for (const animation of animations) {
+      const target = (animation.effect as KeyframeEffect | null)?.target;
+      if (animation.playState !== 'running' || !(target instanceof Element) || !subtree.contains(target)) {
+        continue;
+      }
+      this.stopAnimation(animation, summary);
+    }
+
+    const media = subtree instanceof HTMLMediaElement
+      ? [subtree]
+      : [...subtree.querySelectorAll<HTMLMediaElement>('video, audio')];
+    for (const element of media) {
+      if (element.autoplay && !this.pausedMedia.has(element)) {
+        this.pausedMedia.set(element, { element, wasPlaying: !element.paused });
+        element.autoplay = false;
+        element.pause();
+        summary.media++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Finite animations jump to their end so content they reveal stays
+   * visible; infinite ones can only be paused
+   */
+  private stopAnimation(animation: Animation, summary: MotionPauseSummary): void {
+    if (animation.effect?.getComputedTiming().endTime === Infinity) {
+      animation.pause();
+      this.pausedAnimations.add(animation);
+      summary.paused++;
+    } else {
+      animation.finish();
+      summary.finished++;
+    }
+  }
+
+  private handleMutations(records: MutationRecord[]): void {
+    const summary: MotionPauseSummary = { paused: 0, finished: 0, media: 0 };
+
+    for (const record of records) {
+      record.addedNodes.forEach(node => {
+        if (node instanceof Element) {
+          const added = this.stopMotion(node);
+          summary.paused += added.paused;
+          summary.finished += added.finished;
+          summary.media += added.media;
+        }
+      });
+    }
+
+    if (summary.paused + summary.finished + summary.media > 0) {
+      this.emit('paused', summary);
+    }
+  }
+
+  private readonly handleSystemChange = (): void => {
+    this.update();
+  };
+
+  private readonly handleAnimationStart = (event: Event): void => {
+    if (!this.reduced || !(event.target instanceof Element)) {
+      return;
+    }
+
+    const summary: MotionPauseSummary = { paused: 0, finished: 0, media: 0 };
+    for (const animation of event.target.getAnimations?.() ?? []) {
+      if (animation.playState === 'running') {
+        this.stopAnimation(animation, summary);
+      }
+    }
+    if (summary.paused + summary.finished > 0) {
+      this.emit('paused', summary);
+    }
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Font families offered for readers with dyslexia. The fonts themselves
+ * must be loaded by the application; the stacks fall back to system fonts.
+ */
+export type ReadingFont = 'default' | 'opendyslexic' | 'atkinson-hyperlegible' | 'lexend';
+
+/**
+ * `ruler` highlights the current line; `line-focus` dims everything else
+ */
+export type ReadingGuideMode = 'off' | 'ruler' | 'line-focus';
+
+/**
+ * Text spacing overrides in em (line height is a multiplier). 0 keeps the page's own value.
+ */
+export interface TextSpacing {
+  letterSpacing: number;
+  wordSpacing: number;
+  lineHeight: number;
+  paragraphSpacing: number;
+}
+
+/**
+ * Minimum spacing content must tolerate under WCAG 1.4.12
+ */
+export const WCAG_TEXT_SPACING: Readonly<TextSpacing> = {
+  letterSpacing: 0.12,
+  wordSpacing: 0.16,
+  lineHeight: 1.5,
+  paragraphSpacing: 2,
+};
+
+export const READING_FONT_STACKS: Record<Exclude<ReadingFont, 'default'>, string> = {
+  'opendyslexic': '"OpenDyslexic", "Comic Sans MS", "Verdana", sans-serif',
+  'atkinson-hyperlegible': '"Atkinson Hyperlegible", "Verdana", "Tahoma", sans-serif',
+  'lexend': '"Lexend", "Verdana", "Arial", sans-serif',
+};
+
+// Elements whose text must not be restyled or split
+const BIONIC_SKIPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'CODE', 'PRE', 'KBD', 'SAMP',
+  'TEXTAREA', 'INPUT', 'SELECT', 'OPTION', 'SVG', 'MATH', 'B', 'STRONG',
+]);
+
+/**
+ * CSS for text spacing and font swapping. Values come from custom
+ * properties on the target element so they can change without new rules.
+ */
+export function createReadingAidsCSS(prefix: string): string {
+  return `
+  .${prefix}-letter-spacing,
+  .${prefix}-letter-spacing * {
+    letter-spacing: var(--${prefix}-letter-spacing) !important;
+  }
+
+  .${prefix}-word-spacing,
+  .${prefix}-word-spacing * {
+    word-spacing: var(--${prefix}-word-spacing) !important;
+  }
+
+  .${prefix}-line-height,
+  .${prefix}-line-height * {
+    line-height: var(--${prefix}-line-height) !important;
+  }
+
+  .${prefix}-paragraph-spacing p,
+  .${prefix}-paragraph-spacing li,
+  .${prefix}-paragraph-spacing blockquote {
+    margin-bottom: var(--${prefix}-paragraph-spacing) !important;
+  }
+
+  .${prefix}-reading-font,
+  .${prefix}-reading-font *:not(code, pre, kbd, samp, [aria-hidden="true"]) {
+    font-family: var(--${prefix}-reading-font) !important;
+  }
+
+  .${prefix}-bionic-fixation {
+    font-weight: 700;
+  }
+`;
+}
+
+/**
+ * Options for ReadingGuideOverlay
+ */
+export interface ReadingGuideOptions {
+  mode: Exclude<ReadingGuideMode, 'off'>;
+  prefix?: string;
+  /** Height of the highlighted band in px */
+  bandHeight?: number;
+}
+
+/**
+ * Overlay that follows the pointer, the text caret and keyboard focus,
+ * either highlighting the current line or dimming the rest of the page.
+ * It never intercepts pointer events.
+ */
+export class ReadingGuideOverlay {
+  private readonly mode: Exclude<ReadingGuideMode, 'off'>;
+  private readonly prefix: string;
+  private readonly bandHeight: number;
+  private readonly elements: HTMLElement[] = [];
+  private readonly listeners: Array<[EventTarget, string, EventListener]> = [];
+  private position = 0;
+
+  constructor(options: ReadingGuideOptions) {
+    this.mode = options.mode;
+    this.prefix = options.prefix || 'neuro';
+    this.bandHeight = options.bandHeight ?? 40;
+  }
+
+  start(): void {
+    if (this.elements.length > 0) {
+      return;
+    }
+
+    if (this.mode === 'ruler') {
+      this.elements.push(this.createLayer('ruler', {
+        height: `${this.bandHeight}px`,
+        background: 'rgba(255, 230, 0, 0.18)',
+        borderTop: '2px solid rgba(0, 0, 0, 0.45)',
+        borderBottom: '2px solid rgba(0, 0, 0, 0.45)',
+      }));
+    } else {
+      // Two shades leave a clear band between them
+      this.elements.push(
+        this.createLayer('focus-above', { height: '100vh', background: 'rgba(0, 0, 0, 0.55)' }),
+        this.createLayer('focus-below', { height: '100vh', background: 'rgba(0, 0, 0, 0.55)' })
+      );
+    }
+
+    this.listen(document, 'pointermove', event => this.moveTo((event as PointerEvent).clientY));
+    this.listen(document, 'selectionchange', () => this.followCaret());
+    this.listen(document, 'focusin', event => this.followElement(event.target));
+
+    this.moveTo(typeof window !== 'undefined' ? window.innerHeight / 3 : 0);
+  }
+
+  stop(): void {
+    for (const [target, type, listener] of this.listeners) {
+      target.removeEventListener(type, listener);
+    }
+    this.listeners.length = 0;
+
+    for (const element of this.elements) {
+      element.remove();
+    }
+    this.elements.length = 0;
+  }
+
+  /**
+   * Center the band on a viewport y coordinate
+   */
+  moveTo(clientY: number): void {
+    this.position = clientY;
+    const top = clientY - this.bandHeight / 2;
+
+    if (this.mode === 'ruler') {
+      this.elements[0]!.style.transform = `translateY(${top}px)`;
+      return;
+    }
+
+    const [above, below] = this.elements;
+    above!.style.transform = `translateY(calc(${top}px - 100vh))`;
+    below!.style.transform = `translateY(${top + this.bandHeight}px)`;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getMode(): Exclude<ReadingGuideMode, 'off'> {
+    return this.mode;
+  }
+
+  getBandHeight(): number {
+    return this.bandHeight;
+  }
+
+  private followCaret(): void {
+    const selection = document.getSelection();
+    if (!selection || selection.rangeCount === 0) {
+      return;
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect?.();
+    if (rect && rect.height > 0) {
+      this.moveTo(rect.top + rect.height / 2);
+    }
+  }
+
+  private followElement(target: EventTarget | null): void {
+    if (target instanceof HTMLElement) {
+      const rect = target.getBoundingClientRect();
+      this.moveTo(rect.top + Math.min(rect.height, this.bandHeight) / 2);
+    }
+  }
+
+  private createLayer(name: string, styles: Partial<CSSStyleDeclaration>): HTMLElement {
+    const layer = document.createElement('div');
+    layer.className = `${this.prefix}-reading-guide ${this.prefix}-reading-guide-${name}`;
+    layer.setAttribute('aria-hidden', 'true');
+    Object.assign(layer.style, {
+      position: 'fixed',
+      top: '0',
+      left: '0',
+      width: '100%',
+      pointerEvents: 'none',
+      zIndex: '2147483646',
+      ...styles,
+    });
+    document.body.appendChild(layer);
+    return layer;
+  }
+
+  private listen(target: EventTarget, type: string, listener: EventListener): void {
+    target.addEventListener(type, listener, { passive: true });
+    this.listeners.push([target, type, listener]);
+  }
+}
+
+// Original text node behind each bionic wrapper, so removal puts back the
+// very node that was there (frameworks keep references to text nodes)
+const bionicOriginals = new WeakMap<HTMLElement, Text>();
+
+/**
+ * Bold the first part of each word under `root` ("bionic" reading).
+ * Each changed text node is swapped for a wrapper span, and
+ * removeBionicEmphasis swaps the same node back. Returns the number of
+ * text nodes changed.
+ */
+export function applyBionicEmphasis(root: HTMLElement, prefix = 'neuro'): number {
+  const wrapperClass = `${prefix}-bionic`;
+  const textNodes: Text[] = [];
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => {
+      const parent = node.parentElement;
+      if (!parent || !/\p{L}{2,}/u.test(node.textContent ?? '')) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      for (let element: Element | null = parent; element && element !== root.parentElement; element = element.parentElement) {
+        if (
+          BIONIC_SKIPPED_TAGS.has(element.tagName.toUpperCase()) ||
+          element.classList.contains(wrapperClass) ||
+          (element as HTMLElement).isContentEditable
+        ) {
+          return NodeFilter.FILTER_REJECT;
+        }
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    },
+  });
+
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  for (const node of textNodes) {
+    const wrapper = document.createElement('span');
+    wrapper.className = wrapperClass;
+
+    for (const part of (node.textContent ?? '').split(/(\p{L}+)/u)) {
+      if (!part) {
+        continue;
+      }
+      if (!/^\p{L}+$/u.test(part)) {
+        wrapper.appendChild(document.createTextNode(part));
+        continue;
+      }
+      const split = getFixationLength(part);
+      const fixation = document.createElement('b');
+      fixation.className = `${prefix}-bionic-fixation`;
+      fixation.textContent = part.slice(0, split);
+      wrapper.appendChild(fixation);
+      if (split < part.length) {
+        wrapper.appendChild(document.createTextNode(part.slice(split)));
+      }
+    }
+
+    node.replaceWith(wrapper);
+    bionicOriginals.set(wrapper, node);
+  }
+
+  return textNodes.length;
+}
+
+/**
+ * Undo applyBionicEmphasis under `root`
+ */
+export function removeBionicEmphasis(root: HTMLElement, prefix = 'neuro'): void {
+  root.querySelectorAll<HTMLElement>(`span.${prefix}-bionic`).forEach(wrapper => {
+    wrapper.replaceWith(bionicOriginals.get(wrapper) ?? document.createTextNode(wrapper.textContent ?? ''));
+    bionicOriginals.delete(wrapper);
+  });
+}
+
+/**
+ * Letters to embolden: one for short words, about half for longer ones
+ */
+function getFixationLength(word: string): number {
+  return word.length <= 3 ? 1 : Math.ceil(word.length / 2);
+}
@@ -1,6 +1,25 @@
 import { EventEmitter } from 'eventemitter3';
 
 import type { SensoryPreferences } from '../preferences/schemas.js';
+import {
+  getColorVisionTransform,
+  createColorVisionFilterMarkup,
+  type ColorVisionMode,
+} from './color-vision.js';
+import { ContrastRepairEngine, type ContrastRepair, type ContrastRepairOptions } from './contrast-repair.js';
+import { FlashDetector, type FlashDetection, type FlashDetectorOptions } from './flash-detector.js';
+import { isForcedColorsActive, onForcedColorsChange } from './forced-colors.js';
+import { MotionController, type MotionControllerOptions, type MotionSource } from './motion-controller.js';
+import {
+  READING_FONT_STACKS,
+  ReadingGuideOverlay,
+  applyBionicEmphasis,
+  createReadingAidsCSS,
+  removeBionicEmphasis,
+  type ReadingFont,
+  type ReadingGuideMode,
+  type TextSpacing,
+} from './reading-aids.js';
 
 /**
  * Events emitted by VisualAdapter
@@ -8,6 +27,10 @@ import type { SensoryPreferences } from '../preferences/schemas.js';
 export interface VisualAdapterEvents {
   'adaptation-applied': (type: string, details: Record<string, unknown>) => void;
   'adaptation-removed': (type: string) => void;
+  'contrast-repaired': (repairs: ContrastRepair[]) => void;
+  'flash-detected': (detection: FlashDetection) => void;
+  'motion-changed': (reduced: boolean, source: MotionSource) => void;
+  'forced-colors-change': (active: boolean) => void;
   'error': (error: Error) => void;
 }
 
@@ -18,12 +41,21 @@ export interface VisualAdapterOptions {
   targetElement?: HTMLElement;
   autoApply?: boolean;
   prefix?: string;
+  /** Rewrite low-contrast text colors while high contrast is on */
+  contrastRepair?: boolean | ContrastRepairOptions;
+  /** Detect and pause or dim flashing content while reduced flashing is on */
+  flashDetection?: boolean | FlashDetectorOptions;
+  /**
+   * Stop script animations, autoplay media and parallax. Follows
+   * `prefers-reduced-motion` unless `motionReduction` is on.
+   */
+  motionControl?: boolean | MotionControllerOptions;
 }
 
 /**
  * Color vision filter types for accessibility
  */
-export type ColorVisionFilter = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+export type ColorVisionFilter = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
 
 /**
  * Visual adaptation types that can be applied
@@ -32,23 +64,28 @@ export interface VisualAdaptations {
   motionReduction: boolean;
   highContrast: boolean;
   colorVisionFilter: ColorVisionFilter;
+  colorVisionSeverity: number;
+  colorVisionMode: ColorVisionMode;
   fontSize: number;
   reducedFlashing: boolean;
   darkMode: boolean;
+  letterSpacing: number;
+  wordSpacing: number;
+  lineHeight: number;
+  paragraphSpacing: number;
+  readingFont: ReadingFont;
+  readingGuide: ReadingGuideMode;
+  bionicReading: boolean;
+  reducedTransparency: boolean;
 }
 
-/**
- * CSS filter values for different types of color blindness
- */
-const COLOR_VISION_FILTERS: Record<ColorVisionFilter, string> = {
-  none: 'none',
-  // Protanopia (red-blind) - reduce red channel
-  protanopia: 'sepia(1) saturate(0.8) hue-rotate(-20deg) contrast(1.2)',
-  // Deuteranopia (green-blind) - adjust green channel
-  deuteranopia: 'sepia(0.6) saturate(0.9) hue-rotate(40deg) contrast(1.1)',
-  // Tritanopia (blue-blind) - reduce blue channel
-  tritanopia: 'sepia(0.8) saturate(1.2) hue-rotate(180deg) contrast(1.3)',
-};
+// Text spacing preferences and the CSS custom property each one drives
+const TEXT_SPACING_PROPERTIES: Array<[keyof TextSpacing, string, string]> = [
+  ['letterSpacing', 'letter-spacing', 'em'],
+  ['wordSpacing', 'word-spacing', 'em'],
+  ['lineHeight', 'line-height', ''],
+  ['paragraphSpacing', 'paragraph-spacing', 'em'],
+];
 
 /**
  * High contrast theme CSS variables
@@ -143,6 +180,45 @@ const ANTI_FLASHING_CSS = `
   }
 `;
 
+/**
+ * Reduced transparency CSS: frosted-glass effects become solid
+ */
+const REDUCED_TRANSPARENCY_CSS = `
+  .neuro-reduced-transparency *,
+  .neuro-reduced-transparency *::before,
+  .neuro-reduced-transparency *::after {
+    backdrop-filter: none !important;
+    -webkit-backdrop-filter: none !important;
+  }
+`;
+
+/**
+ * Forced colors CSS: the high contrast theme defers to the system palette
+ * instead of fighting it with its own colors
+ */
+const FORCED_COLORS_CSS = `
+  :root.neuro-forced-colors[data-theme="neuro-high-contrast"],
+  .neuro-forced-colors[data-theme="neuro-high-contrast"] {
+    --neuro-bg-primary: Canvas;
+    --neuro-bg-secondary: Canvas;
+    --neuro-text-primary: CanvasText;
+    --neuro-text-secondary: CanvasText;
+    --neuro-border: CanvasText;
+    --neuro-focus: Highlight;
+    --neuro-link: LinkText;
+    --neuro-link-visited: VisitedText;
+    --neuro-button-bg: ButtonFace;
+    --neuro-button-text: ButtonText;
+    --neuro-input-bg: Field;
+    --neuro-input-border: FieldText;
+  }
+
+  .neuro-forced-colors[data-theme="neuro-high-contrast"] :focus {
+    outline-color: Highlight !important;
+    box-shadow: none !important;
+  }
+`;
+
 /**
  * VisualAdapter applies real-time visual adaptations to the DOM
  * based on user sensory preferences
@@ -152,7 +228,14 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
   private readonly prefix: string;
   private readonly appliedAdaptations = new Set<string>();
   private styleElement?: HTMLStyleElement;
+  private filterContainer: HTMLElement | null = null;
+  private readonly contrastRepair: ContrastRepairEngine | null = null;
+  private readonly flashDetector: FlashDetector | null = null;
+  private readonly motionController: MotionController | null = null;
+  private readingGuide: ReadingGuideOverlay | null = null;
   private currentAdaptations: Partial<VisualAdaptations> = {};
+  private forcedColors = false;
+  private unsubscribeForcedColors: (() => void) | null = null;
 
   constructor(
     preferences: SensoryPreferences,
@@ -162,8 +245,42 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
     
     this.targetElement = options.targetElement || document.documentElement;
     this.prefix = options.prefix || 'neuro';
-    
+
+    if (options.contrastRepair) {
+      this.contrastRepair = new ContrastRepairEngine({
+        root: this.targetElement,
+        prefix: this.prefix,
+        ...(typeof options.contrastRepair === 'object' ? options.contrastRepair : {}),
+      });
+      this.contrastRepair.on('repaired', repairs => this.emit('contrast-repaired', repairs));
+      this.contrastRepair.on('error', error => this.emit('error', error));
+    }
+
+    if (options.flashDetection) {
+      this.flashDetector = new FlashDetector({
+        root: this.targetElement,
+        prefix: this.prefix,
+        ...(typeof options.flashDetection === 'object' ? options.flashDetection : {}),
+      });
+      this.flashDetector.on('flash-detected', detection => this.emit('flash-detected', detection));
+      this.flashDetector.on('error', error => this.emit('error', error));
+    }
+
+    if (options.motionControl) {
+      this.motionController = new MotionController({
+        root: this.targetElement,
+        prefix: this.prefix,
+        ...(typeof options.motionControl === 'object' ? options.motionControl : {}),
+      });
+      this.motionController.on('change', (reduced, source) => this.emit('motion-changed', reduced, source));
+      this.motionController.on('error', error => this.emit('error', error));
+    }
+
     this.initializeStyleElement();
+
+    this.forcedColors = isForcedColorsActive();
+    this.updateForcedColorsClass();
+    this.unsubscribeForcedColors = onForcedColorsChange(active => this.handleForcedColorsChange(active));
     
     if (options.autoApply !== false) {
       this.applyAdaptations(preferences);
@@ -191,8 +308,12 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
         this.removeHighContrast();
       }
 
-      // Apply color vision filter
-      this.applyColorVisionFilter(preferences.colorVisionFilter);
+      // Apply color vision simulation or correction
+      this.applyColorVisionFilter(
+        preferences.colorVisionFilter,
+        preferences.colorVisionMode ?? 'correct',
+        preferences.colorVisionSeverity ?? 1
+      );
 
       // Apply font size scaling
       this.applyFontSizeScaling(preferences.fontSize);
@@ -211,6 +332,29 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
         this.removeDarkMode();
       }
 
+      // Apply reduced transparency
+      if (preferences.reducedTransparency) {
+        this.applyReducedTransparency();
+      } else {
+        this.removeReducedTransparency();
+      }
+
+      // Apply reading aids
+      this.applyTextSpacing({
+        letterSpacing: preferences.letterSpacing ?? 0,
+        wordSpacing: preferences.wordSpacing ?? 0,
+        lineHeight: preferences.lineHeight ?? 0,
+        paragraphSpacing: preferences.paragraphSpacing ?? 0,
+      });
+      this.applyReadingFont(preferences.readingFont ?? 'default');
+      this.applyReadingGuide(preferences.readingGuide ?? 'off', preferences.fontSize);
+
+      if (preferences.bionicReading) {
+        this.applyBionicReading();
+      } else {
+        this.removeBionicReading();
+      }
+
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
       this.emit('error', errorObj);
@@ -228,11 +372,24 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
       this.removeFontSizeScaling();
       this.removeReducedFlashing();
       this.removeDarkMode();
+      this.removeReducedTransparency();
+      this.removeTextSpacing();
+      this.removeReadingFont();
+      this.removeReadingGuide();
+      this.removeBionicReading();
+      this.motionController?.stop();
+      this.unsubscribeForcedColors?.();
+      this.unsubscribeForcedColors = null;
+      this.targetElement.classList.remove(`${this.prefix}-forced-colors`);
       
-      // Remove style element
+      // Remove style and filter elements
       if (this.styleElement?.parentNode) {
         this.styleElement.parentNode.removeChild(this.styleElement);
       }
+      if (this.filterContainer?.parentNode) {
+        this.filterContainer.parentNode.removeChild(this.filterContainer);
+      }
+      this.filterContainer = null;
       
       this.appliedAdaptations.clear();
       this.currentAdaptations = {};
@@ -249,6 +406,34 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
     return { ...this.currentAdaptations };
   }
 
+  /**
+   * Check if the browser is forcing system colors (e.g. Windows High Contrast)
+   */
+  isForcedColorsActive(): boolean {
+    return this.forcedColors;
+  }
+
+  /**
+   * Get the contrast repair engine, if enabled via `contrastRepair`
+   */
+  getContrastRepairEngine(): ContrastRepairEngine | null {
+    return this.contrastRepair;
+  }
+
+  /**
+   * Get the motion controller, if enabled via `motionControl`
+   */
+  getMotionController(): MotionController | null {
+    return this.motionController;
+  }
+
+  /**
+   * Get the flash detector, if enabled via `flashDetection`
+   */
+  getFlashDetector(): FlashDetector | null {
+    return this.flashDetector;
+  }
+
   /**
    * Check if a specific adaptation is currently applied
    */
@@ -259,44 +444,104 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
   private initializeStyleElement(): void {
     this.styleElement = document.createElement('style');
     this.styleElement.id = `${this.prefix}-visual-adaptations`;
-    this.styleElement.textContent = HIGH_CONTRAST_THEME + MOTION_REDUCTION_CSS + ANTI_FLASHING_CSS;
+    this.styleElement.textContent = HIGH_CONTRAST_THEME + MOTION_REDUCTION_CSS + ANTI_FLASHING_CSS + REDUCED_TRANSPARENCY_CSS + FORCED_COLORS_CSS + createReadingAidsCSS(this.prefix);
     document.head.appendChild(this.styleElement);
   }
 
+  private updateForcedColorsClass(): void {
+    if (this.forcedColors) {
+      this.targetElement.classList.add(`${this.prefix}-forced-colors`);
+    } else {
+      this.targetElement.classList.remove(`${this.prefix}-forced-colors`);
+    }
+  }
+
+  /**
+   * Re-apply current adaptations so filters and repairs follow the new mode
+   */
+  private handleForcedColorsChange(active: boolean): void {
+    if (active === this.forcedColors) {
+      return;
+    }
+    this.forcedColors = active;
+    this.updateForcedColorsClass();
+    this.emit('forced-colors-change', active);
+
+    if (Object.keys(this.currentAdaptations).length > 0) {
+      this.applyAdaptations(this.currentAdaptations as SensoryPreferences);
+    }
+  }
+
   private applyMotionReduction(): void {
     this.targetElement.classList.add(`${this.prefix}-motion-reduced`);
+    this.motionController?.setPreference(true);
+    this.motionController?.start();
     this.appliedAdaptations.add('motionReduction');
     this.emit('adaptation-applied', 'motionReduction', { enabled: true });
   }
 
   private removeMotionReduction(): void {
     this.targetElement.classList.remove(`${this.prefix}-motion-reduced`);
+    // Turning the preference off hands the decision back to the system setting
+    this.motionController?.setPreference(null);
+    this.motionController?.start();
     this.appliedAdaptations.delete('motionReduction');
     this.emit('adaptation-removed', 'motionReduction');
   }
 
   private applyHighContrast(): void {
     this.targetElement.setAttribute('data-theme', `${this.prefix}-high-contrast`);
+    // Runs after the theme so it measures the themed colors; forced colors
+    // ignore the repaired colors, so there is nothing to repair
+    if (this.forcedColors) {
+      this.contrastRepair?.stop();
+    } else {
+      this.contrastRepair?.start();
+    }
     this.appliedAdaptations.add('highContrast');
     this.emit('adaptation-applied', 'highContrast', { theme: `${this.prefix}-high-contrast` });
   }
 
   private removeHighContrast(): void {
+    this.contrastRepair?.stop();
     this.targetElement.removeAttribute('data-theme');
     this.appliedAdaptations.delete('highContrast');
     this.emit('adaptation-removed', 'highContrast');
   }
 
-  private applyColorVisionFilter(filter: ColorVisionFilter): void {
-    if (filter === 'none') {
+  private applyColorVisionFilter(filter: ColorVisionFilter, mode: ColorVisionMode, severity: number): void {
+    // Filters would recolor the system palette the user chose
+    if (filter === 'none' || severity <= 0 || this.forcedColors) {
       this.removeColorVisionFilter();
       return;
     }
-    
-    const filterValue = COLOR_VISION_FILTERS[filter];
+
+    const filterId = `${this.prefix}-color-vision-filter`;
+    const transform = getColorVisionTransform(filter, { mode, severity });
+    this.getFilterContainer().innerHTML =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0" focusable="false">${createColorVisionFilterMarkup(filterId, transform)}</svg>`;
+
+    const filterValue = `url(#${filterId})`;
     this.targetElement.style.filter = filterValue;
     this.appliedAdaptations.add('colorVisionFilter');
-    this.emit('adaptation-applied', 'colorVisionFilter', { filter, value: filterValue });
+    this.emit('adaptation-applied', 'colorVisionFilter', { filter, mode, severity, value: filterValue });
+  }
+
+  /**
+   * SVG filters must live in the document body to be referenced from CSS
+   */
+  private getFilterContainer(): HTMLElement {
+    if (!this.filterContainer) {
+      this.filterContainer = document.createElement('div');
+      this.filterContainer.id = `${this.prefix}-color-vision-filters`;
+      this.filterContainer.setAttribute('aria-hidden', 'true');
+      this.filterContainer.style.position = 'absolute';
+      this.filterContainer.style.width = '0';
+      this.filterContainer.style.height = '0';
+      this.filterContainer.style.overflow = 'hidden';
+      document.body.appendChild(this.filterContainer);
+    }
+    return this.filterContainer;
   }
 
   private removeColorVisionFilter(): void {
@@ -320,11 +565,13 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
 
   private applyReducedFlashing(): void {
     this.targetElement.classList.add(`${this.prefix}-anti-flash`);
+    this.flashDetector?.start();
     this.appliedAdaptations.add('reducedFlashing');
     this.emit('adaptation-applied', 'reducedFlashing', { enabled: true });
   }
 
   private removeReducedFlashing(): void {
+    this.flashDetector?.stop();
     this.targetElement.classList.remove(`${this.prefix}-anti-flash`);
     this.appliedAdaptations.delete('reducedFlashing');
     this.emit('adaptation-removed', 'reducedFlashing');
@@ -341,4 +588,108 @@ export class VisualAdapter extends EventEmitter<VisualAdapterEvents> {
     this.appliedAdaptations.delete('darkMode');
     this.emit('adaptation-removed', 'darkMode');
   }
-} 
\ No newline at end of file
+
+  private applyReducedTransparency(): void {
+    this.targetElement.classList.add(`${this.prefix}-reduced-transparency`);
+    this.appliedAdaptations.add('reducedTransparency');
+    this.emit('adaptation-applied', 'reducedTransparency', { enabled: true });
+  }
+
+  private removeReducedTransparency(): void {
+    this.targetElement.classList.remove(`${this.prefix}-reduced-transparency`);
+    this.appliedAdaptations.delete('reducedTransparency');
+    this.emit('adaptation-removed', 'reducedTransparency');
+  }
+
+  private applyTextSpacing(spacing: TextSpacing): void {
+    for (const [key, name, unit] of TEXT_SPACING_PROPERTIES) {
+      if (spacing[key] > 0) {
+        this.targetElement.style.setProperty(`--${this.prefix}-${name}`, `${spacing[key]}${unit}`);
+        this.targetElement.classList.add(`${this.prefix}-${name}`);
+        this.appliedAdaptations.add(key);
+      } else {
+        this.targetElement.style.removeProperty(`--${this.prefix}-${name}`);
+        this.targetElement.classList.remove(`${this.prefix}-${name}`);
+        this.appliedAdaptations.delete(key);
+      }
+    }
+
+    if (Object.values(spacing).some(value => value > 0)) {
+      this.emit('adaptation-applied', 'textSpacing', { ...spacing });
+    } else {
+      this.emit('adaptation-removed', 'textSpacing');
+    }
+  }
+
+  private removeTextSpacing(): void {
+    for (const [key, name] of TEXT_SPACING_PROPERTIES) {
+      this.targetElement.style.removeProperty(`--${this.prefix}-${name}`);
+      this.targetElement.classList.remove(`${this.prefix}-${name}`);
+      this.appliedAdaptations.delete(key);
+    }
+    this.emit('adaptation-removed', 'textSpacing');
+  }
+
+  private applyReadingFont(font: ReadingFont): void {
+    if (font === 'default') {
+      this.removeReadingFont();
+      return;
+    }
+
+    const fontFamily = READING_FONT_STACKS[font];
+    this.targetElement.style.setProperty(`--${this.prefix}-reading-font`, fontFamily);
+    this.targetElement.classList.add(`${this.prefix}-reading-font`);
+    this.appliedAdaptations.add('readingFont');
+    this.emit('adaptation-applied', 'readingFont', { font, fontFamily });
+  }
+
+  private removeReadingFont(): void {
+    this.targetElement.style.removeProperty(`--${this.prefix}-reading-font`);
+    this.targetElement.classList.remove(`${this.prefix}-reading-font`);
+    this.appliedAdaptations.delete('readingFont');
+    this.emit('adaptation-removed', 'readingFont');
+  }
+
+  private applyReadingGuide(mode: ReadingGuideMode, fontScale: number): void {
+    if (mode === 'off') {
+      this.removeReadingGuide();
+      return;
+    }
+
+    // Roughly two lines of body text at the current font scale
+    const bandHeight = Math.round(16 * fontScale * 2.5);
+
+    // Keep a running guide (and its position) when nothing about it changed
+    if (this.readingGuide?.getMode() === mode && this.readingGuide.getBandHeight() === bandHeight) {
+      return;
+    }
+
+    this.readingGuide?.stop();
+    this.readingGuide = new ReadingGuideOverlay({ mode, prefix: this.prefix, bandHeight });
+    this.readingGuide.start();
+    this.appliedAdaptations.add('readingGuide');
+    this.emit('adaptation-applied', 'readingGuide', { mode, bandHeight });
+  }
+
+  private removeReadingGuide(): void {
+    this.readingGuide?.stop();
+    this.readingGuide = null;
+    this.appliedAdaptations.delete('readingGuide');
+    this.emit('adaptation-removed', 'readingGuide');
+  }
+
+  private applyBionicReading(): void {
+    // Re-running picks up text added since the last pass; wrapped text is skipped
+    const textNodes = applyBionicEmphasis(this.targetElement, this.prefix);
+    this.appliedAdaptations.add('bionicReading');
+    this.emit('adaptation-applied', 'bionicReading', { textNodes });
+  }
+
+  private removeBionicReading(): void {
+    if (this.appliedAdaptations.has('bionicReading')) {
+      removeBionicEmphasis(this.targetElement, this.prefix);
+    }
+    this.appliedAdaptations.delete('bionicReading');
+    this.emit('adaptation-removed', 'bionicReading');
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { BehavioralSignalTracker, CognitiveLoadEngine, observeInteractions } from '../src/cognitive/index.js';
+import type { InteractionSignal } from '../src/cognitive/index.js';
+import type { CognitivePreferences } from '../src/preferences/schemas.js';
+
+const preferences: CognitivePreferences = {
+  readingSpeed: 'medium',
+  explanationLevel: 'detailed',
+  processingPace: 'standard',
+  chunkSize: 3,
+  allowInterruptions: true,
+  preferVisualCues: false,
+};
+
+describe('BehavioralSignalTracker', () => {
+  let time: number;
+  let tracker: BehavioralSignalTracker;
+
+  beforeEach(() => {
+    time = 0;
+    tracker = new BehavioralSignalTracker({ windowMs: 60000, now: () => time });
+  });
+
+  it('should score calm reading as low load', () => {
+    tracker.record({ type: 'dwell', durationMs: 50000, expectedMs: 60000 });
+    tracker.record({ type: 'scroll', delta: 800 });
+    tracker.record({ type: 'scroll', delta: -50 });
+
+    expect(tracker.getScore()).toBe(0);
+  });
+
+  it('should combine dwell, re-reading, hesitation, corrections and errors', () => {
+    tracker.record({ type: 'dwell', durationMs: 180000, expectedMs: 60000 });
+    tracker.record({ type: 'scroll', delta: 600 });
+    tracker.record({ type: 'scroll', delta: -400 });
+    tracker.record({ type: 'hesitation', durationMs: 10000 });
+    tracker.record({ type: 'keystroke' });
+    tracker.record({ type: 'keystroke', correction: true });
+    tracker.record({ type: 'error' });
+
+    expect(tracker.getMetrics()).toEqual({
+      dwellRatio: 3,
+      rereadRatio: 0.4,
+      averageHesitationMs: 10000,
+      correctionRate: 0.5,
+      errorCount: 1,
+      signalCount: 7,
+    });
+    expect(tracker.getScore()).toBe(35 + 20 + 20 + 10 + 5);
+  });
+
+  it('should drop signals that leave the window', () => {
+    tracker.record({ type: 'error' });
+    time = 61000;
+
+    expect(tracker.hasSignals()).toBe(false);
+    expect(tracker.getScore()).toBe(0);
+  });
+});
+
+describe('CognitiveLoadEngine session score', () => {
+  let time: number;
+  let engine: CognitiveLoadEngine;
+
+  beforeEach(() => {
+    time = 0;
+    engine = new CognitiveLoadEngine({ preferences, behavior: { now: () => time, breakAfterMs: 30000, updateIntervalMs: 0 } });
+  });
+
+  function struggle(): void {
+    const signals: InteractionSignal[] = [
+      { type: 'dwell', durationMs: 180000, expectedMs: 60000 },
+      { type: 'scroll', delta: 100 },
+      { type: 'scroll', delta: -300 },
+      { type: 'hesitation', durationMs: 12000 },
+    ];
+    signals.forEach(signal => engine.recordSignal(signal));
+  }
+
+  it('should fuse the text score with behaviour', () => {
+    engine.analyzeText('The cat sat on the mat.');
+    struggle();
+
+    const session = engine.getSessionScore();
+    expect(session.textScore).toBe(0);
+    expect(session.behaviorScore).toBe(75);
+    expect(session.score).toBe(38);
+    expect(session.tier).toBe('low');
+  });
+
+  it('should emit tier changes as signals arrive', () => {
+    const changes = vi.fn();
+    engine.on('tier-change', changes);
+
+    engine.recordSignal({ type: 'dwell', durationMs: 180000, expectedMs: 60000 });
+    engine.recordSignal({ type: 'hesitation', durationMs: 10000 });
+    engine.recordSignal({ type: 'scroll', delta: 100 });
+    engine.recordSignal({ type: 'scroll', delta: -300 });
+
+    expect(changes.mock.calls).toEqual([['moderate', 'low'], ['high', 'moderate']]);
+  });
+
+  it('should offer a break after sustained high load on easy text', () => {
+    const suggested = vi.fn();
+    engine.on('strategy-suggested', suggested);
+
+    engine.analyzeText('The cat sat on the mat.');
+    engine.recordSignal({ type: 'dwell', durationMs: 180000, expectedMs: 60000 });
+    engine.recordSignal({ type: 'scroll', delta: -300 });
+    engine.recordSignal({ type: 'hesitation', durationMs: 10000 });
+    engine.recordSignal({ type: 'error' });
+    engine.recordSignal({ type: 'error' });
+    engine.recordSignal({ type: 'error' });
+    expect(suggested).not.toHaveBeenCalled();
+
+    // Behaviour alone, once the text score is forgotten
+    engine.resetSession();
+    engine.recordSignal({ type: 'dwell', durationMs: 180000, expectedMs: 60000 });
+    engine.recordSignal({ type: 'hesitation', durationMs: 10000 });
+    engine.recordSignal({ type: 'scroll', delta: -300 });
+    expect(engine.getSessionScore().score).toBe(75);
+    expect(suggested).not.toHaveBeenCalled();
+
+    time = 31000;
+    engine.recordSignal({ type: 'keystroke' });
+    expect(suggested).toHaveBeenCalledTimes(1);
+    expect(suggested).toHaveBeenCalledWith('offerBreak', 'sustained cognitive load detected');
+
+    time = 40000;
+    engine.recordSignal({ type: 'keystroke' });
+    expect(suggested).toHaveBeenCalledTimes(1);
+  });
+
+  it('should coalesce bursts of signals into one session update', () => {
+    vi.useFakeTimers();
+    const throttled = new CognitiveLoadEngine({ preferences, behavior: { now: () => time } });
+    const scores = vi.fn();
+    throttled.on('session-score', scores);
+
+    for (let i = 0; i < 50; i++) {
+      throttled.recordSignal({ type: 'scroll', delta: i % 2 ? -20 : 40 });
+    }
+    expect(scores).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(250);
+    expect(scores).toHaveBeenCalledTimes(1);
+    expect(scores.mock.calls[0]![0].behavior.signalCount).toBe(50);
+
+    throttled.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should offer a break to an idle user under sustained high load', () => {
+    vi.useFakeTimers();
+    const suggested = vi.fn();
+    engine.on('strategy-suggested', suggested);
+
+    engine.recordSignal({ type: 'dwell', durationMs: 180000, expectedMs: 60000 });
+    engine.recordSignal({ type: 'hesitation', durationMs: 10000 });
+    engine.recordSignal({ type: 'scroll', delta: -300 });
+    expect(engine.getSessionScore().tier).toBe('high');
+
+    // No further signals: the break check runs on its own
+    time = 30000;
+    vi.advanceTimersByTime(30000);
+    expect(suggested).toHaveBeenCalledWith('offerBreak', 'sustained cognitive load detected');
+
+    engine.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should record dwell time against the reading time estimate', () => {
+    const stop = engine.trackReading('word '.repeat(200));
+    time = 180000;
+    stop();
+
+    expect(engine.getSessionScore().behavior.dwellRatio).toBeCloseTo(3);
+  });
+});
+
+describe('observeInteractions', () => {
+  it('should report scrolling, hesitation, keystrokes and validation errors', () => {
+    let time = 1000;
+    const signals: InteractionSignal[] = [];
+    const root = document.createElement('div');
+    root.innerHTML = '<div class="scroller"></div><input required>';
+    document.body.appendChild(root);
+    const scroller = root.querySelector('.scroller')!;
+    const input = root.querySelector('input')!;
+
+    const stop = observeInteractions(root, signal => signals.push(signal), () => time);
+
+    for (const top of [0, 400, 250]) {
+      Object.defineProperty(scroller, 'scrollTop', { value: top, configurable: true });
+      scroller.dispatchEvent(new Event('scroll'));
+    }
+
+    input.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+    time = 5000;
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true }));
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Backspace', bubbles: true }));
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Shift', bubbles: true }));
+    input.checkValidity();
+
+    expect(signals).toEqual([
+      { type: 'scroll', delta: 400, timestamp: 1000 },
+      { type: 'scroll', delta: -150, timestamp: 1000 },
+      { type: 'hesitation', durationMs: 4000, timestamp: 5000 },
+      { type: 'keystroke', correction: false, timestamp: 5000 },
+      { type: 'keystroke', correction: true, timestamp: 5000 },
+      { type: 'error', timestamp: 5000 },
+    ]);
+
+    stop();
+    input.checkValidity();
+    expect(signals).toHaveLength(6);
+    root.remove();
+  });
+});
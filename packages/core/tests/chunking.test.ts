@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  CognitiveLoadEngine,
+  chunkContent,
+  detectContentFormat,
+  parseContent,
+} from '../src/cognitive/index.js';
+
+const markdown = `# Setup guide
+
+This guide walks through setup. It takes five minutes.
+
+## Install
+
+Run the installer like this:
+
+\`\`\`bash
+npm install @neuroadapt/core
+
+# Not a heading. Still code.
+npm run build
+\`\`\`
+
+Then check the version.
+
+## Configure
+
+| Option | Default |
+| --- | --- |
+| chunkSize | 5 |
+| readingSpeed | medium |
+
+- First item.
+- Second item.
+- Third item.
+- Fourth item.
+`;
+
+describe('detectContentFormat', () => {
+  it('should tell HTML, Markdown and plain text apart', () => {
+    expect(detectContentFormat('<section><p>Hi.</p></section>')).toBe('html');
+    expect(detectContentFormat(markdown)).toBe('markdown');
+    expect(detectContentFormat('Just a sentence. And another.')).toBe('text');
+  });
+});
+
+describe('parseContent', () => {
+  it('should build a section tree from Markdown headings', () => {
+    const root = parseContent(markdown);
+    const [guide] = root.children;
+
+    expect(guide!.heading!.text).toBe('Setup guide');
+    expect(guide!.children.map(section => section.heading!.text)).toEqual(['Install', 'Configure']);
+    expect(guide!.children[0]!.blocks.map(block => block.type)).toEqual(['paragraph', 'code', 'paragraph']);
+    expect(guide!.children[1]!.blocks.map(block => block.type)).toEqual(['table', 'list']);
+  });
+
+  it('should keep fenced code whole, including lines that look like headings', () => {
+    const code = parseContent(markdown).children[0]!.children[0]!.blocks[1]!;
+
+    expect(code.language).toBe('bash');
+    expect(code.text).toContain('# Not a heading. Still code.');
+  });
+});
+
+describe('chunkContent', () => {
+  it('should start a chunk at every heading and carry heading paths', () => {
+    const chunks = chunkContent(markdown, { chunkSize: 5 });
+
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+      ['Setup guide'],
+      ['Setup guide', 'Install'],
+      ['Setup guide', 'Configure'],
+    ]);
+    expect(chunks[0]!.summary).toBe('This guide walks through setup.');
+    expect(chunks[1]!.content).toContain('```bash\nnpm install @neuroadapt/core\n\n# Not a heading. Still code.\nnpm run build\n```');
+  });
+
+  it('should split long sections between items, never inside code or tables', () => {
+    const chunks = chunkContent(markdown, { chunkSize: 2 });
+    const configure = chunks.filter(chunk => chunk.heading === 'Configure');
+
+    expect(configure.map(chunk => chunk.blocks.map(block => block.type))).toEqual([
+      ['heading', 'table'],
+      ['list'],
+      ['list'],
+    ]);
+    expect(configure[0]!.summary).toBe('Table with 3 rows');
+    expect(configure[1]!.content).toBe('- First item.\n- Second item.');
+    expect(configure[2]!.continued).toBe(true);
+    expect(chunks.every(chunk => (chunk.content.match(/```/g) ?? []).length % 2 === 0)).toBe(true);
+  });
+
+  it('should keep a lead-in paragraph with the block it introduces', () => {
+    const chunks = chunkContent(markdown, { chunkSize: 1 });
+    const leadIn = chunks.find(chunk => chunk.content.includes('Run the installer'));
+
+    expect(leadIn!.blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'code']);
+  });
+
+  it('should chunk HTML by elements and split long lists into valid lists', () => {
+    const html = `
+      <article>
+        <h2>Steps</h2>
+        <p>Follow these steps. Take your time.</p>
+        <ol><li>One</li><li>Two</li><li>Three</li></ol>
+        <pre><code class="language-js">const a = 1;</code></pre>
+      </article>`;
+    const chunks = chunkContent(html, { chunkSize: 2 });
+
+    expect(chunks.map(chunk => chunk.blocks.map(block => block.type))).toEqual([
+      ['heading', 'paragraph'],
+      ['list'],
+      ['list', 'code'],
+    ]);
+    expect(chunks[1]!.content).toBe('<ol><li>One</li><li>Two</li></ol>');
+    expect(chunks[2]!.content).toContain('<ol start="3"><li>Three</li></ol>');
+    expect(chunks[2]!.content).toContain('<pre><code class="language-js">const a = 1;</code></pre>');
+  });
+
+  it('should keep escaped markup in bare HTML text escaped', () => {
+    const chunks = chunkContent('<div>Use &lt;script&gt; &amp; friends.<p>Next.</p></div>', { format: 'html' });
+
+    expect(chunks[0]!.blocks[0]!.source).toBe('Use &lt;script&gt; &amp; friends.');
+    expect(chunks[0]!.blocks[0]!.text).toBe('Use <script> & friends.');
+    expect(chunks[0]!.content).not.toContain('<script>');
+  });
+
+  it('should split long plain text paragraphs between sentences', () => {
+    const chunks = chunkContent('One. Two. Three. Four. Five.', { chunkSize: 2 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['One. Two.', 'Three. Four.', 'Five.']);
+  });
+
+  it('should keep links, code spans and emphasis when splitting Markdown paragraphs', () => {
+    const source = 'See [the docs](https://x.io/a.b?c=d.e) for `npm install` here. Second **bold one.** Third, with `a. b` inside.\n' +
+      'Fourth _stays_ here! Fifth ends it.';
+    const chunks = chunkContent(`# Notes\n\n${source}`, { format: 'markdown', chunkSize: 2 });
+
+    expect(chunks.map(chunk => chunk.blocks[chunk.blocks.length - 1]!.source)).toEqual([
+      'See [the docs](https://x.io/a.b?c=d.e) for `npm install` here. Second **bold one.**',
+      'Third, with `a. b` inside.',
+      'Fourth _stays_ here! Fifth ends it.',
+    ]);
+    expect(chunks[0]!.content).toBe('# Notes\n\nSee [the docs](https://x.io/a.b?c=d.e) for `npm install` here. Second **bold one.**');
+    expect(chunks[2]!.blocks[0]!.text).toBe('Fourth stays here! Fifth ends it.');
+    expect(chunks[1]!.continued).toBe(true);
+  });
+});
+
+describe('CognitiveLoadEngine.chunkContent', () => {
+  it('should size chunks from the chunkSize preference', () => {
+    const engine = new CognitiveLoadEngine({
+      preferences: {
+        readingSpeed: 'medium',
+        explanationLevel: 'detailed',
+        processingPace: 'standard',
+        chunkSize: 3,
+        allowInterruptions: true,
+        preferVisualCues: false,
+      },
+    });
+
+    expect(engine.chunkContent('A. B. C. D.').map(chunk => chunk.content)).toEqual(['A. B. C.', 'D.']);
+    expect(engine.applyStrategy('chunk', '```\na. b. c. d.\n```\n\nAfter.')).not.toContain('[Continue when ready]\n\n```');
+  });
+
+  it('should join chunks with a configured separator', () => {
+    const engine = new CognitiveLoadEngine({
+      preferences: {
+        readingSpeed: 'medium',
+        explanationLevel: 'detailed',
+        processingPace: 'standard',
+        chunkSize: 1,
+        allowInterruptions: true,
+        preferVisualCues: false,
+      },
+      chunkSeparator: '\n\n[Weiter, wenn Sie bereit sind]\n\n',
+    });
+
+    expect(engine.applyStrategy('chunk', 'Eins. Zwei.')).toBe('Eins.\n\n[Weiter, wenn Sie bereit sind]\n\nZwei.');
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  ContrastRepairEngine,
+  VisualAdapter,
+  parseColor,
+  getContrastRatio,
+  adjustForContrast,
+} from '../src/sensory/index.js';
+import type { RGBAColor } from '../src/sensory/index.js';
+
+const flushMutations = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function hue({ r, g, b }: RGBAColor): number {
+  return Math.atan2(Math.sqrt(3) * (g - b), 2 * r - g - b);
+}
+
+describe('Contrast math', () => {
+  it('should parse hex, rgb and rgba colors', () => {
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor('#00000080')!.a).toBeCloseTo(0.5, 2);
+    expect(parseColor('rgb(10, 20, 30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+    expect(parseColor('rgba(10, 20, 30, 0.25)')).toEqual({ r: 10, g: 20, b: 30, a: 0.25 });
+    expect(parseColor('rgb(10 20 30 / 50%)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+    expect(parseColor('transparent')!.a).toBe(0);
+    expect(parseColor('var(--x)')).toBeNull();
+  });
+
+  it('should compute WCAG contrast ratios', () => {
+    const black = parseColor('#000')!;
+    const white = parseColor('#fff')!;
+    expect(getContrastRatio(black, white)).toBeCloseTo(21, 5);
+    expect(getContrastRatio(white, white)).toBe(1);
+    expect(getContrastRatio(parseColor('#777')!, white)).toBeCloseTo(4.48, 2);
+  });
+
+  it('should reach the target while preserving hue', () => {
+    const orange = parseColor('#ff9900')!;
+    const white = parseColor('#ffffff')!;
+    const repaired = adjustForContrast(orange, white, 4.5);
+
+    expect(getContrastRatio(repaired, white)).toBeGreaterThanOrEqual(4.5);
+    expect(getContrastRatio(repaired, white)).toBeLessThan(5);
+    expect(Math.abs(hue(repaired) - hue(orange))).toBeLessThan(0.05);
+  });
+
+  it('should lighten text on dark backgrounds', () => {
+    const navy = parseColor('#000080')!;
+    const black = parseColor('#111111')!;
+    const repaired = adjustForContrast(navy, black, 7);
+
+    expect(getContrastRatio(repaired, black)).toBeGreaterThanOrEqual(7);
+    expect(repaired.b).toBeGreaterThan(navy.b - 1);
+  });
+
+  it('should return the best available color when the target is unreachable', () => {
+    const grey = parseColor('#777777')!;
+    const repaired = adjustForContrast(parseColor('#888888')!, grey, 7);
+    expect(getContrastRatio(repaired, grey)).toBeCloseTo(getContrastRatio(parseColor('#000')!, grey), 5);
+  });
+});
+
+describe('ContrastRepairEngine', () => {
+  let root: HTMLElement;
+  let engine: ContrastRepairEngine;
+
+  beforeEach(() => {
+    root = document.createElement('main');
+    root.innerHTML = `
+      <section id="panel" style="background-color: rgb(255, 255, 255)">
+        <p id="low" style="color: rgb(170, 170, 170)">Low contrast text</p>
+        <p id="ok" style="color: rgb(20, 20, 20)">Readable text</p>
+        <h1 id="large" style="color: rgb(140, 140, 140); font-size: 32px">Large heading</h1>
+        <div id="wrapper"><span id="nested" style="color: rgb(255, 200, 0)">Nested</span></div>
+      </section>
+      <div style="background-color: rgb(0, 0, 0)">
+        <div style="background-color: rgba(255, 255, 255, 0.1)">
+          <p id="on-dark" style="color: rgb(60, 60, 60)">Dark on dark</p>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(root);
+    engine = new ContrastRepairEngine({ root });
+  });
+
+  afterEach(() => {
+    engine.stop();
+    root.remove();
+  });
+
+  it('should repair only text that fails the target', () => {
+    const repairs = engine.start();
+    const ids = repairs.map(repair => repair.element.id).sort();
+
+    // The 32px heading only needs 3:1 and passes with 3.3:1
+    expect(ids).toEqual(['low', 'nested', 'on-dark']);
+    for (const repair of repairs) {
+      expect(repair.ratio).toBeLessThan(repair.target);
+      expect(repair.repairedRatio).toBeGreaterThanOrEqual(repair.target);
+    }
+  });
+
+  it('should rewrite colors through a custom property and stylesheet rule', () => {
+    engine.start();
+    const low = root.querySelector<HTMLElement>('#low')!;
+
+    expect(low.hasAttribute('data-neuro-contrast-repaired')).toBe(true);
+    expect(low.style.getPropertyValue('--neuro-contrast-color')).toMatch(/^rgb\(/);
+    expect(document.head.textContent).toContain('color: var(--neuro-contrast-color) !important');
+  });
+
+  it('should composite translucent backgrounds', () => {
+    const repairs = engine.start();
+    const onDark = repairs.find(repair => repair.element.id === 'on-dark')!;
+
+    expect(onDark.background).toBe('rgb(26, 26, 26)');
+    expect(parseColor(onDark.repairedColor)!.r).toBeGreaterThan(60);
+  });
+
+  it('should use stricter targets at AAA', () => {
+    const strict = new ContrastRepairEngine({ root, level: 'AAA', observe: false });
+    const ids = strict.start().map(repair => repair.element.id);
+
+    expect(ids).toContain('large');
+    strict.stop();
+  });
+
+  it('should restore original colors on stop', () => {
+    engine.start();
+    engine.stop();
+
+    expect(root.querySelectorAll('[data-neuro-contrast-repaired]')).toHaveLength(0);
+    expect(root.querySelector<HTMLElement>('#low')!.style.getPropertyValue('--neuro-contrast-color')).toBe('');
+    expect(document.head.textContent).not.toContain('--neuro-contrast-color');
+  });
+
+  it('should repair content inserted later', async () => {
+    const repaired = vi.fn();
+    engine.on('repaired', repaired);
+    engine.start();
+    repaired.mockClear();
+
+    const added = document.createElement('p');
+    added.id = 'added';
+    added.style.color = 'rgb(200, 200, 200)';
+    added.textContent = 'Inserted later';
+    root.querySelector('#panel')!.appendChild(added);
+    await flushMutations();
+
+    expect(repaired).toHaveBeenCalledTimes(1);
+    expect(repaired.mock.calls[0]![0][0].element).toBe(added);
+    expect(added.hasAttribute('data-neuro-contrast-repaired')).toBe(true);
+  });
+
+  it('should re-measure restyled elements and drop repairs that are no longer needed', async () => {
+    engine.start();
+    const low = root.querySelector<HTMLElement>('#low')!;
+
+    low.style.color = 'rgb(0, 0, 0)';
+    await flushMutations();
+
+    expect(low.hasAttribute('data-neuro-contrast-repaired')).toBe(false);
+    expect(engine.getRepairedElements().map(element => element.id)).not.toContain('low');
+  });
+
+  it('should not react to its own writes', async () => {
+    const repaired = vi.fn();
+    engine.on('repaired', repaired);
+    engine.start();
+    await flushMutations();
+
+    expect(repaired).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('VisualAdapter contrast repair', () => {
+  it('should run the engine while high contrast is on', () => {
+    const target = document.createElement('div');
+    target.innerHTML = '<p style="color: rgb(180, 180, 180)">Faint</p>';
+    document.body.appendChild(target);
+
+    const preferences = {
+      motionReduction: false,
+      highContrast: true,
+      colorVisionFilter: 'none' as const,
+      colorVisionSeverity: 1,
+      colorVisionMode: 'correct' as const,
+      fontSize: 1,
+      reducedFlashing: false,
+      darkMode: false,
+    };
+    const repaired = vi.fn();
+    const adapter = new VisualAdapter(preferences, { targetElement: target, autoApply: false, contrastRepair: { observe: false } });
+    adapter.on('contrast-repaired', repaired);
+
+    adapter.applyAdaptations(preferences);
+    expect(repaired).toHaveBeenCalledTimes(1);
+    expect(adapter.getContrastRepairEngine()!.isRunning()).toBe(true);
+
+    adapter.applyAdaptations({ ...preferences, highContrast: false });
+    expect(adapter.getContrastRepairEngine()!.isRunning()).toBe(false);
+    expect(target.querySelectorAll('[data-neuro-contrast-repaired]')).toHaveLength(0);
+
+    adapter.disable();
+    target.remove();
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  FlashAnalyzer,
+  FlashDetector,
+  VisualAdapter,
+  sampleElementFrame,
+} from '../src/sensory/index.js';
+import type { FlashAnalysis, FlashFrame } from '../src/sensory/index.js';
+
+type RGB = [number, number, number];
+
+const BLACK: RGB = [0, 0, 0];
+const WHITE: RGB = [255, 255, 255];
+const RED: RGB = [255, 0, 0];
+// Same luminance band as RED (delta < 0.1) but far less saturated
+const DULL_RED: RGB = [200, 60, 60];
+
+function frame(color: RGB, pixelArea = 100_000): FlashFrame {
+  return { pixels: [color], pixelArea };
+}
+
+/**
+ * Feed `seconds` of frames sampled at `rate` Hz, alternating colors `hz` times a second
+ */
+function alternate(analyzer: FlashAnalyzer, a: RGB, b: RGB, hz: number, seconds = 2, rate = 40): FlashAnalysis {
+  let analysis!: FlashAnalysis;
+  for (let i = 0; i <= seconds * rate; i++) {
+    const time = (i * 1000) / rate;
+    const phase = Math.floor((time / 1000) * hz * 2) % 2;
+    analysis = analyzer.addFrame(time, frame(phase === 0 ? a : b));
+  }
+  return analysis;
+}
+
+describe('FlashAnalyzer', () => {
+  it('should count general flashes per second', () => {
+    const analysis = alternate(new FlashAnalyzer(), BLACK, WHITE, 5);
+
+    expect(analysis.generalFlashes).toBe(5);
+    expect(analysis.generalArea).toBe(100_000);
+  });
+
+  it('should allow three flashes a second', () => {
+    const analysis = alternate(new FlashAnalyzer(), BLACK, WHITE, 3);
+
+    expect(analysis.generalFlashes).toBeLessThanOrEqual(3);
+    expect(analysis.generalArea).toBe(0);
+  });
+
+  it('should ignore flicker between bright states', () => {
+    // Both states are above 0.80 relative luminance
+    const analysis = alternate(new FlashAnalyzer(), [235, 235, 235], WHITE, 10);
+
+    expect(analysis.generalFlashes).toBe(0);
+  });
+
+  it('should ignore changes below 10% luminance', () => {
+    const analysis = alternate(new FlashAnalyzer(), [20, 20, 20], [40, 40, 40], 10);
+
+    expect(analysis.generalFlashes).toBe(0);
+  });
+
+  it('should detect saturated red flashes that are not general flashes', () => {
+    const analysis = alternate(new FlashAnalyzer(), RED, DULL_RED, 5);
+
+    expect(analysis.generalFlashes).toBe(0);
+    expect(analysis.redFlashes).toBe(5);
+    expect(analysis.redArea).toBe(100_000);
+  });
+
+  it('should only count flashes inside the window', () => {
+    const analyzer = new FlashAnalyzer();
+    alternate(analyzer, BLACK, WHITE, 5, 1);
+
+    // Steady content for more than a second afterwards
+    let analysis!: FlashAnalysis;
+    for (let time = 1100; time <= 2500; time += 25) {
+      analysis = analyzer.addFrame(time, frame(WHITE));
+    }
+    expect(analysis.generalFlashes).toBe(0);
+  });
+
+  it('should measure only the cells that flash', () => {
+    const analyzer = new FlashAnalyzer();
+    let analysis!: FlashAnalysis;
+    for (let i = 0; i <= 80; i++) {
+      const time = i * 25;
+      const flashing = Math.floor(time / 100) % 2 === 0 ? BLACK : WHITE;
+      analysis = analyzer.addFrame(time, { pixels: [flashing, WHITE, WHITE, WHITE], pixelArea: 50 });
+    }
+    expect(analysis.generalArea).toBe(50);
+  });
+});
+
+describe('FlashDetector', () => {
+  let root: HTMLElement;
+  let colors: Map<HTMLElement, RGB>;
+  const sampler = (element: HTMLElement) => {
+    const color = colors.get(element);
+    return color ? frame(color) : null;
+  };
+
+  /**
+   * Drive the detector for a second, flipping every element's color at 5 Hz
+   */
+  function flash(detector: FlashDetector, elements: HTMLElement[]) {
+    for (let i = 0; i <= 40; i++) {
+      const time = i * 25;
+      for (const element of elements) {
+        colors.set(element, Math.floor(time / 100) % 2 === 0 ? BLACK : WHITE);
+      }
+      detector.sample(time);
+    }
+  }
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    colors = new Map();
+  });
+
+  afterEach(() => {
+    root.remove();
+  });
+
+  it('should pause flashing videos', () => {
+    const video = document.createElement('video');
+    video.pause = vi.fn();
+    root.appendChild(video);
+
+    const detected = vi.fn();
+    const detector = new FlashDetector({ root, sampler });
+    detector.on('flash-detected', detected);
+    flash(detector, [video]);
+
+    expect(detected).toHaveBeenCalledTimes(1);
+    expect(detected.mock.calls[0]![0]).toMatchObject({ element: video, kind: 'general', mitigation: 'paused' });
+    expect(video.pause).toHaveBeenCalled();
+    expect(video.getAttribute('data-neuro-flash-mitigated')).toBe('paused');
+  });
+
+  it('should dim flashing canvases and restore them on stop', () => {
+    const canvas = document.createElement('canvas');
+    canvas.style.filter = 'blur(1px)';
+    root.appendChild(canvas);
+
+    const detector = new FlashDetector({ root, sampler });
+    flash(detector, [canvas]);
+
+    expect(canvas.style.getPropertyValue('filter')).toBe('contrast(0.2) brightness(0.7)');
+    expect(detector.getFlaggedElements()).toEqual([canvas]);
+
+    detector.stop();
+    expect(canvas.style.getPropertyValue('filter')).toBe('blur(1px)');
+    expect(canvas.hasAttribute('data-neuro-flash-mitigated')).toBe(false);
+  });
+
+  it('should report without mitigating when mitigation is off', () => {
+    const canvas = document.createElement('canvas');
+    root.appendChild(canvas);
+
+    const detector = new FlashDetector({ root, sampler, mitigate: false });
+    flash(detector, [canvas]);
+
+    expect(detector.getFlaggedElements()).toEqual([canvas]);
+    expect(canvas.style.getPropertyValue('filter')).toBe('');
+  });
+
+  it('should ignore flashes smaller than the area threshold', () => {
+    const canvas = document.createElement('canvas');
+    root.appendChild(canvas);
+
+    const detector = new FlashDetector({ root, sampler, areaThreshold: 200_000 });
+    flash(detector, [canvas]);
+
+    expect(detector.getFlaggedElements()).toEqual([]);
+  });
+
+  it('should sample watched elements by their background color', () => {
+    const banner = document.createElement('div');
+    root.appendChild(banner);
+    banner.getBoundingClientRect = () => ({ width: 400, height: 300 } as DOMRect);
+
+    const detector = new FlashDetector({ root });
+    detector.watch(banner);
+
+    for (let i = 0; i <= 40; i++) {
+      const time = i * 25;
+      banner.style.backgroundColor = Math.floor(time / 100) % 2 === 0 ? 'rgb(0, 0, 0)' : 'rgb(255, 255, 255)';
+      detector.sample(time);
+    }
+
+    expect(detector.getFlaggedElements()).toEqual([banner]);
+    expect(banner.style.getPropertyPriority('filter')).toBe('important');
+  });
+
+  it('should composite translucent backgrounds and opacity over white', () => {
+    const element = document.createElement('div');
+    element.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    element.style.opacity = '0.5';
+    root.appendChild(element);
+
+    const sampled = sampleElementFrame(element)!;
+    expect(sampled.pixels[0]![0]).toBeCloseTo(191.25, 2);
+  });
+});
+
+describe('VisualAdapter flash detection', () => {
+  it('should run the detector only while reduced flashing is on', () => {
+    const target = document.createElement('div');
+    const canvas = document.createElement('canvas');
+    target.appendChild(canvas);
+    document.body.appendChild(target);
+
+    let color = BLACK;
+    const preferences = {
+      motionReduction: false,
+      highContrast: false,
+      colorVisionFilter: 'none' as const,
+      colorVisionSeverity: 1,
+      colorVisionMode: 'correct' as const,
+      fontSize: 1,
+      reducedFlashing: true,
+      darkMode: false,
+    };
+    const detected = vi.fn();
+    const adapter = new VisualAdapter(preferences, {
+      targetElement: target,
+      autoApply: false,
+      flashDetection: { sampler: () => frame(color) },
+    });
+    adapter.on('flash-detected', detected);
+
+    adapter.applyAdaptations(preferences);
+    const detector = adapter.getFlashDetector()!;
+    expect(detector.isRunning()).toBe(true);
+
+    for (let i = 0; i <= 40; i++) {
+      color = Math.floor((i * 25) / 100) % 2 === 0 ? BLACK : WHITE;
+      detector.sample(i * 25);
+    }
+    expect(detected).toHaveBeenCalledWith(expect.objectContaining({ element: canvas, mitigation: 'dimmed' }));
+
+    adapter.applyAdaptations({ ...preferences, reducedFlashing: false });
+    expect(detector.isRunning()).toBe(false);
+    expect(canvas.style.getPropertyValue('filter')).toBe('');
+
+    adapter.disable();
+    target.remove();
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  FocusTrap,
+  FocusRestoration,
+  RovingTabIndex,
+  SkipLinks,
+  getFocusableElements,
+} from '../src/sensory/index.js';
+
+function pressKey(key: string, options: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+describe('getFocusableElements', () => {
+  it('should skip disabled, hidden, inert and negative tabindex elements', () => {
+    const container = document.createElement('div');
+    container.innerHTML = `
+      <button id="a">A</button>
+      <button disabled>Disabled</button>
+      <div hidden><a href="#">Hidden</a></div>
+      <div inert><input></div>
+      <span tabindex="-1">Programmatic</span>
+      <a id="b" href="#">B</a>
+      <span id="c" tabindex="2">C</span>
+    `;
+
+    expect(getFocusableElements(container).map(element => element.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('FocusTrap', () => {
+  let opener: HTMLButtonElement;
+  let dialog: HTMLElement;
+  let trap: FocusTrap;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="opener">Open</button>
+      <div id="dialog" role="dialog">
+        <button id="first">First</button>
+        <input id="middle">
+        <button id="last">Last</button>
+      </div>
+      <div id="nested" role="dialog"><button id="nested-button">OK</button></div>
+      <a id="outside" href="#">Outside</a>
+    `;
+    opener = document.getElementById('opener') as HTMLButtonElement;
+    dialog = document.getElementById('dialog')!;
+    opener.focus();
+    trap = new FocusTrap(dialog);
+  });
+
+  afterEach(() => {
+    trap.deactivate();
+    document.body.innerHTML = '';
+  });
+
+  it('should focus the first focusable element on activation', () => {
+    trap.activate();
+    expect(document.activeElement?.id).toBe('first');
+  });
+
+  it('should honour an initial focus selector', () => {
+    trap = new FocusTrap(dialog, { initialFocus: '#middle' });
+    trap.activate();
+    expect(document.activeElement?.id).toBe('middle');
+  });
+
+  it('should wrap Tab and Shift+Tab at the edges', () => {
+    trap.activate();
+
+    document.getElementById('last')!.focus();
+    expect(pressKey('Tab').defaultPrevented).toBe(true);
+    expect(document.activeElement?.id).toBe('first');
+
+    pressKey('Tab', { shiftKey: true });
+    expect(document.activeElement?.id).toBe('last');
+  });
+
+  it('should pull focus back when it leaves the container', () => {
+    trap.activate();
+    document.getElementById('middle')!.focus();
+
+    document.getElementById('outside')!.focus();
+    expect(document.activeElement?.id).toBe('middle');
+  });
+
+  it('should deactivate on Escape and return focus', () => {
+    const escape = vi.fn();
+    trap.on('escape', escape);
+    trap.activate();
+
+    pressKey('Escape');
+    expect(escape).toHaveBeenCalled();
+    expect(trap.isActive()).toBe(false);
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('should hand control to a nested trap until it is deactivated', () => {
+    trap.activate();
+    const nested = new FocusTrap(document.getElementById('nested')!);
+    nested.activate();
+
+    expect(trap.isPaused()).toBe(true);
+    expect(document.activeElement?.id).toBe('nested-button');
+
+    nested.deactivate();
+    expect(trap.isPaused()).toBe(false);
+    expect(document.activeElement?.id).toBe('first');
+  });
+});
+
+describe('FocusRestoration', () => {
+  let restoration: FocusRestoration;
+
+  function render(html: string) {
+    document.body.innerHTML = html;
+  }
+
+  beforeEach(() => {
+    restoration = new FocusRestoration();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should focus the page heading on a new route', () => {
+    render('<nav><a href="/a">A</a></nav><main><h1>Articles</h1></main>');
+
+    restoration.enter('/articles');
+    expect(document.activeElement?.tagName).toBe('H1');
+    expect(document.activeElement?.getAttribute('tabindex')).toBe('-1');
+  });
+
+  it('should restore focus to the same position after the route re-renders', () => {
+    const list = '<main><h1>List</h1><ul><li><a href="/1">One</a></li><li><a href="/2">Two</a></li></ul></main>';
+    render(list);
+    (document.querySelectorAll('a')[1] as HTMLElement).focus();
+
+    restoration.leave('/list');
+    render('<main><h1>Detail</h1></main>');
+    restoration.enter('/detail');
+    expect(document.activeElement?.textContent).toBe('Detail');
+
+    restoration.leave('/detail');
+    render(list);
+    restoration.enter('/list');
+    expect(document.activeElement?.textContent).toBe('Two');
+  });
+});
+
+describe('RovingTabIndex', () => {
+  let tablist: HTMLElement;
+  let roving: RovingTabIndex;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div role="tablist">
+        <button role="tab" id="t1">One</button>
+        <button role="tab" id="t2" aria-selected="true">Two</button>
+        <button role="tab" id="t3">Three</button>
+      </div>
+    `;
+    tablist = document.querySelector('[role="tablist"]')!;
+    roving = new RovingTabIndex(tablist, { orientation: 'horizontal' });
+    roving.start();
+  });
+
+  afterEach(() => {
+    roving.stop();
+    document.body.innerHTML = '';
+  });
+
+  function tabIndexes() {
+    return roving.getItems().map(item => item.getAttribute('tabindex'));
+  }
+
+  it('should leave only the selected item in the tab order', () => {
+    expect(tabIndexes()).toEqual(['-1', '0', '-1']);
+  });
+
+  it('should move with arrow keys, Home and End and wrap around', () => {
+    const changed = vi.fn();
+    roving.on('change', changed);
+    document.getElementById('t2')!.focus();
+
+    pressKey('ArrowRight');
+    expect(document.activeElement?.id).toBe('t3');
+    pressKey('ArrowRight');
+    expect(document.activeElement?.id).toBe('t1');
+    pressKey('End');
+    expect(document.activeElement?.id).toBe('t3');
+    pressKey('Home');
+    expect(document.activeElement?.id).toBe('t1');
+
+    expect(tabIndexes()).toEqual(['0', '-1', '-1']);
+    expect(changed).toHaveBeenLastCalledWith(document.getElementById('t1'), 0);
+  });
+
+  it('should ignore arrows across its orientation', () => {
+    document.getElementById('t2')!.focus();
+    expect(pressKey('ArrowDown').defaultPrevented).toBe(false);
+    expect(document.activeElement?.id).toBe('t2');
+  });
+
+  it('should pick up new items and restore tabindex when stopped', () => {
+    const tab = document.createElement('button');
+    tab.setAttribute('role', 'tab');
+    tablist.appendChild(tab);
+    roving.refresh();
+    expect(tabIndexes()).toEqual(['-1', '0', '-1', '-1']);
+
+    roving.stop();
+    expect(tablist.querySelector('[tabindex]')).toBeNull();
+  });
+});
+
+describe('SkipLinks', () => {
+  let skipLinks: SkipLinks;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <header><nav aria-label="Primary"><a href="/">Home</a></nav></header>
+      <form role="search"><input></form>
+      <main id="content"><h1>Title</h1></main>
+    `;
+    skipLinks = new SkipLinks();
+  });
+
+  afterEach(() => {
+    skipLinks.remove();
+    document.body.innerHTML = '';
+  });
+
+  it('should generate links to landmarks at the start of the body', () => {
+    skipLinks.apply();
+
+    const container = document.body.firstElementChild!;
+    expect(container.className).toBe('neuro-skip-links');
+    expect([...container.querySelectorAll('a')].map(link => [link.textContent, link.getAttribute('href')])).toEqual([
+      ['Skip to main content', '#content'],
+      ['Skip to navigation', '#neuro-landmark-1'],
+      ['Skip to search', '#neuro-landmark-2'],
+    ]);
+    expect(document.head.textContent).toContain('.neuro-skip-links a:not(:focus)');
+  });
+
+  it('should move focus to the landmark when activated', () => {
+    skipLinks.apply();
+    skipLinks.getLinks()[0]!.link.click();
+
+    expect(document.activeElement?.id).toBe('content');
+  });
+
+  it('should undo the attributes it added when removed', () => {
+    skipLinks.apply();
+    skipLinks.remove();
+
+    expect(document.querySelector('.neuro-skip-links')).toBeNull();
+    expect(document.querySelector('nav')!.hasAttribute('id')).toBe(false);
+    expect(document.querySelector('main')!.hasAttribute('tabindex')).toBe(false);
+    expect(document.querySelector('main')!.id).toBe('content');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { AccessibleFocusRing, VisualAdapter, isForcedColorsActive } from '../src/sensory/index.js';
+
+function createForcedColorsQuery(matches: boolean) {
+  const listeners = new Set<() => void>();
+  const query = {
+    matches,
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+    set(value: boolean) {
+      query.matches = value;
+      listeners.forEach(listener => listener());
+    },
+    listeners,
+  };
+  return query;
+}
+
+function stubForcedColors(matches: boolean) {
+  const query = createForcedColorsQuery(matches);
+  const noPreference = createForcedColorsQuery(false);
+  vi.stubGlobal('matchMedia', vi.fn((media: string) => media === '(forced-colors: active)' ? query : noPreference));
+  return query;
+}
+
+const basePreferences = {
+  motionReduction: false,
+  highContrast: true,
+  colorVisionFilter: 'deuteranopia' as const,
+  colorVisionSeverity: 1,
+  colorVisionMode: 'correct' as const,
+  fontSize: 1,
+  reducedFlashing: false,
+  darkMode: false,
+};
+
+describe('Forced colors detection', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should report false without matchMedia', () => {
+    expect(isForcedColorsActive()).toBe(false);
+  });
+
+  it('should read the forced-colors media query', () => {
+    stubForcedColors(true);
+    expect(isForcedColorsActive()).toBe(true);
+  });
+});
+
+describe('AccessibleFocusRing in forced colors mode', () => {
+  let ring: AccessibleFocusRing;
+
+  afterEach(() => {
+    ring.remove();
+    vi.unstubAllGlobals();
+  });
+
+  function getCSS(): string {
+    return document.getElementById('neuro-focus-ring-styles')?.textContent ?? '';
+  }
+
+  it('should draw a box-shadow ring in the author color normally', () => {
+    stubForcedColors(false);
+    ring = new AccessibleFocusRing();
+    ring.apply();
+
+    expect(ring.isForcedColorsMode()).toBe(false);
+    expect(getCSS()).toContain('box-shadow: 0 0 0 2px #005fcc40');
+  });
+
+  it('should switch to a system-colored outline when forced colors are active', () => {
+    stubForcedColors(true);
+    ring = new AccessibleFocusRing({ color: '#ff00ff' });
+    ring.apply();
+
+    const css = getCSS();
+    expect(ring.isForcedColorsMode()).toBe(true);
+    expect(css).toContain('outline: 3px solid Highlight !important');
+    expect(css).toContain('box-shadow: none !important');
+    expect(css).toContain('color: CanvasText !important');
+    expect(css).not.toContain('#ff00ff');
+  });
+
+  it('should regenerate its CSS when forced colors turn on and stop listening on remove', () => {
+    const query = stubForcedColors(false);
+    ring = new AccessibleFocusRing();
+    ring.apply();
+
+    query.set(true);
+    expect(getCSS()).toContain('Highlight !important');
+    expect(getCSS()).not.toContain('#005fcc');
+
+    ring.remove();
+    expect(query.listeners.size).toBe(0);
+  });
+});
+
+describe('VisualAdapter in forced colors mode', () => {
+  let target: HTMLElement;
+  let adapter: VisualAdapter;
+
+  beforeEach(() => {
+    target = document.createElement('div');
+    document.body.appendChild(target);
+  });
+
+  afterEach(() => {
+    adapter.disable();
+    target.remove();
+    vi.unstubAllGlobals();
+  });
+
+  it('should map the high contrast theme onto system color keywords', () => {
+    stubForcedColors(true);
+    adapter = new VisualAdapter(basePreferences, { targetElement: target });
+
+    const css = document.getElementById('neuro-visual-adaptations')?.textContent ?? '';
+    expect(css).toMatch(/\.neuro-forced-colors\[data-theme="neuro-high-contrast"\] \{[^}]*--neuro-bg-primary: Canvas;/);
+    expect(css).toContain('--neuro-text-primary: CanvasText;');
+    expect(css).toContain('--neuro-focus: Highlight;');
+    expect(target.classList.contains('neuro-forced-colors')).toBe(true);
+    expect(target.getAttribute('data-theme')).toBe('neuro-high-contrast');
+  });
+
+  it('should not override the system palette with color vision filters', () => {
+    stubForcedColors(true);
+    adapter = new VisualAdapter(basePreferences, { targetElement: target });
+
+    expect(adapter.isForcedColorsActive()).toBe(true);
+    expect(target.style.filter).toBe('');
+    expect(adapter.isAdaptationApplied('colorVisionFilter')).toBe(false);
+  });
+
+  it('should re-apply adaptations when forced colors change', () => {
+    const query = stubForcedColors(false);
+    adapter = new VisualAdapter(basePreferences, { targetElement: target });
+    const changed = vi.fn();
+    adapter.on('forced-colors-change', changed);
+    expect(target.style.filter).toContain('url(#neuro-color-vision-filter)');
+
+    query.set(true);
+    expect(changed).toHaveBeenCalledWith(true);
+    expect(target.style.filter).toBe('');
+    expect(target.classList.contains('neuro-forced-colors')).toBe(true);
+
+    query.set(false);
+    expect(target.style.filter).toContain('url(#neuro-color-vision-filter)');
+    expect(target.classList.contains('neuro-forced-colors')).toBe(false);
+  });
+});
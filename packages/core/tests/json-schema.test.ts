@@ -0,0 +1,214 @@
+import Ajv2020 from 'ajv/dist/2020.js';
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+
+import {
+  PreferencesSchema,
+  PreferencesUpdateSchema,
+  SCHEMA_VERSION,
+  MIGRATION_FIXTURES,
+  zodToJsonSchema,
+  getPreferencesJsonSchema,
+  getPreferencesOpenApiComponents,
+} from '../src/preferences/index.js';
+import type { JsonSchema } from '../src/preferences/index.js';
+
+const SECTIONS = ['sensory', 'cognitive', 'ai', 'vr'] as const;
+
+function createValidator(schema: JsonSchema) {
+  const ajv = new Ajv2020({ strict: true, validateFormats: false });
+  return ajv.compile(schema);
+}
+
+function defaults(): Record<string, unknown> {
+  return PreferencesSchema.parse({ sensory: {}, cognitive: {}, ai: {}, vr: {} });
+}
+
+/**
+ * Build valid and invalid variants of a document from the JSON Schema itself,
+ * covering every enum value and numeric bound
+ */
+function generateVariants(jsonSchema: JsonSchema): Array<{ label: string; document: Record<string, unknown> }> {
+  const variants: Array<{ label: string; document: Record<string, unknown> }> = [];
+
+  for (const section of SECTIONS) {
+    const ref = jsonSchema.properties![section]!.$ref!;
+    const definition = jsonSchema.$defs![ref.replace('#/$defs/', '')]!;
+
+    for (const [field, property] of Object.entries(definition.properties!)) {
+      const candidates: unknown[] = ['not-a-value', null, {}];
+      if (property.enum) {
+        candidates.push(...property.enum);
+      }
+      if (property.type === 'number') {
+        candidates.push(property.minimum, property.maximum, property.minimum! - 0.01, property.maximum! + 0.01);
+      }
+      if (property.type === 'boolean') {
+        candidates.push(true, false, 0);
+      }
+
+      for (const value of candidates) {
+        const document = defaults();
+        (document[section] as Record<string, unknown>)[field] = value;
+        variants.push({ label: `${section}.${field} = ${JSON.stringify(value)}`, document });
+      }
+    }
+
+    const missing = defaults();
+    delete missing[section];
+    variants.push({ label: `missing ${section}`, document: missing });
+  }
+
+  variants.push({ label: 'invalid lastModified type', document: { ...defaults(), lastModified: 42 } });
+  variants.push({ label: 'metadata record', document: { ...defaults(), metadata: { source: 'import', nested: [1] } } });
+  variants.push({ label: 'metadata array', document: { ...defaults(), metadata: [1, 2] } });
+
+  return variants;
+}
+
+describe('Preferences JSON Schema', () => {
+  it('should be versioned with the schema version', () => {
+    const schema = getPreferencesJsonSchema();
+
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.$id).toBe(`https://schemas.neuroadapt.dev/preferences/${SCHEMA_VERSION}.json`);
+    expect(schema.properties!.schemaVersion!.default).toBe(SCHEMA_VERSION);
+    expect(getPreferencesJsonSchema({ baseUri: 'https://example.com/schemas/' }).$id).toBe(
+      `https://example.com/schemas/${SCHEMA_VERSION}.json`
+    );
+  });
+
+  it('should reference the section definitions', () => {
+    const schema = getPreferencesJsonSchema();
+
+    expect(schema.properties!.sensory).toEqual({ $ref: '#/$defs/SensoryPreferences' });
+    expect(schema.required).toEqual(['sensory', 'cognitive', 'ai', 'vr']);
+    expect(Object.keys(schema.$defs!)).toEqual(['SensoryPreferences', 'CognitivePreferences', 'AIPreferences', 'VRPreferences']);
+    expect(schema.$defs!.SensoryPreferences!.properties!.fontSize).toEqual({
+      type: 'number',
+      minimum: 0.5,
+      maximum: 3.0,
+      default: 1.0,
+    });
+    expect(schema.properties!.lastModified).toEqual({ type: 'string', format: 'date-time' });
+  });
+
+  it('should compile under strict draft 2020-12 validation', () => {
+    expect(() => createValidator(getPreferencesJsonSchema())).not.toThrow();
+  });
+
+  it('should carry the same defaults as the Zod schema', () => {
+    const schema = getPreferencesJsonSchema();
+    const fromJsonSchema: Record<string, unknown> = {};
+
+    for (const section of SECTIONS) {
+      const ref = schema.properties![section]!.$ref!.replace('#/$defs/', '');
+      fromJsonSchema[section] = Object.fromEntries(
+        Object.entries(schema.$defs![ref]!.properties!).map(([field, property]) => [field, property.default])
+      );
+    }
+
+    const zodDefaults = defaults();
+    for (const section of SECTIONS) {
+      expect(fromJsonSchema[section]).toEqual(zodDefaults[section]);
+    }
+  });
+
+  it('should accept and reject the same documents as PreferencesSchema', () => {
+    const schema = getPreferencesJsonSchema();
+    const validate = createValidator(schema);
+    const variants = [
+      { label: 'defaults', document: defaults() },
+      { label: 'empty sections', document: { sensory: {}, cognitive: {}, ai: {}, vr: {} } },
+      ...generateVariants(schema),
+    ];
+
+    for (const { label, document } of variants) {
+      const zodAccepts = PreferencesSchema.safeParse(structuredClone(document)).success;
+      expect(validate(document), label).toBe(zodAccepts);
+    }
+  });
+
+  it('should accept every migrated fixture', async () => {
+    const validate = createValidator(getPreferencesJsonSchema());
+    const current = MIGRATION_FIXTURES.filter(fixture => fixture.version === SCHEMA_VERSION);
+
+    for (const fixture of current) {
+      expect(validate(fixture.input)).toBe(true);
+      expect(validate(PreferencesSchema.parse(fixture.input))).toBe(true);
+    }
+  });
+
+  it('should survive a JSON round trip', () => {
+    const schema = getPreferencesJsonSchema();
+    expect(JSON.parse(JSON.stringify(schema))).toEqual(schema);
+  });
+});
+
+describe('Preferences OpenAPI components', () => {
+  it('should expose every preference schema as a component', () => {
+    const document = getPreferencesOpenApiComponents();
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info.version).toBe(SCHEMA_VERSION);
+    expect(Object.keys(document.components.schemas).sort()).toEqual([
+      'AIPreferences',
+      'CognitivePreferences',
+      'Preferences',
+      'PreferencesUpdate',
+      'SensoryPreferences',
+      'VRPreferences',
+    ]);
+    expect(document.components.schemas.Preferences!.properties!.vr).toEqual({ $ref: '#/components/schemas/VRPreferences' });
+  });
+
+  it('should validate partial updates like PreferencesUpdateSchema', () => {
+    const { schemas } = getPreferencesOpenApiComponents().components;
+    const validate = createValidator(schemas.PreferencesUpdate!);
+    const updates: unknown[] = [
+      {},
+      { sensory: { fontSize: 2 } },
+      { sensory: { fontSize: 9 } },
+      { cognitive: { readingSpeed: 'sprint' } },
+      { ai: { tone: 'calm-supportive' }, profileName: 'Focus' },
+    ];
+
+    for (const update of updates) {
+      expect(validate(update), JSON.stringify(update)).toBe(PreferencesUpdateSchema.safeParse(update).success);
+    }
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('should convert the supported Zod types', () => {
+    const schema = z
+      .object({
+        id: z.string().uuid(),
+        count: z.number().int().positive(),
+        tags: z.array(z.string().min(1)),
+        mode: z.literal('strict'),
+        label: z.string().nullable(),
+      })
+      .strict()
+      .describe('Example');
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      description: 'Example',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        count: { type: 'integer', exclusiveMinimum: 0 },
+        tags: { type: 'array', items: { type: 'string', minLength: 1 } },
+        mode: { const: 'strict' },
+        label: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['id', 'count', 'tags', 'mode', 'label'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should reject Zod types it cannot represent', () => {
+    const schema = z.object({ when: z.date() });
+    expect(() => zodToJsonSchema(schema)).toThrow('Cannot convert Zod type "ZodDate" at "when" to JSON Schema');
+  });
+});
@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest';
 
-import { MigrationRegistry, defaultMigrationRegistry } from '../src/preferences/migration.js';
+import {
+  MigrationRegistry,
+  defaultMigrationRegistry,
+  compareVersions,
+  KNOWN_SCHEMA_VERSIONS,
+} from '../src/preferences/migration.js';
+import {
+  assertMigrationChain,
+  verifyMigrationChain,
+  MIGRATION_FIXTURES,
+} from '../src/preferences/migration-testing.js';
 import { SCHEMA_VERSION } from '../src/preferences/schemas.js';
 
 describe('Migration System', () => {
@@ -217,6 +227,17 @@ describe('Migration System', () => {
       expect(migrated.vr).toBeDefined();
     });
 
+    it('should reject source versions newer than or between the registered ones', async () => {
+      for (const schemaVersion of ['9.0.0', '1.0.5', '1.x']) {
+        const unknownVersion = { schemaVersion, someField: 'value' };
+
+        // Stamping the current version would pass unmigrated data off as migrated
+        await expect(defaultMigrationRegistry.migrate(unknownVersion)).rejects.toThrow(`Unknown source schema version "${schemaVersion}"`);
+        await expect(defaultMigrationRegistry.dryRun(unknownVersion)).rejects.toThrow('Unknown source schema version');
+        await expect(defaultMigrationRegistry.migrateTo(unknownVersion, '1.0.0')).rejects.toThrow('Unknown source schema version');
+      }
+    });
+
     it('should update lastModified timestamp during migration', async () => {
       const before = new Date();
 
@@ -234,4 +255,135 @@ describe('Migration System', () => {
       expect(modifiedTime.getTime()).toBeLessThanOrEqual(after.getTime());
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe('Migration dry runs and down-migrations', () => {
+  const v1_0_0 = {
+    schemaVersion: '1.0.0',
+    sensory: { motionReduction: true },
+    ai: { tone: 'neutral' },
+  };
+
+  it('should report per-step field changes without mutating the input', async () => {
+    const input = structuredClone(v1_0_0);
+    const report = await defaultMigrationRegistry.dryRun(input);
+
+    expect(input).toEqual(v1_0_0);
+    expect(report.fromVersion).toBe('1.0.0');
+    expect(report.toVersion).toBe(SCHEMA_VERSION);
+    expect(report.steps.map(step => `${step.from}->${step.to}`)).toEqual(['1.0.0->1.0.1', '1.0.1->1.1.0', '1.1.0->1.2.0', '1.2.0->1.3.0', '1.3.0->1.4.0']);
+
+    const [first, second, third, fourth, fifth] = report.steps;
+    expect(first!.direction).toBe('up');
+    expect(first!.changes).toContainEqual({ path: 'vr.comfortRadius', type: 'added', after: 1.5 });
+    expect(first!.changes).toContainEqual({ path: 'schemaVersion', type: 'changed', before: '1.0.0', after: '1.0.1' });
+    expect(second!.changes).toContainEqual({ path: 'ai.consistencyLevel', type: 'added', after: 'moderate' });
+    expect(third!.changes).toContainEqual({ path: 'sensory.colorVisionSeverity', type: 'added', after: 1 });
+    expect(fourth!.changes).toContainEqual({ path: 'sensory.readingGuide', type: 'added', after: 'off' });
+    expect(fifth!.changes).toContainEqual({ path: 'sensory.reducedTransparency', type: 'added', after: false });
+    expect(report.result.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it('should flag steps without a registered migration', async () => {
+    const registry = new MigrationRegistry();
+    registry.registerMigration('1.0.1', prefs => ({ ...(prefs as object), added: true }));
+
+    const report = await registry.dryRun({ schemaVersion: '1.0.0' });
+
+    expect(report.steps.map(step => step.applied)).toEqual([false, true, false, false, false]);
+  });
+
+  it('should migrate down with registered down-migrations', async () => {
+    const current = await defaultMigrationRegistry.migrate(v1_0_0);
+
+    const v1_0_1 = await defaultMigrationRegistry.migrateTo(current, '1.0.1');
+    expect(v1_0_1.schemaVersion).toBe('1.0.1');
+    expect(v1_0_1.ai).not.toHaveProperty('consistencyLevel');
+    expect(v1_0_1.vr).toBeDefined();
+
+    const oldest = await defaultMigrationRegistry.migrateTo(current, '1.0.0');
+    expect(oldest.schemaVersion).toBe('1.0.0');
+    expect(oldest).not.toHaveProperty('vr');
+  });
+
+  it('should report down-migration steps in a dry run', async () => {
+    const current = await defaultMigrationRegistry.migrate(v1_0_0);
+    const report = await defaultMigrationRegistry.dryRun(current, '1.0.0');
+
+    expect(report.steps.map(step => step.direction)).toEqual(['down', 'down', 'down', 'down', 'down']);
+    expect(report.steps[0]!.changes).toContainEqual({ path: 'sensory.reducedTransparency', type: 'removed', before: false });
+    expect(report.steps[1]!.changes).toContainEqual({ path: 'sensory.bionicReading', type: 'removed', before: false });
+    expect(report.steps[2]!.changes).toContainEqual({ path: 'sensory.colorVisionMode', type: 'removed', before: 'correct' });
+    expect(report.steps[3]!.changes).toContainEqual({ path: 'ai.consistencyLevel', type: 'removed', before: 'moderate' });
+  });
+
+  it('should map achromatopsia to no filter for 1.1.0 builds', async () => {
+    const current = await defaultMigrationRegistry.migrate({
+      ...v1_0_0,
+      schemaVersion: '1.2.0',
+      sensory: { ...v1_0_0.sensory, colorVisionFilter: 'achromatopsia', colorVisionSeverity: 0.5 },
+    });
+    const legacy = await defaultMigrationRegistry.migrateTo(current, '1.1.0');
+
+    expect(legacy.sensory).toMatchObject({ colorVisionFilter: 'none' });
+    expect(legacy.sensory).not.toHaveProperty('colorVisionSeverity');
+  });
+
+  it('should downgrade newer profiles when an older build reads them', async () => {
+    const registry = new MigrationRegistry([...KNOWN_SCHEMA_VERSIONS, '2.0.0']);
+    registry.registerDownMigration('2.0.0', prefs => {
+      const { futureField: _futureField, ...rest } = prefs as Record<string, unknown>;
+      return rest;
+    });
+
+    const result = await registry.migrate({ schemaVersion: '2.0.0', futureField: 'x', sensory: { darkMode: true } });
+
+    expect(result.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(result).not.toHaveProperty('futureField');
+    expect(result.sensory.darkMode).toBe(true);
+  });
+
+  it('should reject unknown target versions', async () => {
+    await expect(defaultMigrationRegistry.dryRun(v1_0_0, '9.9.9')).rejects.toThrow('Unknown target schema version');
+  });
+
+  it('should order versions numerically', () => {
+    expect(['1.10.0', '1.2.0', '1.0.1'].sort(compareVersions)).toEqual(['1.0.1', '1.2.0', '1.10.0']);
+  });
+});
+
+describe('Migration chain harness', () => {
+  it('should pass for the default registry and built-in fixtures', async () => {
+    await expect(
+      assertMigrationChain(defaultMigrationRegistry, MIGRATION_FIXTURES, { roundTrip: true, requireAllVersions: true })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should report broken migrations and mismatched expectations', async () => {
+    const registry = new MigrationRegistry();
+    registry.registerMigration('1.0.1', prefs => ({ ...(prefs as object), sensory: { fontSize: 9 } }));
+
+    const result = await verifyMigrationChain(registry, [
+      { version: '1.0.1', input: { schemaVersion: '1.0.1' }, expected: { ai: { tone: 'professional' } } },
+    ]);
+
+    expect(result.passed).toBe(false);
+    expect(result.failures.some(f => f.message.includes('sensory.fontSize'))).toBe(true);
+    expect(result.failures.some(f => f.message.includes('"ai.tone"'))).toBe(true);
+  });
+
+  it('should detect lossy round trips and missing fixtures', async () => {
+    const registry = new MigrationRegistry();
+    registry.registerDownMigration('1.1.0', () => ({ schemaVersion: '1.0.1' }));
+
+    const result = await verifyMigrationChain(registry, [MIGRATION_FIXTURES[1]!], {
+      roundTrip: true,
+      requireAllVersions: true,
+    });
+
+    expect(result.failures).toContainEqual({ version: '1.0.0', message: 'No fixture for this version' });
+    expect(result.failures.some(f => f.message.includes('Round trip through 1.0.1'))).toBe(true);
+    await expect(assertMigrationChain(registry, [MIGRATION_FIXTURES[1]!], { roundTrip: true })).rejects.toThrow(
+      'Migration chain verification failed'
+    );
+  });
+});
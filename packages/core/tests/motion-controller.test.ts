@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { MotionController, VisualAdapter } from '../src/sensory/index.js';
+
+interface FakeMediaQuery {
+  matches: boolean;
+  listeners: Set<() => void>;
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+}
+
+function createMediaQuery(matches: boolean): FakeMediaQuery {
+  const listeners = new Set<() => void>();
+  return {
+    matches,
+    listeners,
+    addEventListener: (_type, listener) => listeners.add(listener),
+    removeEventListener: (_type, listener) => listeners.delete(listener),
+  };
+}
+
+function createAnimation(target: Element, endTime: number) {
+  const animation = {
+    playState: 'running',
+    effect: { target, getComputedTiming: () => ({ endTime }) },
+    pause: vi.fn(() => { animation.playState = 'paused'; }),
+    play: vi.fn(() => { animation.playState = 'running'; }),
+    finish: vi.fn(() => { animation.playState = 'finished'; }),
+  };
+  return animation;
+}
+
+function createVideo(playing: boolean): HTMLVideoElement {
+  const video = document.createElement('video');
+  video.autoplay = true;
+  Object.defineProperty(video, 'paused', { value: !playing, configurable: true });
+  video.pause = vi.fn();
+  video.play = vi.fn(() => Promise.resolve());
+  return video;
+}
+
+describe('MotionController', () => {
+  let root: HTMLElement;
+  let mediaQuery: FakeMediaQuery;
+  let animations: ReturnType<typeof createAnimation>[];
+  let controller: MotionController;
+
+  beforeEach(() => {
+    root = document.createElement('main');
+    document.body.appendChild(root);
+    mediaQuery = createMediaQuery(false);
+    animations = [];
+    vi.stubGlobal('matchMedia', vi.fn(() => mediaQuery));
+    document.getAnimations = () => animations as unknown as Animation[];
+    controller = new MotionController({ root });
+  });
+
+  afterEach(() => {
+    controller.stop();
+    root.remove();
+    vi.unstubAllGlobals();
+    delete (document as Partial<Document>).getAnimations;
+  });
+
+  it('should follow prefers-reduced-motion by default', () => {
+    const changed = vi.fn();
+    controller.on('change', changed);
+    controller.start();
+    expect(controller.shouldAnimate()).toBe(true);
+
+    mediaQuery.matches = true;
+    mediaQuery.listeners.forEach(listener => listener());
+
+    expect(controller.shouldAnimate()).toBe(false);
+    expect(changed).toHaveBeenCalledWith(true, 'system');
+  });
+
+  it('should let an explicit preference override the system setting', () => {
+    mediaQuery.matches = true;
+    controller.start();
+    expect(controller.isReduced()).toBe(true);
+
+    controller.setPreference(false);
+    expect(controller.isReduced()).toBe(false);
+    expect(controller.getSource()).toBe('preference');
+
+    controller.setPreference(null);
+    expect(controller.isReduced()).toBe(true);
+    expect(controller.getSource()).toBe('system');
+  });
+
+  it('should pause infinite animations and finish finite ones', () => {
+    const spinner = document.createElement('div');
+    const fadeIn = document.createElement('div');
+    const outside = document.createElement('div');
+    root.append(spinner, fadeIn);
+    animations.push(createAnimation(spinner, Infinity), createAnimation(fadeIn, 300), createAnimation(outside, Infinity));
+
+    const paused = vi.fn();
+    controller.on('paused', paused);
+    controller.setPreference(true);
+    controller.start();
+
+    expect(animations[0]!.pause).toHaveBeenCalled();
+    expect(animations[1]!.finish).toHaveBeenCalled();
+    expect(animations[2]!.pause).not.toHaveBeenCalled();
+    expect(paused).toHaveBeenCalledWith({ paused: 1, finished: 1, media: 0 });
+
+    controller.setPreference(false);
+    expect(animations[0]!.play).toHaveBeenCalled();
+  });
+
+  it('should stop autoplay media and resume what was playing', () => {
+    const playing = createVideo(true);
+    const waiting = createVideo(false);
+    root.append(playing, waiting);
+
+    controller.setPreference(true);
+    controller.start();
+
+    expect(playing.pause).toHaveBeenCalled();
+    expect(playing.autoplay).toBe(false);
+    expect(waiting.autoplay).toBe(false);
+
+    controller.stop();
+    expect(playing.autoplay).toBe(true);
+    expect(playing.play).toHaveBeenCalled();
+    expect(waiting.play).not.toHaveBeenCalled();
+  });
+
+  it('should stop autoplay media added later', async () => {
+    controller.setPreference(true);
+    controller.start();
+
+    const video = createVideo(false);
+    root.appendChild(video);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(video.autoplay).toBe(false);
+  });
+
+  it('should stop CSS animations as they start', () => {
+    const element = document.createElement('div');
+    root.appendChild(element);
+    controller.setPreference(true);
+    controller.start();
+
+    const animation = createAnimation(element, Infinity);
+    element.getAnimations = () => [animation as unknown as Animation];
+    element.dispatchEvent(new Event('animationstart', { bubbles: true }));
+
+    expect(animation.pause).toHaveBeenCalled();
+  });
+
+  it('should neutralize parallax while reduced', () => {
+    controller.setPreference(true);
+    controller.start();
+
+    expect(root.classList.contains('neuro-motion-still')).toBe(true);
+    expect(document.head.textContent).toContain(':is([data-parallax]');
+
+    controller.stop();
+    expect(root.classList.contains('neuro-motion-still')).toBe(false);
+    expect(document.head.textContent).not.toContain('neuro-motion-still');
+  });
+
+  it('should answer shouldAnimate before it is started', () => {
+    mediaQuery.matches = true;
+    expect(controller.shouldAnimate()).toBe(false);
+  });
+});
+
+describe('VisualAdapter motion control', () => {
+  it('should force reduced motion from the preference and defer to the system otherwise', () => {
+    const mediaQuery = createMediaQuery(false);
+    vi.stubGlobal('matchMedia', vi.fn(() => mediaQuery));
+
+    const target = document.createElement('div');
+    document.body.appendChild(target);
+    const preferences = {
+      motionReduction: true,
+      highContrast: false,
+      colorVisionFilter: 'none' as const,
+      colorVisionSeverity: 1,
+      colorVisionMode: 'correct' as const,
+      fontSize: 1,
+      reducedFlashing: false,
+      darkMode: false,
+    };
+    const changed = vi.fn();
+    const adapter = new VisualAdapter(preferences, { targetElement: target, autoApply: false, motionControl: true });
+    adapter.on('motion-changed', changed);
+
+    adapter.applyAdaptations(preferences);
+    const controller = adapter.getMotionController()!;
+    expect(controller.isReduced()).toBe(true);
+    expect(changed).toHaveBeenCalledWith(true, 'preference');
+
+    adapter.applyAdaptations({ ...preferences, motionReduction: false });
+    expect(controller.getSource()).toBe('system');
+    expect(controller.isReduced()).toBe(false);
+
+    adapter.disable();
+    expect(controller.isRunning()).toBe(false);
+    target.remove();
+    vi.unstubAllGlobals();
+  });
+});
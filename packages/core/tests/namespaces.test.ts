@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+
+import {
+  PreferenceStore,
+  MemoryPreferenceStorage,
+  PreferenceNamespaceRegistry,
+  definePreferenceNamespace,
+} from '../src/preferences/index.js';
+
+const readingPlugin = definePreferenceNamespace({
+  name: 'reading-plugin',
+  version: '2.0.0',
+  schema: z.object({
+    rulerEnabled: z.boolean().default(false),
+    rulerHeight: z.number().min(1).max(10).default(3),
+    theme: z.enum(['sepia', 'mint', 'none']).default('none'),
+  }),
+  migrations: [
+    {
+      from: '1.0.0',
+      to: '2.0.0',
+      // 1.0.0 stored a single `ruler` flag
+      migrate: data => {
+        const { ruler, ...rest } = data as { ruler?: boolean };
+        return { ...rest, rulerEnabled: ruler ?? false };
+      },
+    },
+  ],
+});
+
+describe('Preference namespaces', () => {
+  let storage: MemoryPreferenceStorage;
+  let registry: PreferenceNamespaceRegistry;
+  let store: PreferenceStore;
+
+  beforeEach(async () => {
+    storage = new MemoryPreferenceStorage();
+    registry = new PreferenceNamespaceRegistry();
+    store = new PreferenceStore({ storage, namespaceRegistry: registry, autoSave: false });
+    await store.initialize();
+  });
+
+  describe('definePreferenceNamespace', () => {
+    it('should compute defaults from the schema', () => {
+      expect(readingPlugin.defaults).toEqual({ rulerEnabled: false, rulerHeight: 3, theme: 'none' });
+    });
+
+    it('should reject invalid names and defaults', () => {
+      const schema = z.object({ level: z.number() });
+      expect(() => definePreferenceNamespace({ name: 'has.dot', schema, defaults: { level: 1 } })).toThrow(
+        'Invalid preference namespace name "has.dot"'
+      );
+      expect(() => definePreferenceNamespace({ name: 'no-defaults', schema })).toThrow(
+        'Preference namespace "no-defaults" has invalid defaults'
+      );
+    });
+  });
+
+  describe('PreferenceNamespaceRegistry', () => {
+    it('should refuse a different namespace under a taken name', () => {
+      registry.register(readingPlugin);
+      expect(() => registry.register(readingPlugin)).not.toThrow();
+
+      const impostor = definePreferenceNamespace({ name: 'reading-plugin', schema: z.object({}) });
+      expect(() => registry.register(impostor)).toThrow('already registered');
+      expect(registry.list()).toEqual(['reading-plugin']);
+    });
+
+    it('should pass through entries for unregistered namespaces', () => {
+      const entries = { unknown: { version: '9.0.0', data: { anything: true } } };
+      expect(registry.normalize(entries)).toEqual(entries);
+    });
+  });
+
+  describe('PreferenceStore integration', () => {
+    it('should return typed defaults for a namespace with no stored data', () => {
+      const data = store.getNamespace(readingPlugin);
+      expect(data.rulerHeight).toBe(3);
+    });
+
+    it('should update, persist and reload namespace data', async () => {
+      const change = vi.fn();
+      store.on('change', change);
+
+      await store.updateNamespace(readingPlugin, { rulerEnabled: true, theme: 'sepia' });
+      await store.save();
+
+      expect(store.getNamespace(readingPlugin)).toEqual({ rulerEnabled: true, rulerHeight: 3, theme: 'sepia' });
+      expect(change.mock.calls[0]![0]).toEqual({
+        namespaces: { 'reading-plugin': { version: '2.0.0', data: { rulerEnabled: true, rulerHeight: 3, theme: 'sepia' } } },
+      });
+
+      const reloaded = new PreferenceStore({ storage, namespaceRegistry: registry, autoSave: false });
+      await reloaded.initialize();
+      expect(reloaded.getNamespace(readingPlugin).theme).toBe('sepia');
+    });
+
+    it('should validate updates against the namespace schema', async () => {
+      const invalid = vi.fn();
+      store.on('invalid', invalid);
+
+      await expect(
+        store.updateNamespace(readingPlugin, { rulerHeight: 50 })
+      ).rejects.toThrow('Validation failed');
+      expect(invalid).toHaveBeenCalled();
+      expect(store.getNamespace(readingPlugin).rulerHeight).toBe(3);
+    });
+
+    it('should validate raw updates to registered namespaces', async () => {
+      store.registerNamespace(readingPlugin);
+
+      await expect(
+        store.updatePreferences({ namespaces: { 'reading-plugin': { version: '2.0.0', data: { theme: 'neon' } } } })
+      ).rejects.toThrow('Validation failed');
+    });
+
+    it('should migrate data written by older plugin versions', async () => {
+      await store.import(JSON.stringify({
+        ...store.getPreferences(),
+        namespaces: { 'reading-plugin': { version: '1.0.0', data: { ruler: true, rulerHeight: 4 } } },
+      }));
+
+      expect(store.getNamespace(readingPlugin)).toEqual({ rulerEnabled: true, rulerHeight: 4, theme: 'none' });
+
+      // Registered namespaces are upgraded on import
+      store.registerNamespace(readingPlugin);
+      await store.import(JSON.stringify({
+        ...store.getPreferences(),
+        namespaces: { 'reading-plugin': { version: '1.0.0', data: { ruler: true } } },
+      }));
+      expect(store.getPreferences().namespaces!['reading-plugin']).toEqual({
+        version: '2.0.0',
+        data: { rulerEnabled: true, rulerHeight: 3, theme: 'none' },
+      });
+    });
+
+    it('should fall back to defaults for unreadable stored data', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await store.import(JSON.stringify({
+        ...store.getPreferences(),
+        namespaces: { 'reading-plugin': { version: '3.0.0', data: { rulerEnabled: true } } },
+      }));
+
+      expect(store.getNamespace(readingPlugin)).toEqual(readingPlugin.defaults);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should support undo and transactions', async () => {
+      await store.transaction(async tx => {
+        await tx.updateNamespace(readingPlugin, { rulerEnabled: true });
+        await tx.updateNamespace(readingPlugin, { rulerHeight: 6 });
+        expect(tx.getNamespace(readingPlugin)).toMatchObject({ rulerEnabled: true, rulerHeight: 6 });
+        await tx.updatePreferences({ sensory: { darkMode: true } });
+      });
+
+      expect(store.getNamespace(readingPlugin)).toMatchObject({ rulerEnabled: true, rulerHeight: 6 });
+
+      await store.undo();
+      expect(store.getNamespace(readingPlugin)).toEqual(readingPlugin.defaults);
+      expect(store.getPreferences().sensory.darkMode).toBe(false);
+    });
+
+    it('should reset a namespace to its defaults', async () => {
+      await store.updateNamespace(readingPlugin, { theme: 'mint' });
+      await store.resetNamespace(readingPlugin);
+      expect(store.getNamespace(readingPlugin)).toEqual(readingPlugin.defaults);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 import { PreferenceStore, MemoryPreferenceStorage, MigrationRegistry } from '../src/preferences/index.js';
+import type { PreferenceTransaction } from '../src/preferences/index.js';
 import type { Preferences, PreferencesUpdate } from '../src/preferences/schemas.js';
 
 describe('PreferenceStore', () => {
@@ -20,7 +21,7 @@ describe('PreferenceStore', () => {
       await store.initialize();
       const preferences = store.getPreferences();
 
-      expect(preferences.schemaVersion).toBe('1.1.0');
+      expect(preferences.schemaVersion).toBe('1.4.0');
       expect(preferences.sensory.motionReduction).toBe(false);
       expect(preferences.cognitive.readingSpeed).toBe('medium');
       expect(preferences.ai.tone).toBe('neutral');
@@ -72,6 +73,22 @@ describe('PreferenceStore', () => {
       expect(loaded.ai.tone).toBe('calm-supportive');
       expect(loaded.vr.comfortRadius).toBe(2.0);
     });
+
+    it('should not auto-save over preferences from an unknown schema version', async () => {
+      const future = { schemaVersion: '9.0.0', sensory: { darkMode: true } } as unknown as Preferences;
+      await storage.set('default', future);
+      const autoSaveStore = new PreferenceStore({ storage, autoSave: true });
+      const onError = vi.fn();
+      autoSaveStore.on('error', onError);
+
+      await autoSaveStore.initialize();
+      await autoSaveStore.updatePreferences({ cognitive: { chunkSize: 2 } });
+
+      expect(onError.mock.calls[0]![0].message).toBe('Unknown source schema version "9.0.0"');
+      expect(autoSaveStore.isReadOnly()).toBe(true);
+      expect(autoSaveStore.getPreferences().cognitive.chunkSize).toBe(2);
+      expect(await storage.get('default')).toEqual(future);
+    });
   });
 
   describe('Preference Updates and Validation', () => {
@@ -117,6 +134,15 @@ describe('PreferenceStore', () => {
       expect(afterError).toEqual(initialPrefs);
     });
 
+    it('should keep sibling fields when updating part of a section', async () => {
+      await store.updatePreferences({ sensory: { highContrast: true } });
+      await store.updatePreferences({ sensory: { fontSize: 1.5 } });
+
+      const updated = store.getPreferences();
+      expect(updated.sensory.highContrast).toBe(true);
+      expect(updated.sensory.fontSize).toBe(1.5);
+    });
+
     it('should validate enum values', async () => {
       const invalidUpdate = {
         ai: {
@@ -204,7 +230,7 @@ describe('PreferenceStore', () => {
       const json = store.export();
       const parsed = JSON.parse(json);
 
-      expect(parsed.schemaVersion).toBe('1.1.0');
+      expect(parsed.schemaVersion).toBe('1.4.0');
       expect(parsed.sensory).toBeDefined();
       expect(parsed.cognitive).toBeDefined();
       expect(parsed.ai).toBeDefined();
@@ -297,6 +323,250 @@ describe('PreferenceStore', () => {
     });
   });
 
+  describe('Undo/Redo History', () => {
+    beforeEach(async () => {
+      await store.initialize();
+    });
+
+    it('should undo and redo preference changes', async () => {
+      await store.updatePreferences({ sensory: { highContrast: true } });
+      await store.updatePreferences({ sensory: { fontSize: 1.5 } });
+
+      expect(store.canUndo()).toBe(true);
+      expect(await store.undo()).toBe(true);
+      expect(store.getPreferences().sensory.fontSize).toBe(1.0);
+      expect(store.getPreferences().sensory.highContrast).toBe(true);
+
+      expect(await store.undo()).toBe(true);
+      expect(store.getPreferences().sensory.highContrast).toBe(false);
+      expect(await store.undo()).toBe(false);
+
+      expect(store.canRedo()).toBe(true);
+      await store.redo();
+      await store.redo();
+      expect(store.getPreferences().sensory.highContrast).toBe(true);
+      expect(store.getPreferences().sensory.fontSize).toBe(1.5);
+      expect(await store.redo()).toBe(false);
+    });
+
+    it('should emit change with the reverted fields on undo', async () => {
+      await store.updatePreferences({ sensory: { highContrast: true } });
+
+      const changeHandler = vi.fn();
+      store.on('change', changeHandler);
+      await store.undo();
+
+      const [diff, previousState] = changeHandler.mock.calls[0]!;
+      expect(diff).toEqual({ sensory: { highContrast: false } });
+      expect(previousState.sensory.highContrast).toBe(true);
+    });
+
+    it('should clear redo history after a new change', async () => {
+      await store.updatePreferences({ sensory: { darkMode: true } });
+      await store.undo();
+      await store.updatePreferences({ sensory: { fontSize: 2 } });
+
+      expect(store.canRedo()).toBe(false);
+    });
+
+    it('should not record no-op updates', async () => {
+      await store.updatePreferences({ sensory: { darkMode: false } });
+      expect(store.canUndo()).toBe(false);
+    });
+
+    it('should respect the history limit', async () => {
+      const limited = new PreferenceStore({ storage, autoSave: false, historyLimit: 2 });
+      await limited.initialize();
+
+      await limited.updatePreferences({ sensory: { fontSize: 1.1 } });
+      await limited.updatePreferences({ sensory: { fontSize: 1.2 } });
+      await limited.updatePreferences({ sensory: { fontSize: 1.3 } });
+
+      await limited.undo();
+      await limited.undo();
+      expect(await limited.undo()).toBe(false);
+      expect(limited.getPreferences().sensory.fontSize).toBe(1.1);
+    });
+
+    it('should record reset so it can be undone', async () => {
+      await store.updatePreferences({ sensory: { highContrast: true } });
+      await store.reset();
+      await store.undo();
+
+      expect(store.getPreferences().sensory.highContrast).toBe(true);
+    });
+
+    it('should emit history events', async () => {
+      const historyHandler = vi.fn();
+      store.on('history', historyHandler);
+
+      await store.updatePreferences({ sensory: { darkMode: true } });
+      await store.undo();
+
+      expect(historyHandler).toHaveBeenNthCalledWith(1, { canUndo: true, canRedo: false });
+      expect(historyHandler).toHaveBeenLastCalledWith({ canUndo: false, canRedo: true });
+    });
+  });
+
+  describe('Transactions', () => {
+    beforeEach(async () => {
+      await store.initialize();
+    });
+
+    it('should apply batched updates with a single change event and history entry', async () => {
+      const changeHandler = vi.fn();
+      store.on('change', changeHandler);
+
+      await store.transaction(async tx => {
+        await tx.updatePreferences({ sensory: { highContrast: true } });
+        await tx.updatePreferences({ cognitive: { chunkSize: 2 } });
+        // Staged updates are visible inside the transaction
+        expect(tx.getPreferences().sensory.highContrast).toBe(true);
+      });
+
+      expect(changeHandler).toHaveBeenCalledTimes(1);
+      expect(changeHandler.mock.calls[0]![0]).toEqual({
+        sensory: { highContrast: true },
+        cognitive: { chunkSize: 2 },
+      });
+
+      await store.undo();
+      const reverted = store.getPreferences();
+      expect(reverted.sensory.highContrast).toBe(false);
+      expect(reverted.cognitive.chunkSize).toBe(5);
+    });
+
+    it('should save only once when auto-save is enabled', async () => {
+      const autoSaveStore = new PreferenceStore({ storage, autoSave: true });
+      await autoSaveStore.initialize();
+      const savedHandler = vi.fn();
+      autoSaveStore.on('saved', savedHandler);
+
+      await autoSaveStore.transaction(async tx => {
+        await tx.updatePreferences({ sensory: { darkMode: true } });
+        await tx.updatePreferences({ sensory: { fontSize: 1.2 } });
+      });
+
+      expect(savedHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should discard all staged updates when the transaction fails', async () => {
+      const changeHandler = vi.fn();
+      store.on('change', changeHandler);
+      const initialPrefs = store.getPreferences();
+
+      await expect(
+        store.transaction(async tx => {
+          await tx.updatePreferences({ sensory: { highContrast: true } });
+          await tx.updatePreferences({ sensory: { fontSize: 10 } } as PreferencesUpdate);
+        })
+      ).rejects.toThrow('Validation failed');
+
+      expect(store.getPreferences()).toEqual(initialPrefs);
+      expect(changeHandler).not.toHaveBeenCalled();
+      expect(store.canUndo()).toBe(false);
+    });
+
+    it('should join nested transactions and return the callback result', async () => {
+      const changeHandler = vi.fn();
+      store.on('change', changeHandler);
+
+      const result = await store.transaction(async tx => {
+        await tx.transaction(inner => inner.updatePreferences({ ai: { tone: 'calm-supportive' } }));
+        await tx.updatePreferences({ ai: { responseLength: 'brief' } });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(changeHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stage reset and import in the transaction', async () => {
+      await store.updatePreferences({ sensory: { highContrast: true } });
+      const exported = store.export();
+      const changeHandler = vi.fn();
+      store.on('change', changeHandler);
+
+      await store.transaction(async tx => {
+        await tx.reset();
+        expect(tx.getPreferences().sensory.highContrast).toBe(false);
+        await tx.updatePreferences({ cognitive: { chunkSize: 2 } });
+      });
+
+      expect(changeHandler).toHaveBeenCalledTimes(1);
+      expect(store.getPreferences().sensory.highContrast).toBe(false);
+      expect(store.getPreferences().cognitive.chunkSize).toBe(2);
+
+      await store.transaction(async tx => {
+        await tx.import(exported);
+        await tx.updatePreferences({ ai: { responseLength: 'brief' } });
+      });
+
+      expect(changeHandler).toHaveBeenCalledTimes(2);
+      expect(store.getPreferences().sensory.highContrast).toBe(true);
+      expect(store.getPreferences().cognitive.chunkSize).toBe(5);
+      expect(store.getPreferences().ai.responseLength).toBe('brief');
+    });
+
+    it('should keep writes made outside the transaction out of it', async () => {
+      const changeHandler = vi.fn();
+      store.on('change', changeHandler);
+      let outside: Promise<void> | undefined;
+
+      await expect(
+        store.transaction(async tx => {
+          await tx.updatePreferences({ sensory: { highContrast: true } });
+          outside = store.updatePreferences({ cognitive: { chunkSize: 2 } });
+          await Promise.resolve();
+          // Neither sees the other's write while the transaction is open
+          expect(tx.getPreferences().cognitive.chunkSize).toBe(5);
+          expect(store.getPreferences().sensory.highContrast).toBe(false);
+          throw new Error('rolled back');
+        })
+      ).rejects.toThrow('rolled back');
+      await outside;
+
+      expect(store.getPreferences().sensory.highContrast).toBe(false);
+      expect(store.getPreferences().cognitive.chunkSize).toBe(2);
+      expect(changeHandler).toHaveBeenCalledTimes(1);
+      expect(changeHandler.mock.calls[0]![0]).toEqual({ cognitive: { chunkSize: 2 } });
+    });
+
+    it('should apply queued writes after the transaction commits', async () => {
+      let outside: Promise<void> | undefined;
+
+      await store.transaction(async tx => {
+        await tx.updatePreferences({ sensory: { highContrast: true } });
+        outside = store.updatePreferences({ sensory: { darkMode: true } });
+      });
+      await outside;
+
+      expect(store.getPreferences().sensory).toMatchObject({ highContrast: true, darkMode: true });
+      await store.undo();
+      expect(store.getPreferences().sensory).toMatchObject({ highContrast: true, darkMode: false });
+    });
+
+    it('should reject use of a transaction handle after it finishes', async () => {
+      let handle: PreferenceTransaction | undefined;
+      await store.transaction(tx => {
+        handle = tx;
+      });
+
+      await expect(handle!.updatePreferences({ sensory: { darkMode: true } })).rejects.toThrow('Transaction has already finished');
+      expect(() => handle!.getPreferences()).toThrow('Transaction has already finished');
+    });
+
+    it('should refuse to undo, redo or switch profile inside a transaction', async () => {
+      await store.updatePreferences({ sensory: { highContrast: true } });
+
+      await expect(store.transaction(() => store.undo())).rejects.toThrow('Cannot undo inside a transaction');
+      await expect(store.transaction(() => store.redo())).rejects.toThrow('Cannot redo inside a transaction');
+      await expect(store.transaction(() => store.switchProfile('other'))).rejects.toThrow('Cannot switchProfile inside a transaction');
+      expect(store.getPreferences().sensory.highContrast).toBe(true);
+      expect(store.canUndo()).toBe(true);
+    });
+  });
+
   describe('Convenience Getters', () => {
     beforeEach(async () => {
       await store.initialize();
@@ -368,7 +638,7 @@ describe('Migration System', () => {
     const migrated = store.getPreferences();
 
     // Should have current schema version
-    expect(migrated.schemaVersion).toBe('1.1.0');
+    expect(migrated.schemaVersion).toBe('1.4.0');
 
     // Should have VR preferences added by migration
     expect(migrated.vr).toBeDefined();
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  PreferenceStore,
+  MemoryPreferenceStorage,
+  ProfileManager,
+  diffPreferences,
+} from '../src/preferences/index.js';
+import type { PreferencesUpdate } from '../src/preferences/index.js';
+
+describe('ProfileManager', () => {
+  let storage: MemoryPreferenceStorage;
+  let store: PreferenceStore;
+  let manager: ProfileManager;
+
+  beforeEach(async () => {
+    storage = new MemoryPreferenceStorage();
+    store = new PreferenceStore({ storage, autoSave: true });
+    await store.initialize();
+    manager = new ProfileManager({ store, storage });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('Profile CRUD', () => {
+    it('should create profiles with slug ids and overrides', async () => {
+      const created = vi.fn();
+      manager.on('profile-created', created);
+
+      const profile = await manager.createProfile('Migraine Day', {
+        sensory: { highContrast: true, fontSize: 1.4 },
+      });
+
+      expect(profile.id).toBe('migraine-day');
+      expect(profile.name).toBe('Migraine Day');
+      expect(created).toHaveBeenCalledWith(profile);
+
+      const stored = await storage.get('profile:migraine-day');
+      expect(stored?.sensory.highContrast).toBe(true);
+      expect(stored?.sensory.fontSize).toBe(1.4);
+      expect(stored?.cognitive.readingSpeed).toBe('medium');
+    });
+
+    it('should generate unique ids for duplicate names', async () => {
+      const first = await manager.createProfile('Work');
+      const second = await manager.createProfile('Work');
+
+      expect(first.id).toBe('work');
+      expect(second.id).toBe('work-2');
+    });
+
+    it('should reject invalid overrides', async () => {
+      // Type-correct but outside the schema's 0.5–3 range
+      const tooLarge: PreferencesUpdate = { sensory: { fontSize: 10 } };
+      await expect(manager.createProfile('Broken', tooLarge)).rejects.toThrow();
+      expect(await manager.listProfiles()).toHaveLength(0);
+    });
+
+    it('should list only profile keys', async () => {
+      await store.save();
+      await manager.createProfile('Work');
+      await manager.createProfile('Evening');
+
+      const profiles = await manager.listProfiles();
+      expect(profiles.map(p => p.id)).toEqual(['evening', 'work']);
+      // The store's own "default" key is not a profile
+      expect(await storage.list()).toContain('default');
+    });
+
+    it('should clone a profile', async () => {
+      await manager.createProfile('Work', { cognitive: { readingSpeed: 'slow' } });
+      const clone = await manager.cloneProfile('work', 'Work (copy)');
+
+      const stored = await storage.get(`profile:${clone.id}`);
+      expect(stored?.cognitive.readingSpeed).toBe('slow');
+      expect(stored?.profileName).toBe('Work (copy)');
+    });
+
+    it('should rename without changing the id', async () => {
+      await manager.createProfile('Evening');
+      const renamed = vi.fn();
+      manager.on('profile-renamed', renamed);
+
+      const profile = await manager.renameProfile('evening', 'Late Evening');
+
+      expect(profile.id).toBe('evening');
+      expect(profile.name).toBe('Late Evening');
+      expect(renamed).toHaveBeenCalledWith(profile, 'Evening');
+    });
+
+    it('should rename the active profile through the store', async () => {
+      await manager.createProfile('Work');
+      await manager.activateProfile('work');
+
+      await manager.renameProfile('work', 'Office');
+
+      expect(store.getPreferences().profileName).toBe('Office');
+      expect((await storage.get('profile:work'))?.profileName).toBe('Office');
+    });
+
+    it('should save the renamed active profile once', async () => {
+      await manager.createProfile('Work');
+      await manager.activateProfile('work');
+      const saved = vi.fn();
+      store.on('saved', saved);
+
+      await manager.renameProfile('work', 'Office');
+      expect(saved).toHaveBeenCalledTimes(1);
+
+      const manualStore = new PreferenceStore({ storage, autoSave: false, storageKey: 'profile:work' });
+      await manualStore.initialize();
+      const manual = new ProfileManager({ store: manualStore, storage });
+      await manual.renameProfile('work', 'Desk');
+      expect((await storage.get('profile:work'))?.profileName).toBe('Desk');
+    });
+
+    it('should remove profiles but not the active one', async () => {
+      await manager.createProfile('Work');
+      await manager.createProfile('Evening');
+      await manager.activateProfile('work');
+
+      await expect(manager.removeProfile('work')).rejects.toThrow('Cannot remove active profile');
+
+      await manager.removeProfile('evening');
+      expect(await manager.getProfile('evening')).toBeNull();
+    });
+
+    it('should throw for unknown profiles', async () => {
+      await expect(manager.activateProfile('missing')).rejects.toThrow('does not exist');
+      await expect(manager.cloneProfile('missing', 'Copy')).rejects.toThrow('does not exist');
+    });
+  });
+
+  describe('Activation', () => {
+    it('should switch the store and emit change with a minimal diff', async () => {
+      await manager.createProfile('Migraine', {
+        sensory: { highContrast: true, reducedFlashing: true },
+      });
+
+      const change = vi.fn();
+      const activated = vi.fn();
+      store.on('change', change);
+      manager.on('profile-activated', activated);
+
+      await manager.activateProfile('migraine');
+
+      expect(store.getStorageKey()).toBe('profile:migraine');
+      expect(store.getPreferences().sensory.highContrast).toBe(true);
+      expect(manager.getActiveProfileId()).toBe('migraine');
+      expect(activated).toHaveBeenCalledWith('migraine', null);
+
+      const [diff, previous] = change.mock.calls[0]!;
+      expect(diff).toEqual({
+        profileName: 'Migraine',
+        sensory: { highContrast: true, reducedFlashing: true },
+      });
+      expect(previous.sensory.highContrast).toBe(false);
+    });
+
+    it('should persist subsequent updates to the active profile', async () => {
+      await manager.createProfile('Work');
+      await manager.activateProfile('work');
+
+      await store.updatePreferences({ sensory: { fontSize: 2 } });
+
+      expect((await storage.get('profile:work'))?.sensory.fontSize).toBe(2);
+      expect((await storage.get('default'))?.sensory.fontSize).not.toBe(2);
+    });
+  });
+
+  describe('Auto-switching rules', () => {
+    beforeEach(async () => {
+      await manager.createProfile('Work');
+      await manager.createProfile('Evening');
+      await manager.createProfile('Mobile');
+    });
+
+    it('should match time windows, including windows that wrap midnight', () => {
+      manager.addRule({ profileId: 'work', conditions: [{ type: 'time', start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] }] });
+      manager.addRule({ profileId: 'evening', conditions: [{ type: 'time', start: '20:00', end: '06:00' }] });
+
+      // Wednesday 10:30
+      expect(manager.resolveProfile({ date: new Date(2024, 0, 3, 10, 30) })).toBe('work');
+      // Saturday 10:30
+      expect(manager.resolveProfile({ date: new Date(2024, 0, 6, 10, 30) })).toBeNull();
+      // Wednesday 23:00 and Thursday 02:00
+      expect(manager.resolveProfile({ date: new Date(2024, 0, 3, 23, 0) })).toBe('evening');
+      expect(manager.resolveProfile({ date: new Date(2024, 0, 4, 2, 0) })).toBe('evening');
+    });
+
+    it('should match device and route conditions', () => {
+      manager.addRule({ profileId: 'mobile', conditions: [{ type: 'device', deviceClass: ['mobile', 'tablet'] }] });
+      manager.addRule({ profileId: 'work', conditions: [{ type: 'route', pattern: '/dashboard*' }] });
+      manager.addRule({ profileId: 'evening', conditions: [{ type: 'route', pattern: /^\/reader\// }] });
+
+      expect(manager.resolveProfile({ deviceClass: 'tablet' })).toBe('mobile');
+      expect(manager.resolveProfile({ deviceClass: 'desktop', route: '/dashboard/stats' })).toBe('work');
+      expect(manager.resolveProfile({ route: '/reader/42' })).toBe('evening');
+      expect(manager.resolveProfile({ route: '/settings' })).toBeNull();
+    });
+
+    it('should prefer higher priority rules', () => {
+      manager.addRule({ profileId: 'work', conditions: [{ type: 'route', pattern: '/docs*' }] });
+      manager.addRule({ profileId: 'mobile', priority: 10, conditions: [{ type: 'device', deviceClass: 'mobile' }] });
+
+      expect(manager.resolveProfile({ deviceClass: 'mobile', route: '/docs' })).toBe('mobile');
+    });
+
+    it('should fall back to the configured fallback profile', () => {
+      const withFallback = new ProfileManager({ store, storage, fallbackProfileId: 'work' });
+      expect(withFallback.resolveProfile({ route: '/anything' })).toBe('work');
+    });
+
+    it('should activate the matching profile when context changes', async () => {
+      manager.addRule({ profileId: 'mobile', conditions: [{ type: 'device', deviceClass: 'mobile' }] });
+      const change = vi.fn();
+      store.on('change', change);
+
+      const resolved = await manager.updateContext({ deviceClass: 'mobile' });
+
+      expect(resolved).toBe('mobile');
+      expect(manager.getActiveProfileId()).toBe('mobile');
+      expect(change).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not switch when auto-switching is disabled', async () => {
+      manager.addRule({ profileId: 'mobile', conditions: [{ type: 'device', deviceClass: 'mobile' }] });
+      manager.setAutoSwitch(false);
+
+      await manager.updateContext({ deviceClass: 'mobile' });
+
+      expect(manager.getActiveProfileId()).toBeNull();
+    });
+
+    it('should re-evaluate time rules on an interval', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2024, 0, 3, 19, 59));
+      manager.addRule({ profileId: 'evening', conditions: [{ type: 'time', start: '20:00', end: '06:00' }] });
+
+      manager.startAutoSwitch(60000);
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(manager.getActiveProfileId()).toBe('evening');
+    });
+
+    it('should reject malformed time rules when they are added', () => {
+      expect(() => manager.addRule({ profileId: 'work', conditions: [{ type: 'time', start: '9am', end: '17:00' }] }))
+        .toThrow('Invalid time "9am"');
+      expect(() => manager.addRule({ profileId: 'work', conditions: [{ type: 'time', start: '09:00', end: '24:00' }] }))
+        .toThrow('Invalid time "24:00"');
+      expect(() => manager.addRule({ profileId: 'work', conditions: [{ type: 'time', start: '09:60', end: '17:00' }] }))
+        .toThrow('Invalid time "09:60"');
+      expect(() => new ProfileManager({
+        store,
+        storage,
+        rules: [{ profileId: 'work', conditions: [{ type: 'time', start: '25:00', end: '06:00' }] }],
+      })).toThrow('Invalid time "25:00"');
+      expect(manager.getRules()).toHaveLength(0);
+    });
+
+    it('should emit errors from rules instead of rejecting on the interval', async () => {
+      vi.useFakeTimers();
+      manager.addRule({
+        profileId: 'work',
+        conditions: [{ type: 'custom', test: () => { throw new Error('rule failed'); } }],
+      });
+      const onError = vi.fn();
+      manager.on('error', onError);
+
+      await expect(manager.evaluate()).resolves.toBeNull();
+      manager.startAutoSwitch(60000);
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[0]![0].message).toBe('rule failed');
+    });
+
+    it('should drop rules for removed profiles', async () => {
+      manager.addRule({ profileId: 'mobile', conditions: [{ type: 'device', deviceClass: 'mobile' }] });
+      await manager.removeProfile('mobile');
+
+      expect(manager.getRules()).toHaveLength(0);
+    });
+  });
+});
+
+describe('diffPreferences', () => {
+  it('should only include changed fields and ignore lastModified', async () => {
+    const store = new PreferenceStore({ storage: new MemoryPreferenceStorage(), autoSave: false });
+    const before = store.getPreferences();
+    const after = {
+      ...before,
+      lastModified: new Date(0).toISOString(),
+      sensory: { ...before.sensory, darkMode: true },
+    };
+
+    expect(diffPreferences(before, after)).toEqual({ sensory: { darkMode: true } });
+    expect(diffPreferences(before, before)).toEqual({});
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  CognitiveLoadEngine,
+  READABILITY_METRICS,
+  computeTextStatistics,
+  countSyllables,
+  resolveReadabilityLanguage,
+} from '../src/cognitive/index.js';
+import type { CognitivePreferences } from '../src/preferences/schemas.js';
+import type { CognitiveTier, ReadabilityMetric } from '../src/cognitive/index.js';
+
+const preferences: CognitivePreferences = {
+  readingSpeed: 'medium',
+  explanationLevel: 'detailed',
+  processingPace: 'standard',
+  chunkSize: 3,
+  allowInterruptions: true,
+  preferVisualCues: false,
+};
+
+function analyze(text: string, language?: string) {
+  const engine = new CognitiveLoadEngine({ preferences, ...(language && { language }) });
+  let tier: CognitiveTier | null = null;
+  engine.on('load-score', data => { tier = data.tier; });
+  const metrics = engine.analyzeText(text);
+  return { metrics, tier: tier as CognitiveTier | null };
+}
+
+describe('Syllable counting', () => {
+  it('should follow each language\'s rules', () => {
+    expect(countSyllables('make', 'en')).toBe(1);
+    expect(countSyllables('Arbeit', 'de')).toBe(2);
+    expect(countSyllables('leer', 'es')).toBe(2);
+    expect(countSyllables('día', 'es')).toBe(2);
+    expect(countSyllables('ciudad', 'es')).toBe(2);
+    expect(countSyllables('table', 'fr')).toBe(1);
+    expect(countSyllables('école', 'fr')).toBe(2);
+  });
+
+  it('should fall back to English for unsupported languages', () => {
+    expect(resolveReadabilityLanguage('de-AT')).toBe('de');
+    expect(resolveReadabilityLanguage('pt_BR')).toBe('en');
+  });
+});
+
+describe('Readability metrics', () => {
+  const stats = computeTextStatistics('The cat sat on the mat.', 'en', { wordCount: 6, sentenceCount: 1 });
+
+  it('should gather the counts formulas need', () => {
+    expect(stats).toEqual({ language: 'en', words: 6, sentences: 1, syllables: 6, letters: 17, polysyllables: 0 });
+  });
+
+  it('should compute the English formulas', () => {
+    expect(READABILITY_METRICS.fleschReadingEase.compute(stats)).toBeCloseTo(116.145);
+    expect(READABILITY_METRICS.fleschKincaidGrade.compute(stats)).toBeCloseTo(-1.45);
+    expect(READABILITY_METRICS.gunningFog.compute(stats)).toBeCloseTo(2.4);
+    expect(READABILITY_METRICS.smog.compute(stats)).toBeCloseTo(3.1291);
+    expect(READABILITY_METRICS.colemanLiau.compute(stats)).toBeCloseTo(-4.073);
+  });
+
+  it('should compute the German, Spanish and French ease formulas', () => {
+    const counts = { words: 10, sentences: 2, syllables: 15, letters: 50, polysyllables: 1 };
+    expect(READABILITY_METRICS.amstad.compute({ language: 'de', ...counts })).toBeCloseTo(87.25);
+    expect(READABILITY_METRICS.fernandezHuerta.compute({ language: 'es', ...counts })).toBeCloseTo(111.74);
+    expect(READABILITY_METRICS.kandelMoles.compute({ language: 'fr', ...counts })).toBeCloseTo(91.525);
+  });
+});
+
+describe('CognitiveLoadEngine languages', () => {
+  it('should report only the metrics for the text\'s language', () => {
+    expect(Object.keys(analyze('The cat sat on the mat.').metrics.readability)).toEqual([
+      'fleschReadingEase', 'fleschKincaidGrade', 'gunningFog', 'smog', 'colemanLiau',
+    ]);
+
+    const { metrics } = analyze('Die Katze sitzt auf der Matte.', 'de');
+    expect(metrics.language).toBe('de');
+    expect(metrics.readability).toEqual({ amstad: expect.any(Number) });
+    expect(metrics.fleschScore).toBeCloseTo(96);
+  });
+
+  it('should rate plain German as easy when analyzed as German', () => {
+    const text = 'Wir gehen heute in den Park. Dort spielen die Kinder mit dem Ball. Danach essen wir ein Eis.';
+
+    expect(analyze(text, 'de').tier).toBe('low');
+    expect(analyze(text, 'de').metrics.fleschScore).toBeGreaterThan(analyze(text, 'en').metrics.fleschScore);
+  });
+
+  it('should not count ordinary Spanish words as complex', () => {
+    const { metrics, tier } = analyze('La casa es bonita. Mi hermana vive en la ciudad.', 'es');
+
+    expect(metrics.complexWords).toBe(0);
+    expect(tier).toBe('low');
+  });
+
+  it('should run registered custom metrics', () => {
+    const engine = new CognitiveLoadEngine({ preferences, language: 'fr' });
+    const wordLength: ReadabilityMetric = {
+      id: 'wordLength',
+      name: 'Average word length',
+      scale: 'grade',
+      compute: stats => stats.letters / stats.words,
+    };
+    engine.registerMetric(wordLength);
+
+    const metrics = engine.analyzeText('Le chat dort.');
+    expect(metrics.readability).toEqual({ kandelMoles: expect.any(Number), wordLength: 10 / 3 });
+    expect(engine.getMetrics().map(metric => metric.id)).toEqual(['kandelMoles', 'wordLength']);
+  });
+});
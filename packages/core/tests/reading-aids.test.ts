@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  VisualAdapter,
+  ReadingGuideOverlay,
+  applyBionicEmphasis,
+  removeBionicEmphasis,
+  READING_FONT_STACKS,
+  WCAG_TEXT_SPACING,
+} from '../src/sensory/index.js';
+import type { SensoryPreferences } from '../src/preferences/schemas.js';
+
+const basePreferences: SensoryPreferences = {
+  motionReduction: false,
+  highContrast: false,
+  colorVisionFilter: 'none',
+  colorVisionSeverity: 1,
+  colorVisionMode: 'correct',
+  fontSize: 1,
+  reducedFlashing: false,
+  darkMode: false,
+  letterSpacing: 0,
+  wordSpacing: 0,
+  lineHeight: 0,
+  paragraphSpacing: 0,
+  readingFont: 'default',
+  readingGuide: 'off',
+  bionicReading: false,
+  reducedTransparency: false,
+  systemSync: { motionReduction: 'system', highContrast: 'system', darkMode: 'system', reducedTransparency: 'system' },
+};
+
+describe('Bionic emphasis', () => {
+  let root: HTMLElement;
+
+  beforeEach(() => {
+    root = document.createElement('article');
+    root.innerHTML = '<p id="text">Reading is fun, a lot.</p><pre id="code">const value = 1;</pre>';
+    document.body.appendChild(root);
+  });
+
+  afterEach(() => {
+    root.remove();
+  });
+
+  it('should bold the first part of each word', () => {
+    expect(applyBionicEmphasis(root)).toBe(1);
+
+    const fixations = [...root.querySelectorAll('#text b.neuro-bionic-fixation')].map(b => b.textContent);
+    expect(fixations).toEqual(['Read', 'i', 'f', 'a', 'l']);
+    expect(root.querySelector('#text')!.textContent).toBe('Reading is fun, a lot.');
+  });
+
+  it('should leave code untouched', () => {
+    applyBionicEmphasis(root);
+    expect(root.querySelector('#code')!.innerHTML).toBe('const value = 1;');
+  });
+
+  it('should not wrap text twice', () => {
+    applyBionicEmphasis(root);
+    expect(applyBionicEmphasis(root)).toBe(0);
+  });
+
+  it('should restore the original markup', () => {
+    const original = root.innerHTML;
+    applyBionicEmphasis(root);
+    removeBionicEmphasis(root);
+
+    expect(root.innerHTML).toBe(original);
+  });
+
+  it('should put back the original text nodes and leave other nodes alone', () => {
+    const paragraph = document.createElement('p');
+    const words = document.createTextNode('Keep this node');
+    const split = [document.createTextNode('a'), document.createTextNode('b')];
+    paragraph.append(words);
+    root.append(paragraph, ...split);
+
+    applyBionicEmphasis(root);
+    removeBionicEmphasis(root);
+
+    expect(paragraph.firstChild).toBe(words);
+    expect(split.every(node => node.parentNode === root)).toBe(true);
+  });
+});
+
+describe('ReadingGuideOverlay', () => {
+  it('should follow the pointer without intercepting it', () => {
+    const guide = new ReadingGuideOverlay({ mode: 'ruler', bandHeight: 40 });
+    guide.start();
+
+    const ruler = document.querySelector<HTMLElement>('.neuro-reading-guide-ruler')!;
+    expect(ruler.style.pointerEvents).toBe('none');
+    expect(ruler.getAttribute('aria-hidden')).toBe('true');
+
+    document.dispatchEvent(new MouseEvent('pointermove', { clientY: 200 }));
+    expect(guide.getPosition()).toBe(200);
+    expect(ruler.style.transform).toBe('translateY(180px)');
+
+    guide.stop();
+    expect(document.querySelector('.neuro-reading-guide')).toBeNull();
+  });
+
+  it('should leave a clear band between the line focus shades', () => {
+    const guide = new ReadingGuideOverlay({ mode: 'line-focus', bandHeight: 40 });
+    guide.start();
+    guide.moveTo(100);
+
+    const above = document.querySelector<HTMLElement>('.neuro-reading-guide-focus-above')!;
+    const below = document.querySelector<HTMLElement>('.neuro-reading-guide-focus-below')!;
+    expect(above.style.transform).toBe('translateY(calc(80px - 100vh))');
+    expect(below.style.transform).toBe('translateY(120px)');
+
+    guide.stop();
+  });
+
+  it('should follow keyboard focus', () => {
+    const button = document.createElement('button');
+    document.body.appendChild(button);
+    button.getBoundingClientRect = () => ({ top: 300, height: 20 } as DOMRect);
+
+    const guide = new ReadingGuideOverlay({ mode: 'ruler', bandHeight: 40 });
+    guide.start();
+    button.focus();
+
+    expect(guide.getPosition()).toBe(310);
+
+    guide.stop();
+    button.remove();
+  });
+
+  it('should stop following once stopped', () => {
+    const guide = new ReadingGuideOverlay({ mode: 'ruler' });
+    guide.start();
+    guide.moveTo(50);
+    guide.stop();
+
+    document.dispatchEvent(new MouseEvent('pointermove', { clientY: 400 }));
+    expect(guide.getPosition()).toBe(50);
+  });
+});
+
+describe('VisualAdapter reading aids', () => {
+  let target: HTMLElement;
+  let adapter: VisualAdapter;
+
+  beforeEach(() => {
+    target = document.createElement('div');
+    target.innerHTML = '<p>Some readable text</p>';
+    document.body.appendChild(target);
+    adapter = new VisualAdapter(basePreferences, { targetElement: target });
+  });
+
+  afterEach(() => {
+    adapter.disable();
+    target.remove();
+  });
+
+  it('should apply WCAG text spacing through custom properties', () => {
+    const applied = vi.fn();
+    adapter.on('adaptation-applied', applied);
+    adapter.applyAdaptations({ ...basePreferences, ...WCAG_TEXT_SPACING });
+
+    expect(target.style.getPropertyValue('--neuro-letter-spacing')).toBe('0.12em');
+    expect(target.style.getPropertyValue('--neuro-word-spacing')).toBe('0.16em');
+    expect(target.style.getPropertyValue('--neuro-line-height')).toBe('1.5');
+    expect(target.style.getPropertyValue('--neuro-paragraph-spacing')).toBe('2em');
+    expect(target.classList.contains('neuro-line-height')).toBe(true);
+    expect(adapter.isAdaptationApplied('letterSpacing')).toBe(true);
+    expect(applied).toHaveBeenCalledWith('textSpacing', { ...WCAG_TEXT_SPACING });
+    expect(document.head.textContent).toContain('letter-spacing: var(--neuro-letter-spacing) !important');
+  });
+
+  it('should only override the spacing that is set', () => {
+    adapter.applyAdaptations({ ...basePreferences, lineHeight: 2 });
+
+    expect(target.classList.contains('neuro-line-height')).toBe(true);
+    expect(target.classList.contains('neuro-letter-spacing')).toBe(false);
+    expect(adapter.isAdaptationApplied('letterSpacing')).toBe(false);
+  });
+
+  it('should swap in the reading font', () => {
+    adapter.applyAdaptations({ ...basePreferences, readingFont: 'opendyslexic' });
+
+    expect(target.classList.contains('neuro-reading-font')).toBe(true);
+    expect(target.style.getPropertyValue('--neuro-reading-font')).toBe(READING_FONT_STACKS.opendyslexic);
+
+    adapter.applyAdaptations(basePreferences);
+    expect(target.classList.contains('neuro-reading-font')).toBe(false);
+  });
+
+  it('should keep a running reading guide when preferences are reapplied', () => {
+    adapter.applyAdaptations({ ...basePreferences, readingGuide: 'ruler' });
+    const ruler = document.querySelector('.neuro-reading-guide-ruler');
+
+    adapter.applyAdaptations({ ...basePreferences, readingGuide: 'ruler', darkMode: true });
+    expect(document.querySelector('.neuro-reading-guide-ruler')).toBe(ruler);
+
+    adapter.applyAdaptations({ ...basePreferences, readingGuide: 'line-focus' });
+    expect(document.querySelector('.neuro-reading-guide-ruler')).toBeNull();
+    expect(document.querySelectorAll('.neuro-reading-guide')).toHaveLength(2);
+  });
+
+  it('should reverse every reading aid on disable', () => {
+    const original = target.innerHTML;
+    adapter.applyAdaptations({
+      ...basePreferences,
+      ...WCAG_TEXT_SPACING,
+      readingFont: 'lexend',
+      readingGuide: 'line-focus',
+      bionicReading: true,
+    });
+    expect(target.querySelector('.neuro-bionic')).not.toBeNull();
+
+    adapter.disable();
+
+    expect(target.innerHTML).toBe(original);
+    expect(target.getAttribute('style') ?? '').toBe('');
+    expect(target.className).toBe('');
+    expect(document.querySelector('.neuro-reading-guide')).toBeNull();
+  });
+});
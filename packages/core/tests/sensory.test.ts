@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
-import { VisualAdapter, AccessibleFocusRing } from '../src/sensory/index.js';
+import {
+  VisualAdapter,
+  AccessibleFocusRing,
+  getColorVisionTransform,
+  transformColor,
+  simulateColor,
+  createColorVisionFilterMarkup,
+} from '../src/sensory/index.js';
 import type { SensoryPreferences } from '../src/preferences/schemas.js';
 import type { ColorVisionFilter } from '../src/sensory/visual-adapter.js';
 
@@ -31,6 +38,8 @@ describe('VisualAdapter', () => {
       motionReduction: false,
       highContrast: false,
       colorVisionFilter: 'none' as ColorVisionFilter,
+      colorVisionSeverity: 1,
+      colorVisionMode: 'correct',
       fontSize: 1.0,
       reducedFlashing: false,
       darkMode: false,
@@ -42,6 +51,9 @@ describe('VisualAdapter', () => {
       head: {
         appendChild: vi.fn(),
       },
+      body: {
+        appendChild: vi.fn(),
+      },
       createElement: vi.fn().mockReturnValue({
         id: '',
         textContent: '',
@@ -154,8 +166,42 @@ describe('VisualAdapter', () => {
       preferences.colorVisionFilter = 'protanopia';
       adapter.applyAdaptations(preferences);
 
-      expect(mockStyle.filter).toBe('sepia(1) saturate(0.8) hue-rotate(-20deg) contrast(1.2)');
+      expect(mockStyle.filter).toBe('url(#neuro-color-vision-filter)');
       expect(adapter.isAdaptationApplied('colorVisionFilter')).toBe(true);
+
+      const container = vi.mocked(document.body.appendChild).mock.calls[0]![0] as unknown as HTMLElement;
+      expect(container.innerHTML).toContain('<filter id="neuro-color-vision-filter" color-interpolation-filters="linearRGB"');
+      expect(container.innerHTML).toContain('feColorMatrix');
+    });
+
+    it('should emit mode and severity with the filter', () => {
+      const adapter = new VisualAdapter(preferences, {
+        targetElement: mockElement,
+        autoApply: false,
+      });
+      const applied = vi.fn();
+      adapter.on('adaptation-applied', applied);
+
+      adapter.applyAdaptations({ ...preferences, colorVisionFilter: 'achromatopsia', colorVisionMode: 'simulate', colorVisionSeverity: 0.4 });
+
+      expect(applied).toHaveBeenCalledWith('colorVisionFilter', {
+        filter: 'achromatopsia',
+        mode: 'simulate',
+        severity: 0.4,
+        value: 'url(#neuro-color-vision-filter)',
+      });
+    });
+
+    it('should not apply a filter at zero severity', () => {
+      const adapter = new VisualAdapter(preferences, {
+        targetElement: mockElement,
+        autoApply: false,
+      });
+
+      adapter.applyAdaptations({ ...preferences, colorVisionFilter: 'deuteranopia', colorVisionSeverity: 0 });
+
+      expect(adapter.isAdaptationApplied('colorVisionFilter')).toBe(false);
+      expect(mockStyle.removeProperty).toHaveBeenCalledWith('filter');
     });
 
     it('should remove filter when set to none', () => {
@@ -209,6 +255,71 @@ describe('VisualAdapter', () => {
   });
 });
 
+describe('Color vision transforms', () => {
+  const distance = (a: number[], b: number[]) => Math.hypot(a[0]! - b[0]!, a[1]! - b[1]!, a[2]! - b[2]!);
+  const red: [number, number, number] = [200, 40, 40];
+  const green: [number, number, number] = [90, 140, 40];
+
+  it('should keep greys unchanged when simulating', () => {
+    for (const deficiency of ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'] as const) {
+      for (const grey of [0, 128, 255]) {
+        const result = simulateColor([grey, grey, grey], deficiency);
+        result.forEach(channel => expect(Math.abs(channel - grey)).toBeLessThanOrEqual(1));
+      }
+    }
+  });
+
+  it('should be the identity at zero severity', () => {
+    expect(getColorVisionTransform('protanopia', { severity: 0 }).matrix).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(simulateColor(red, 'deuteranopia', 0)).toEqual(red);
+  });
+
+  it('should make red and green confusable for protanopes', () => {
+    const simulated = distance(simulateColor(red, 'protanopia'), simulateColor(green, 'protanopia'));
+    const partial = distance(simulateColor(red, 'protanopia', 0.5), simulateColor(green, 'protanopia', 0.5));
+
+    expect(simulated).toBeLessThan(partial);
+    expect(partial).toBeLessThan(distance(red, green));
+  });
+
+  it('should increase perceived contrast when correcting', () => {
+    for (const deficiency of ['protanopia', 'deuteranopia'] as const) {
+      const correct = getColorVisionTransform(deficiency, { mode: 'correct' });
+      const before = distance(simulateColor(red, deficiency), simulateColor(green, deficiency));
+      const after = distance(
+        simulateColor(transformColor(red, correct), deficiency),
+        simulateColor(transformColor(green, correct), deficiency)
+      );
+      expect(after).toBeGreaterThan(before);
+    }
+  });
+
+  it('should use two Brettel half-planes for tritanopia', () => {
+    const transform = getColorVisionTransform('tritanopia');
+    expect(transform.split).toBeDefined();
+
+    const markup = createColorVisionFilterMarkup('cvd', transform);
+    expect(markup.match(/<feColorMatrix/g)).toHaveLength(3);
+    expect(markup).toContain('operator="arithmetic"');
+  });
+
+  it('should render achromatopsia as greyscale and correct isoluminant colors to different lightness', () => {
+    const [r, g, b] = simulateColor(red, 'achromatopsia');
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+
+    // Red and a green of roughly the same luminance look identical to an achromat
+    const isoluminantGreen: [number, number, number] = [0, 124, 0];
+    const correct = getColorVisionTransform('achromatopsia', { mode: 'correct' });
+    const before = Math.abs(simulateColor([255, 0, 0], 'achromatopsia')[0] - simulateColor(isoluminantGreen, 'achromatopsia')[0]);
+    const after = Math.abs(
+      simulateColor(transformColor([255, 0, 0], correct), 'achromatopsia')[0] -
+      simulateColor(transformColor(isoluminantGreen, correct), 'achromatopsia')[0]
+    );
+    expect(after).toBeGreaterThan(before + 20);
+  });
+});
+
 describe('AccessibleFocusRing', () => {
   let mockStyleElement: HTMLStyleElement;
 
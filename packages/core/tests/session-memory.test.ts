@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { CognitiveLoadEngine, SessionMemory } from '../src/cognitive/index.js';
+import { MemoryPreferenceStorage } from '../src/preferences/storage.js';
+import type { CognitivePreferences } from '../src/preferences/schemas.js';
+
+const preferences: CognitivePreferences = {
+  readingSpeed: 'medium',
+  explanationLevel: 'simple',
+  processingPace: 'standard',
+  chunkSize: 3,
+  allowInterruptions: true,
+  preferVisualCues: false,
+};
+
+const HOUR = 60 * 60 * 1000;
+
+describe('SessionMemory', () => {
+  let time: number;
+  let storage: MemoryPreferenceStorage;
+
+  beforeEach(() => {
+    time = Date.parse('2024-03-01T09:00:00.000Z');
+    storage = new MemoryPreferenceStorage();
+  });
+
+  const create = (options = {}) => new SessionMemory({ storage, now: () => time, ...options });
+
+  it('should track explained topics case-insensitively', () => {
+    const memory = create();
+
+    expect(memory.hasExplained('Cognitive Load')).toBe(false);
+    memory.markExplained('Cognitive Load', 'simple');
+    const again = memory.markExplained('cognitive  load');
+
+    expect(memory.hasExplained('COGNITIVE LOAD')).toBe(true);
+    expect(again).toMatchObject({ topic: 'Cognitive Load', detail: 'simple', count: 2 });
+  });
+
+  it('should expire explanations and adaptations after their TTLs', () => {
+    const memory = create({ explanationTtlMs: 2 * HOUR, adaptationTtlMs: HOUR });
+    memory.markExplained('chunking');
+    memory.setAdaptation('chunk:abc', 'chunk', 'adapted');
+
+    time += HOUR;
+    expect(memory.getAdaptation('chunk:abc')).toBeNull();
+    expect(memory.hasExplained('chunking')).toBe(true);
+
+    time += HOUR;
+    expect(memory.hasExplained('chunking')).toBe(false);
+  });
+
+  it('should persist through PreferenceStorage and survive a reload', async () => {
+    const memory = create();
+    memory.markExplained('API');
+    memory.setAdaptation('chunk:abc', 'chunk', 'adapted');
+    await memory.flush();
+
+    const stored = await storage.get('cognitive-session');
+    expect(stored?.metadata?.['sessionMemory']).toMatchObject({ version: 1 });
+
+    const reloaded = create();
+    const loaded = vi.fn();
+    reloaded.on('loaded', loaded);
+    await reloaded.initialize();
+
+    expect(loaded).toHaveBeenCalledOnce();
+    expect(reloaded.hasExplained('api')).toBe(true);
+    expect(reloaded.getAdaptation('chunk:abc')).toBe('adapted');
+  });
+
+  it('should merge stored memory with changes made while it loads', async () => {
+    const memory = create();
+    memory.markExplained('API');
+    memory.setAdaptation('chunk:abc', 'chunk', 'adapted');
+    await memory.flush();
+
+    time += HOUR;
+    const reloaded = create();
+    reloaded.markExplained('Chunking');
+    const loading = reloaded.initialize();
+    reloaded.setAdaptation('chunk:def', 'chunk', 'later');
+    await loading;
+    await reloaded.flush();
+
+    expect(reloaded.getExplainedTopics().map(record => record.topic)).toEqual(['API', 'Chunking']);
+    expect(reloaded.getAdaptation('chunk:abc')).toBe('adapted');
+    expect(reloaded.getAdaptation('chunk:def')).toBe('later');
+
+    const stored = await storage.get('cognitive-session');
+    expect((stored?.metadata?.['sessionMemory'] as { explanations: unknown[] }).explanations).toHaveLength(2);
+  });
+
+  it('should drop expired entries when loading', async () => {
+    const memory = create({ explanationTtlMs: HOUR });
+    memory.markExplained('API');
+    await memory.flush();
+
+    time += 2 * HOUR;
+    const reloaded = create();
+    await reloaded.initialize();
+
+    expect(reloaded.getExplainedTopics()).toEqual([]);
+  });
+
+  it('should report unreadable stored data and start empty', async () => {
+    const memory = create();
+    memory.markExplained('API');
+    await memory.flush();
+    const stored = (await storage.get('cognitive-session'))!;
+    await storage.set('cognitive-session', { ...stored, metadata: { sessionMemory: { version: 2 } } });
+
+    const reloaded = create();
+    const onError = vi.fn();
+    reloaded.on('error', onError);
+    await reloaded.initialize();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(reloaded.getExplainedTopics()).toEqual([]);
+  });
+
+  it('should export and import for review', async () => {
+    const memory = create();
+    memory.markExplained('API', 'a way for programs to talk');
+    const exported = JSON.parse(memory.export());
+
+    expect(exported.explanations).toEqual([{
+      topic: 'API',
+      detail: 'a way for programs to talk',
+      firstExplainedAt: '2024-03-01T09:00:00.000Z',
+      lastExplainedAt: '2024-03-01T09:00:00.000Z',
+      count: 1,
+      expiresAt: '2024-03-31T09:00:00.000Z',
+    }]);
+
+    const other = create({ storageKey: 'other' });
+    time += HOUR;
+    other.markExplained('Tokens');
+    await other.import(memory.export(), { merge: true });
+    expect(other.getExplainedTopics().map(record => record.topic)).toEqual(['API', 'Tokens']);
+
+    await other.import(memory.export());
+    expect(other.getExplainedTopics().map(record => record.topic)).toEqual(['API']);
+  });
+
+  it('should reject invalid imports', async () => {
+    const memory = create();
+
+    await expect(memory.import('not json')).rejects.toThrow('Invalid JSON format');
+    await expect(memory.import('{"version":1}')).rejects.toThrow('Invalid session memory format');
+  });
+});
+
+describe('CognitiveLoadEngine session memory', () => {
+  it('should not re-explain topics across reloads', async () => {
+    const storage = new MemoryPreferenceStorage();
+    const engine = new CognitiveLoadEngine({ preferences, sessionMemory: { storage } });
+
+    expect(engine.explainOnce('Recursion', 'A function that calls itself.')).toBe('A function that calls itself.');
+    expect(engine.explainOnce('recursion', 'A function that calls itself.')).toBeNull();
+    expect(engine.getSessionMemory().getExplanation('recursion')?.detail).toBe('simple');
+    await engine.getSessionMemory().flush();
+
+    const reloaded = new CognitiveLoadEngine({ preferences, sessionMemory: { storage } });
+    await reloaded.loadMemory();
+    expect(reloaded.hasExplained('Recursion')).toBe(true);
+  });
+
+  it('should reuse persisted adaptations', async () => {
+    const storage = new MemoryPreferenceStorage();
+    const engine = new CognitiveLoadEngine({ preferences, sessionMemory: { storage } });
+    const result = engine.applyStrategy('offerBreak', 'Dense text.');
+    await engine.getSessionMemory().flush();
+
+    const reloaded = new CognitiveLoadEngine({ preferences, sessionMemory: { storage } });
+    await reloaded.loadMemory();
+    reloaded.registerStrategy('offerBreak', () => 'different');
+
+    expect(reloaded.applyStrategy('offerBreak', 'Dense text.')).toBe(result);
+  });
+
+  it('should track nothing when memory is disabled', () => {
+    const engine = new CognitiveLoadEngine({ preferences, sessionMemory: false });
+
+    engine.markExplained('Recursion');
+    expect(engine.hasExplained('Recursion')).toBe(false);
+  });
+});
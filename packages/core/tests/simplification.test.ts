@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  CognitiveLoadEngine,
+  DEFAULT_PLAIN_LANGUAGE_LEXICON,
+  PlainLanguageSimplifier,
+  checkFaithfulness,
+} from '../src/cognitive/index.js';
+import type { SimplificationAIAdapter } from '../src/cognitive/index.js';
+import type { CognitivePreferences } from '../src/preferences/schemas.js';
+
+function mockAdapter(reply: string | Error): SimplificationAIAdapter {
+  return {
+    complete: vi.fn(async () => {
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return { content: reply };
+    }),
+  };
+}
+
+describe('PlainLanguageSimplifier rules', () => {
+  const simplifier = new PlainLanguageSimplifier({ glossary: { API: 'a way for programs to talk to each other' } });
+
+  it('should replace words above the target level and keep their case', () => {
+    const result = simplifier.applyRules('Utilize the tool in order to obtain approximately 5 results.', 'simple');
+
+    expect(result.text).toBe('Use the tool to get about 5 results.');
+    expect(result.changes.filter(change => change.type === 'lexicon')).toHaveLength(4);
+  });
+
+  it('should leave words the reader knows at higher levels', () => {
+    expect(simplifier.applyRules('We require approximately 5 minutes.', 'detailed').text).toBe('We require approximately 5 minutes.');
+    expect(simplifier.applyRules('We must commence now.', 'expert').text).toBe('We must commence now.');
+    expect(simplifier.applyRules('We must ascertain why.', 'expert').text).toBe('We must find out why.');
+  });
+
+  it('should turn simple passives into the active voice', () => {
+    expect(simplifier.applyRules('The report was written by Sam.', 'simple').text).toBe('Sam wrote the report.');
+    expect(simplifier.applyRules('The files have been deleted by the admins.', 'simple').text)
+      .toBe('The admins have deleted the files.');
+    expect(simplifier.applyRules('The report was written by Sam.', 'expert').text).toBe('The report was written by Sam.');
+  });
+
+  it('should swap pronoun case and lowercase common nouns when rewriting passives', () => {
+    const active = (text: string) => simplifier.applyRules(text, 'simple').text;
+
+    expect(active('It was approved by the board.')).toBe('The board approved it.');
+    expect(active('He was seen by Sam.')).toBe('Sam saw him.');
+    expect(active('Results were published by them.')).toBe('They published results.');
+    expect(active('I was told by her.')).toBe('She told me.');
+    expect(active('The files have been deleted by us.')).toBe('We have deleted the files.');
+    expect(active('Old files were removed by Sam.')).toBe('Sam removed old files.');
+    expect(active('Sam was seen by them.')).toBe('They saw Sam.');
+    expect(active('New York was visited by me.')).toBe('I visited New York.');
+  });
+
+  it('should leave passives without a clear agent alone', () => {
+    expect(simplifier.applyRules('The report was written quickly.', 'simple').text).toBe('The report was written quickly.');
+  });
+
+  it('should split long sentences at clean boundaries', () => {
+    const text = 'The update changes how settings are stored on each device, but older versions of the app can still read the stored values without any problems.';
+    const result = simplifier.applyRules(text, 'simple');
+
+    expect(result.text).toBe('The update changes how settings are stored on each device. But older versions of the app can still read the stored values without any problems.');
+    expect(result.changes.some(change => change.type === 'split')).toBe(true);
+    expect(simplifier.applyRules(text, 'detailed').text).toBe(text);
+  });
+
+  it('should define glossary terms on first use only', () => {
+    const result = simplifier.applyRules('Call the API. The API replies.', 'detailed');
+
+    expect(result.text).toBe('Call the API (a way for programs to talk to each other). The API replies.');
+    expect(simplifier.applyRules('Call the API.', 'expert').text).toBe('Call the API.');
+  });
+
+  it('should accept a custom lexicon', () => {
+    const custom = new PlainLanguageSimplifier({
+      lexicon: [...DEFAULT_PLAIN_LANGUAGE_LEXICON, { term: 'remuneration', replacement: 'pay', cefr: 'C2' }],
+    });
+
+    expect(custom.applyRules('Your remuneration is due.', 'simple').text).toBe('Your pay is due.');
+  });
+});
+
+describe('checkFaithfulness', () => {
+  const original = 'Do not restart the server before 5 pm. Ask Priya first.';
+
+  it('should accept a rewrite that keeps the facts', () => {
+    expect(checkFaithfulness(original, 'Do not restart the server before 5 pm. Ask Priya first.').faithful).toBe(true);
+  });
+
+  it('should flag dropped numbers, names and negations', () => {
+    const report = checkFaithfulness(original, 'Restart the server now. Ask first.');
+
+    expect(report.faithful).toBe(false);
+    expect(report.issues).toEqual(expect.arrayContaining(['Missing number: 5', 'Missing name: Priya', 'Negation dropped']));
+  });
+});
+
+describe('PlainLanguageSimplifier with AI', () => {
+  const text = 'Subsequently, the team will terminate the service on 3 May.';
+
+  it('should use a faithful AI rewrite', async () => {
+    const ai = mockAdapter('Then the team will end the service on 3 May.');
+    const result = await new PlainLanguageSimplifier({ ai }).simplify(text, 'simple');
+
+    expect(result.usedAI).toBe(true);
+    expect(result.text).toBe('Then the team will end the service on 3 May.');
+    expect(result.faithfulness?.faithful).toBe(true);
+    expect(vi.mocked(ai.complete).mock.calls[0]![0][0]!.content).toContain('CEFR level A2');
+  });
+
+  it('should fall back to the rules when the rewrite is not faithful', async () => {
+    const ai = mockAdapter('The team will end the service.');
+    const result = await new PlainLanguageSimplifier({ ai }).simplify(text, 'simple');
+
+    expect(result.usedAI).toBe(false);
+    expect(result.text).toBe('Then, the team will end the service on 3 May.');
+    expect(result.fallbackReason).toContain('Missing number: 3');
+  });
+
+  it('should fall back to the rules when the AI call fails', async () => {
+    const result = await new PlainLanguageSimplifier({ ai: mockAdapter(new Error('rate limited')) }).simplify(text, 'simple');
+
+    expect(result.usedAI).toBe(false);
+    expect(result.fallbackReason).toBe('AI rewrite failed: rate limited');
+  });
+
+  it('should not call the AI at the expert level', async () => {
+    const ai = mockAdapter('unused');
+    const result = await new PlainLanguageSimplifier({ ai }).simplify(text, 'expert');
+
+    expect(ai.complete).not.toHaveBeenCalled();
+    expect(result.usedAI).toBe(false);
+  });
+});
+
+describe('CognitiveLoadEngine simplification', () => {
+  const preferences: CognitivePreferences = {
+    readingSpeed: 'medium',
+    explanationLevel: 'simple',
+    processingPace: 'standard',
+    chunkSize: 3,
+    allowInterruptions: true,
+    preferVisualCues: false,
+  };
+
+  it('should simplify for the explanation level preference', async () => {
+    const engine = new CognitiveLoadEngine({
+      preferences,
+      simplification: { ai: mockAdapter('Sam wrote the report.') },
+    });
+    const applied = vi.fn();
+    engine.on('adaptation-applied', applied);
+
+    const result = await engine.simplifyText('The report was written by Sam.');
+
+    expect(result.usedAI).toBe(true);
+    expect(applied).toHaveBeenCalledWith('simplifyLanguage', 'Sam wrote the report.');
+    expect(engine.applyStrategy('simplifyLanguage', 'The report was written by Sam.'))
+      .toBe('Sam wrote the report.\n\n[Simplified for easier reading]');
+  });
+});
@@ -1,8 +1,54 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 import { LocalStoragePreferenceStorage, MemoryPreferenceStorage } from '../src/preferences/storage.js';
+import { IndexedDBPreferenceStorage } from '../src/preferences/indexeddb-storage.js';
+import { FilePreferenceStorage } from '../src/preferences/file-storage.js';
+import { EncryptedPreferenceStorage } from '../src/preferences/encrypted-storage.js';
+import { PreferenceStore } from '../src/preferences/store.js';
+import type { EncryptedPreferencesEnvelope } from '../src/preferences/encrypted-storage.js';
 import type { Preferences } from '../src/preferences/schemas.js';
 
+const samplePreferences = (overrides: Partial<Preferences['sensory']> = {}): Preferences => ({
+  schemaVersion: '1.1.0',
+  profileName: 'Migraine day',
+  sensory: {
+    motionReduction: true,
+    highContrast: true,
+    colorVisionFilter: 'none',
+    fontSize: 1.4,
+    reducedFlashing: true,
+    darkMode: false,
+    ...overrides,
+  },
+  cognitive: {
+    readingSpeed: 'slow',
+    explanationLevel: 'simple',
+    processingPace: 'relaxed',
+    chunkSize: 3,
+    allowInterruptions: false,
+    preferVisualCues: true,
+  },
+  ai: {
+    tone: 'calm-supportive',
+    responseLength: 'brief',
+    consistencyLevel: 'high',
+    useAnalogies: true,
+    allowUndo: true,
+  },
+  vr: {
+    comfortRadius: 1.5,
+    safeSpaceEnabled: true,
+    locomotionType: 'comfort',
+    personalSpace: 1.0,
+    panicButtonEnabled: true,
+  },
+});
+
 describe('Storage Adapters', () => {
   describe('MemoryPreferenceStorage', () => {
     let storage: MemoryPreferenceStorage;
@@ -265,4 +311,249 @@ describe('Storage Adapters', () => {
       expect(customStorage).toBeInstanceOf(LocalStoragePreferenceStorage);
     });
   });
-}); 
\ No newline at end of file
+});
+
+describe('IndexedDBPreferenceStorage', () => {
+  let storage: IndexedDBPreferenceStorage;
+
+  beforeEach(() => {
+    storage = new IndexedDBPreferenceStorage({ indexedDB: new IDBFactory() });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('should store, list and remove preferences', async () => {
+    expect(await storage.get('missing')).toBeNull();
+
+    await storage.set('work', samplePreferences());
+    await storage.set('evening', samplePreferences({ darkMode: true }));
+
+    expect(await storage.get('work')).toEqual(samplePreferences());
+    expect((await storage.list()).sort()).toEqual(['evening', 'work']);
+    expect(await storage.exists('work')).toBe(true);
+
+    await storage.remove('work');
+    expect(await storage.exists('work')).toBe(false);
+
+    await storage.clear();
+    expect(await storage.list()).toEqual([]);
+  });
+
+  it('should persist across connections to the same database', async () => {
+    const factory = new IDBFactory();
+    const first = new IndexedDBPreferenceStorage({ indexedDB: factory, databaseName: 'shared' });
+    await first.set('default', samplePreferences());
+    await first.close();
+
+    const second = new IndexedDBPreferenceStorage({ indexedDB: factory, databaseName: 'shared' });
+    expect(await second.get('default')).toEqual(samplePreferences());
+    await second.close();
+  });
+
+  it('should add its object store to a database another storage created', async () => {
+    const factory = new IDBFactory();
+    const first = new IndexedDBPreferenceStorage({ indexedDB: factory, databaseName: 'shared' });
+    await first.set('default', samplePreferences());
+
+    const second = new IndexedDBPreferenceStorage({ indexedDB: factory, databaseName: 'shared', storeName: 'profiles' });
+    await second.set('work', samplePreferences({ darkMode: true }));
+
+    expect(await second.list()).toEqual(['work']);
+    expect(await first.get('default')).toEqual(samplePreferences());
+    expect(await first.list()).toEqual(['default']);
+    await first.close();
+    await second.close();
+  });
+
+  it('should fail gracefully when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const unavailable = new IndexedDBPreferenceStorage();
+
+    expect(await unavailable.get('default')).toBeNull();
+    expect(await unavailable.list()).toEqual([]);
+    await expect(unavailable.set('default', samplePreferences())).rejects.toThrow('Failed to save preferences');
+
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('FilePreferenceStorage', () => {
+  let directory: string;
+  let filePath: string;
+  let storage: FilePreferenceStorage;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'neuroadapt-prefs-'));
+    filePath = join(directory, 'nested', 'preferences.json');
+    storage = new FilePreferenceStorage({ filePath });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should return null and empty lists before the file exists', async () => {
+    expect(await storage.get('default')).toBeNull();
+    expect(await storage.list()).toEqual([]);
+    expect(await storage.exists('default')).toBe(false);
+  });
+
+  it('should write all keys to a single JSON file', async () => {
+    await storage.set('work', samplePreferences());
+    await storage.set('evening', samplePreferences({ darkMode: true }));
+
+    const contents = JSON.parse(await readFile(filePath, 'utf8'));
+    expect(Object.keys(contents)).toEqual(['work', 'evening']);
+    expect(await new FilePreferenceStorage(filePath).get('evening')).toEqual(samplePreferences({ darkMode: true }));
+  });
+
+  it('should serialize concurrent writes', async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => storage.set(`key${i}`, samplePreferences({ fontSize: 1 + i / 10 })))
+    );
+
+    expect(await storage.list()).toHaveLength(10);
+  });
+
+  it('should remove and clear keys', async () => {
+    await storage.set('a', samplePreferences());
+    await storage.set('b', samplePreferences());
+
+    await storage.remove('a');
+    expect(await storage.list()).toEqual(['b']);
+
+    await storage.clear();
+    expect(await storage.list()).toEqual([]);
+  });
+
+  it('should restrict file permissions to the owner', async () => {
+    await storage.set('default', samplePreferences());
+    const { mode } = await stat(filePath);
+    expect(mode & 0o077).toBe(0);
+  });
+});
+
+describe('EncryptedPreferenceStorage', () => {
+  let inner: MemoryPreferenceStorage;
+  let storage: EncryptedPreferenceStorage;
+
+  beforeEach(() => {
+    inner = new MemoryPreferenceStorage();
+    // Low iteration count keeps the test suite fast
+    storage = new EncryptedPreferenceStorage(inner, { passphrase: 'correct horse', iterations: 1000 });
+  });
+
+  it('should round-trip preferences without storing plaintext', async () => {
+    await storage.set('default', samplePreferences());
+
+    const raw = JSON.stringify(await inner.get('default'));
+    expect(raw).not.toContain('Migraine day');
+    expect(raw).not.toContain('highContrast');
+    expect(await storage.isEncrypted('default')).toBe(true);
+
+    expect(await storage.get('default')).toEqual(samplePreferences());
+  });
+
+  it('should use a fresh IV for every write and derive the key only once', async () => {
+    const deriveKey = vi.spyOn(globalThis.crypto.subtle, 'deriveKey');
+    await storage.set('a', samplePreferences());
+    await storage.set('b', samplePreferences());
+    await storage.set('a', samplePreferences());
+    await storage.get('a');
+    await storage.get('b');
+
+    const a = (await inner.get('a')) as unknown as EncryptedPreferencesEnvelope;
+    const b = (await inner.get('b')) as unknown as EncryptedPreferencesEnvelope;
+    expect(a.encrypted.iv).not.toBe(b.encrypted.iv);
+    expect(deriveKey).toHaveBeenCalledOnce();
+    deriveKey.mockRestore();
+  });
+
+  it('should cache one key per entry written by another instance', async () => {
+    await storage.set('a', samplePreferences());
+    const reader = new EncryptedPreferenceStorage(inner, { passphrase: 'correct horse', iterations: 1000 });
+    const deriveKey = vi.spyOn(globalThis.crypto.subtle, 'deriveKey');
+
+    await reader.get('a');
+    await reader.get('a');
+    expect(deriveKey).toHaveBeenCalledTimes(1);
+
+    // Rewritten under a new salt: the cached key is replaced, not kept alongside
+    await new EncryptedPreferenceStorage(inner, { passphrase: 'correct horse', iterations: 1000 }).set('a', samplePreferences());
+    expect(await reader.get('a')).toEqual(samplePreferences());
+    expect(deriveKey).toHaveBeenCalledTimes(3);
+    deriveKey.mockRestore();
+  });
+
+  it('should reject the wrong passphrase', async () => {
+    await storage.set('default', samplePreferences());
+
+    const wrong = new EncryptedPreferenceStorage(inner, { passphrase: 'wrong', iterations: 1000 });
+    await expect(wrong.get('default')).rejects.toThrow('Failed to decrypt preferences');
+  });
+
+  it('should keep a store from saving over an entry it cannot decrypt', async () => {
+    await storage.set('default', samplePreferences());
+    const stored = await inner.get('default');
+
+    const store = new PreferenceStore({
+      storage: new EncryptedPreferenceStorage(inner, { passphrase: 'wrong', iterations: 1000 }),
+    });
+    const onError = vi.fn();
+    store.on('error', onError);
+    await store.initialize();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(store.isReadOnly()).toBe(true);
+    await store.updatePreferences({ sensory: { darkMode: true } });
+    await expect(store.save()).rejects.toThrow('could not be loaded');
+    expect(await inner.get('default')).toEqual(stored);
+
+    await store.reset();
+    expect(store.isReadOnly()).toBe(false);
+    expect(await inner.get('default')).not.toEqual(stored);
+  });
+
+  it('should bind ciphertext to its storage key', async () => {
+    await storage.set('work', samplePreferences());
+    await inner.set('evening', (await inner.get('work'))!);
+
+    await expect(storage.get('evening')).rejects.toThrow('Failed to decrypt preferences');
+  });
+
+  it('should only read plaintext entries when allowed', async () => {
+    await inner.set('legacy', samplePreferences());
+
+    await expect(storage.get('legacy')).rejects.toThrow('not encrypted');
+
+    const lenient = new EncryptedPreferenceStorage(inner, {
+      passphrase: 'correct horse',
+      iterations: 1000,
+      allowPlaintext: true,
+    });
+    expect(await lenient.get('legacy')).toEqual(samplePreferences());
+  });
+
+  it('should encrypt existing plaintext entries in place', async () => {
+    await inner.set('legacy', samplePreferences());
+
+    expect(await storage.encryptExisting()).toEqual(['legacy']);
+    expect(await storage.isEncrypted('legacy')).toBe(true);
+    expect(await storage.get('legacy')).toEqual(samplePreferences());
+  });
+
+  it('should delegate list, exists and remove', async () => {
+    await storage.set('default', samplePreferences());
+
+    expect(await storage.list()).toEqual(['default']);
+    expect(await storage.exists('default')).toBe(true);
+    await storage.remove('default');
+    expect(await storage.exists('default')).toBe(false);
+  });
+
+  it('should require a passphrase', () => {
+    expect(() => new EncryptedPreferenceStorage(inner, { passphrase: '' })).toThrow('non-empty passphrase');
+  });
+});
@@ -0,0 +1,355 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  PreferenceStore,
+  MemoryPreferenceStorage,
+  PreferenceSync,
+  BroadcastChannelSyncTransport,
+  StorageEventSyncTransport,
+  HttpSyncTransport,
+  EncryptedPreferenceStorage,
+  compareClocks,
+} from '../src/preferences/index.js';
+import type { SyncMessage, SyncTransport } from '../src/preferences/index.js';
+
+/**
+ * Synchronous in-memory bus standing in for BroadcastChannel
+ */
+class MemoryBus {
+  private readonly handlers = new Set<(message: SyncMessage) => void>();
+  private held: SyncMessage[] | null = null;
+
+  transport(): SyncTransport {
+    return {
+      publish: message => {
+        const copy = structuredClone(message);
+        if (this.held) {
+          this.held.push(copy);
+          return;
+        }
+        this.handlers.forEach(handler => handler(copy));
+      },
+      subscribe: handler => {
+        this.handlers.add(handler);
+        return () => this.handlers.delete(handler);
+      },
+    };
+  }
+
+  /** Queue messages instead of delivering them, to simulate concurrent edits */
+  hold(): void {
+    this.held = [];
+  }
+
+  release(): void {
+    const held = this.held || [];
+    this.held = null;
+    held.forEach(message => this.handlers.forEach(handler => handler(message)));
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function createReplica(bus: MemoryBus, replicaId: string, options: Partial<ConstructorParameters<typeof PreferenceSync>[0]> = {}) {
+  const store = new PreferenceStore({ storage: new MemoryPreferenceStorage(), autoSave: false });
+  await store.initialize();
+  const sync = new PreferenceSync({ store, transports: [bus.transport()], replicaId, ...options });
+  sync.start();
+  return { store, sync };
+}
+
+describe('PreferenceSync', () => {
+  let bus: MemoryBus;
+
+  beforeEach(() => {
+    bus = new MemoryBus();
+  });
+
+  describe('last-writer-wins', () => {
+    it('should propagate local changes to other replicas and emit change there', async () => {
+      const a = await createReplica(bus, 'a');
+      const b = await createReplica(bus, 'b');
+      const change = vi.fn();
+      const remoteChange = vi.fn();
+      b.store.on('change', change);
+      b.sync.on('remote-change', remoteChange);
+
+      await a.store.updatePreferences({ sensory: { fontSize: 1.6 } });
+      await flush();
+
+      expect(b.store.getPreferences().sensory.fontSize).toBe(1.6);
+      expect(change).toHaveBeenCalledTimes(1);
+      expect(change.mock.calls[0]![0]).toEqual({ sensory: { fontSize: 1.6 } });
+      expect(remoteChange).toHaveBeenCalledWith({ sensory: { fontSize: 1.6 } }, 'a');
+    });
+
+    it('should not echo remote changes back', async () => {
+      const a = await createReplica(bus, 'a');
+      const b = await createReplica(bus, 'b');
+      const published = vi.fn();
+      b.sync.on('published', published);
+
+      await a.store.updatePreferences({ sensory: { darkMode: true } });
+      await flush();
+
+      expect(published).not.toHaveBeenCalled();
+    });
+
+    it('should merge concurrent edits per field', async () => {
+      let clock = 1000;
+      const now = () => clock++;
+      const a = await createReplica(bus, 'a', { now });
+      const b = await createReplica(bus, 'b', { now });
+
+      bus.hold();
+      await a.store.updatePreferences({ sensory: { fontSize: 1.2, darkMode: true } });
+      await b.store.updatePreferences({ sensory: { fontSize: 2.0 } });
+      bus.release();
+      await flush();
+
+      // b wrote fontSize later; darkMode was only changed on a
+      for (const replica of [a, b]) {
+        expect(replica.store.getPreferences().sensory.fontSize).toBe(2.0);
+        expect(replica.store.getPreferences().sensory.darkMode).toBe(true);
+      }
+    });
+
+    it('should keep remote changes out of local undo history', async () => {
+      const a = await createReplica(bus, 'a');
+      const b = await createReplica(bus, 'b');
+
+      await a.store.updatePreferences({ sensory: { darkMode: true } });
+      await b.store.updatePreferences({ sensory: { fontSize: 1.5 } });
+      await flush();
+
+      // Undo on a reverts only a's own change, and b keeps its font size
+      expect(await a.store.undo()).toBe(true);
+      await flush();
+      expect(a.store.canUndo()).toBe(false);
+      for (const replica of [a, b]) {
+        expect(replica.store.getPreferences().sensory).toMatchObject({ darkMode: false, fontSize: 1.5 });
+      }
+
+      await a.store.redo();
+      await flush();
+      expect(b.store.getPreferences().sensory).toMatchObject({ darkMode: true, fontSize: 1.5 });
+    });
+
+    it('should sync plugin namespaces', async () => {
+      const a = await createReplica(bus, 'a');
+      const b = await createReplica(bus, 'b');
+      const entry = { version: '1.0.0', data: { enabled: true } };
+
+      await a.store.updatePreferences({ namespaces: { 'sync-plugin': entry } });
+      await flush();
+
+      expect(b.store.getPreferences().namespaces).toEqual({ 'sync-plugin': entry });
+    });
+
+    it('should ignore messages for other storage keys', async () => {
+      const a = await createReplica(bus, 'a');
+      const b = await createReplica(bus, 'b');
+
+      await b.sync.receive({
+        type: 'preferences',
+        origin: 'a',
+        storageKey: 'profile:other',
+        clock: { a: 1 },
+        fields: { 'sensory.fontSize': { value: 2.5, timestamp: Date.now(), origin: 'a' } },
+      });
+
+      expect(b.store.getPreferences().sensory.fontSize).toBe(1.0);
+      a.sync.stop();
+    });
+
+    it('should stop syncing after stop()', async () => {
+      const a = await createReplica(bus, 'a');
+      const b = await createReplica(bus, 'b');
+      b.sync.stop();
+
+      await a.store.updatePreferences({ sensory: { highContrast: true } });
+      await flush();
+
+      expect(b.store.getPreferences().sensory.highContrast).toBe(false);
+    });
+  });
+
+  describe('vector clocks', () => {
+    it('should compare clocks', () => {
+      expect(compareClocks({ a: 1 }, { a: 1 })).toBe('equal');
+      expect(compareClocks({ a: 2 }, { a: 1 })).toBe('after');
+      expect(compareClocks({ a: 1 }, { a: 1, b: 1 })).toBe('before');
+      expect(compareClocks({ a: 2 }, { a: 1, b: 1 })).toBe('concurrent');
+    });
+
+    it('should apply causally newer state and ignore stale messages', async () => {
+      const a = await createReplica(bus, 'a', { strategy: 'vector-clock' });
+      const b = await createReplica(bus, 'b', { strategy: 'vector-clock' });
+
+      await a.store.updatePreferences({ cognitive: { chunkSize: 2 } });
+      await flush();
+      expect(b.store.getPreferences().cognitive.chunkSize).toBe(2);
+      expect(b.sync.getClock()).toEqual({ a: 1 });
+
+      await b.sync.receive({
+        type: 'preferences',
+        origin: 'a',
+        storageKey: 'default',
+        clock: { a: 0 },
+        fields: { 'cognitive.chunkSize': { value: 9, timestamp: Date.now() + 1000, origin: 'a' } },
+      });
+      expect(b.store.getPreferences().cognitive.chunkSize).toBe(2);
+    });
+
+    it('should report conflicts and use the custom resolver', async () => {
+      const resolveConflict = vi.fn(({ local, remote }) => Math.max(local.value as number, remote.value as number));
+      const a = await createReplica(bus, 'a', { strategy: 'vector-clock', resolveConflict });
+      const b = await createReplica(bus, 'b', { strategy: 'vector-clock', resolveConflict });
+      const conflicts = vi.fn();
+      b.sync.on('conflict', conflicts);
+
+      bus.hold();
+      await a.store.updatePreferences({ sensory: { fontSize: 2.5 } });
+      await b.store.updatePreferences({ sensory: { fontSize: 1.5 } });
+      bus.release();
+      await flush();
+
+      expect(conflicts).toHaveBeenCalledTimes(1);
+      expect(conflicts.mock.calls[0]![0][0].path).toBe('sensory.fontSize');
+      expect(a.store.getPreferences().sensory.fontSize).toBe(2.5);
+      expect(b.store.getPreferences().sensory.fontSize).toBe(2.5);
+    });
+  });
+});
+
+describe('Sync transports', () => {
+  it('should deliver messages over BroadcastChannel', async () => {
+    const first = new BroadcastChannelSyncTransport('neuroadapt:test');
+    const second = new BroadcastChannelSyncTransport('neuroadapt:test');
+    const received = new Promise<SyncMessage>(resolve => second.subscribe(resolve));
+
+    const message: SyncMessage = { type: 'preferences', origin: 'a', storageKey: 'default', clock: { a: 1 }, fields: {} };
+    first.publish(message);
+
+    expect(await received).toEqual(message);
+    first.close();
+    second.close();
+  });
+
+  it('should deliver messages from storage events', () => {
+    const transport = new StorageEventSyncTransport('sync-key');
+    const handler = vi.fn();
+    const unsubscribe = transport.subscribe(handler);
+
+    const message: SyncMessage = { type: 'preferences', origin: 'a', storageKey: 'default', clock: {}, fields: {} };
+    window.dispatchEvent(new StorageEvent('storage', { key: 'sync-key', newValue: JSON.stringify({ message, nonce: 1 }) }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other-key', newValue: '{}' }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(message);
+    unsubscribe();
+  });
+
+  it('should not leave messages in localStorage', () => {
+    const transport = new StorageEventSyncTransport('sync-key');
+    const message: SyncMessage = { type: 'preferences', origin: 'a', storageKey: 'default', clock: {}, fields: {} };
+
+    transport.publish(message);
+
+    expect(localStorage.getItem('sync-key')).toBeNull();
+  });
+
+  it('should refuse plaintext transports for encrypted stores', () => {
+    const storage = new EncryptedPreferenceStorage(new MemoryPreferenceStorage(), { passphrase: 'secret' });
+    const store = new PreferenceStore({ storage });
+
+    expect(() => new PreferenceSync({ store, transports: [new StorageEventSyncTransport()] }))
+      .toThrow('cannot be synced through a transport that stores them in plaintext');
+    expect(() => new PreferenceSync({ store, transports: [new MemoryBus().transport()] })).not.toThrow();
+  });
+
+  describe('HttpSyncTransport', () => {
+    let server: Server;
+    let endpoint: string;
+    const log: SyncMessage[] = [];
+
+    beforeEach(async () => {
+      log.length = 0;
+      // Minimal relay: append-only message log with numeric cursors
+      server = createServer((req, res) => {
+        const url = new URL(req.url!, 'http://localhost');
+        if (req.method === 'POST') {
+          let body = '';
+          req.on('data', chunk => (body += chunk));
+          req.on('end', () => {
+            log.push(JSON.parse(body));
+            res.writeHead(204).end();
+          });
+          return;
+        }
+        const since = Number(url.searchParams.get('since') ?? 0);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ messages: log.slice(since), cursor: String(log.length) }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sync`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should sync two stores through the relay', async () => {
+      const createStore = async () => {
+        const store = new PreferenceStore({ storage: new MemoryPreferenceStorage(), autoSave: false });
+        await store.initialize();
+        return store;
+      };
+      const storeA = await createStore();
+      const storeB = await createStore();
+      const transportA = new HttpSyncTransport({ endpoint, pollInterval: 60000 });
+      const transportB = new HttpSyncTransport({ endpoint, pollInterval: 60000 });
+      const syncA = new PreferenceSync({ store: storeA, transports: [transportA], replicaId: 'a' });
+      const syncB = new PreferenceSync({ store: storeB, transports: [transportB], replicaId: 'b' });
+      syncA.start();
+      syncB.start();
+
+      const published = new Promise(resolve => syncA.once('published', resolve));
+      await storeA.updatePreferences({ ai: { tone: 'calm-supportive' } });
+      await published;
+      expect(log).toHaveLength(1);
+
+      await transportB.poll();
+      await flush();
+      expect(storeB.getPreferences().ai.tone).toBe('calm-supportive');
+
+      // Own messages come back from the relay but are ignored
+      const change = vi.fn();
+      storeA.on('change', change);
+      await transportA.poll();
+      expect(change).not.toHaveBeenCalled();
+
+      syncA.stop();
+      syncB.stop();
+    });
+
+    it('should surface publish failures as errors', async () => {
+      const transport = new HttpSyncTransport({ endpoint: `${endpoint}-missing`, fetch: async () => new Response(null, { status: 500 }) });
+      const store = new PreferenceStore({ storage: new MemoryPreferenceStorage(), autoSave: false });
+      await store.initialize();
+      const sync = new PreferenceSync({ store, transports: [transport] });
+      const error = vi.fn();
+      sync.on('error', error);
+      sync.start();
+
+      await store.updatePreferences({ sensory: { darkMode: true } });
+      await flush();
+
+      expect(error.mock.calls[0]![0].message).toContain('HTTP 500');
+      sync.stop();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  PreferenceStore,
+  MemoryPreferenceStorage,
+  ProfileManager,
+  SystemPreferenceBridge,
+  readSystemPreferences,
+  mapSystemPreferences,
+} from '../src/preferences/index.js';
+import type { MediaQueryMatcher } from '../src/preferences/index.js';
+
+/**
+ * Fake OS: media queries whose answers can be flipped at runtime
+ */
+function createSystem(initial: Record<string, boolean> = {}) {
+  const matches = new Map(Object.entries(initial));
+  const listeners = new Map<string, Set<() => void>>();
+
+  const matchMedia: MediaQueryMatcher = query => ({
+    get matches() {
+      return matches.get(query) ?? false;
+    },
+    addEventListener: (_type: string, listener: () => void) => {
+      listeners.set(query, (listeners.get(query) ?? new Set()).add(listener));
+    },
+    removeEventListener: (_type: string, listener: () => void) => {
+      listeners.get(query)?.delete(listener);
+    },
+  }) as unknown as MediaQueryList;
+
+  return {
+    matchMedia,
+    set(query: string, value: boolean) {
+      matches.set(query, value);
+      listeners.get(query)?.forEach(listener => listener());
+    },
+    listenerCount: () => [...listeners.values()].reduce((sum, set) => sum + set.size, 0),
+  };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('System preference mapping', () => {
+  it('should read every media feature', () => {
+    const system = createSystem({
+      '(prefers-reduced-motion: reduce)': true,
+      '(prefers-contrast: less)': true,
+      '(prefers-color-scheme: dark)': true,
+      '(prefers-reduced-transparency: reduce)': true,
+    });
+
+    expect(readSystemPreferences(system.matchMedia)).toEqual({
+      reducedMotion: true,
+      contrast: 'less',
+      colorScheme: 'dark',
+      forcedColors: false,
+      reducedTransparency: true,
+    });
+  });
+
+  it('should report no preference without matchMedia', () => {
+    expect(readSystemPreferences(null)).toMatchObject({ reducedMotion: false, contrast: 'no-preference', colorScheme: 'light' });
+  });
+
+  it('should treat forced colors as a request for high contrast', () => {
+    const state = readSystemPreferences(createSystem({ '(forced-colors: active)': true }).matchMedia);
+    expect(mapSystemPreferences(state).highContrast).toBe(true);
+  });
+});
+
+describe('SystemPreferenceBridge', () => {
+  let storage: MemoryPreferenceStorage;
+  let store: PreferenceStore;
+  let system: ReturnType<typeof createSystem>;
+  let bridge: SystemPreferenceBridge;
+
+  beforeEach(async () => {
+    storage = new MemoryPreferenceStorage();
+    store = new PreferenceStore({ storage });
+    await store.initialize();
+    system = createSystem({ '(prefers-color-scheme: dark)': true });
+    bridge = new SystemPreferenceBridge({ store, matchMedia: system.matchMedia });
+  });
+
+  afterEach(() => {
+    bridge.stop();
+  });
+
+  it('should apply system values on start', async () => {
+    const synced = vi.fn();
+    bridge.on('synced', synced);
+    await bridge.start();
+
+    expect(store.getSensoryPreferences().darkMode).toBe(true);
+    expect(synced).toHaveBeenCalledWith({ darkMode: true });
+  });
+
+  it('should track live system changes', async () => {
+    await bridge.start();
+    const systemChange = vi.fn();
+    bridge.on('system-change', systemChange);
+
+    system.set('(prefers-reduced-motion: reduce)', true);
+    await flush();
+
+    expect(systemChange).toHaveBeenCalledWith(expect.objectContaining({ reducedMotion: true }));
+    expect(store.getSensoryPreferences().motionReduction).toBe(true);
+  });
+
+  it('should keep explicit values when the system changes', async () => {
+    await bridge.start();
+    await bridge.setExplicit('darkMode', false);
+
+    system.set('(prefers-color-scheme: dark)', false);
+    system.set('(prefers-color-scheme: dark)', true);
+    await flush();
+
+    expect(store.getSensoryPreferences().darkMode).toBe(false);
+    expect(bridge.getSource('darkMode')).toBe('explicit');
+  });
+
+  it('should keep values set through the store across reloads and system changes', async () => {
+    const autoSaveStore = new PreferenceStore({ storage, autoSave: true });
+    await autoSaveStore.initialize();
+    const autoSaveBridge = new SystemPreferenceBridge({ store: autoSaveStore, matchMedia: system.matchMedia });
+    await autoSaveBridge.start();
+
+    // A settings form that knows nothing about the bridge
+    await autoSaveStore.updatePreferences({ sensory: { highContrast: true, darkMode: false } });
+    await flush();
+    expect(autoSaveBridge.getSource('highContrast')).toBe('explicit');
+    expect(autoSaveBridge.getSource('darkMode')).toBe('explicit');
+    expect(autoSaveBridge.getSource('motionReduction')).toBe('system');
+
+    system.set('(prefers-color-scheme: dark)', false);
+    system.set('(prefers-color-scheme: dark)', true);
+    await flush();
+    await autoSaveStore.initialize();
+    await autoSaveBridge.sync();
+
+    expect(autoSaveStore.getSensoryPreferences()).toMatchObject({ highContrast: true, darkMode: false });
+    autoSaveBridge.stop();
+  });
+
+  it('should not treat its own syncs as user choices', async () => {
+    await bridge.start();
+    system.set('(prefers-reduced-motion: reduce)', true);
+    await flush();
+
+    expect(store.getSensoryPreferences().motionReduction).toBe(true);
+    expect(bridge.getSource('motionReduction')).toBe('system');
+    expect(bridge.getSource('darkMode')).toBe('system');
+  });
+
+  it('should apply the system value when a field goes back to system', async () => {
+    await bridge.start();
+    await bridge.setExplicit('darkMode', false);
+    await bridge.setSource('darkMode', 'system');
+
+    expect(store.getSensoryPreferences().darkMode).toBe(true);
+    expect(store.getSensoryPreferences().systemSync).toEqual({
+      motionReduction: 'system',
+      highContrast: 'system',
+      darkMode: 'system',
+      reducedTransparency: 'system',
+    });
+  });
+
+  it('should re-sync when the store loads another profile', async () => {
+    const profiles = new ProfileManager({ store, storage, autoSwitch: false });
+    await profiles.createProfile('Evening', { sensory: { darkMode: false } }, 'evening');
+    await bridge.start();
+
+    await profiles.activateProfile('evening');
+    await flush();
+
+    expect(store.getSensoryPreferences().darkMode).toBe(true);
+    profiles.destroy();
+  });
+
+  it('should seed new profiles from the system', async () => {
+    const profiles = new ProfileManager({ store, storage, autoSwitch: false });
+    system.set('(prefers-contrast: more)', true);
+
+    await profiles.createProfile('Fresh', bridge.getSeed(), 'fresh');
+    const stored = await storage.get('profile:fresh');
+
+    expect(stored!.sensory).toMatchObject({ darkMode: true, highContrast: true, motionReduction: false });
+    profiles.destroy();
+  });
+
+  it('should stop listening when stopped', async () => {
+    await bridge.start();
+    expect(system.listenerCount()).toBeGreaterThan(0);
+
+    bridge.stop();
+    expect(system.listenerCount()).toBe(0);
+  });
+});
@@ -19,7 +19,7 @@ export default defineConfig({
       formats: ['es'],
     },
     rollupOptions: {
-      external: ['eventemitter3', 'zod'],
+      external: ['eventemitter3', 'zod', /^node:/],
       output: {
         preserveModules: true,
         preserveModulesRoot: 'src',
@@ -0,0 +1,205 @@
+import type { Angle, Complex, GateType, ParameterBindings, QuantumGate } from '../types/index.js';
+import { getAngleParameters, resolveAngle, validateAngle } from './parameters.js';
+
+/**
+ * What a gate type does and what it needs
+ */
+export interface GateDefinition {
+  /** Readable name, e.g. for narration */
+  name: string;
+  /** Controls implied by the type: 1 for CZ, 2 for CCX */
+  controls: number;
+  /** Number of angles */
+  parameters: number;
+  /** Unitary applied to the target, or a swap of `target` and `target2` */
+  base: 'swap' | ((angles: number[]) => Complex[][]);
+}
+
+const c = (real: number, imaginary = 0): Complex => ({ real, imaginary });
+const phase = (angle: number): Complex => c(Math.cos(angle), Math.sin(angle));
+const diagonal = (a: Complex, b: Complex): Complex[][] => [[a, c(0)], [c(0), b]];
+
+const MATRICES = {
+  I: () => diagonal(c(1), c(1)),
+  X: () => [[c(0), c(1)], [c(1), c(0)]],
+  Y: () => [[c(0), c(0, -1)], [c(0, 1), c(0)]],
+  Z: () => diagonal(c(1), c(-1)),
+  H: () => [[c(Math.SQRT1_2), c(Math.SQRT1_2)], [c(Math.SQRT1_2), c(-Math.SQRT1_2)]],
+  S: () => diagonal(c(1), c(0, 1)),
+  SDG: () => diagonal(c(1), c(0, -1)),
+  T: () => diagonal(c(1), phase(Math.PI / 4)),
+  TDG: () => diagonal(c(1), phase(-Math.PI / 4)),
+  SX: () => [[c(0.5, 0.5), c(0.5, -0.5)], [c(0.5, -0.5), c(0.5, 0.5)]],
+  SXDG: () => [[c(0.5, -0.5), c(0.5, 0.5)], [c(0.5, 0.5), c(0.5, -0.5)]],
+  RX: ([theta = 0]: number[]) => [
+    [c(Math.cos(theta / 2)), c(0, -Math.sin(theta / 2))],
+    [c(0, -Math.sin(theta / 2)), c(Math.cos(theta / 2))],
+  ],
+  RY: ([theta = 0]: number[]) => [
+    [c(Math.cos(theta / 2)), c(-Math.sin(theta / 2))],
+    [c(Math.sin(theta / 2)), c(Math.cos(theta / 2))],
+  ],
+  RZ: ([theta = 0]: number[]) => diagonal(phase(-theta / 2), phase(theta / 2)),
+  P: ([lambda = 0]: number[]) => diagonal(c(1), phase(lambda)),
+  U3: ([theta = 0, phi = 0, lambda = 0]: number[]) => {
+    const cos = Math.cos(theta / 2);
+    const sin = Math.sin(theta / 2);
+    const eLambda = phase(lambda);
+    const ePhi = phase(phi);
+    const eBoth = phase(phi + lambda);
+    return [
+      [c(cos), c(-eLambda.real * sin, -eLambda.imaginary * sin)],
+      [c(ePhi.real * sin, ePhi.imaginary * sin), c(eBoth.real * cos, eBoth.imaginary * cos)],
+    ];
+  },
+} satisfies Record<string, (angles: number[]) => Complex[][]>;
+
+/**
+ * Built-in gates. Any of them can take extra `controls` to become a
+ * multi-controlled gate.
+ */
+export const GATE_DEFINITIONS: Record<Exclude<GateType, 'CUSTOM'>, GateDefinition> = {
+  I: { name: 'Identity', controls: 0, parameters: 0, base: MATRICES.I },
+  X: { name: 'Pauli-X', controls: 0, parameters: 0, base: MATRICES.X },
+  Y: { name: 'Pauli-Y', controls: 0, parameters: 0, base: MATRICES.Y },
+  Z: { name: 'Pauli-Z', controls: 0, parameters: 0, base: MATRICES.Z },
+  H: { name: 'Hadamard', controls: 0, parameters: 0, base: MATRICES.H },
+  S: { name: 'S', controls: 0, parameters: 0, base: MATRICES.S },
+  SDG: { name: 'S-dagger', controls: 0, parameters: 0, base: MATRICES.SDG },
+  T: { name: 'T', controls: 0, parameters: 0, base: MATRICES.T },
+  TDG: { name: 'T-dagger', controls: 0, parameters: 0, base: MATRICES.TDG },
+  SX: { name: 'Square root of X', controls: 0, parameters: 0, base: MATRICES.SX },
+  SXDG: { name: 'Inverse square root of X', controls: 0, parameters: 0, base: MATRICES.SXDG },
+  RX: { name: 'X rotation', controls: 0, parameters: 1, base: MATRICES.RX },
+  RY: { name: 'Y rotation', controls: 0, parameters: 1, base: MATRICES.RY },
+  RZ: { name: 'Z rotation', controls: 0, parameters: 1, base: MATRICES.RZ },
+  P: { name: 'Phase', controls: 0, parameters: 1, base: MATRICES.P },
+  U3: { name: 'U3', controls: 0, parameters: 3, base: MATRICES.U3 },
+  CNOT: { name: 'Controlled-NOT', controls: 1, parameters: 0, base: MATRICES.X },
+  CY: { name: 'Controlled-Y', controls: 1, parameters: 0, base: MATRICES.Y },
+  CZ: { name: 'Controlled-Z', controls: 1, parameters: 0, base: MATRICES.Z },
+  CH: { name: 'Controlled-Hadamard', controls: 1, parameters: 0, base: MATRICES.H },
+  CP: { name: 'Controlled-phase', controls: 1, parameters: 1, base: MATRICES.P },
+  CRX: { name: 'Controlled X rotation', controls: 1, parameters: 1, base: MATRICES.RX },
+  CRY: { name: 'Controlled Y rotation', controls: 1, parameters: 1, base: MATRICES.RY },
+  CRZ: { name: 'Controlled Z rotation', controls: 1, parameters: 1, base: MATRICES.RZ },
+  CCX: { name: 'Toffoli', controls: 2, parameters: 0, base: MATRICES.X },
+  SWAP: { name: 'SWAP', controls: 0, parameters: 0, base: 'swap' },
+  CSWAP: { name: 'Fredkin', controls: 1, parameters: 0, base: 'swap' },
+};
+
+/**
+ * All control qubits of a gate: `control` followed by `controls`
+ */
+export function getGateControls(gate: Pick<QuantumGate, 'control' | 'controls'>): number[] {
+  return [...(gate.control !== undefined ? [gate.control] : []), ...(gate.controls ?? [])];
+}
+
+/**
+ * Targets of a gate: two for swaps, one otherwise
+ */
+export function getGateTargets(gate: Pick<QuantumGate, 'type' | 'target' | 'target2'>): number[] {
+  return gate.target2 !== undefined && isSwapGate(gate.type) ? [gate.target, gate.target2] : [gate.target];
+}
+
+/**
+ * Every qubit a gate touches, controls first
+ */
+export function getGateQubits(gate: QuantumGate): number[] {
+  return [...getGateControls(gate), ...getGateTargets(gate)];
+}
+
+/**
+ * Angles of a gate, in order
+ */
+export function getGateAngles(gate: Pick<QuantumGate, 'type' | 'angle' | 'angles'>): Angle[] {
+  if (gate.angles) {
+    return gate.angles;
+  }
+  return gate.angle !== undefined ? [gate.angle] : [];
+}
+
+export function isSwapGate(type: GateType): boolean {
+  return type !== 'CUSTOM' && GATE_DEFINITIONS[type].base === 'swap';
+}
+
+/**
+ * Names of the free parameters a gate's angles refer to
+ */
+export function getGateParameters(gate: QuantumGate): string[] {
+  return [...new Set(getGateAngles(gate).flatMap(getAngleParameters))];
+}
+
+function assertUnitary(matrix: Complex[][] | undefined): asserts matrix is Complex[][] {
+  if (!matrix || matrix.length !== 2 || matrix.some(row => row.length !== 2)) {
+    throw new Error('CUSTOM gate requires a 2x2 matrix');
+  }
+  const [[a, b], [d, e]] = matrix as [[Complex, Complex], [Complex, Complex]];
+  // Columns must be orthonormal
+  const column0 = a.real ** 2 + a.imaginary ** 2 + d.real ** 2 + d.imaginary ** 2;
+  const column1 = b.real ** 2 + b.imaginary ** 2 + e.real ** 2 + e.imaginary ** 2;
+  const innerReal = a.real * b.real + a.imaginary * b.imaginary + d.real * e.real + d.imaginary * e.imaginary;
+  const innerImaginary = a.real * b.imaginary - a.imaginary * b.real + d.real * e.imaginary - d.imaginary * e.real;
+  if (Math.abs(column0 - 1) > 1e-9 || Math.abs(column1 - 1) > 1e-9 || Math.hypot(innerReal, innerImaginary) > 1e-9) {
+    throw new Error('CUSTOM gate matrix must be unitary');
+  }
+}
+
+/**
+ * Check a gate against its definition and the register size
+ */
+export function validateGate(gate: QuantumGate, numQubits: number): void {
+  if (gate.type === 'CUSTOM') {
+    assertUnitary(gate.matrix);
+  } else {
+    const definition = GATE_DEFINITIONS[gate.type];
+    if (!definition) {
+      throw new Error(`Unsupported gate type: ${gate.type}`);
+    }
+
+    const angles = getGateAngles(gate);
+    if (definition.parameters === 1 && gate.angle === undefined) {
+      throw new Error(`${gate.type} gate requires angle parameter`);
+    }
+    if (angles.length !== definition.parameters) {
+      throw new Error(`${gate.type} gate takes ${definition.parameters} angle${definition.parameters === 1 ? '' : 's'}, got ${angles.length}`);
+    }
+    angles.forEach(validateAngle);
+
+    const controls = getGateControls(gate);
+    if (controls.length < definition.controls) {
+      throw new Error(definition.controls === 1
+        ? `${gate.type} gate requires a control qubit`
+        : `${gate.type} gate requires ${definition.controls} control qubits`);
+    }
+    if (definition.base === 'swap' && gate.target2 === undefined) {
+      throw new Error(`${gate.type} gate requires a second target (target2)`);
+    }
+  }
+
+  const qubits = getGateQubits(gate);
+  for (const qubit of qubits) {
+    if (!Number.isInteger(qubit) || qubit < 0 || qubit >= numQubits) {
+      throw new Error(`Qubit index ${qubit} out of range`);
+    }
+  }
+  if (new Set(qubits).size !== qubits.length) {
+    throw new Error(`${gate.type} gate uses the same qubit more than once`);
+  }
+}
+
+/**
+ * The 2x2 unitary a gate applies to its target, with parameters bound.
+ * Returns null for swaps.
+ */
+export function getGateMatrix(gate: QuantumGate, bindings: ParameterBindings = {}): Complex[][] | null {
+  if (gate.type === 'CUSTOM') {
+    assertUnitary(gate.matrix);
+    return gate.matrix;
+  }
+  const { base } = GATE_DEFINITIONS[gate.type];
+  if (base === 'swap') {
+    return null;
+  }
+  return base(getGateAngles(gate).map(angle => resolveAngle(angle, bindings)));
+}
@@ -1,12 +1,49 @@
 import { QuantumCircuitSimulator } from './quantum-circuit.js';
+import { parseQasm } from './qasm.js';
 
 export { QuantumCircuitSimulator };
+export { StateVector, MAX_STATE_VECTOR_QUBITS, complex } from './state-vector.js';
+export {
+  GATE_DEFINITIONS,
+  getGateAngles,
+  getGateControls,
+  getGateMatrix,
+  getGateParameters,
+  getGateQubits,
+  getGateTargets,
+  isSwapGate,
+  validateGate
+} from './gates.js';
+export type { GateDefinition } from './gates.js';
+export {
+  AngleExpressionError,
+  formatAngle,
+  getAngleParameters,
+  isSymbolicAngle,
+  resolveAngle,
+  validateAngle
+} from './parameters.js';
+export { QasmParseError, parseQasm, serializeQasm } from './qasm.js';
+export { applyGateNoise, applyReadoutError, getGateNoise, hasGateNoise, validateNoiseModel } from './noise.js';
+export { createRandom } from './random.js';
+export type { QasmSerializeOptions, QasmVersion } from './qasm.js';
 
 // Re-export convenience functions for circuit building
 export function createCircuit(numQubits: number) {
   return new QuantumCircuitSimulator(numQubits);
 }
 
+/**
+ * Build a simulator from an OpenQASM 2.0 or 3.0 program
+ */
+export function loadQasm(source: string) {
+  const { qubits, gates, measurements } = parseQasm(source);
+  const circuit = new QuantumCircuitSimulator(qubits);
+  gates.forEach(gate => circuit.addGate(gate));
+  measurements.forEach(({ qubit, basis }) => circuit.addMeasurement(qubit, basis));
+  return circuit;
+}
+
 export function bellState() {
   const circuit = new QuantumCircuitSimulator(2);
   circuit.addGate({ type: 'H', target: 0 });
@@ -0,0 +1,103 @@
+import type { Complex, NoiseChannels, NoiseModel, QuantumGate } from '../types/index.js';
+import { getGateQubits } from './gates.js';
+import type { StateVector } from './state-vector.js';
+
+const c = (real: number, imaginary = 0): Complex => ({ real, imaginary });
+
+/**
+ * Kraus operators of each channel for a given probability. Each set
+ * satisfies ΣK†K = I.
+ */
+const KRAUS: Record<keyof NoiseChannels, (p: number) => Complex[][][]> = {
+  amplitudeDamping: gamma => [
+    [[c(1), c(0)], [c(0), c(Math.sqrt(1 - gamma))]],
+    [[c(0), c(Math.sqrt(gamma))], [c(0), c(0)]],
+  ],
+  phaseDamping: lambda => [
+    [[c(1), c(0)], [c(0), c(Math.sqrt(1 - lambda))]],
+    [[c(0), c(0)], [c(0), c(Math.sqrt(lambda))]],
+  ],
+  depolarizing: p => {
+    const keep = Math.sqrt(1 - p);
+    const flip = Math.sqrt(p / 3);
+    return [
+      [[c(keep), c(0)], [c(0), c(keep)]],
+      [[c(0), c(flip)], [c(flip), c(0)]],
+      [[c(0), c(0, -flip)], [c(0, flip), c(0)]],
+      [[c(flip), c(0)], [c(0), c(-flip)]],
+    ];
+  },
+};
+
+// Energy loss first, then dephasing, then Pauli errors
+const CHANNEL_ORDER: (keyof NoiseChannels)[] = ['amplitudeDamping', 'phaseDamping', 'depolarizing'];
+
+function assertProbability(name: string, value: number | undefined): void {
+  if (value !== undefined && !(value >= 0 && value <= 1)) {
+    throw new Error(`${name} must be between 0 and 1, got ${value}`);
+  }
+}
+
+function assertChannels(channels: NoiseChannels, prefix = ''): void {
+  CHANNEL_ORDER.forEach(name => assertProbability(`${prefix}${name}`, channels[name]));
+}
+
+export function validateNoiseModel(model: NoiseModel): void {
+  assertChannels(model);
+  for (const [type, channels] of Object.entries(model.gates ?? {})) {
+    assertChannels(channels, `${type} `);
+  }
+  if (typeof model.readoutError === 'object') {
+    assertProbability('readoutError.zeroAsOne', model.readoutError.zeroAsOne);
+    assertProbability('readoutError.oneAsZero', model.readoutError.oneAsZero);
+  } else {
+    assertProbability('readoutError', model.readoutError);
+  }
+}
+
+/**
+ * Channels applied after a gate of this type
+ */
+export function getGateNoise(model: NoiseModel, gate: QuantumGate): NoiseChannels {
+  return model.gates?.[gate.type] ?? model;
+}
+
+/**
+ * Whether the model changes the state at all, as opposed to only the
+ * readout
+ */
+export function hasGateNoise(model: NoiseModel | undefined): boolean {
+  if (!model) return false;
+  return [model, ...Object.values(model.gates ?? {})].some(channels =>
+    CHANNEL_ORDER.some(name => (channels[name] ?? 0) > 0)
+  );
+}
+
+/**
+ * Apply a gate's noise to each qubit it touched, as one trajectory step
+ */
+export function applyGateNoise(state: StateVector, gate: QuantumGate, model: NoiseModel, random: () => number): void {
+  const channels = getGateNoise(model, gate);
+  for (const qubit of getGateQubits(gate)) {
+    for (const name of CHANNEL_ORDER) {
+      const probability = channels[name] ?? 0;
+      if (probability > 0) {
+        state.applyChannel(qubit, KRAUS[name](probability), random);
+      }
+    }
+  }
+}
+
+/**
+ * The bit actually read for a measurement outcome
+ */
+export function applyReadoutError(outcome: 0 | 1, model: NoiseModel | undefined, random: () => number): 0 | 1 {
+  const error = model?.readoutError;
+  if (error === undefined) return outcome;
+
+  const flip = typeof error === 'number' ? error : outcome === 0 ? error.zeroAsOne : error.oneAsZero;
+  if (flip > 0 && random() < flip) {
+    return outcome === 0 ? 1 : 0;
+  }
+  return outcome;
+}
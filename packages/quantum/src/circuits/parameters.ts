@@ -0,0 +1,279 @@
+import type { Angle, ParameterBindings } from '../types/index.js';
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'name'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number };
+
+type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; name: string }
+  | { kind: 'unary'; operator: '-' | '+'; operand: Expression }
+  | { kind: 'binary'; operator: string; left: Expression; right: Expression }
+  | { kind: 'call'; name: string; argument: Expression };
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  'π': Math.PI,
+  tau: 2 * Math.PI,
+  'τ': 2 * Math.PI,
+  euler: Math.E,
+};
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log,
+  sqrt: Math.sqrt,
+};
+
+/**
+ * Error in an angle expression, with the character offset it was found at
+ */
+export class AngleExpressionError extends Error {
+  constructor(message: string, readonly expression: string, readonly position: number) {
+    super(message);
+    this.name = 'AngleExpressionError';
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_πτ][A-Za-z0-9_]*)|(\*\*|[-+*/^()])/y;
+  let position = 0;
+
+  while (position < source.length) {
+    if (/\s/.test(source[position]!)) {
+      position++;
+      continue;
+    }
+    pattern.lastIndex = position;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new AngleExpressionError(`Unexpected character "${source[position]}"`, source, position);
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'number', value: Number(match[1]), position });
+    } else if (match[2] !== undefined) {
+      tokens.push({ kind: 'name', value: match[2], position });
+    } else {
+      tokens.push({ kind: 'operator', value: match[3] === '**' ? '^' : match[3]!, position });
+    }
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser: sums, products, unary signs, powers (right
+ * associative), calls and parentheses
+ */
+function parse(source: string): Expression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string): never => {
+    throw new AngleExpressionError(message, source, peek()?.position ?? source.length);
+  };
+  const expectOperator = (value: string) => {
+    const token = peek();
+    if (token?.kind !== 'operator' || token.value !== value) {
+      fail(token ? `Expected "${value}"` : `Expected "${value}" at end of expression`);
+    }
+    index++;
+  };
+
+  const primary = (): Expression => {
+    const token = peek();
+    if (!token) {
+      return fail('Unexpected end of expression');
+    }
+    index++;
+    if (token.kind === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+    if (token.kind === 'name') {
+      const next = peek();
+      if (next?.kind === 'operator' && next.value === '(') {
+        if (!(token.value in FUNCTIONS)) {
+          index--;
+          return fail(`Unknown function "${token.value}"`);
+        }
+        index++;
+        const argument = sum();
+        expectOperator(')');
+        return { kind: 'call', name: token.value, argument };
+      }
+      return { kind: 'name', name: token.value };
+    }
+    if (token.value === '(') {
+      const inner = sum();
+      expectOperator(')');
+      return inner;
+    }
+    index--;
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  const power = (): Expression => {
+    const base = primary();
+    const token = peek();
+    if (token?.kind === 'operator' && token.value === '^') {
+      index++;
+      return { kind: 'binary', operator: '^', left: base, right: unary() };
+    }
+    return base;
+  };
+
+  const unary = (): Expression => {
+    const token = peek();
+    if (token?.kind === 'operator' && (token.value === '-' || token.value === '+')) {
+      index++;
+      return { kind: 'unary', operator: token.value, operand: unary() };
+    }
+    return power();
+  };
+
+  const product = (): Expression => {
+    let left = unary();
+    for (let token = peek(); token?.kind === 'operator' && (token.value === '*' || token.value === '/'); token = peek()) {
+      index++;
+      left = { kind: 'binary', operator: token.value, left, right: unary() };
+    }
+    return left;
+  };
+
+  const sum = (): Expression => {
+    let left = product();
+    for (let token = peek(); token?.kind === 'operator' && (token.value === '+' || token.value === '-'); token = peek()) {
+      index++;
+      left = { kind: 'binary', operator: token.value, left, right: product() };
+    }
+    return left;
+  };
+
+  const expression = sum();
+  if (index < tokens.length) {
+    fail(`Unexpected "${peek()!.value}"`);
+  }
+  return expression;
+}
+
+function collectNames(expression: Expression, names: Set<string>): void {
+  switch (expression.kind) {
+    case 'name':
+      if (!(expression.name in CONSTANTS)) names.add(expression.name);
+      break;
+    case 'unary':
+      collectNames(expression.operand, names);
+      break;
+    case 'binary':
+      collectNames(expression.left, names);
+      collectNames(expression.right, names);
+      break;
+    case 'call':
+      collectNames(expression.argument, names);
+      break;
+  }
+}
+
+function evaluate(expression: Expression, bindings: ParameterBindings): number {
+  switch (expression.kind) {
+    case 'number':
+      return expression.value;
+    case 'name': {
+      const value = bindings[expression.name] ?? CONSTANTS[expression.name];
+      if (value === undefined) {
+        throw new Error(`Unbound parameter: ${expression.name}`);
+      }
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluate(expression.operand, bindings);
+      return expression.operator === '-' ? -operand : operand;
+    }
+    case 'call':
+      return FUNCTIONS[expression.name]!(evaluate(expression.argument, bindings));
+    case 'binary': {
+      const left = evaluate(expression.left, bindings);
+      const right = evaluate(expression.right, bindings);
+      switch (expression.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        default: return left ** right;
+      }
+    }
+  }
+}
+
+/**
+ * Check that an angle expression parses; throws AngleExpressionError
+ */
+export function validateAngle(angle: Angle): void {
+  if (typeof angle === 'string') {
+    parse(angle);
+  } else if (!Number.isFinite(angle)) {
+    throw new Error(`Angle must be a finite number, got ${angle}`);
+  }
+}
+
+/**
+ * Names of the free parameters in an angle, excluding constants like `pi`
+ */
+export function getAngleParameters(angle: Angle): string[] {
+  if (typeof angle === 'number') {
+    return [];
+  }
+  const names = new Set<string>();
+  collectNames(parse(angle), names);
+  return [...names];
+}
+
+/**
+ * Evaluate an angle with the given parameter values
+ */
+export function resolveAngle(angle: Angle, bindings: ParameterBindings = {}): number {
+  if (typeof angle === 'number') {
+    return angle;
+  }
+  const value = evaluate(parse(angle), bindings);
+  if (!Number.isFinite(value)) {
+    throw new Error(`Angle "${angle}" does not evaluate to a finite number`);
+  }
+  return value;
+}
+
+export function isSymbolicAngle(angle: Angle | undefined): angle is string {
+  return typeof angle === 'string' && getAngleParameters(angle).length > 0;
+}
+
+/**
+ * Write an angle as text, using exact multiples of pi such as `pi/2` or
+ * `-3*pi/4` where possible
+ */
+export function formatAngle(angle: Angle): string {
+  if (typeof angle === 'string') {
+    return angle;
+  }
+  for (const denominator of [1, 2, 3, 4, 6, 8, 12, 16]) {
+    const numerator = Math.round((angle / Math.PI) * denominator);
+    if (numerator === 0) continue;
+    const multiple = Math.abs(numerator) === 1 ? 'pi' : `${Math.abs(numerator)}*pi`;
+    const text = `${numerator < 0 ? '-' : ''}${multiple}${denominator === 1 ? '' : `/${denominator}`}`;
+    if (resolveAngle(text) === angle) return text;
+  }
+  return String(angle);
+}
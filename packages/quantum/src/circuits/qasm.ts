@@ -0,0 +1,838 @@
+import type { Angle, GateType, Measurement, QuantumCircuit, QuantumGate } from '../types/index.js';
+import {
+  GATE_DEFINITIONS,
+  getGateAngles,
+  getGateControls,
+  getGateMatrix,
+  getGateParameters,
+  getGateTargets,
+  validateGate
+} from './gates.js';
+import { AngleExpressionError, formatAngle, getAngleParameters, validateAngle } from './parameters.js';
+
+export type QasmVersion = '2.0' | '3.0';
+
+export interface QasmSerializeOptions {
+  /** Defaults to 3.0 */
+  version?: QasmVersion;
+}
+
+/**
+ * Problem in an OpenQASM program. The message starts with the line and
+ * column and describes the problem in plain words, so it reads well on its
+ * own in a screen reader or a log.
+ */
+export class QasmParseError extends Error {
+  constructor(readonly reason: string, readonly line: number, readonly column: number) {
+    super(`Line ${line}, column ${column}: ${reason}`);
+    this.name = 'QasmParseError';
+  }
+}
+
+/** Gate without controls; controlled types are built from these */
+type BaseGate = 'I' | 'X' | 'Y' | 'Z' | 'H' | 'S' | 'SDG' | 'T' | 'TDG' | 'SX' | 'SXDG'
+  | 'RX' | 'RY' | 'RZ' | 'P' | 'U3' | 'SWAP';
+
+/** Named types by number of controls, e.g. X, CNOT, CCX */
+const CONTROLLED_FORMS: Partial<Record<BaseGate, GateType[]>> = {
+  X: ['X', 'CNOT', 'CCX'],
+  Y: ['Y', 'CY'],
+  Z: ['Z', 'CZ'],
+  H: ['H', 'CH'],
+  P: ['P', 'CP'],
+  RX: ['RX', 'CRX'],
+  RY: ['RY', 'CRY'],
+  RZ: ['RZ', 'CRZ'],
+  SWAP: ['SWAP', 'CSWAP'],
+};
+
+interface QasmGate {
+  base: BaseGate;
+  controls: number;
+  parameters: number;
+  /** Maps the QASM arguments onto the base gate's angles */
+  angles?: (parameters: Angle[]) => Angle[];
+}
+
+const qasmGate = (base: BaseGate, controls = 0, parameters = 0): QasmGate => ({ base, controls, parameters });
+
+/** Gates of qelib1.inc, stdgates.inc and the built-in U and CX */
+const QASM_GATES: Record<string, QasmGate> = {
+  id: qasmGate('I'),
+  x: qasmGate('X'),
+  y: qasmGate('Y'),
+  z: qasmGate('Z'),
+  h: qasmGate('H'),
+  s: qasmGate('S'),
+  sdg: qasmGate('SDG'),
+  t: qasmGate('T'),
+  tdg: qasmGate('TDG'),
+  sx: qasmGate('SX'),
+  sxdg: qasmGate('SXDG'),
+  rx: qasmGate('RX', 0, 1),
+  ry: qasmGate('RY', 0, 1),
+  rz: qasmGate('RZ', 0, 1),
+  p: qasmGate('P', 0, 1),
+  phase: qasmGate('P', 0, 1),
+  u1: qasmGate('P', 0, 1),
+  u2: { base: 'U3', controls: 0, parameters: 2, angles: ([phi = 0, lambda = 0]) => ['pi/2', phi, lambda] },
+  u3: qasmGate('U3', 0, 3),
+  u: qasmGate('U3', 0, 3),
+  U: qasmGate('U3', 0, 3),
+  CX: qasmGate('X', 1),
+  cx: qasmGate('X', 1),
+  cy: qasmGate('Y', 1),
+  cz: qasmGate('Z', 1),
+  ch: qasmGate('H', 1),
+  cp: qasmGate('P', 1, 1),
+  cphase: qasmGate('P', 1, 1),
+  cu1: qasmGate('P', 1, 1),
+  crx: qasmGate('RX', 1, 1),
+  cry: qasmGate('RY', 1, 1),
+  crz: qasmGate('RZ', 1, 1),
+  cu3: qasmGate('U3', 1, 3),
+  ccx: qasmGate('X', 2),
+  swap: qasmGate('SWAP'),
+  cswap: qasmGate('SWAP', 1),
+};
+
+const QASM_NAMES: Record<Exclude<GateType, 'CUSTOM'>, string> = {
+  I: 'id', X: 'x', Y: 'y', Z: 'z', H: 'h',
+  S: 's', SDG: 'sdg', T: 't', TDG: 'tdg', SX: 'sx', SXDG: 'sxdg',
+  RX: 'rx', RY: 'ry', RZ: 'rz', P: 'p', U3: 'u3',
+  CNOT: 'cx', CY: 'cy', CZ: 'cz', CH: 'ch', CP: 'cp', CRX: 'crx', CRY: 'cry', CRZ: 'crz',
+  CCX: 'ccx', SWAP: 'swap', CSWAP: 'cswap',
+};
+
+// qelib1.inc predates p and cp; stdgates.inc has no sxdg
+const QASM2_NAMES: Partial<Record<GateType, string>> = { P: 'u1', CP: 'cu1' };
+const QASM3_NAMES: Partial<Record<GateType, string>> = { SXDG: 'inv @ sx' };
+
+const MODIFIERS = new Set(['ctrl', 'negctrl', 'inv', 'pow']);
+
+const UNSUPPORTED_STATEMENTS = new Set([
+  'reset', 'opaque', 'if', 'for', 'while', 'def', 'defcal', 'cal', 'box', 'let', 'const',
+  'delay', 'gphase', 'return', 'break', 'continue', 'end', 'output',
+]);
+
+function baseOf(type: Exclude<GateType, 'CUSTOM'>): BaseGate {
+  for (const [base, forms] of Object.entries(CONTROLLED_FORMS)) {
+    if (forms.includes(type)) return base as BaseGate;
+  }
+  return type as BaseGate;
+}
+
+function namedForm(base: BaseGate, controls: number): Exclude<GateType, 'CUSTOM'> {
+  const forms = CONTROLLED_FORMS[base] ?? [base];
+  return forms[Math.min(controls, forms.length - 1)] as Exclude<GateType, 'CUSTOM'>;
+}
+
+function negate(angle: Angle): Angle {
+  return typeof angle === 'number' ? -angle : `-(${angle})`;
+}
+
+function invert(base: BaseGate, angles: Angle[]): [BaseGate, Angle[]] {
+  switch (base) {
+    case 'S': return ['SDG', angles];
+    case 'SDG': return ['S', angles];
+    case 'T': return ['TDG', angles];
+    case 'TDG': return ['T', angles];
+    case 'SX': return ['SXDG', angles];
+    case 'SXDG': return ['SX', angles];
+    case 'RX':
+    case 'RY':
+    case 'RZ':
+    case 'P':
+      return [base, angles.map(negate)];
+    case 'U3': {
+      const [theta = 0, phi = 0, lambda = 0] = angles;
+      return ['U3', [negate(theta), negate(lambda), negate(phi)]];
+    }
+    default:
+      // Paulis, H and SWAP are their own inverses
+      return [base, angles];
+  }
+}
+
+interface Token {
+  kind: 'identifier' | 'number' | 'string' | 'symbol' | 'end';
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface AngleArgument {
+  text: string;
+  start: number;
+}
+
+interface QubitArgument {
+  name: Token;
+  index: number | null;
+}
+
+type Modifier = { kind: 'ctrl'; count: number } | { kind: 'inv' };
+
+interface GateCall {
+  modifiers: Modifier[];
+  name: Token;
+  parameters: AngleArgument[];
+  qubits: QubitArgument[];
+}
+
+interface GateDeclaration {
+  parameters: string[];
+  qubits: string[];
+  body: GateCall[];
+}
+
+interface Scope {
+  /** Formal qubits of a gate body; null at the top level */
+  qubits: Map<string, number> | null;
+  /** Formal angle parameters of a gate body, as expression text */
+  parameters: Map<string, string>;
+}
+
+function tokenize(source: string, fail: (message: string, offset: number) => never): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([\p{L}_][\p{L}\p{N}_]*)|("[^"\n]*")|(->|\*\*|[-+*/^()[\]{};,=@:])/uy;
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position, position + 2);
+    if (/\s/.test(source[position]!)) {
+      position++;
+    } else if (rest === '//') {
+      const lineEnd = source.indexOf('\n', position);
+      position = lineEnd === -1 ? source.length : lineEnd;
+    } else if (rest === '/*') {
+      const commentEnd = source.indexOf('*/', position + 2);
+      if (commentEnd === -1) {
+        fail('This comment is never closed. Add */ to end it.', position);
+      }
+      position = commentEnd + 2;
+    } else {
+      pattern.lastIndex = position;
+      const match = pattern.exec(source);
+      if (!match) {
+        fail(`Unexpected character "${source[position]}".`, position);
+      }
+      const kind = match[1] !== undefined ? 'number' : match[2] !== undefined ? 'identifier' : match[3] !== undefined ? 'string' : 'symbol';
+      tokens.push({ kind, value: match[0], start: position, end: pattern.lastIndex });
+      position = pattern.lastIndex;
+    }
+  }
+
+  tokens.push({ kind: 'end', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+class QasmParser {
+  private readonly lineStarts: number[] = [0];
+  private readonly tokens: Token[];
+  private index = 0;
+  private statements = 0;
+  private qubitCount = 0;
+  private readonly registers = new Map<string, { offset: number; size: number }>();
+  private readonly classicalRegisters = new Map<string, number>();
+  private readonly inputs = new Set<string>();
+  private readonly declarations = new Map<string, GateDeclaration>();
+  private readonly measured = new Set<number>();
+  private readonly gates: QuantumGate[] = [];
+  private readonly measurements: Measurement[] = [];
+
+  constructor(private readonly source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+    this.tokens = tokenize(source, (message, offset) => this.fail(message, offset));
+  }
+
+  parse(): QuantumCircuit {
+    while (this.peek().kind !== 'end') {
+      this.statement();
+      this.statements++;
+    }
+    if (this.qubitCount === 0) {
+      this.fail('The program declares no qubits. Add a declaration such as "qubit[2] q;" or "qreg q[2];".', this.source.length);
+    }
+    return { qubits: this.qubitCount, gates: this.gates, measurements: this.measurements };
+  }
+
+  private fail(message: string, offset: number): never {
+    let line = 0;
+    while (line + 1 < this.lineStarts.length && this.lineStarts[line + 1]! <= offset) line++;
+    throw new QasmParseError(message, line + 1, offset - this.lineStarts[line]! + 1);
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'end' ? 'the end of the program' : `"${token.value}"`;
+  }
+
+  private expect(value: string, context = ''): Token {
+    const token = this.peek();
+    if (token.value !== value || token.kind === 'string') {
+      this.fail(`Expected "${value}"${context} but found ${this.describe(token)}.`, token.start);
+    }
+    return this.next();
+  }
+
+  private accept(value: string): boolean {
+    if (this.peek().value === value && this.peek().kind === 'symbol') {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private identifier(what: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(`Expected ${what} but found ${this.describe(token)}.`, token.start);
+    }
+    return this.next();
+  }
+
+  private integer(what: string): number {
+    const token = this.peek();
+    if (token.kind !== 'number' || !/^\d+$/.test(token.value)) {
+      this.fail(`Expected ${what} as a whole number but found ${this.describe(token)}.`, token.start);
+    }
+    this.next();
+    return Number(token.value);
+  }
+
+  private endStatement(): void {
+    this.expect(';', ' at the end of the statement');
+  }
+
+  /** Barriers only matter to compilers, so they are skipped */
+  private skipStatement(): void {
+    while (this.peek().value !== ';' && this.peek().kind !== 'end') this.next();
+    this.endStatement();
+  }
+
+  private statement(): void {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(`Expected a statement but found ${this.describe(token)}.`, token.start);
+    }
+
+    switch (token.value) {
+      case 'OPENQASM':
+        return this.header();
+      case 'include':
+        return this.include();
+      case 'qreg':
+      case 'qubit':
+        return this.quantumRegister();
+      case 'creg':
+      case 'bit':
+        return this.classicalRegister();
+      case 'input':
+        return this.input();
+      case 'gate':
+        return this.gateDeclaration();
+      case 'measure':
+        return this.measure();
+      case 'barrier':
+        return this.skipStatement();
+    }
+
+    if (UNSUPPORTED_STATEMENTS.has(token.value)) {
+      this.fail(`"${token.value}" statements are not supported by this simulator.`, token.start);
+    }
+    if (this.classicalRegisters.has(token.value)) {
+      return this.measureAssignment();
+    }
+    const call = this.gateCall();
+    this.apply(call, { qubits: null, parameters: new Map() }, [], false);
+  }
+
+  private header(): void {
+    const keyword = this.next();
+    if (this.statements > 0) {
+      this.fail('The OPENQASM version line must be the first statement.', keyword.start);
+    }
+    const version = this.peek();
+    if (version.kind !== 'number' || !/^(2(\.0)?|3(\.\d+)?)$/.test(version.value)) {
+      this.fail(`Only OpenQASM versions 2.0 and 3.0 are supported, but found ${this.describe(version)}.`, version.start);
+    }
+    this.next();
+    this.endStatement();
+  }
+
+  private include(): void {
+    this.next();
+    const file = this.peek();
+    if (file.kind !== 'string') {
+      this.fail(`Expected a file name in quotes but found ${this.describe(file)}.`, file.start);
+    }
+    if (file.value !== '"qelib1.inc"' && file.value !== '"stdgates.inc"') {
+      this.fail(`Cannot include ${file.value}. Only "qelib1.inc" and "stdgates.inc" are built in.`, file.start);
+    }
+    this.next();
+    this.endStatement();
+  }
+
+  private size(): number {
+    const token = this.peek();
+    const size = this.integer('a register size');
+    if (size === 0) {
+      this.fail('A register needs at least one bit.', token.start);
+    }
+    this.expect(']');
+    return size;
+  }
+
+  private declaration(): { name: Token; size: number; register: boolean } {
+    const keyword = this.next().value;
+    // qreg q[2]; creg c[2]; qubit[2] q; bit[2] c; qubit q;
+    if (keyword === 'qreg' || keyword === 'creg') {
+      const name = this.identifier('a register name');
+      this.expect('[');
+      return { name, size: this.size(), register: true };
+    }
+    const size = this.accept('[') ? this.size() : null;
+    return { name: this.identifier('a register name'), size: size ?? 1, register: size !== null };
+  }
+
+  private checkUnused(name: Token): void {
+    if (this.registers.has(name.value) || this.classicalRegisters.has(name.value) || this.inputs.has(name.value)) {
+      this.fail(`The name "${name.value}" is already declared.`, name.start);
+    }
+  }
+
+  private quantumRegister(): void {
+    const { name, size } = this.declaration();
+    this.checkUnused(name);
+    this.registers.set(name.value, { offset: this.qubitCount, size });
+    this.qubitCount += size;
+    this.endStatement();
+  }
+
+  private classicalRegister(): void {
+    const { name, size } = this.declaration();
+    this.checkUnused(name);
+    this.classicalRegisters.set(name.value, size);
+    this.endStatement();
+  }
+
+  private input(): void {
+    this.next();
+    const type = this.identifier('a type such as "float" or "angle"');
+    if (type.value !== 'float' && type.value !== 'angle') {
+      this.fail(`Only float and angle inputs are supported, but found "${type.value}".`, type.start);
+    }
+    if (this.accept('[')) {
+      this.integer('a bit width');
+      this.expect(']');
+    }
+    const name = this.identifier('a parameter name');
+    this.checkUnused(name);
+    this.inputs.add(name.value);
+    this.endStatement();
+  }
+
+  private qubitArgument(): QubitArgument {
+    const name = this.identifier('a qubit');
+    if (!this.accept('[')) {
+      return { name, index: null };
+    }
+    const index = this.integer('a qubit index');
+    this.expect(']');
+    return { name, index };
+  }
+
+  /** Qubits an argument refers to, and whether it is a whole register */
+  private resolveQubits(argument: QubitArgument, scope: Scope): { qubits: number[]; register: boolean } {
+    const { name, index } = argument;
+    if (scope.qubits) {
+      return { qubits: [scope.qubits.get(name.value)!], register: false };
+    }
+    const register = this.registers.get(name.value);
+    if (!register) {
+      this.fail(`There is no qubit register called "${name.value}".`, name.start);
+    }
+    if (index === null) {
+      return { qubits: Array.from({ length: register.size }, (_, i) => register.offset + i), register: true };
+    }
+    if (index >= register.size) {
+      this.fail(`${name.value}[${index}] is out of range. Register ${name.value} has ${register.size} qubit${register.size === 1 ? '' : 's'}, numbered 0 to ${register.size - 1}.`, name.start);
+    }
+    return { qubits: [register.offset + index], register: false };
+  }
+
+  /** Expand register arguments: `h q;` applies h to every qubit of q */
+  private broadcast(arguments_: QubitArgument[], scope: Scope): number[][] {
+    const resolved = arguments_.map(argument => this.resolveQubits(argument, scope));
+    let size = 1;
+    resolved.forEach((argument, i) => {
+      if (!argument.register) return;
+      if (size > 1 && argument.qubits.length !== size) {
+        this.fail(`Register "${arguments_[i]!.name.value}" has ${argument.qubits.length} qubits but the other registers in this statement have ${size}.`, arguments_[i]!.name.start);
+      }
+      size = argument.qubits.length;
+    });
+    return Array.from({ length: size }, (_, i) =>
+      resolved.map(argument => (argument.register ? argument.qubits[i] : argument.qubits[0])!)
+    );
+  }
+
+  private classicalTarget(): { size: number; register: boolean } {
+    const name = this.identifier('a classical bit');
+    const size = this.classicalRegisters.get(name.value);
+    if (size === undefined) {
+      this.fail(`There is no classical register called "${name.value}".`, name.start);
+    }
+    if (!this.accept('[')) {
+      return { size, register: true };
+    }
+    const indexToken = this.peek();
+    const index = this.integer('a bit index');
+    if (index >= size) {
+      this.fail(`${name.value}[${index}] is out of range. Register ${name.value} has ${size} bit${size === 1 ? '' : 's'}.`, indexToken.start);
+    }
+    this.expect(']');
+    return { size: 1, register: false };
+  }
+
+  private recordMeasurements(source: QubitArgument, target: { size: number; register: boolean } | null): void {
+    const { qubits, register } = this.resolveQubits(source, { qubits: null, parameters: new Map() });
+    if (target && (register !== target.register || (register && qubits.length !== target.size))) {
+      this.fail(`Cannot store ${qubits.length} measured qubit${qubits.length === 1 ? '' : 's'} in ${target.size} classical bit${target.size === 1 ? '' : 's'}.`, source.name.start);
+    }
+    for (const qubit of qubits) {
+      this.measured.add(qubit);
+      this.measurements.push({ qubit, basis: 'computational' });
+    }
+  }
+
+  // measure q[0] -> c[0];  measure q[0];
+  private measure(): void {
+    this.next();
+    const source = this.qubitArgument();
+    const target = this.accept('->') ? this.classicalTarget() : null;
+    this.recordMeasurements(source, target);
+    this.endStatement();
+  }
+
+  // c[0] = measure q[0];
+  private measureAssignment(): void {
+    const target = this.classicalTarget();
+    this.expect('=');
+    const keyword = this.peek();
+    if (keyword.value !== 'measure') {
+      this.fail('Only measurement results can be assigned to classical bits.', keyword.start);
+    }
+    this.next();
+    const source = this.qubitArgument();
+    this.recordMeasurements(source, target);
+    this.endStatement();
+  }
+
+  private angleArguments(): AngleArgument[] {
+    const angles: AngleArgument[] = [];
+    const open = this.expect('(');
+    if (this.accept(')')) return angles;
+
+    for (;;) {
+      const first = this.peek();
+      let depth = 0;
+      let last: Token | null = null;
+      for (let token = this.peek(); depth > 0 || (token.value !== ',' && token.value !== ')'); token = this.peek()) {
+        if (token.kind === 'end' || token.value === ';') {
+          this.fail('This list of angles is never closed. Add ")" to end it.', open.start);
+        }
+        if (token.value === '(') depth++;
+        if (token.value === ')') depth--;
+        last = this.next();
+      }
+      if (!last) {
+        this.fail(`Expected an angle but found ${this.describe(first)}.`, first.start);
+      }
+      angles.push({ text: this.source.slice(first.start, last.end), start: first.start });
+      if (this.next().value === ')') return angles;
+    }
+  }
+
+  private gateCall(): GateCall {
+    const modifiers: Modifier[] = [];
+    for (let token = this.peek(); MODIFIERS.has(token.value) && token.kind === 'identifier'; token = this.peek()) {
+      this.next();
+      if (token.value === 'negctrl' || token.value === 'pow') {
+        this.fail(`The "${token.value}" modifier is not supported. Use "ctrl" and "inv" instead.`, token.start);
+      }
+      let count = 1;
+      if (token.value === 'ctrl' && this.accept('(')) {
+        const countToken = this.peek();
+        count = this.integer('the number of controls');
+        if (count === 0) this.fail('"ctrl" needs at least one control.', countToken.start);
+        this.expect(')');
+      }
+      this.expect('@', ` after "${token.value}"`);
+      modifiers.push(token.value === 'ctrl' ? { kind: 'ctrl', count } : { kind: 'inv' });
+    }
+
+    const name = this.identifier('a gate name');
+    const parameters = this.peek().value === '(' ? this.angleArguments() : [];
+    const qubits = [this.qubitArgument()];
+    while (this.accept(',')) {
+      qubits.push(this.qubitArgument());
+    }
+    this.endStatement();
+    return { modifiers, name, parameters, qubits };
+  }
+
+  // gate name(params) a, b { ... }
+  private gateDeclaration(): void {
+    this.next();
+    const name = this.identifier('a gate name');
+    if (name.value in QASM_GATES || this.declarations.has(name.value)) {
+      this.fail(`The gate "${name.value}" is already defined.`, name.start);
+    }
+
+    const parameters: string[] = [];
+    if (this.accept('(') && !this.accept(')')) {
+      do {
+        parameters.push(this.identifier('a parameter name').value);
+      } while (this.accept(','));
+      this.expect(')', ' after the gate parameters');
+    }
+    const qubits = [this.identifier('a qubit name').value];
+    while (this.accept(',')) {
+      qubits.push(this.identifier('a qubit name').value);
+    }
+
+    const scope: Scope = {
+      qubits: new Map(qubits.map((qubit, i) => [qubit, i])),
+      parameters: new Map(parameters.map(parameter => [parameter, parameter])),
+    };
+    const body: GateCall[] = [];
+    this.expect('{', ' to start the gate body');
+    while (!this.accept('}')) {
+      if (this.peek().kind === 'end') {
+        this.fail(`The body of gate "${name.value}" is never closed. Add "}" to end it.`, name.start);
+      }
+      if (this.peek().value === 'barrier') {
+        this.skipStatement();
+        continue;
+      }
+      const call = this.gateCall();
+      this.lookup(call.name);
+      for (const qubit of call.qubits) {
+        if (qubit.index !== null || !scope.qubits!.has(qubit.name.value)) {
+          this.fail(`Inside gate "${name.value}", refer to qubits only by the names ${qubits.join(', ')}.`, qubit.name.start);
+        }
+      }
+      call.parameters.forEach(angle => this.angle(angle, scope));
+      body.push(call);
+    }
+
+    this.declarations.set(name.value, { parameters, qubits, body });
+  }
+
+  private lookup(name: Token): QasmGate | GateDeclaration {
+    const gate = QASM_GATES[name.value] ?? this.declarations.get(name.value);
+    if (!gate) {
+      const hint = QASM_GATES[name.value.toLowerCase()] ? ` Did you mean "${name.value.toLowerCase()}"?` : '';
+      this.fail(`Unknown gate "${name.value}".${hint}`, name.start);
+    }
+    return gate;
+  }
+
+  /** Validate an angle and substitute gate parameters into it */
+  private angle(argument: AngleArgument, scope: Scope): Angle {
+    const { text, start } = argument;
+    try {
+      validateAngle(text);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const position = error instanceof AngleExpressionError ? error.position : 0;
+      this.fail(`Could not read the angle "${text}": ${reason}.`, start + position);
+    }
+
+    for (const name of getAngleParameters(text)) {
+      if (!scope.parameters.has(name) && !this.inputs.has(name)) {
+        const offset = text.search(new RegExp(`(?<![\\w.])${name}(?!\\w)`, 'u'));
+        this.fail(`Unknown parameter "${name}". Declare it with "input float ${name};" (OpenQASM 3).`, start + Math.max(offset, 0));
+      }
+    }
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(text)) {
+      return Number(text);
+    }
+    if (scope.parameters.size === 0) {
+      return text;
+    }
+    return text.replace(/(?<![\w.])[\p{L}_][\p{L}\p{N}_]*/gu, name => {
+      const value = scope.parameters.get(name);
+      return value === undefined ? name : `(${value})`;
+    });
+  }
+
+  /**
+   * Apply a gate call. `controls` and `inverted` come from modifiers on
+   * enclosing custom gates.
+   */
+  private apply(call: GateCall, scope: Scope, controls: number[], inverted: boolean): void {
+    const gate = this.lookup(call.name);
+    let modifierControls = 0;
+    for (const modifier of call.modifiers) {
+      if (modifier.kind === 'ctrl') modifierControls += modifier.count;
+      else inverted = !inverted;
+    }
+
+    const isBuiltIn = 'base' in gate;
+    const expectedAngles = isBuiltIn ? gate.parameters : gate.parameters.length;
+    const expectedQubits = modifierControls + (isBuiltIn ? gate.controls + (gate.base === 'SWAP' ? 2 : 1) : gate.qubits.length);
+    if (call.parameters.length !== expectedAngles) {
+      this.fail(`Gate "${call.name.value}" takes ${expectedAngles} angle${expectedAngles === 1 ? '' : 's'}, but ${call.parameters.length} ${call.parameters.length === 1 ? 'was' : 'were'} given.`, call.name.start);
+    }
+    if (call.qubits.length !== expectedQubits) {
+      this.fail(`Gate "${call.name.value}" acts on ${expectedQubits} qubit${expectedQubits === 1 ? '' : 's'}, but ${call.qubits.length} ${call.qubits.length === 1 ? 'was' : 'were'} given.`, call.name.start);
+    }
+
+    const angles = call.parameters.map(argument => this.angle(argument, scope));
+    for (const qubits of this.broadcast(call.qubits, scope)) {
+      const outerControls = [...qubits.slice(0, modifierControls), ...controls];
+      const own = qubits.slice(modifierControls);
+
+      if (isBuiltIn) {
+        const [base, baseAngles] = inverted
+          ? invert(gate.base, gate.angles ? gate.angles(angles) : angles)
+          : [gate.base, gate.angles ? gate.angles(angles) : angles];
+        this.addGate(call.name, base, baseAngles, [...own.slice(0, gate.controls), ...outerControls], own.slice(gate.controls));
+      } else {
+        const inner: Scope = {
+          qubits: new Map(gate.qubits.map((name, i) => [name, own[i]!])),
+          parameters: new Map(gate.parameters.map((name, i) => [name, String(angles[i])])),
+        };
+        const body = inverted ? [...gate.body].reverse() : gate.body;
+        body.forEach(bodyCall => this.apply(bodyCall, inner, outerControls, inverted));
+      }
+    }
+  }
+
+  private qubitName(qubit: number): string {
+    for (const [name, { offset, size }] of this.registers) {
+      if (qubit >= offset && qubit < offset + size) return `${name}[${qubit - offset}]`;
+    }
+    return `qubit ${qubit}`;
+  }
+
+  private addGate(name: Token, base: BaseGate, angles: Angle[], controls: number[], targets: number[]): void {
+    const type = namedForm(base, controls.length);
+    const implicit = GATE_DEFINITIONS[type].controls;
+    const gate: QuantumGate = {
+      type,
+      target: targets[0]!,
+      ...(targets[1] !== undefined ? { target2: targets[1] } : {}),
+      ...(implicit > 0 ? { control: controls[0]! } : {}),
+      ...(controls.length > (implicit > 0 ? 1 : 0) ? { controls: controls.slice(implicit > 0 ? 1 : 0) } : {}),
+      ...(base === 'U3' ? { angles } : angles.length > 0 ? { angle: angles[0]! } : {}),
+    };
+
+    const qubits = [...controls, ...targets];
+    const repeated = qubits.find((qubit, i) => qubits.indexOf(qubit) !== i);
+    if (repeated !== undefined) {
+      this.fail(`Gate "${name.value}" uses ${this.qubitName(repeated)} more than once.`, name.start);
+    }
+    const measured = qubits.find(qubit => this.measured.has(qubit));
+    if (measured !== undefined) {
+      this.fail(`${this.qubitName(measured)} is used after it was measured. Measurements must come after all gates on that qubit.`, name.start);
+    }
+    try {
+      validateGate(gate, this.qubitCount);
+    } catch (error) {
+      this.fail(`${error instanceof Error ? error.message : String(error)}.`, name.start);
+    }
+
+    this.gates.push(getGateParameters(gate).length > 0 ? gate : { ...gate, matrix: getGateMatrix(gate)! });
+  }
+}
+
+/**
+ * Parse an OpenQASM 2.0 or 3.0 program into a circuit. Supports register
+ * declarations, the standard gate libraries, `ctrl @` and `inv @`
+ * modifiers, custom `gate` definitions, `input` parameters and final
+ * measurements. Throws QasmParseError with the line and column of the
+ * first problem.
+ */
+export function parseQasm(source: string): QuantumCircuit {
+  return new QasmParser(source).parse();
+}
+
+function serializeGate(gate: QuantumGate, version: QasmVersion): string {
+  if (gate.type === 'CUSTOM') {
+    throw new Error('CUSTOM gates cannot be written as OpenQASM; express them with U3 and controls');
+  }
+
+  const base = baseOf(gate.type);
+  const controls = getGateControls(gate);
+  const angles = getGateAngles(gate).map(formatAngle);
+  const qubit = (index: number) => `q[${index}]`;
+  const call = (name: string, qubits: number[]) =>
+    `${name}${angles.length > 0 ? `(${angles.join(', ')})` : ''} ${qubits.map(qubit).join(', ')};`;
+
+  if (version === '2.0' && base === 'U3' && controls.length === 1) {
+    return call('cu3', [...controls, ...getGateTargets(gate)]);
+  }
+
+  const type = namedForm(base, controls.length);
+  const implicit = GATE_DEFINITIONS[type].controls;
+  const extra = controls.slice(implicit);
+  const name = (version === '2.0' ? QASM2_NAMES[type] : QASM3_NAMES[type]) ?? QASM_NAMES[type];
+  if (extra.length > 0 && version === '2.0') {
+    throw new Error(`${gate.type} with ${controls.length} controls cannot be written in OpenQASM 2.0; export as 3.0`);
+  }
+  const modifier = extra.length === 0 ? '' : extra.length === 1 ? 'ctrl @ ' : `ctrl(${extra.length}) @ `;
+  return call(`${modifier}${name}`, [...extra, ...controls.slice(0, implicit), ...getGateTargets(gate)]);
+}
+
+/**
+ * Write a circuit as OpenQASM. Qubits go in one register `q` and results
+ * in `c`, with qubit i measured into c[i]. Free parameters become `input`
+ * declarations, which need OpenQASM 3.0. X and Y basis measurements are
+ * written as a basis change followed by a standard measurement.
+ */
+export function serializeQasm(circuit: QuantumCircuit, options: QasmSerializeOptions = {}): string {
+  const version = options.version ?? '3.0';
+  const lines = [`OPENQASM ${version};`, version === '2.0' ? 'include "qelib1.inc";' : 'include "stdgates.inc";'];
+
+  const parameters = [...new Set(circuit.gates.flatMap(getGateParameters))].sort();
+  if (parameters.length > 0) {
+    if (version === '2.0') {
+      throw new Error(`OpenQASM 2.0 has no free parameters; bind ${parameters.join(', ')} first or export as 3.0`);
+    }
+    lines.push(...parameters.map(parameter => `input float[64] ${parameter};`));
+  }
+
+  lines.push(version === '2.0' ? `qreg q[${circuit.qubits}];` : `qubit[${circuit.qubits}] q;`);
+  if (circuit.measurements.length > 0) {
+    lines.push(version === '2.0' ? `creg c[${circuit.qubits}];` : `bit[${circuit.qubits}] c;`);
+  }
+
+  lines.push(...circuit.gates.map(gate => serializeGate(gate, version)));
+
+  for (const { qubit, basis } of circuit.measurements) {
+    if (basis === 'x') {
+      lines.push(`h q[${qubit}];`);
+    } else if (basis === 'y') {
+      lines.push(`sdg q[${qubit}];`, `h q[${qubit}];`);
+    }
+    lines.push(version === '2.0' ? `measure q[${qubit}] -> c[${qubit}];` : `c[${qubit}] = measure q[${qubit}];`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -6,14 +6,77 @@ import type {
   Complex,
   BlochVector,
   Measurement,
-  QuantumVisualizationEvents 
+  ParameterBindings,
+  QuantumVisualizationEvents,
+  RunOptions,
+  RunResult
 } from '../types/index.js';
-
+import { StateVector } from './state-vector.js';
+import {
+  getGateAngles,
+  getGateControls,
+  getGateMatrix,
+  getGateParameters,
+  validateGate
+} from './gates.js';
+import { getAngleParameters, resolveAngle } from './parameters.js';
+import { serializeQasm } from './qasm.js';
+import type { QasmSerializeOptions } from './qasm.js';
+import { applyGateNoise, applyReadoutError, hasGateNoise, validateNoiseModel } from './noise.js';
+import { createRandom } from './random.js';
+
+const DEFAULT_SHOTS = 1024;
+
+/**
+ * Apply a gate to a state vector, resolving its matrix if needed. Returns
+ * the matrix used, or null for swaps.
+ */
+function applyToState(state: StateVector, gate: QuantumGate, bindings: ParameterBindings): Complex[][] | null {
+  const controls = getGateControls(gate);
+  const matrix = gate.matrix ?? getGateMatrix(gate, bindings);
+
+  if (matrix) {
+    state.applyGate(gate.target, matrix, controls);
+  } else {
+    state.swap(gate.target, gate.target2!, controls);
+  }
+  return matrix;
+}
+
+/**
+ * Rotations taking a measurement basis onto Z, and back
+ */
+function getBasisChange(basis: Measurement['basis']): [Complex[][][], Complex[][][]] {
+  const matrix = (type: 'H' | 'S' | 'SDG') => getGateMatrix({ type, target: 0 })!;
+  switch (basis) {
+    case 'x':
+      return [[matrix('H')], [matrix('H')]];
+    case 'y':
+      return [[matrix('SDG'), matrix('H')], [matrix('H'), matrix('S')]];
+    default:
+      return [[], []];
+  }
+}
+
+function measureState(state: StateVector, { qubit, basis }: Measurement, random: () => number): { outcome: 0 | 1; probability: number } {
+  const [toZ, fromZ] = getBasisChange(basis);
+  toZ.forEach(matrix => state.applyGate(qubit, matrix));
+  const result = state.measure(qubit, random);
+  fromZ.forEach(matrix => state.applyGate(qubit, matrix));
+  return result;
+}
+
+/**
+ * Simulates circuits on the full 2^n state vector, so entanglement and
+ * correlated measurement outcomes behave as they do on real hardware.
+ * Qubit 0 is the least significant bit of basis state indices.
+ */
 export class QuantumCircuitSimulator extends EventEmitter<QuantumVisualizationEvents> {
-  private qubits: QubitState[] = [];
+  private state: StateVector;
   private circuit: QuantumCircuit;
   private executionStep = 0;
   private measurementResults: Map<number, 0 | 1> = new Map();
+  private random: () => number = Math.random;
 
   constructor(numQubits: number) {
     super();
@@ -25,103 +88,65 @@ export class QuantumCircuitSimulator extends EventEmitter<QuantumVisualizationEv
     };
 
     // Initialize all qubits to |0⟩ state
-    this.initializeQubits();
+    this.state = new StateVector(numQubits);
   }
 
-  private initializeQubits(): void {
-    this.qubits = Array(this.circuit.qubits).fill(null).map(() => ({
-      alpha: { real: 1, imaginary: 0 }, // |0⟩ state
-      beta: { real: 0, imaginary: 0 }
-    }));
+  /**
+   * Add a gate. Angles may be expressions over named parameters (`'theta/2'`);
+   * such gates get their matrix when the circuit runs with bindings.
+   */
+  addGate(gate: QuantumGate): void {
+    validateGate(gate, this.circuit.qubits);
+
+    const symbolic = getGateParameters(gate).length > 0;
+    const matrix = symbolic ? null : getGateMatrix(gate);
+    const { matrix: _customMatrix, ...rest } = gate;
+    this.circuit.gates.push(matrix ? { ...rest, matrix } : rest);
   }
 
-  addGate(gate: Omit<QuantumGate, 'matrix'>): void {
-    const gateWithMatrix: QuantumGate = {
-      ...gate,
-      matrix: this.getGateMatrix(gate.type, gate.angle)
-    };
-
-    this.circuit.gates.push(gateWithMatrix);
+  /**
+   * Names of the free parameters used by the circuit's gates
+   */
+  getParameters(): string[] {
+    return [...new Set(this.circuit.gates.flatMap(getGateParameters))].sort();
   }
 
-  private getGateMatrix(type: QuantumGate['type'], angle?: number): Complex[][] {
-    const cos = (a: number) => Math.cos(a);
-    const sin = (a: number) => Math.sin(a);
-    const zero: Complex = { real: 0, imaginary: 0 };
-    const one: Complex = { real: 1, imaginary: 0 };
-    const minusOne: Complex = { real: -1, imaginary: 0 };
-    const i: Complex = { real: 0, imaginary: 1 };
-    const minusI: Complex = { real: 0, imaginary: -1 };
-
-    switch (type) {
-      case 'X': // Pauli-X (NOT gate)
-        return [
-          [zero, one],
-          [one, zero]
-        ];
-
-      case 'Y': // Pauli-Y
-        return [
-          [zero, minusI],
-          [i, zero]
-        ];
-
-      case 'Z': // Pauli-Z
-        return [
-          [one, zero],
-          [zero, minusOne]
-        ];
-
-      case 'H': // Hadamard
-        const invSqrt2 = { real: 1 / Math.sqrt(2), imaginary: 0 };
-        return [
-          [invSqrt2, invSqrt2],
-          [invSqrt2, { real: -1 / Math.sqrt(2), imaginary: 0 }]
-        ];
-
-      case 'S': // Phase gate
-        return [
-          [one, zero],
-          [zero, i]
-        ];
-
-      case 'T': // π/8 gate
-        return [
-          [one, zero],
-          [zero, { real: cos(Math.PI / 4), imaginary: sin(Math.PI / 4) }]
-        ];
-
-      case 'RX': // Rotation around X-axis
-        if (angle === undefined) throw new Error('RX gate requires angle parameter');
-        return [
-          [{ real: cos(angle / 2), imaginary: 0 }, { real: 0, imaginary: -sin(angle / 2) }],
-          [{ real: 0, imaginary: -sin(angle / 2) }, { real: cos(angle / 2), imaginary: 0 }]
-        ];
-
-      case 'RY': // Rotation around Y-axis
-        if (angle === undefined) throw new Error('RY gate requires angle parameter');
-        return [
-          [{ real: cos(angle / 2), imaginary: 0 }, { real: -sin(angle / 2), imaginary: 0 }],
-          [{ real: sin(angle / 2), imaginary: 0 }, { real: cos(angle / 2), imaginary: 0 }]
-        ];
-
-      case 'RZ': // Rotation around Z-axis
-        if (angle === undefined) throw new Error('RZ gate requires angle parameter');
-        return [
-          [{ real: cos(angle / 2), imaginary: -sin(angle / 2) }, zero],
-          [zero, { real: cos(angle / 2), imaginary: sin(angle / 2) }]
-        ];
-
-      default:
-        throw new Error(`Unsupported gate type: ${type}`);
+  /**
+   * A copy of this circuit with the given parameters substituted
+   */
+  bindParameters(bindings: ParameterBindings): QuantumCircuitSimulator {
+    const bound = new QuantumCircuitSimulator(this.circuit.qubits);
+    for (const gate of this.circuit.gates) {
+      // Expressions with parameters left unbound stay symbolic
+      const angles = getGateAngles(gate).map(angle =>
+        getAngleParameters(angle).every(name => name in bindings) ? resolveAngle(angle, bindings) : angle
+      );
+      if (gate.angles) {
+        bound.addGate({ ...gate, angles });
+      } else if (gate.angle !== undefined) {
+        bound.addGate({ ...gate, angle: angles[0]! });
+      } else {
+        bound.addGate(gate);
+      }
+    }
+    for (const { qubit, basis } of this.circuit.measurements) {
+      bound.addMeasurement(qubit, basis);
     }
+    return bound;
   }
 
-  executeCircuit(): void {
-    const originalStates = this.qubits.map(q => ({ ...q }));
+  /**
+   * Run the circuit from |0...0⟩, binding any symbolic angles first
+   */
+  executeCircuit(bindings: ParameterBindings = {}): void {
+    this.assertBound(bindings);
+
+    this.state.reset();
+    this.measurementResults.clear();
+    this.executionStep = 0;
 
     for (const gate of this.circuit.gates) {
-      this.applyGate(gate);
+      this.applyGate(gate, bindings);
       this.executionStep++;
     }
 
@@ -132,160 +157,165 @@ export class QuantumCircuitSimulator extends EventEmitter<QuantumVisualizationEv
 
     this.emit('circuit-executed', {
       circuit: this.circuit,
-      finalStates: this.qubits
+      finalStates: this.getAllStates()
     });
   }
 
-  private applyGate(gate: QuantumGate): void {
-    if (!gate.matrix) return;
-
-    const beforeQubit = this.qubits[gate.target];
-    if (!beforeQubit) {
-      throw new Error(`Qubit at index ${gate.target} is undefined`);
+  private assertBound(bindings: ParameterBindings): void {
+    const unbound = this.getParameters().filter(name => !(name in bindings));
+    if (unbound.length > 0) {
+      throw new Error(`Unbound parameters: ${unbound.join(', ')}`);
     }
+  }
 
-    const beforeState: QubitState = { 
-      alpha: { real: beforeQubit.alpha.real, imaginary: beforeQubit.alpha.imaginary }, 
-      beta: { real: beforeQubit.beta.real, imaginary: beforeQubit.beta.imaginary } 
-    };
+  private applyGate(gate: QuantumGate, bindings: ParameterBindings): void {
+    const beforeState = this.getQubitState(gate.target);
+    const matrix = applyToState(this.state, gate, bindings);
 
-    if (gate.type === 'CNOT' && gate.control !== undefined) {
-      this.applyCNOTGate(gate.control, gate.target);
-    } else {
-      this.applySingleQubitGate(gate.target, gate.matrix);
-    }
-
-    const afterQubit = this.qubits[gate.target];
-    if (!afterQubit) {
-      throw new Error(`Qubit at index ${gate.target} is undefined after gate application`);
-    }
-    
     this.emit('gate-applied', {
-      gate,
+      gate: matrix ? { ...gate, matrix } : gate,
       beforeState,
-      afterState: afterQubit
+      afterState: this.getQubitState(gate.target)
     });
   }
 
-  private applySingleQubitGate(qubit: number, matrix: Complex[][]): void {
-    if (qubit >= this.qubits.length) {
+  private performMeasurement(measurement: Measurement): void {
+    const qubit = measurement.qubit;
+    if (qubit < 0 || qubit >= this.circuit.qubits) {
       throw new Error(`Qubit index ${qubit} out of range`);
     }
 
-    const state = this.qubits[qubit];
-    if (!state) {
-      throw new Error(`Qubit state at index ${qubit} is undefined`);
-    }
-
-    const [alpha, beta] = [state.alpha, state.beta];
+    // Rotate the measurement basis onto Z, measure, and rotate back
+    const { outcome, probability } = measureState(this.state, measurement, this.random);
 
-    // Matrix multiplication: |ψ'⟩ = U|ψ⟩
-    const newAlpha = this.complexAdd(
-      this.complexMultiply(matrix[0]?.[0] ?? { real: 0, imaginary: 0 }, alpha),
-      this.complexMultiply(matrix[0]?.[1] ?? { real: 0, imaginary: 0 }, beta)
-    );
+    measurement.result = outcome;
+    this.measurementResults.set(qubit, outcome);
 
-    const newBeta = this.complexAdd(
-      this.complexMultiply(matrix[1]?.[0] ?? { real: 0, imaginary: 0 }, alpha),
-      this.complexMultiply(matrix[1]?.[1] ?? { real: 0, imaginary: 0 }, beta)
-    );
-
-    this.qubits[qubit] = { alpha: newAlpha, beta: newBeta };
+    this.emit('measurement-performed', { measurement, probability });
   }
 
-  private applyCNOTGate(control: number, target: number): void {
-    // CNOT gate: |00⟩ → |00⟩, |01⟩ → |01⟩, |10⟩ → |11⟩, |11⟩ → |10⟩
-    // Simplified implementation for demonstration
-    const controlState = this.qubits[control];
-    const targetState = this.qubits[target];
+  /**
+   * Seed the measurements of `executeCircuit()`; call without a seed to go
+   * back to Math.random
+   */
+  setSeed(seed?: number | string): void {
+    this.random = createRandom(seed);
+  }
 
-    if (!controlState || !targetState) {
-      throw new Error(`Invalid qubit indices for CNOT gate: control=${control}, target=${target}`);
+  /**
+   * Run the circuit `shots` times and count the measured bitstrings. Without
+   * measurements every qubit is measured. Noisy circuits are simulated one
+   * quantum trajectory per shot; noiseless ones are sampled from the final
+   * state. The simulator's own state is left untouched.
+   */
+  run(options: RunOptions = {}): RunResult {
+    const { shots = DEFAULT_SHOTS, seed, bindings = {}, noise } = options;
+    if (!Number.isInteger(shots) || shots < 1) {
+      throw new Error(`Shots must be a positive integer, got ${shots}`);
     }
-
-    // If control qubit is in |1⟩ state (beta component dominant), flip target
-    const controlProbabilityOne = this.getStateProbability(controlState, 1);
-    
-    if (controlProbabilityOne > 0.5) {
-      // Apply X gate to target
-      const xMatrix = this.getGateMatrix('X');
-      this.applySingleQubitGate(target, xMatrix);
+    if (noise) {
+      validateNoiseModel(noise);
     }
-  }
+    this.assertBound(bindings);
 
-  private performMeasurement(measurement: Measurement): void {
-    const qubit = this.qubits[measurement.qubit];
-    if (!qubit) {
-      throw new Error(`Qubit at index ${measurement.qubit} is undefined`);
-    }
+    const random = createRandom(seed);
+    const gates = this.circuit.gates.map(gate => {
+      const matrix = gate.matrix ?? getGateMatrix(gate, bindings);
+      return matrix ? { ...gate, matrix } : gate;
+    });
+    const measurements: Measurement[] = this.circuit.measurements.length > 0
+      ? this.circuit.measurements
+      : Array.from({ length: this.circuit.qubits }, (_, qubit) => ({ qubit, basis: 'computational' as const }));
+    const qubits = [...new Set(measurements.map(measurement => measurement.qubit))].sort((a, b) => b - a);
+
+    const counts: Record<string, number> = {};
+    const record = (outcome: (qubit: number) => 0 | 1) => {
+      const key = qubits.map(qubit => applyReadoutError(outcome(qubit), noise, random)).join('');
+      counts[key] = (counts[key] ?? 0) + 1;
+    };
 
-    const probability = this.getStateProbability(qubit, 1);
-    
-    // Simulate measurement collapse
-    const result = Math.random() < probability ? 1 : 0;
-    measurement.result = result;
-    this.measurementResults.set(measurement.qubit, result);
-
-    // Collapse the state
-    if (result === 0) {
-      this.qubits[measurement.qubit] = {
-        alpha: { real: 1, imaginary: 0 },
-        beta: { real: 0, imaginary: 0 }
-      };
+    const state = new StateVector(this.circuit.qubits);
+    if (!hasGateNoise(noise) && qubits.length === measurements.length) {
+      // Measurements come last and touch distinct qubits, so one pass gives the distribution
+      gates.forEach(gate => applyToState(state, gate, bindings));
+      measurements.forEach(({ qubit, basis }) => getBasisChange(basis)[0].forEach(matrix => state.applyGate(qubit, matrix)));
+
+      let total = 0;
+      const cumulative = state.probabilities().map(probability => (total += probability));
+      for (let shot = 0; shot < shots; shot++) {
+        const draw = random() * total;
+        let low = 0;
+        let high = cumulative.length - 1;
+        while (low < high) {
+          const middle = (low + high) >> 1;
+          if (cumulative[middle]! > draw) high = middle;
+          else low = middle + 1;
+        }
+        record(qubit => ((low >> qubit) & 1) as 0 | 1);
+      }
     } else {
-      this.qubits[measurement.qubit] = {
-        alpha: { real: 0, imaginary: 0 },
-        beta: { real: 1, imaginary: 0 }
-      };
+      for (let shot = 0; shot < shots; shot++) {
+        state.reset();
+        for (const gate of gates) {
+          applyToState(state, gate, bindings);
+          if (noise) applyGateNoise(state, gate, noise, random);
+        }
+        const outcomes = new Map<number, 0 | 1>();
+        measurements.forEach(measurement => outcomes.set(measurement.qubit, measureState(state, measurement, random).outcome));
+        record(qubit => outcomes.get(qubit)!);
+      }
     }
 
-    this.emit('measurement-performed', { measurement, probability });
+    return { shots, qubits, counts };
   }
 
-  private getStateProbability(state: QubitState, outcome: 0 | 1): number {
-    if (outcome === 0) {
-      // Probability of measuring |0⟩
-      return state.alpha.real ** 2 + state.alpha.imaginary ** 2;
-    } else {
-      // Probability of measuring |1⟩
-      return state.beta.real ** 2 + state.beta.imaginary ** 2;
+  /**
+   * State of a single qubit. Exact when the qubit is not entangled; for
+   * entangled qubits this is the pure state along its Bloch vector, so use
+   * `getBlochVector()` or `getReducedDensityMatrix()` to see the mixing.
+   */
+  getQubitState(index: number): QubitState {
+    if (index >= this.circuit.qubits) {
+      throw new Error(`Qubit index ${index} out of range`);
     }
+    return this.state.qubitState(index);
   }
 
-  private complexAdd(a: Complex, b: Complex): Complex {
-    return {
-      real: a.real + b.real,
-      imaginary: a.imaginary + b.imaginary
-    };
+  getAllStates(): QubitState[] {
+    return Array.from({ length: this.circuit.qubits }, (_, index) => this.state.qubitState(index));
   }
 
-  private complexMultiply(a: Complex, b: Complex): Complex {
-    return {
-      real: a.real * b.real - a.imaginary * b.imaginary,
-      imaginary: a.real * b.imaginary + a.imaginary * b.real
-    };
+  /**
+   * Bloch vector from the qubit's reduced density matrix. Its length is
+   * below 1 when the qubit is entangled with others.
+   */
+  getBlochVector(qubit: number): BlochVector {
+    if (qubit >= this.circuit.qubits) {
+      throw new Error(`Qubit index ${qubit} out of range`);
+    }
+    return this.state.blochVector(qubit);
   }
 
-  getQubitState(index: number): QubitState {
-    if (index >= this.qubits.length) {
-      throw new Error(`Qubit index ${index} out of range`);
-    }
-    return { ...this.qubits[index] };
+  getReducedDensityMatrix(qubit: number): Complex[][] {
+    return this.state.reducedDensityMatrix(qubit);
   }
 
-  getAllStates(): QubitState[] {
-    return this.qubits.map(q => ({ ...q }));
+  isEntangled(qubit: number): boolean {
+    return this.state.isEntangled(qubit);
   }
 
-  getBlochVector(qubit: number): BlochVector {
-    const state = this.getQubitState(qubit);
-    
-    // Convert quantum state to Bloch sphere coordinates
-    const x = 2 * (state.alpha.real * state.beta.real + state.alpha.imaginary * state.beta.imaginary);
-    const y = 2 * (state.alpha.imaginary * state.beta.real - state.alpha.real * state.beta.imaginary);
-    const z = state.alpha.real ** 2 + state.alpha.imaginary ** 2 - state.beta.real ** 2 - state.beta.imaginary ** 2;
-    
-    return { x, y, z };
+  /**
+   * Amplitudes of all 2^n basis states
+   */
+  getStateVector(): Complex[] {
+    return this.state.getAmplitudes();
+  }
+
+  /**
+   * Probability of each of the 2^n basis states
+   */
+  getProbabilities(): number[] {
+    return this.state.probabilities();
   }
 
   addMeasurement(qubit: number, basis: Measurement['basis'] = 'computational'): void {
@@ -297,13 +327,20 @@ export class QuantumCircuitSimulator extends EventEmitter<QuantumVisualizationEv
     this.circuit.measurements = [];
     this.measurementResults.clear();
     this.executionStep = 0;
-    this.initializeQubits();
+    this.state.reset();
   }
 
   getCircuit(): QuantumCircuit {
     return { ...this.circuit };
   }
 
+  /**
+   * The circuit as an OpenQASM program (3.0 unless another version is asked for)
+   */
+  toQasm(options: QasmSerializeOptions = {}): string {
+    return serializeQasm(this.circuit, options);
+  }
+
   getMeasurementResults(): Map<number, 0 | 1> {
     return new Map(this.measurementResults);
   }
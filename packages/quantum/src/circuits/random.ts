@@ -0,0 +1,28 @@
+/**
+ * Random numbers in [0, 1). With a seed the sequence is reproducible
+ * (mulberry32), so a lesson can replay exactly the same shots; without one
+ * this is Math.random.
+ */
+export function createRandom(seed?: number | string): () => number {
+  if (seed === undefined) {
+    return Math.random;
+  }
+
+  let state = typeof seed === 'number' && Number.isInteger(seed) ? seed >>> 0 : hash(String(seed));
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value = Math.imul(value ^ text.charCodeAt(i), 0x01000193);
+  }
+  return value >>> 0;
+}
@@ -0,0 +1,359 @@
+import type { BlochVector, Complex, QubitState } from '../types/index.js';
+
+/**
+ * Largest register the simulator accepts: 2^20 amplitudes, about 16 MB
+ */
+export const MAX_STATE_VECTOR_QUBITS = 20;
+
+const EPSILON = 1e-12;
+
+export function complex(real: number, imaginary = 0): Complex {
+  return { real, imaginary };
+}
+
+/** |x·a + y·b|² */
+function normSquared(x: Complex, a: Complex, y: Complex, b: Complex): number {
+  const real = x.real * a.real - x.imaginary * a.imaginary + y.real * b.real - y.imaginary * b.imaginary;
+  const imaginary = x.real * a.imaginary + x.imaginary * a.real + y.real * b.imaginary + y.imaginary * b.real;
+  return real * real + imaginary * imaginary;
+}
+
+/**
+ * Full 2^n complex state vector. Qubit 0 is the least significant bit of
+ * the basis index, so amplitude 1 of a two-qubit register is |q1 q0⟩ = |01⟩.
+ */
+export class StateVector {
+  readonly numQubits: number;
+  private real: Float64Array;
+  private imag: Float64Array;
+
+  constructor(numQubits: number) {
+    if (!Number.isInteger(numQubits) || numQubits < 1) {
+      throw new Error(`Number of qubits must be a positive integer, got ${numQubits}`);
+    }
+    if (numQubits > MAX_STATE_VECTOR_QUBITS) {
+      throw new Error(`State vector simulation supports at most ${MAX_STATE_VECTOR_QUBITS} qubits, got ${numQubits}`);
+    }
+
+    this.numQubits = numQubits;
+    this.real = new Float64Array(1 << numQubits);
+    this.imag = new Float64Array(1 << numQubits);
+    this.real[0] = 1;
+  }
+
+  /**
+   * Build a state from amplitudes, normalizing them
+   */
+  static fromAmplitudes(amplitudes: Complex[]): StateVector {
+    const numQubits = Math.log2(amplitudes.length);
+    if (!Number.isInteger(numQubits)) {
+      throw new Error(`Amplitude count must be a power of two, got ${amplitudes.length}`);
+    }
+
+    const state = new StateVector(numQubits);
+    amplitudes.forEach((amplitude, index) => {
+      state.real[index] = amplitude.real;
+      state.imag[index] = amplitude.imaginary;
+    });
+    state.normalize();
+    return state;
+  }
+
+  get size(): number {
+    return this.real.length;
+  }
+
+  reset(): void {
+    this.real.fill(0);
+    this.imag.fill(0);
+    this.real[0] = 1;
+  }
+
+  clone(): StateVector {
+    const copy = new StateVector(this.numQubits);
+    copy.real.set(this.real);
+    copy.imag.set(this.imag);
+    return copy;
+  }
+
+  amplitude(index: number): Complex {
+    if (index < 0 || index >= this.size) {
+      throw new Error(`Basis state ${index} out of range`);
+    }
+    return complex(this.real[index]!, this.imag[index]!);
+  }
+
+  getAmplitudes(): Complex[] {
+    return Array.from(this.real, (real, index) => complex(real, this.imag[index]!));
+  }
+
+  /**
+   * Probability of each basis state
+   */
+  probabilities(): number[] {
+    return Array.from(this.real, (real, index) => real ** 2 + this.imag[index]! ** 2);
+  }
+
+  /**
+   * Apply a 2x2 unitary to `target`, only where every control qubit is 1
+   */
+  applyGate(target: number, matrix: Complex[][], controls: readonly number[] = []): void {
+    this.assertQubit(target);
+    controls.forEach(control => {
+      this.assertQubit(control);
+      if (control === target) {
+        throw new Error(`Qubit ${target} cannot be both control and target`);
+      }
+    });
+
+    const [m00, m01, m10, m11] = [matrix[0]?.[0], matrix[0]?.[1], matrix[1]?.[0], matrix[1]?.[1]];
+    if (!m00 || !m01 || !m10 || !m11) {
+      throw new Error('Gate matrix must be 2x2');
+    }
+
+    const targetBit = 1 << target;
+    const controlMask = controls.reduce((mask, control) => mask | (1 << control), 0);
+
+    for (let index = 0; index < this.size; index++) {
+      // Visit each amplitude pair once, from its |0⟩ member
+      if (index & targetBit || (index & controlMask) !== controlMask) {
+        continue;
+      }
+      const partner = index | targetBit;
+      const ar = this.real[index]!;
+      const ai = this.imag[index]!;
+      const br = this.real[partner]!;
+      const bi = this.imag[partner]!;
+
+      this.real[index] = m00.real * ar - m00.imaginary * ai + m01.real * br - m01.imaginary * bi;
+      this.imag[index] = m00.real * ai + m00.imaginary * ar + m01.real * bi + m01.imaginary * br;
+      this.real[partner] = m10.real * ar - m10.imaginary * ai + m11.real * br - m11.imaginary * bi;
+      this.imag[partner] = m10.real * ai + m10.imaginary * ar + m11.real * bi + m11.imaginary * br;
+    }
+  }
+
+  /**
+   * Exchange two qubits, only where every control qubit is 1
+   */
+  swap(a: number, b: number, controls: readonly number[] = []): void {
+    this.assertQubit(a);
+    this.assertQubit(b);
+    if (a === b) {
+      return;
+    }
+
+    const aBit = 1 << a;
+    const bBit = 1 << b;
+    const controlMask = controls.reduce((mask, control) => mask | (1 << control), 0);
+
+    for (let index = 0; index < this.size; index++) {
+      // Swap |..1..0..⟩ with |..0..1..⟩, visiting each pair once
+      if (!(index & aBit) || index & bBit || (index & controlMask) !== controlMask) {
+        continue;
+      }
+      const partner = (index & ~aBit) | bBit;
+      [this.real[index], this.real[partner]] = [this.real[partner]!, this.real[index]!];
+      [this.imag[index], this.imag[partner]] = [this.imag[partner]!, this.imag[index]!];
+    }
+  }
+
+  /**
+   * Probability of measuring `qubit` as `outcome`
+   */
+  probability(qubit: number, outcome: 0 | 1): number {
+    this.assertQubit(qubit);
+    const bit = 1 << qubit;
+    let total = 0;
+    for (let index = 0; index < this.size; index++) {
+      if (((index & bit) !== 0) === (outcome === 1)) {
+        total += this.real[index]! ** 2 + this.imag[index]! ** 2;
+      }
+    }
+    return Math.min(total, 1);
+  }
+
+  /**
+   * Apply one Kraus operator of a noise channel to `qubit`, picked with
+   * probability ‖Kψ‖², and renormalize. This is one step of a quantum
+   * trajectory; averaged over runs it reproduces the channel. Returns the
+   * index of the operator applied.
+   */
+  applyChannel(qubit: number, operators: Complex[][][], random: () => number = Math.random): number {
+    this.assertQubit(qubit);
+    const bit = 1 << qubit;
+    const weights = operators.map(operator => {
+      const [k00, k01, k10, k11] = [operator[0]?.[0], operator[0]?.[1], operator[1]?.[0], operator[1]?.[1]];
+      if (!k00 || !k01 || !k10 || !k11) {
+        throw new Error('Kraus operators must be 2x2');
+      }
+      let weight = 0;
+      for (let index = 0; index < this.size; index++) {
+        if (index & bit) continue;
+        const partner = index | bit;
+        const a = { real: this.real[index]!, imaginary: this.imag[index]! };
+        const b = { real: this.real[partner]!, imaginary: this.imag[partner]! };
+        weight += normSquared(k00, a, k01, b) + normSquared(k10, a, k11, b);
+      }
+      return weight;
+    });
+
+    let draw = random() * weights.reduce((sum, weight) => sum + weight, 0);
+    let chosen = weights.findIndex(weight => (draw -= weight) < 0);
+    if (chosen === -1) {
+      // Rounding left the draw unspent; take the last operator that can occur
+      chosen = weights.reduce((last, weight, index) => (weight > EPSILON ? index : last), 0);
+    }
+
+    this.applyGate(qubit, operators[chosen]!);
+    this.normalize();
+    return chosen;
+  }
+
+  /**
+   * Project `qubit` onto `outcome` and renormalize. Entangled qubits
+   * collapse with it.
+   */
+  collapse(qubit: number, outcome: 0 | 1): void {
+    const probability = this.probability(qubit, outcome);
+    if (probability < EPSILON) {
+      throw new Error(`Cannot collapse qubit ${qubit} to ${outcome}: outcome has zero probability`);
+    }
+
+    const bit = 1 << qubit;
+    const scale = probability === 1 ? 1 : 1 / Math.sqrt(probability);
+    for (let index = 0; index < this.size; index++) {
+      if (((index & bit) !== 0) === (outcome === 1)) {
+        this.real[index]! *= scale;
+        this.imag[index]! *= scale;
+      } else {
+        this.real[index] = 0;
+        this.imag[index] = 0;
+      }
+    }
+  }
+
+  /**
+   * Measure `qubit` in the computational basis and collapse the state.
+   * `random` returns a number in [0, 1).
+   */
+  measure(qubit: number, random: () => number = Math.random): { outcome: 0 | 1; probability: number } {
+    const probabilityOne = this.probability(qubit, 1);
+    const outcome: 0 | 1 = random() < probabilityOne ? 1 : 0;
+    const probability = outcome === 1 ? probabilityOne : 1 - probabilityOne;
+    this.collapse(qubit, outcome);
+    return { outcome, probability };
+  }
+
+  /**
+   * 2x2 reduced density matrix of `qubit`, tracing out the others
+   */
+  reducedDensityMatrix(qubit: number): Complex[][] {
+    this.assertQubit(qubit);
+    const bit = 1 << qubit;
+    let rho00 = 0;
+    let rho11 = 0;
+    // ρ10 = Σ ψ(..1..) · conj(ψ(..0..))
+    let rho10r = 0;
+    let rho10i = 0;
+
+    for (let index = 0; index < this.size; index++) {
+      if (index & bit) {
+        continue;
+      }
+      const partner = index | bit;
+      const ar = this.real[index]!;
+      const ai = this.imag[index]!;
+      const br = this.real[partner]!;
+      const bi = this.imag[partner]!;
+      rho00 += ar * ar + ai * ai;
+      rho11 += br * br + bi * bi;
+      rho10r += br * ar + bi * ai;
+      rho10i += bi * ar - br * ai;
+    }
+
+    return [
+      [complex(rho00), complex(rho10r, -rho10i)],
+      [complex(rho10r, rho10i), complex(rho11)],
+    ];
+  }
+
+  /**
+   * Bloch vector of `qubit`. Entangled qubits are in a mixed state and
+   * have vectors shorter than 1; a maximally entangled qubit sits at the
+   * centre of the sphere.
+   */
+  blochVector(qubit: number): BlochVector {
+    const rho = this.reducedDensityMatrix(qubit);
+    const rho10 = rho[1]![0]!;
+    return {
+      x: 2 * rho10.real,
+      y: 2 * rho10.imaginary,
+      z: rho[0]![0]!.real - rho[1]![1]!.real,
+    };
+  }
+
+  /**
+   * Tr(ρ²) of `qubit`: 1 for a pure state, 0.5 when maximally mixed
+   */
+  purity(qubit: number): number {
+    const { x, y, z } = this.blochVector(qubit);
+    return (1 + x * x + y * y + z * z) / 2;
+  }
+
+  /**
+   * Whether `qubit` is entangled with the rest of the register
+   */
+  isEntangled(qubit: number): boolean {
+    return this.purity(qubit) < 1 - 1e-9;
+  }
+
+  /**
+   * Single-qubit state of `qubit` with a real, non-negative α. Exact for
+   * qubits that are not entangled; for entangled qubits this is the pure
+   * state along the Bloch vector's direction.
+   */
+  qubitState(qubit: number): QubitState {
+    const rho = this.reducedDensityMatrix(qubit);
+    const rho00 = rho[0]![0]!.real;
+    const rho11 = rho[1]![1]!.real;
+    const rho10 = rho[1]![0]!;
+
+    if (!this.isEntangled(qubit)) {
+      if (rho00 < EPSILON) {
+        return { alpha: complex(0), beta: complex(Math.sqrt(rho11)) };
+      }
+      const alpha = Math.sqrt(rho00);
+      return { alpha: complex(alpha), beta: complex(rho10.real / alpha, rho10.imaginary / alpha) };
+    }
+
+    const { x, y, z } = this.blochVector(qubit);
+    const length = Math.sqrt(x * x + y * y + z * z);
+    if (length < EPSILON) {
+      // Maximally mixed: no preferred direction
+      return { alpha: complex(Math.SQRT1_2), beta: complex(Math.SQRT1_2) };
+    }
+    const theta = Math.acos(Math.max(-1, Math.min(1, z / length)));
+    const phi = Math.atan2(y, x);
+    return {
+      alpha: complex(Math.cos(theta / 2)),
+      beta: complex(Math.cos(phi) * Math.sin(theta / 2), Math.sin(phi) * Math.sin(theta / 2)),
+    };
+  }
+
+  private normalize(): void {
+    const norm = Math.sqrt(this.probabilities().reduce((sum, p) => sum + p, 0));
+    if (norm < EPSILON) {
+      throw new Error('State vector must not be all zeros');
+    }
+    for (let index = 0; index < this.size; index++) {
+      this.real[index]! /= norm;
+      this.imag[index]! /= norm;
+    }
+  }
+
+  private assertQubit(qubit: number): void {
+    if (!Number.isInteger(qubit) || qubit < 0 || qubit >= this.numQubits) {
+      throw new Error(`Qubit index ${qubit} out of range`);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 export * from './types/index.js';
 export { BlochSphereRenderer } from './renderer/bloch-sphere.js';
+export { CircuitDiagramRenderer } from './renderer/circuit-diagram.js';
 export * from './circuits/index.js';
 
 // Quantum state utilities
@@ -288,7 +288,7 @@ export class BlochSphereRenderer extends EventEmitter<QuantumVisualizationEvents
     
     // Convert complex amplitudes to Bloch vector coordinates
     const x = 2 * (alpha.real * beta.real + alpha.imaginary * beta.imaginary);
-    const y = 2 * (alpha.imaginary * beta.real - alpha.real * beta.imaginary);
+    const y = 2 * (alpha.real * beta.imaginary - alpha.imaginary * beta.real);
     const z = alpha.real ** 2 + alpha.imaginary ** 2 - beta.real ** 2 - beta.imaginary ** 2;
     
     return { x, y, z };
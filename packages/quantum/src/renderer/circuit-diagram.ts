@@ -0,0 +1,442 @@
+import type {
+  AccessibilityOptions,
+  CircuitDiagramOptions,
+  GateType,
+  Measurement,
+  NarrationStep,
+  ParameterBindings,
+  QuantumCircuit,
+  QuantumGate
+} from '../types/index.js';
+import {
+  GATE_DEFINITIONS,
+  getGateAngles,
+  getGateControls,
+  getGateMatrix,
+  getGateParameters,
+  getGateTargets
+} from '../circuits/gates.js';
+import { formatAngle } from '../circuits/parameters.js';
+import { MAX_STATE_VECTOR_QUBITS, StateVector } from '../circuits/state-vector.js';
+
+/** A gate or measurement placed in the diagram */
+interface Operation {
+  step: number;
+  kind: NarrationStep['kind'];
+  label: string;
+  controls: number[];
+  targets: number[];
+  swap: boolean;
+  rotation: boolean;
+}
+
+interface Palette {
+  background: string;
+  wire: string;
+  text: string;
+  gate: string;
+  rotation: string;
+  measurement: string;
+  focus: string;
+}
+
+const PALETTES: Record<'default' | 'colorBlind' | 'highContrast', Palette> = {
+  default: {
+    background: '#ffffff', wire: '#333333', text: '#111111',
+    gate: '#cfe3ff', rotation: '#ffe8a3', measurement: '#e5e5e5', focus: '#1a56db'
+  },
+  // Okabe-Ito colours
+  colorBlind: {
+    background: '#ffffff', wire: '#000000', text: '#000000',
+    gate: '#56b4e9', rotation: '#e69f00', measurement: '#cccccc', focus: '#0072b2'
+  },
+  highContrast: {
+    background: '#000000', wire: '#ffffff', text: '#ffffff',
+    gate: '#000000', rotation: '#000000', measurement: '#000000', focus: '#ffff00'
+  }
+};
+
+/** Label drawn on the target of each gate type */
+const LABELS: Record<GateType, string> = {
+  I: 'I', X: 'X', Y: 'Y', Z: 'Z', H: 'H',
+  S: 'S', SDG: 'Sdg', T: 'T', TDG: 'Tdg', SX: 'SX', SXDG: 'SXdg',
+  RX: 'RX', RY: 'RY', RZ: 'RZ', P: 'P', U3: 'U3',
+  CNOT: 'X', CY: 'Y', CZ: 'Z', CH: 'H', CP: 'P', CRX: 'RX', CRY: 'RY', CRZ: 'RZ',
+  CCX: 'X', SWAP: 'x', CSWAP: 'x', CUSTOM: 'U'
+};
+
+/** Extra sentence for verbose narration */
+const EXPLANATIONS: Partial<Record<GateType, string>> = {
+  I: 'It leaves the qubit unchanged.',
+  X: 'It flips 0 and 1.',
+  Y: 'It flips 0 and 1 and changes the phase.',
+  Z: 'It flips the sign of the 1 part, which changes the phase but not the chance of reading 1.',
+  H: 'It turns 0 or 1 into an equal mix of both, or back again.',
+  S: 'It adds a quarter turn of phase to the 1 part.',
+  SDG: 'It removes a quarter turn of phase from the 1 part.',
+  T: 'It adds an eighth turn of phase to the 1 part.',
+  TDG: 'It removes an eighth turn of phase from the 1 part.',
+  SX: 'Applied twice, it flips 0 and 1.',
+  SXDG: 'It undoes a square root of X.',
+  RX: 'It turns the qubit around the X axis.',
+  RY: 'It turns the qubit around the Y axis.',
+  RZ: 'It turns the qubit around the Z axis.',
+  P: 'It shifts the phase of the 1 part.',
+  U3: 'It can turn a single qubit into any state.',
+  CNOT: 'It flips the target when the control is 1.',
+  CY: 'It applies Y to the target when the control is 1.',
+  CZ: 'It flips the sign when both qubits are 1.',
+  CH: 'It applies Hadamard to the target when the control is 1.',
+  CP: 'It shifts the phase when both qubits are 1.',
+  CRX: 'It turns the target around the X axis when the control is 1.',
+  CRY: 'It turns the target around the Y axis when the control is 1.',
+  CRZ: 'It turns the target around the Z axis when the control is 1.',
+  CCX: 'It flips the target when both controls are 1.',
+  SWAP: 'It exchanges the states of the two qubits.',
+  CSWAP: 'It exchanges the two target qubits when the control is 1.'
+};
+
+const BASIS_NAMES: Record<Measurement['basis'], string> = {
+  computational: 'the computational basis',
+  z: 'the Z basis',
+  x: 'the X basis',
+  y: 'the Y basis'
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/** "0", "0 and 1", "0, 1 and 2" */
+function list(items: (number | string)[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function qubits(indices: number[]): string {
+  return `${indices.length === 1 ? 'qubit' : 'qubits'} ${list(indices)}`;
+}
+
+/** Angle text for speech: "-3*pi/4" becomes "minus 3 pi over 4" */
+function speakAngle(angle: string): string {
+  return angle
+    .replace(/(\d)\s*\*\s*(pi|π)/g, '$1 $2')
+    .replace(/\*/g, ' times ')
+    .replace(/\//g, ' over ')
+    .replace(/\+/g, ' plus ')
+    .replace(/(^|[\s(])-/g, '$1minus ')
+    .replace(/\s-\s/g, ' minus ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function percent(probability: number): string {
+  return `${Math.round(probability * 100)}%`;
+}
+
+/**
+ * Draws a circuit as an ASCII diagram or an accessible SVG, and narrates it
+ * step by step for screen readers. Everything is produced as strings, so it
+ * works without a DOM or GPU.
+ */
+export class CircuitDiagramRenderer {
+  private circuit: QuantumCircuit;
+  private title: string;
+  private id: string;
+  private bindings: ParameterBindings;
+  private accessibilityOptions: AccessibilityOptions;
+
+  constructor(options: CircuitDiagramOptions, accessibilityOptions: Partial<AccessibilityOptions> = {}) {
+    this.circuit = options.circuit;
+    this.title = options.title ?? 'Quantum circuit';
+    this.id = options.id ?? 'quantum-circuit';
+    this.bindings = options.bindings ?? {};
+
+    this.accessibilityOptions = {
+      announceStateChanges: true,
+      verboseDescriptions: false,
+      colorBlindSupport: false,
+      highContrast: false,
+      reducedMotion: false,
+      audioFeedback: false,
+      ...accessibilityOptions
+    };
+  }
+
+  /**
+   * One sentence describing the circuit as a whole
+   */
+  getSummary(): string {
+    const { qubits: count, gates, measurements } = this.circuit;
+    return `${this.title} on ${plural(count, 'qubit')} with ${plural(gates.length, 'gate')} and ${plural(measurements.length, 'measurement')}.`;
+  }
+
+  /**
+   * The circuit as steps in plain language, one per gate and measurement.
+   * `verboseDescriptions` adds what each gate does; `announceStateChanges`
+   * adds the chance of reading 1 afterwards and notes entanglement, when
+   * the circuit can be simulated.
+   */
+  narrate(): NarrationStep[] {
+    const state = this.canSimulate() ? new StateVector(this.circuit.qubits) : null;
+    const steps: NarrationStep[] = [];
+
+    this.circuit.gates.forEach((gate, index) => {
+      const sentences = [`Step ${index + 1}: ${this.describeGate(gate)}.`];
+      if (this.accessibilityOptions.verboseDescriptions && EXPLANATIONS[gate.type]) {
+        sentences.push(EXPLANATIONS[gate.type]!);
+      }
+      const touched = [...getGateControls(gate), ...getGateTargets(gate)];
+      if (state) {
+        const matrix = getGateMatrix(gate, this.bindings);
+        if (matrix) state.applyGate(gate.target, matrix, getGateControls(gate));
+        else state.swap(gate.target, gate.target2!, getGateControls(gate));
+        sentences.push(...getGateTargets(gate).map(target => this.describeQubit(state, target)));
+      }
+      steps.push({ step: index + 1, kind: 'gate', qubits: touched, text: sentences.join(' ') });
+    });
+
+    this.circuit.measurements.forEach((measurement, index) => {
+      const step = this.circuit.gates.length + index + 1;
+      const sentences = [`Step ${step}: Measure qubit ${measurement.qubit} in ${BASIS_NAMES[measurement.basis]}.`];
+      if (state) {
+        const vector = state.blochVector(measurement.qubit);
+        const axis = measurement.basis === 'x' ? vector.x : measurement.basis === 'y' ? vector.y : vector.z;
+        const one = (1 - axis) / 2;
+        sentences.push(one < 0.005 || one > 0.995
+          ? `The result will be ${one > 0.5 ? 1 : 0}.`
+          : `The result is random: 0 with ${percent(1 - one)} probability and 1 with ${percent(one)}.`);
+      }
+      steps.push({ step, kind: 'measurement', qubits: [measurement.qubit], text: sentences.join(' ') });
+    });
+
+    return steps;
+  }
+
+  /**
+   * Summary and steps as one block of text
+   */
+  getNarrationText(): string {
+    return [this.getSummary(), ...this.narrate().map(step => step.text)].join('\n');
+  }
+
+  /**
+   * Plain ASCII diagram for terminals and braille displays:
+   *
+   *     q0: --[H]--*---[M]--
+   *                |
+   *     q1: ------[X]--[M]--
+   */
+  toAscii(): string {
+    const count = this.circuit.qubits;
+    const names = Array.from({ length: count }, (_, qubit) => `q${qubit}: `);
+    const prefix = Math.max(...names.map(name => name.length));
+    const wires = names.map(name => name.padEnd(prefix) + '-');
+    const spacers = Array.from({ length: count - 1 }, () => ' '.repeat(prefix + 1));
+
+    const center = (text: string, width: number, fill: string) => {
+      const left = Math.floor((width - text.length) / 2);
+      return fill.repeat(left) + text + fill.repeat(width - text.length - left);
+    };
+
+    for (const column of this.layout()) {
+      const width = Math.max(...column.map(operation => operation.label.length + 2), 3);
+      for (let qubit = 0; qubit < count; qubit++) {
+        const operation = column.find(candidate => this.span(candidate).includes(qubit));
+        let cell = '';
+        if (operation?.targets.includes(qubit)) {
+          cell = operation.swap ? 'x' : `[${operation.label}]`;
+        } else if (operation?.controls.includes(qubit)) {
+          cell = '*';
+        } else if (operation) {
+          cell = '+';
+        }
+        wires[qubit] += center(cell, width, '-') + '--';
+
+        if (qubit < count - 1) {
+          const crossing = column.some(candidate => {
+            const span = this.span(candidate);
+            return span.includes(qubit) && span.includes(qubit + 1);
+          });
+          spacers[qubit] += center(crossing ? '|' : '', width, ' ') + '  ';
+        }
+      }
+    }
+
+    return wires
+      .flatMap((wire, qubit) => (qubit < spacers.length ? [wire, spacers[qubit]!.trimEnd()] : [wire]))
+      .join('\n');
+  }
+
+  /**
+   * Standalone SVG. The figure is labelled by its `<title>` and `<desc>`,
+   * and each gate is a focusable list item named by its narration step, so
+   * screen reader users can move through the circuit gate by gate.
+   */
+  toSvg(): string {
+    const palette = this.getPalette();
+    const steps = this.narrate();
+    const columns = this.layout();
+    const rowHeight = 56;
+    const top = 36;
+    const left = 52;
+    const y = (qubit: number) => top + qubit * rowHeight;
+
+    const widths = columns.map(column => Math.max(...column.map(operation => operation.label.length * 9 + 18), 36));
+    const starts = widths.map((_, i) => left + 20 + widths.slice(0, i).reduce((sum, width) => sum + width + 20, 0));
+    const width = (starts[starts.length - 1] ?? left) + (widths[widths.length - 1] ?? 0) + 32;
+    const height = y(this.circuit.qubits - 1) + top;
+    const strokeWidth = this.accessibilityOptions.highContrast ? 3 : 1.5;
+
+    const titleId = `${this.id}-title`;
+    const descId = `${this.id}-desc`;
+    const transition = this.accessibilityOptions.reducedMotion ? '' : ' transition: stroke-width 0.15s;';
+    const lines: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="figure" aria-labelledby="${titleId}" aria-describedby="${descId}">`,
+      `<title id="${titleId}">${escapeXml(this.title)}</title>`,
+      `<desc id="${descId}">${escapeXml(this.getSummary())}</desc>`,
+      `<style>.gate rect, .gate circle, .gate line { stroke: ${palette.wire};${transition} } .gate:focus { outline: none; } .gate:focus rect, .gate:focus circle { stroke: ${palette.focus}; stroke-width: ${strokeWidth * 2}; }</style>`,
+      `<rect width="100%" height="100%" fill="${palette.background}"/>`,
+      '<g aria-hidden="true">'
+    ];
+
+    for (let qubit = 0; qubit < this.circuit.qubits; qubit++) {
+      lines.push(
+        `<line x1="${left}" y1="${y(qubit)}" x2="${width - 12}" y2="${y(qubit)}" stroke="${palette.wire}" stroke-width="${strokeWidth}"/>`,
+        `<text x="12" y="${y(qubit) + 5}" font-family="monospace" font-size="14" fill="${palette.text}">q${qubit}</text>`
+      );
+    }
+    lines.push('</g>', '<g role="list" aria-label="Circuit steps">');
+
+    columns.forEach((column, index) => {
+      const x = starts[index]! + widths[index]! / 2;
+      for (const operation of column) {
+        const text = escapeXml(steps[operation.step - 1]!.text);
+        const span = this.span(operation);
+        const fill = operation.kind === 'measurement' ? palette.measurement : operation.rotation ? palette.rotation : palette.gate;
+        lines.push(
+          `<g class="gate" role="listitem" tabindex="0" aria-label="${text}">`,
+          `<title>${text}</title>`,
+          '<g aria-hidden="true">'
+        );
+        if (span.length > 1) {
+          lines.push(`<line x1="${x}" y1="${y(span[0]!)}" x2="${x}" y2="${y(span[span.length - 1]!)}" stroke-width="${strokeWidth}"/>`);
+        }
+        for (const control of operation.controls) {
+          lines.push(`<circle cx="${x}" cy="${y(control)}" r="6" fill="${palette.wire}"/>`);
+        }
+        for (const target of operation.targets) {
+          if (operation.swap) {
+            lines.push(
+              `<line x1="${x - 8}" y1="${y(target) - 8}" x2="${x + 8}" y2="${y(target) + 8}" stroke-width="${strokeWidth * 1.5}"/>`,
+              `<line x1="${x - 8}" y1="${y(target) + 8}" x2="${x + 8}" y2="${y(target) - 8}" stroke-width="${strokeWidth * 1.5}"/>`
+            );
+          } else {
+            const boxWidth = widths[index]!;
+            lines.push(
+              `<rect x="${x - boxWidth / 2}" y="${y(target) - 17}" width="${boxWidth}" height="34" rx="4" fill="${fill}" stroke-width="${strokeWidth}"/>`,
+              `<text x="${x}" y="${y(target) + 5}" text-anchor="middle" font-family="monospace" font-size="14" fill="${palette.text}">${escapeXml(operation.label)}</text>`
+            );
+          }
+        }
+        lines.push('</g>', '</g>');
+      }
+    });
+
+    lines.push('</g>', '</svg>');
+    return lines.join('\n');
+  }
+
+  private getPalette(): Palette {
+    if (this.accessibilityOptions.colorBlindSupport) return PALETTES.colorBlind;
+    if (this.accessibilityOptions.highContrast) return PALETTES.highContrast;
+    return PALETTES.default;
+  }
+
+  /** State narration needs every parameter bound and a register the simulator can hold */
+  private canSimulate(): boolean {
+    return this.accessibilityOptions.announceStateChanges
+      && this.circuit.qubits <= MAX_STATE_VECTOR_QUBITS
+      && this.circuit.gates.every(gate => getGateParameters(gate).every(name => name in this.bindings));
+  }
+
+  private describeGate(gate: QuantumGate): string {
+    const name = gate.type === 'CUSTOM' ? 'Custom gate' : GATE_DEFINITIONS[gate.type].name;
+    const angles = getGateAngles(gate).map(angle => speakAngle(formatAngle(angle)));
+    let description = name;
+    if (gate.type === 'U3') {
+      description += ` with theta ${angles[0]}, phi ${angles[1]} and lambda ${angles[2]}`;
+    } else if (angles.length > 0) {
+      description += ` by ${angles[0]}`;
+    }
+
+    const controls = getGateControls(gate);
+    const targets = getGateTargets(gate);
+    const swap = targets.length > 1;
+    if (controls.length === 0) {
+      return swap ? `${description} of ${qubits(targets)}` : `${description} on qubit ${gate.target}`;
+    }
+    const controlText = `control ${qubits(controls)}`;
+    return swap
+      ? `${description} with ${controlText}, swapping ${qubits(targets)}`
+      : `${description} with ${controlText} and target qubit ${gate.target}`;
+  }
+
+  private describeQubit(state: StateVector, qubit: number): string {
+    const one = state.probability(qubit, 1);
+    const reading = one < 0.005 || one > 0.995
+      ? `Qubit ${qubit} now reads ${one > 0.5 ? 1 : 0}`
+      : `Qubit ${qubit} now reads 1 with ${percent(one)} probability`;
+    return `${reading}${state.isEntangled(qubit) ? ' and is entangled with other qubits' : ''}.`;
+  }
+
+  private span(operation: Operation): number[] {
+    const all = [...operation.controls, ...operation.targets];
+    const low = Math.min(...all);
+    const high = Math.max(...all);
+    return Array.from({ length: high - low + 1 }, (_, i) => low + i);
+  }
+
+  /**
+   * Group operations into columns, each as far left as the qubits it spans
+   * (including those its connector crosses) allow
+   */
+  private layout(): Operation[][] {
+    const operations: Operation[] = [
+      ...this.circuit.gates.map((gate, index): Operation => {
+        const angles = getGateAngles(gate).map(formatAngle);
+        return {
+          step: index + 1,
+          kind: 'gate',
+          label: `${LABELS[gate.type]}${angles.length > 0 ? `(${angles.join(',')})` : ''}`,
+          controls: getGateControls(gate),
+          targets: getGateTargets(gate),
+          swap: gate.type === 'SWAP' || gate.type === 'CSWAP',
+          rotation: angles.length > 0
+        };
+      }),
+      ...this.circuit.measurements.map(({ qubit, basis }, index): Operation => ({
+        step: this.circuit.gates.length + index + 1,
+        kind: 'measurement',
+        label: basis === 'x' ? 'Mx' : basis === 'y' ? 'My' : 'M',
+        controls: [],
+        targets: [qubit],
+        swap: false,
+        rotation: false
+      }))
+    ];
+
+    const frontier = new Array<number>(this.circuit.qubits).fill(0);
+    const columns: Operation[][] = [];
+    for (const operation of operations) {
+      const span = this.span(operation);
+      const column = Math.max(...span.map(qubit => frontier[qubit]!));
+      (columns[column] ??= []).push(operation);
+      span.forEach(qubit => { frontier[qubit] = column + 1; });
+    }
+    return columns;
+  }
+}
@@ -20,21 +20,48 @@ export interface QuantumCircuit {
   measurements: Measurement[];
 }
 
+/**
+ * A gate angle: a number, or an expression over named parameters such as
+ * `'theta'`, `'-pi/4'` or `'2*gamma + pi/2'`, bound at execution time
+ */
+export type Angle = number | string;
+
+/**
+ * Values for named circuit parameters
+ */
+export type ParameterBindings = Record<string, number>;
+
 export interface QuantumGate {
   type: GateType;
   target: number;
+  /** Second target of SWAP and CSWAP */
+  target2?: number;
   control?: number;
-  angle?: number;
+  /** Further controls; any gate with controls only acts when all are |1⟩ */
+  controls?: number[];
+  angle?: Angle;
+  /** θ, φ and λ for U3 */
+  angles?: Angle[];
+  /** Computed for built-in gates; required for CUSTOM */
   matrix?: Complex[][];
 }
 
 export type GateType = 
+  | 'I'                       // Identity
   | 'X' | 'Y' | 'Z'           // Pauli gates
   | 'H'                       // Hadamard
-  | 'CNOT'                    // Controlled NOT
+  | 'S' | 'SDG'               // Phase gate and its inverse
+  | 'T' | 'TDG'               // π/8 gate and its inverse
+  | 'SX' | 'SXDG'             // Square root of X and its inverse
   | 'RX' | 'RY' | 'RZ'        // Rotation gates
-  | 'S' | 'T'                 // Phase gates
+  | 'P'                       // Phase shift
+  | 'U3'                      // General single-qubit rotation
+  | 'CNOT' | 'CY' | 'CZ' | 'CH' // Controlled Paulis and Hadamard
+  | 'CP'                      // Controlled phase
+  | 'CRX' | 'CRY' | 'CRZ'     // Controlled rotations
+  | 'CCX'                     // Toffoli
   | 'SWAP'                    // SWAP gate
+  | 'CSWAP'                   // Fredkin
   | 'CUSTOM';                 // Custom matrix
 
 export interface Measurement {
@@ -43,6 +70,50 @@ export interface Measurement {
   result?: 0 | 1;
 }
 
+/**
+ * Noise applied after a gate to every qubit it touches. Values are
+ * probabilities between 0 and 1.
+ */
+export interface NoiseChannels {
+  /** Chance of a random X, Y or Z error */
+  depolarizing?: number;
+  /** Chance of |1⟩ decaying to |0⟩, i.e. energy loss (T1) */
+  amplitudeDamping?: number;
+  /** Chance of losing phase without losing energy (T2) */
+  phaseDamping?: number;
+}
+
+export interface ReadoutError {
+  /** Chance of reading 1 when the qubit was 0 */
+  zeroAsOne: number;
+  /** Chance of reading 0 when the qubit was 1 */
+  oneAsZero: number;
+}
+
+export interface NoiseModel extends NoiseChannels {
+  /** Channels for specific gate types, replacing the defaults above */
+  gates?: Partial<Record<GateType, NoiseChannels>>;
+  /** Chance of misreading a result, the same both ways or per direction */
+  readoutError?: number | ReadoutError;
+}
+
+export interface RunOptions {
+  /** Defaults to 1024 */
+  shots?: number;
+  /** Makes the results reproducible */
+  seed?: number | string;
+  bindings?: ParameterBindings;
+  noise?: NoiseModel;
+}
+
+export interface RunResult {
+  shots: number;
+  /** Measured qubits in the order of the bits in each key, highest first */
+  qubits: number[];
+  /** How often each bitstring was read, e.g. `{ '00': 509, '11': 515 }` */
+  counts: Record<string, number>;
+}
+
 export interface BlochSphereOptions {
   container: HTMLElement;
   width?: number;
@@ -55,6 +126,26 @@ export interface BlochSphereOptions {
   accessibleColors?: boolean;
 }
 
+export interface CircuitDiagramOptions {
+  circuit: QuantumCircuit;
+  /** Read before the summary; defaults to "Quantum circuit" */
+  title?: string;
+  /** Prefix for element ids, so several diagrams can share a page */
+  id?: string;
+  /** Values for free parameters, used when describing the state */
+  bindings?: ParameterBindings;
+}
+
+export interface NarrationStep {
+  /** Position in the circuit, counting from 1 */
+  step: number;
+  kind: 'gate' | 'measurement';
+  /** Controls first, then targets */
+  qubits: number[];
+  /** e.g. "Step 2: Hadamard on qubit 0." */
+  text: string;
+}
+
 export interface QuantumVisualizationEvents {
   'state-updated': { qubit: number; state: QubitState; vector: BlochVector };
   'gate-applied': { gate: QuantumGate; beforeState: QubitState; afterState: QubitState };
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitDiagramRenderer } from '../src/renderer/circuit-diagram.js';
+import { bellState } from '../src/circuits/index.js';
+import type { QuantumCircuit } from '../src/types/index.js';
+
+function bell(): QuantumCircuit {
+  const circuit = bellState();
+  circuit.addMeasurement(0);
+  circuit.addMeasurement(1);
+  return circuit.getCircuit();
+}
+
+const quiet = { announceStateChanges: false };
+
+describe('CircuitDiagramRenderer', () => {
+  describe('ASCII', () => {
+    it('should draw a Bell circuit', () => {
+      const renderer = new CircuitDiagramRenderer({ circuit: bell() });
+
+      expect(renderer.toAscii()).toBe([
+        'q0: -[H]---*---[M]--',
+        '           |',
+        'q1: ------[X]--[M]--'
+      ].join('\n'));
+    });
+
+    it('should pack independent gates into one column and cross idle wires', () => {
+      const circuit: QuantumCircuit = {
+        qubits: 3,
+        gates: [
+          { type: 'H', target: 0 },
+          { type: 'RZ', target: 2, angle: Math.PI / 2 },
+          { type: 'CZ', target: 2, control: 0 },
+          { type: 'SWAP', target: 0, target2: 1 }
+        ],
+        measurements: []
+      };
+
+      expect(new CircuitDiagramRenderer({ circuit }).toAscii()).toBe([
+        'q0: ----[H]-------*----x---',
+        '                  |    |',
+        'q1: --------------+----x---',
+        '                  |',
+        'q2: -[RZ(pi/2)]--[Z]-------'
+      ].join('\n'));
+    });
+  });
+
+  describe('Narration', () => {
+    it('should describe each step in plain language', () => {
+      const circuit: QuantumCircuit = {
+        qubits: 3,
+        gates: [
+          { type: 'H', target: 0 },
+          { type: 'CNOT', target: 1, control: 0 },
+          { type: 'RY', target: 2, angle: -3 * Math.PI / 4 },
+          { type: 'CCX', target: 2, control: 0, controls: [1] },
+          { type: 'CSWAP', target: 1, target2: 2, control: 0 },
+          { type: 'U3', target: 0, angles: ['theta', 0, 'pi/2'] }
+        ],
+        measurements: [{ qubit: 2, basis: 'x' }]
+      };
+      const steps = new CircuitDiagramRenderer({ circuit }, quiet).narrate();
+
+      expect(steps.map(step => step.text)).toEqual([
+        'Step 1: Hadamard on qubit 0.',
+        'Step 2: Controlled-NOT with control qubit 0 and target qubit 1.',
+        'Step 3: Y rotation by minus 3 pi over 4 on qubit 2.',
+        'Step 4: Toffoli with control qubits 0 and 1 and target qubit 2.',
+        'Step 5: Fredkin with control qubit 0, swapping qubits 1 and 2.',
+        'Step 6: U3 with theta theta, phi 0 and lambda pi over 2 on qubit 0.',
+        'Step 7: Measure qubit 2 in the X basis.'
+      ]);
+      expect(steps[3]).toMatchObject({ step: 4, kind: 'gate', qubits: [0, 1, 2] });
+      expect(steps[6]).toMatchObject({ kind: 'measurement', qubits: [2] });
+    });
+
+    it('should explain gates with verbose descriptions', () => {
+      const [first] = new CircuitDiagramRenderer({ circuit: bell() }, { ...quiet, verboseDescriptions: true }).narrate();
+
+      expect(first!.text).toBe('Step 1: Hadamard on qubit 0. It turns 0 or 1 into an equal mix of both, or back again.');
+    });
+
+    it('should announce probabilities and entanglement as the state changes', () => {
+      const steps = new CircuitDiagramRenderer({ circuit: bell() }).narrate();
+
+      expect(steps.map(step => step.text)).toEqual([
+        'Step 1: Hadamard on qubit 0. Qubit 0 now reads 1 with 50% probability.',
+        'Step 2: Controlled-NOT with control qubit 0 and target qubit 1. Qubit 1 now reads 1 with 50% probability and is entangled with other qubits.',
+        'Step 3: Measure qubit 0 in the computational basis. The result is random: 0 with 50% probability and 1 with 50%.',
+        'Step 4: Measure qubit 1 in the computational basis. The result is random: 0 with 50% probability and 1 with 50%.'
+      ]);
+    });
+
+    it('should only describe the state once every parameter is bound', () => {
+      const circuit: QuantumCircuit = { qubits: 1, gates: [{ type: 'RX', target: 0, angle: 'theta' }], measurements: [] };
+
+      expect(new CircuitDiagramRenderer({ circuit }).narrate()[0]!.text).toBe('Step 1: X rotation by theta on qubit 0.');
+      expect(new CircuitDiagramRenderer({ circuit, bindings: { theta: Math.PI } }).narrate()[0]!.text)
+        .toBe('Step 1: X rotation by theta on qubit 0. Qubit 0 now reads 1.');
+    });
+
+    it('should start the narration text with a summary', () => {
+      const text = new CircuitDiagramRenderer({ circuit: bell(), title: 'Bell pair' }, quiet).getNarrationText();
+
+      expect(text.split('\n')[0]).toBe('Bell pair on 2 qubits with 2 gates and 2 measurements.');
+      expect(text.split('\n')).toHaveLength(5);
+    });
+  });
+
+  describe('SVG', () => {
+    const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+
+    it('should label the figure with its title and description', () => {
+      const root = parse(new CircuitDiagramRenderer({ circuit: bell(), id: 'bell', title: 'Bell <pair>' }).toSvg());
+
+      expect(root.getAttribute('role')).toBe('figure');
+      expect(root.getAttribute('aria-labelledby')).toBe('bell-title');
+      expect(root.getAttribute('aria-describedby')).toBe('bell-desc');
+      expect(root.querySelector('#bell-title')!.textContent).toBe('Bell <pair>');
+      expect(root.querySelector('#bell-desc')!.textContent).toBe('Bell <pair> on 2 qubits with 2 gates and 2 measurements.');
+    });
+
+    it('should expose each gate as a focusable list item named by its step', () => {
+      const renderer = new CircuitDiagramRenderer({ circuit: bell() });
+      const root = parse(renderer.toSvg());
+      const items = [...root.querySelectorAll('[role="listitem"]')];
+
+      expect(root.querySelector('[role="list"]')!.getAttribute('aria-label')).toBe('Circuit steps');
+      expect(items).toHaveLength(4);
+      items.forEach((item, index) => {
+        const text = renderer.narrate()[index]!.text;
+        expect(item.getAttribute('aria-label')).toBe(text);
+        expect(item.getAttribute('tabindex')).toBe('0');
+        expect(item.querySelector('title')!.textContent).toBe(text);
+      });
+    });
+
+    it('should hide the drawing itself from assistive technology', () => {
+      const root = parse(new CircuitDiagramRenderer({ circuit: bell() }).toSvg());
+
+      root.querySelectorAll('line, rect:not([width="100%"]), circle, text').forEach(element => {
+        expect(element.closest('[aria-hidden="true"]')).not.toBeNull();
+      });
+    });
+
+    it('should honour contrast, colour and motion preferences', () => {
+      const svg = (options: object) => new CircuitDiagramRenderer({ circuit: bell() }, options).toSvg();
+
+      expect(svg({ highContrast: true })).toContain('<rect width="100%" height="100%" fill="#000000"/>');
+      expect(svg({ colorBlindSupport: true })).toContain('fill="#56b4e9"');
+      expect(svg({})).toContain('transition');
+      expect(svg({ reducedMotion: true })).not.toContain('transition');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { GATE_DEFINITIONS, getGateMatrix, getGateQubits, validateGate } from '../src/circuits/gates.js';
+import { AngleExpressionError, getAngleParameters, resolveAngle } from '../src/circuits/parameters.js';
+import type { Complex, GateType, QuantumGate } from '../src/types/index.js';
+
+function multiply(a: Complex[][], b: Complex[][]): Complex[][] {
+  return a.map(row => b[0]!.map((_, j) => row.reduce((sum, value, k) => {
+    const other = b[k]![j]!;
+    return {
+      real: sum.real + value.real * other.real - value.imaginary * other.imaginary,
+      imaginary: sum.imaginary + value.real * other.imaginary + value.imaginary * other.real
+    };
+  }, { real: 0, imaginary: 0 })));
+}
+
+function adjoint(u: Complex[][]): Complex[][] {
+  return u[0]!.map((_, j) => u.map(row => ({ real: row[j]!.real, imaginary: -row[j]!.imaginary })));
+}
+
+function expectMatrix(actual: Complex[][], expected: number[][]): void {
+  actual.forEach((row, i) => row.forEach((value, j) => {
+    expect(value.real).toBeCloseTo(expected[i]![j]!, 10);
+    expect(value.imaginary).toBeCloseTo(0, 10);
+  }));
+}
+
+const matrix = (gate: QuantumGate) => getGateMatrix(gate)!;
+
+describe('Gate definitions', () => {
+  it('should give every built-in gate a unitary matrix', () => {
+    for (const [type, definition] of Object.entries(GATE_DEFINITIONS)) {
+      if (definition.base === 'swap') continue;
+      const angles = [0.3, 1.1, -0.7].slice(0, definition.parameters);
+      const gate: QuantumGate = definition.parameters === 3
+        ? { type: type as GateType, target: 0, angles }
+        : { type: type as GateType, target: 0, ...(definition.parameters === 1 ? { angle: angles[0]! } : {}) };
+      const u = matrix(gate);
+
+      expectMatrix(multiply(u, adjoint(u)), [[1, 0], [0, 1]]);
+    }
+  });
+
+  it('should square √X to X and cancel the daggered gates', () => {
+    expectMatrix(multiply(matrix({ type: 'SX', target: 0 }), matrix({ type: 'SX', target: 0 })), [[0, 1], [1, 0]]);
+    expectMatrix(multiply(matrix({ type: 'SX', target: 0 }), matrix({ type: 'SXDG', target: 0 })), [[1, 0], [0, 1]]);
+    expectMatrix(multiply(matrix({ type: 'S', target: 0 }), matrix({ type: 'SDG', target: 0 })), [[1, 0], [0, 1]]);
+    expectMatrix(multiply(matrix({ type: 'T', target: 0 }), matrix({ type: 'TDG', target: 0 })), [[1, 0], [0, 1]]);
+  });
+
+  it('should reduce U3 to known gates', () => {
+    // U3(π, 0, π) = X and U3(π/2, 0, π) = H
+    expectMatrix(matrix({ type: 'U3', target: 0, angles: [Math.PI, 0, Math.PI] }), [[0, 1], [1, 0]]);
+    expectMatrix(matrix({ type: 'U3', target: 0, angles: ['pi/2', 0, 'pi'] }), [[Math.SQRT1_2, Math.SQRT1_2], [Math.SQRT1_2, -Math.SQRT1_2]]);
+  });
+
+  it('should list controls before targets', () => {
+    expect(getGateQubits({ type: 'CSWAP', target: 1, target2: 2, control: 0 })).toEqual([0, 1, 2]);
+    expect(getGateQubits({ type: 'X', target: 3, controls: [0, 1, 2] })).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should reject malformed gates', () => {
+    expect(() => validateGate({ type: 'CZ', target: 1 }, 2)).toThrow('CZ gate requires a control qubit');
+    expect(() => validateGate({ type: 'CCX', target: 2, control: 0 }, 3)).toThrow('CCX gate requires 2 control qubits');
+    expect(() => validateGate({ type: 'U3', target: 0, angles: [1, 2] }, 1)).toThrow('U3 gate takes 3 angles, got 2');
+    expect(() => validateGate({ type: 'SWAP', target: 0 }, 2)).toThrow('requires a second target');
+    expect(() => validateGate({ type: 'CNOT', target: 0, control: 0 }, 2)).toThrow('same qubit more than once');
+    expect(() => validateGate({ type: 'X', target: 0, controls: [4] }, 2)).toThrow('Qubit index 4 out of range');
+    expect(() => validateGate({ type: 'RZ', target: 0, angle: 'theta +' }, 1)).toThrow(AngleExpressionError);
+    expect(() => validateGate({ type: 'CUSTOM', target: 0, matrix: [[{ real: 1, imaginary: 0 }, { real: 1, imaginary: 0 }], [{ real: 0, imaginary: 0 }, { real: 1, imaginary: 0 }]] }, 1)).toThrow('must be unitary');
+  });
+});
+
+describe('Angle expressions', () => {
+  it('should evaluate arithmetic, constants and functions', () => {
+    expect(resolveAngle('pi/2')).toBeCloseTo(Math.PI / 2, 12);
+    expect(resolveAngle('-2*pi + tau')).toBeCloseTo(0, 12);
+    expect(resolveAngle('2^3^2')).toBe(512);
+    expect(resolveAngle('-2**2')).toBe(-4);
+    expect(resolveAngle('acos(0) * 2')).toBeCloseTo(Math.PI, 12);
+    expect(resolveAngle('1.5e-1 + .5')).toBeCloseTo(0.65, 12);
+  });
+
+  it('should bind named parameters', () => {
+    expect(getAngleParameters('2*gamma + beta/pi')).toEqual(['gamma', 'beta']);
+    expect(resolveAngle('2*gamma + beta', { gamma: 0.25, beta: 1 })).toBeCloseTo(1.5, 12);
+    expect(() => resolveAngle('theta')).toThrow('Unbound parameter: theta');
+  });
+
+  it('should report where an expression is malformed', () => {
+    const attempts: Array<[string, number]> = [['pi + $', 5], ['(theta', 6], ['foo(1)', 0], ['1 2', 2]];
+    for (const [source, position] of attempts) {
+      try {
+        resolveAngle(source, { theta: 0 });
+        expect.unreachable(source);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AngleExpressionError);
+        expect((error as AngleExpressionError).position).toBe(position);
+      }
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { QuantumCircuitSimulator } from '../src/circuits/quantum-circuit.js';
+import { bellState, ghzState } from '../src/circuits/index.js';
+import { createRandom } from '../src/circuits/random.js';
+
+const frequency = (counts: Record<string, number>, key: string, shots: number) => (counts[key] ?? 0) / shots;
+
+describe('Shot sampling', () => {
+  it('should count only correlated outcomes for a Bell state', () => {
+    const { shots, qubits, counts } = bellState().run({ shots: 2000, seed: 7 });
+
+    expect(shots).toBe(2000);
+    expect(qubits).toEqual([1, 0]);
+    expect(Object.keys(counts).sort()).toEqual(['00', '11']);
+    expect(counts['00']! + counts['11']!).toBe(2000);
+    expect(frequency(counts, '00', shots)).toBeCloseTo(0.5, 1);
+  });
+
+  it('should put qubit 0 in the rightmost bit', () => {
+    const circuit = new QuantumCircuitSimulator(3);
+    circuit.addGate({ type: 'X', target: 0 });
+
+    expect(circuit.run({ shots: 10 }).counts).toEqual({ '001': 10 });
+  });
+
+  it('should only report measured qubits, in their bases', () => {
+    const circuit = new QuantumCircuitSimulator(3);
+    circuit.addGate({ type: 'H', target: 2 });
+    circuit.addGate({ type: 'X', target: 1 });
+    circuit.addMeasurement(2, 'x');
+    circuit.addMeasurement(1);
+
+    expect(circuit.run({ shots: 50, seed: 1 })).toEqual({ shots: 50, qubits: [2, 1], counts: { '01': 50 } });
+  });
+
+  it('should reproduce results for the same seed', () => {
+    const circuit = ghzState(3);
+    circuit.addGate({ type: 'RY', target: 1, angle: 0.8 });
+
+    const first = circuit.run({ shots: 500, seed: 'lesson-3' });
+    expect(circuit.run({ shots: 500, seed: 'lesson-3' })).toEqual(first);
+    expect(circuit.run({ shots: 500, seed: 'lesson-4' })).not.toEqual(first);
+  });
+
+  it('should bind parameters for the run', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+    circuit.addGate({ type: 'RX', target: 0, angle: 'theta' });
+
+    expect(circuit.run({ shots: 20, bindings: { theta: Math.PI } }).counts).toEqual({ '1': 20 });
+    expect(() => circuit.run()).toThrow('Unbound parameters: theta');
+  });
+
+  it('should leave the simulator state alone', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+    circuit.addGate({ type: 'H', target: 0 });
+    circuit.run({ shots: 10, noise: { amplitudeDamping: 0.5 } });
+
+    expect(circuit.getQubitState(0).alpha.real).toBe(1);
+  });
+
+  it('should make executeCircuit reproducible with setSeed', () => {
+    const outcomes = (seed: number) => {
+      const circuit = new QuantumCircuitSimulator(8);
+      circuit.setSeed(seed);
+      for (let qubit = 0; qubit < 8; qubit++) {
+        circuit.addGate({ type: 'H', target: qubit });
+        circuit.addMeasurement(qubit);
+      }
+      circuit.executeCircuit();
+      return [...circuit.getMeasurementResults().values()];
+    };
+
+    expect(outcomes(42)).toEqual(outcomes(42));
+  });
+
+  it('should reject invalid shot counts', () => {
+    expect(() => bellState().run({ shots: 0 })).toThrow('Shots must be a positive integer');
+    expect(() => bellState().run({ shots: 1.5 })).toThrow('Shots must be a positive integer');
+  });
+});
+
+describe('Noise', () => {
+  const shots = 4000;
+
+  it('should let |1⟩ decay fully under amplitude damping', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+    circuit.addGate({ type: 'X', target: 0 });
+
+    expect(circuit.run({ shots: 100, seed: 1, noise: { amplitudeDamping: 1 } }).counts).toEqual({ '0': 100 });
+  });
+
+  it('should decay |1⟩ a little on every idle step', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+    circuit.addGate({ type: 'X', target: 0 });
+    for (let step = 0; step < 5; step++) {
+      circuit.addGate({ type: 'I', target: 0 });
+    }
+
+    // Each of the six gates keeps |1⟩ with probability 0.9
+    const { counts } = circuit.run({ shots, seed: 2, noise: { amplitudeDamping: 0.1 } });
+    expect(frequency(counts, '1', shots)).toBeCloseTo(0.9 ** 6, 1);
+  });
+
+  it('should erase interference under phase damping without losing energy', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+    circuit.addGate({ type: 'H', target: 0 });
+    circuit.addGate({ type: 'H', target: 0 });
+
+    expect(circuit.run({ shots: 200, seed: 3 }).counts).toEqual({ '0': 200 });
+
+    const { counts } = circuit.run({ shots, seed: 3, noise: { gates: { H: { phaseDamping: 1 } } } });
+    expect(frequency(counts, '1', shots)).toBeCloseTo(0.5, 1);
+  });
+
+  it('should flip |1⟩ with probability 2p/3 under depolarizing noise', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+    circuit.addGate({ type: 'X', target: 0 });
+
+    const { counts } = circuit.run({ shots, seed: 4, noise: { depolarizing: 0.3 } });
+    expect(frequency(counts, '0', shots)).toBeCloseTo(0.2, 1);
+  });
+
+  it('should break Bell correlations only through noise', () => {
+    const { counts } = bellState().run({ shots, seed: 5, noise: { depolarizing: 0.2 } });
+
+    expect(frequency(counts, '01', shots) + frequency(counts, '10', shots)).toBeGreaterThan(0.05);
+  });
+
+  it('should apply per-gate channels instead of the defaults', () => {
+    const circuit = new QuantumCircuitSimulator(2);
+    circuit.addGate({ type: 'X', target: 0 });
+    circuit.addGate({ type: 'X', target: 1 });
+    circuit.addGate({ type: 'CNOT', target: 1, control: 0 });
+
+    const { counts } = circuit.run({ shots: 100, seed: 6, noise: { amplitudeDamping: 1, gates: { CNOT: {} } } });
+    expect(counts).toEqual({ '00': 100 });
+  });
+
+  it('should misread results with readout error', () => {
+    const circuit = new QuantumCircuitSimulator(1);
+
+    const symmetric = circuit.run({ shots, seed: 8, noise: { readoutError: 0.1 } });
+    expect(frequency(symmetric.counts, '1', shots)).toBeCloseTo(0.1, 1);
+
+    const oneWay = circuit.run({ shots: 200, seed: 8, noise: { readoutError: { zeroAsOne: 0, oneAsZero: 0.5 } } });
+    expect(oneWay.counts).toEqual({ '0': 200 });
+  });
+
+  it('should validate probabilities', () => {
+    expect(() => bellState().run({ noise: { depolarizing: 1.5 } })).toThrow('depolarizing must be between 0 and 1, got 1.5');
+    expect(() => bellState().run({ noise: { gates: { H: { phaseDamping: -0.1 } } } })).toThrow('H phaseDamping must be between 0 and 1');
+    expect(() => bellState().run({ noise: { readoutError: { zeroAsOne: 2, oneAsZero: 0 } } })).toThrow('readoutError.zeroAsOne');
+  });
+});
+
+describe('createRandom', () => {
+  it('should give the same sequence for the same seed', () => {
+    const a = createRandom(123);
+    const b = createRandom(123);
+    const values = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should use Math.random without a seed', () => {
+    expect(createRandom()).toBe(Math.random);
+  });
+});
@@ -0,0 +1,341 @@
+import { describe, it, expect } from 'vitest';
+import { QasmParseError, parseQasm, serializeQasm } from '../src/circuits/qasm.js';
+import { StateVector } from '../src/circuits/state-vector.js';
+import { getGateControls, getGateMatrix, getGateTargets } from '../src/circuits/gates.js';
+import { loadQasm } from '../src/circuits/index.js';
+import type { ParameterBindings, QuantumCircuit } from '../src/types/index.js';
+
+/** Standard textbook circuits, as OpenQASM 2.0 */
+const CORPUS: Record<string, string> = {
+  bell: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[2];
+    creg c[2];
+    h q[0];
+    cx q[0], q[1];
+    measure q -> c;
+  `,
+  ghz: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[4];
+    h q[0];
+    cx q[0], q[1];
+    cx q[1], q[2];
+    cx q[2], q[3];
+  `,
+  teleportation: `
+    // Deferred-measurement teleportation of RY(0.7)|0>
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[3];
+    creg c[3];
+    ry(0.7) q[0];
+    h q[1];
+    cx q[1], q[2];
+    cx q[0], q[1];
+    h q[0];
+    cx q[1], q[2];
+    cz q[0], q[2];
+    measure q[2] -> c[2];
+  `,
+  qft3: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[3];
+    x q[0];
+    h q[2];
+    cu1(pi/2) q[1], q[2];
+    cu1(pi/4) q[0], q[2];
+    h q[1];
+    cu1(pi/2) q[0], q[1];
+    h q[0];
+    swap q[0], q[2];
+  `,
+  grover2: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[2];
+    creg c[2];
+    h q;
+    cz q[0], q[1];
+    h q;
+    x q;
+    cz q[0], q[1];
+    x q;
+    h q;
+    measure q[0] -> c[0];
+    measure q[1] -> c[1];
+  `,
+  deutschJozsa: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[3];
+    qreg anc[1];
+    x anc[0];
+    h q;
+    h anc[0];
+    cx q[0], anc[0];
+    cx q[2], anc[0];
+    h q;
+  `,
+  fullAdder: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg a[1];
+    qreg b[1];
+    qreg cin[1];
+    qreg cout[1];
+    x a[0];
+    x cin[0];
+    ccx a[0], b[0], cout[0];
+    cx a[0], b[0];
+    ccx b[0], cin[0], cout[0];
+    cx cin[0], b[0];
+  `,
+  fredkin: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    qreg q[3];
+    x q[0];
+    u3(pi/3, 0.25, -0.5) q[1];
+    cswap q[0], q[1], q[2];
+    u2(0, pi) q[0];
+    sdg q[1];
+    tdg q[2];
+    sx q[2];
+    sxdg q[0];
+    cy q[1], q[0];
+    ch q[2], q[1];
+    crx(0.3) q[0], q[1];
+    cry(-pi/8) q[1], q[2];
+    crz(2*pi/3) q[2], q[0];
+    cu3(0.1, 0.2, 0.3) q[0], q[2];
+    id q[1];
+  `,
+  customGates: `
+    OPENQASM 2.0;
+    include "qelib1.inc";
+    gate majority a, b, c { cx c, b; cx c, a; ccx a, b, c; }
+    gate zz(theta) a, b { cx a, b; rz(theta) b; cx a, b; }
+    qreg q[3];
+    x q[0];
+    majority q[0], q[1], q[2];
+    zz(pi/4) q[1], q[2];
+  `,
+};
+
+/** Apply a parsed circuit directly to a state vector */
+function simulate(circuit: QuantumCircuit, bindings: ParameterBindings = {}): number[] {
+  const state = new StateVector(circuit.qubits);
+  for (const gate of circuit.gates) {
+    const matrix = getGateMatrix(gate, bindings);
+    const [target, target2] = getGateTargets(gate);
+    if (matrix) state.applyGate(target!, matrix, getGateControls(gate));
+    else state.swap(target!, target2!, getGateControls(gate));
+  }
+  return state.probabilities();
+}
+
+function expectSameState(actual: QuantumCircuit, expected: QuantumCircuit): void {
+  const probabilities = simulate(expected);
+  simulate(actual).forEach((p, i) => expect(p).toBeCloseTo(probabilities[i]!, 10));
+}
+
+function parseError(source: string): QasmParseError {
+  try {
+    parseQasm(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(QasmParseError);
+    return error as QasmParseError;
+  }
+  throw new Error('Expected a parse error');
+}
+
+describe('OpenQASM', () => {
+  describe('Round trips', () => {
+    for (const [name, source] of Object.entries(CORPUS)) {
+      it(`should round-trip ${name} through OpenQASM 2.0 and 3.0`, () => {
+        const circuit = parseQasm(source);
+
+        for (const version of ['2.0', '3.0'] as const) {
+          const text = serializeQasm(circuit, { version });
+          const reparsed = parseQasm(text);
+
+          expect(reparsed).toEqual(circuit);
+          expect(serializeQasm(reparsed, { version })).toBe(text);
+        }
+      });
+    }
+
+    it('should round-trip parametric OpenQASM 3 circuits', () => {
+      const source = `
+        OPENQASM 3.0;
+        include "stdgates.inc";
+        input float[64] theta;
+        input angle gamma;
+        qubit[3] q;
+        bit[3] c;
+        ry(theta) q[0];
+        ctrl @ rz(2*gamma) q[0], q[1];
+        ctrl(2) @ x q[0], q[1], q[2];
+        inv @ sx q[2];
+        c = measure q;
+      `;
+      const circuit = parseQasm(source);
+      const text = serializeQasm(circuit);
+
+      expect(text).toContain('input float[64] gamma;');
+      expect(parseQasm(text)).toEqual(circuit);
+      expect(loadQasm(text).getParameters()).toEqual(['gamma', 'theta']);
+    });
+  });
+
+  describe('Import', () => {
+    it('should simulate the Bell state with final measurements', () => {
+      const circuit = parseQasm(CORPUS.bell!);
+
+      expect(circuit.qubits).toBe(2);
+      expect(circuit.measurements.map(m => m.qubit)).toEqual([0, 1]);
+      const probabilities = simulate(circuit);
+      expect(probabilities[0]).toBeCloseTo(0.5, 10);
+      expect(probabilities[3]).toBeCloseTo(0.5, 10);
+    });
+
+    it('should teleport the state onto the last qubit', () => {
+      const probabilities = simulate(parseQasm(CORPUS.teleportation!));
+      const one = probabilities.reduce((sum, p, index) => sum + (index & 0b100 ? p : 0), 0);
+      expect(one).toBeCloseTo(Math.sin(0.35) ** 2, 10);
+    });
+
+    it('should flatten several registers in declaration order', () => {
+      const circuit = parseQasm(CORPUS.fullAdder!);
+
+      // a=1, b=0, cin=1 gives sum (b) 0 and carry 1
+      const probabilities = simulate(circuit);
+      expect(probabilities[0b1101]).toBeCloseTo(1, 10);
+    });
+
+    it('should broadcast gates over whole registers', () => {
+      const circuit = parseQasm('OPENQASM 2.0; qreg q[3]; qreg r[3]; h q; cx q, r;');
+
+      expect(circuit.gates.map(gate => gate.type)).toEqual(['H', 'H', 'H', 'CNOT', 'CNOT', 'CNOT']);
+      expect(circuit.gates[5]).toMatchObject({ control: 2, target: 5 });
+    });
+
+    it('should inline custom gates and their inverses', () => {
+      const forward = parseQasm(CORPUS.customGates!);
+      const undone = parseQasm(`${CORPUS.customGates!}\ninv @ zz(pi/4) q[1], q[2];\ninv @ majority q[0], q[1], q[2];`);
+
+      expect(forward.gates).toHaveLength(1 + 3 + 3);
+      expect(simulate(undone)[0b001]).toBeCloseTo(1, 10);
+    });
+
+    it('should match the explicit controlled gates when using ctrl modifiers', () => {
+      const modified = parseQasm('OPENQASM 3; qubit[3] q; h q; ctrl @ x q[0], q[1]; ctrl(2) @ x q[0], q[1], q[2]; ctrl @ inv @ s q[2], q[0];');
+      const explicit = parseQasm('OPENQASM 3; qubit[3] q; h q; cx q[0], q[1]; ccx q[0], q[1], q[2]; ctrl @ sdg q[2], q[0];');
+
+      expect(modified.gates.map(gate => gate.type)).toEqual(['H', 'H', 'H', 'CNOT', 'CCX', 'SDG']);
+      expectSameState(modified, explicit);
+    });
+
+    it('should ignore comments and barriers', () => {
+      const circuit = parseQasm(`
+        OPENQASM 2.0; /* header
+        comment */ qreg q[2];
+        h q[0]; // superposition
+        barrier q;
+        cx q[0], q[1];
+      `);
+
+      expect(circuit.gates).toHaveLength(2);
+    });
+  });
+
+  describe('Errors', () => {
+    it('should point at unknown gates and suggest the right spelling', () => {
+      const error = parseError('OPENQASM 2.0;\nqreg q[1];\n  H q[0];');
+
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(3);
+      expect(error.message).toBe('Line 3, column 3: Unknown gate "H". Did you mean "h"?');
+    });
+
+    it('should explain out-of-range qubits', () => {
+      const error = parseError('OPENQASM 2.0;\nqreg q[2];\nx q[2];');
+
+      expect(error.message).toBe('Line 3, column 3: q[2] is out of range. Register q has 2 qubits, numbered 0 to 1.');
+    });
+
+    it('should locate problems inside angle expressions', () => {
+      const error = parseError('OPENQASM 2.0;\nqreg q[1];\nrx(pi + ) q[0];');
+
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(8);
+      expect(error.reason).toContain('Could not read the angle "pi +"');
+    });
+
+    it('should report missing semicolons where the next statement starts', () => {
+      const error = parseError('OPENQASM 2.0;\nqreg q[1]\nx q[0];');
+
+      expect(error).toMatchObject({ line: 3, column: 1 });
+      expect(error.reason).toBe('Expected ";" at the end of the statement but found "x".');
+    });
+
+    it('should reject undeclared parameters, wrong arities and mid-circuit reuse', () => {
+      expect(parseError('OPENQASM 3; qubit q; rz(theta) q;').reason).toContain('Unknown parameter "theta"');
+      expect(parseError('OPENQASM 2.0; qreg q[2]; cx q[0];').reason).toBe('Gate "cx" acts on 2 qubits, but 1 was given.');
+      expect(parseError('OPENQASM 2.0; qreg q[1]; rx q[0];').reason).toBe('Gate "rx" takes 1 angle, but 0 were given.');
+      expect(parseError('OPENQASM 2.0; qreg q[2]; cx q[1], q[1];').reason).toBe('Gate "cx" uses q[1] more than once.');
+      expect(parseError('OPENQASM 3; qubit q; bit c; c = measure q; x q;').reason).toContain('q[0] is used after it was measured');
+      expect(parseError('OPENQASM 3; qubit q; reset q;').reason).toBe('"reset" statements are not supported by this simulator.');
+      expect(parseError('OPENQASM 4.0;').reason).toContain('Only OpenQASM versions 2.0 and 3.0');
+      expect(parseError('OPENQASM 2.0; creg c[1];').reason).toContain('declares no qubits');
+    });
+  });
+
+  describe('Export', () => {
+    it('should write a readable OpenQASM 2.0 program', () => {
+      const simulator = loadQasm(CORPUS.bell!);
+
+      expect(simulator.toQasm({ version: '2.0' })).toBe([
+        'OPENQASM 2.0;',
+        'include "qelib1.inc";',
+        'qreg q[2];',
+        'creg c[2];',
+        'h q[0];',
+        'cx q[0], q[1];',
+        'measure q[0] -> c[0];',
+        'measure q[1] -> c[1];',
+        '',
+      ].join('\n'));
+    });
+
+    it('should write numeric angles as multiples of pi where exact', () => {
+      const text = serializeQasm({
+        qubits: 1,
+        gates: [{ type: 'RZ', target: 0, angle: -3 * Math.PI / 4 }, { type: 'RX', target: 0, angle: 0.1 }],
+        measurements: [],
+      });
+
+      expect(text).toContain('rz(-3*pi/4) q[0];');
+      expect(text).toContain('rx(0.1) q[0];');
+    });
+
+    it('should write other measurement bases as a basis change', () => {
+      const text = serializeQasm({ qubits: 1, gates: [], measurements: [{ qubit: 0, basis: 'x' }] });
+
+      expect(text).toContain('h q[0];\nc[0] = measure q[0];');
+    });
+
+    it('should refuse what the target version cannot express', () => {
+      const parametric: QuantumCircuit = { qubits: 1, gates: [{ type: 'RY', target: 0, angle: 'theta' }], measurements: [] };
+      const multiControlled: QuantumCircuit = { qubits: 4, gates: [{ type: 'X', target: 3, controls: [0, 1, 2] }], measurements: [] };
+
+      expect(() => serializeQasm(parametric, { version: '2.0' })).toThrow('bind theta first');
+      expect(() => serializeQasm(multiControlled, { version: '2.0' })).toThrow('cannot be written in OpenQASM 2.0');
+      expect(serializeQasm(multiControlled)).toContain('ctrl @ ccx q[2], q[0], q[1], q[3];');
+    });
+  });
+});
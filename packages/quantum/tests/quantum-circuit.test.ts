@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { QuantumCircuitSimulator } from '../src/circuits/quantum-circuit.js';
+import { bellState, ghzState } from '../src/circuits/index.js';
 import type { QubitState, QuantumGate } from '../src/types/index.js';
 
 describe('QuantumCircuitSimulator', () => {
@@ -95,6 +96,175 @@ describe('QuantumCircuitSimulator', () => {
     });
   });
 
+  describe('Entanglement', () => {
+    it('should prepare a real Bell state', () => {
+      const bell = bellState();
+      bell.executeCircuit();
+
+      const probabilities = bell.getProbabilities();
+      expect(probabilities[0]).toBeCloseTo(0.5, 10);
+      expect(probabilities[3]).toBeCloseTo(0.5, 10);
+      expect(probabilities[1]).toBeCloseTo(0, 10);
+      expect(probabilities[2]).toBeCloseTo(0, 10);
+      expect(bell.isEntangled(0)).toBe(true);
+    });
+
+    it('should place entangled qubits at the centre of the Bloch sphere', () => {
+      const ghz = ghzState(3);
+      ghz.executeCircuit();
+
+      for (const qubit of [0, 1, 2]) {
+        const vector = ghz.getBlochVector(qubit);
+        expect(Math.hypot(vector.x, vector.y, vector.z)).toBeCloseTo(0, 10);
+      }
+    });
+
+    it('should give correlated measurement outcomes', () => {
+      for (let run = 0; run < 20; run++) {
+        const ghz = ghzState(3);
+        ghz.addMeasurement(0);
+        ghz.addMeasurement(1);
+        ghz.addMeasurement(2);
+        ghz.executeCircuit();
+
+        const results = ghz.getMeasurementResults();
+        expect(results.get(1)).toBe(results.get(0));
+        expect(results.get(2)).toBe(results.get(0));
+      }
+    });
+
+    it('should measure in the X basis', () => {
+      simulator.addGate({ type: 'H', target: 0 });
+      simulator.addMeasurement(0, 'x');
+      simulator.executeCircuit();
+
+      expect(simulator.getMeasurementResults().get(0)).toBe(0);
+      expect(simulator.getBlochVector(0).x).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('Expanded Gate Set', () => {
+    const basisProbability = (circuit: QuantumCircuitSimulator, index: number) => circuit.getProbabilities()[index];
+
+    it('should flip the phase of |11⟩ with CZ', () => {
+      simulator.addGate({ type: 'H', target: 0 });
+      simulator.addGate({ type: 'H', target: 1 });
+      simulator.addGate({ type: 'CZ', target: 1, control: 0 });
+      simulator.addGate({ type: 'H', target: 1 });
+      simulator.executeCircuit();
+
+      // H·CZ·H on the target is a CNOT, giving a Bell state
+      expect(simulator.isEntangled(0)).toBe(true);
+      expect(basisProbability(simulator, 0)).toBeCloseTo(0.5, 10);
+      expect(basisProbability(simulator, 3)).toBeCloseTo(0.5, 10);
+    });
+
+    it('should apply Toffoli only when both controls are |1⟩', () => {
+      for (const [input, expected] of [[0b011, 0b111], [0b001, 0b001], [0b010, 0b010]] as const) {
+        const circuit = new QuantumCircuitSimulator(3);
+        [0, 1].filter(qubit => input & (1 << qubit)).forEach(target => circuit.addGate({ type: 'X', target }));
+        circuit.addGate({ type: 'CCX', target: 2, control: 0, controls: [1] });
+        circuit.executeCircuit();
+
+        expect(basisProbability(circuit, expected)).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should swap targets with Fredkin when the control is |1⟩', () => {
+      const circuit = new QuantumCircuitSimulator(3);
+      circuit.addGate({ type: 'X', target: 0 });
+      circuit.addGate({ type: 'X', target: 1 });
+      circuit.addGate({ type: 'CSWAP', target: 1, target2: 2, control: 0 });
+      circuit.executeCircuit();
+
+      expect(basisProbability(circuit, 0b101)).toBeCloseTo(1, 10);
+    });
+
+    it('should apply SWAP', () => {
+      simulator.addGate({ type: 'X', target: 0 });
+      simulator.addGate({ type: 'SWAP', target: 0, target2: 1 });
+      simulator.executeCircuit();
+
+      expect(simulator.getQubitState(1).beta.real).toBeCloseTo(1, 10);
+      expect(simulator.getQubitState(0).alpha.real).toBeCloseTo(1, 10);
+    });
+
+    it('should support arbitrary multi-controlled gates', () => {
+      const circuit = new QuantumCircuitSimulator(4);
+      [0, 1, 2].forEach(target => circuit.addGate({ type: 'X', target }));
+      circuit.addGate({ type: 'X', target: 3, controls: [0, 1, 2] });
+      circuit.executeCircuit();
+
+      expect(basisProbability(circuit, 0b1111)).toBeCloseTo(1, 10);
+    });
+
+    it('should apply a controlled phase to the |11⟩ amplitude only', () => {
+      simulator.addGate({ type: 'H', target: 0 });
+      simulator.addGate({ type: 'H', target: 1 });
+      simulator.addGate({ type: 'CP', target: 1, control: 0, angle: 'pi/2' });
+      simulator.executeCircuit();
+
+      const amplitudes = simulator.getStateVector();
+      expect(amplitudes[1]!.real).toBeCloseTo(0.5, 10);
+      expect(amplitudes[3]!.real).toBeCloseTo(0, 10);
+      expect(amplitudes[3]!.imaginary).toBeCloseTo(0.5, 10);
+    });
+
+    it('should prepare |1⟩ with U3(π, 0, π) and two √X gates', () => {
+      simulator.addGate({ type: 'U3', target: 0, angles: [Math.PI, 0, Math.PI] });
+      simulator.addGate({ type: 'SX', target: 1 });
+      simulator.addGate({ type: 'SX', target: 1 });
+      simulator.executeCircuit();
+
+      expect(simulator.getBlochVector(0).z).toBeCloseTo(-1, 10);
+      expect(simulator.getBlochVector(1).z).toBeCloseTo(-1, 10);
+    });
+  });
+
+  describe('Parametric Circuits', () => {
+    it('should leave symbolic gates unresolved until execution', () => {
+      simulator.addGate({ type: 'RY', target: 0, angle: 'theta' });
+      simulator.addGate({ type: 'CRZ', target: 1, control: 0, angle: '2*gamma' });
+
+      expect(simulator.getParameters()).toEqual(['gamma', 'theta']);
+      expect(simulator.getCircuit().gates[0]!.matrix).toBeUndefined();
+      expect(() => simulator.executeCircuit({ theta: 1 })).toThrow('Unbound parameters: gamma');
+    });
+
+    it('should rerun from |0⟩ for each set of bindings', () => {
+      simulator.addGate({ type: 'RY', target: 0, angle: 'theta' });
+
+      simulator.executeCircuit({ theta: Math.PI });
+      expect(simulator.getBlochVector(0).z).toBeCloseTo(-1, 10);
+
+      simulator.executeCircuit({ theta: Math.PI / 2 });
+      expect(simulator.getBlochVector(0).x).toBeCloseTo(1, 10);
+    });
+
+    it('should emit bound matrices in gate-applied events', () => {
+      const spy = vi.fn();
+      simulator.on('gate-applied', spy);
+      simulator.addGate({ type: 'RX', target: 0, angle: 'theta' });
+      simulator.executeCircuit({ theta: Math.PI });
+
+      expect(spy.mock.calls[0][0].gate.matrix[0][1].imaginary).toBeCloseTo(-1, 10);
+    });
+
+    it('should bind parameters into a new circuit', () => {
+      simulator.addGate({ type: 'U3', target: 0, angles: ['theta', 'phi', 0] });
+      simulator.addMeasurement(0);
+
+      const partial = simulator.bindParameters({ theta: Math.PI });
+      expect(partial.getParameters()).toEqual(['phi']);
+
+      const bound = partial.bindParameters({ phi: 0 });
+      expect(bound.getParameters()).toEqual([]);
+      expect(bound.getCircuit().gates[0]!.angles).toEqual([Math.PI, 0, 0]);
+      expect(bound.getCircuit().measurements).toHaveLength(1);
+      expect(simulator.getParameters()).toEqual(['phi', 'theta']);
+    });
+  });
+
   describe('Measurements', () => {
     it('should add measurements to circuit', () => {
       simulator.addMeasurement(0, 'computational');
@@ -113,7 +283,7 @@ describe('QuantumCircuitSimulator', () => {
       expect(results.has(0)).toBe(true);
       
       const result = results.get(0);
-      expect(result).toMatch(/^[01]$/);
+      expect([0, 1]).toContain(result);
       
       const state = simulator.getQubitState(0);
       if (result === 0) {
@@ -212,6 +382,12 @@ describe('QuantumCircuitSimulator', () => {
         simulator.addGate({ type: 'RX', target: 0 });
       }).toThrow('RX gate requires angle parameter');
     });
+
+    it('should reject gates on qubits outside the register', () => {
+      expect(() => {
+        simulator.addGate({ type: 'CNOT', target: 1, control: 2 });
+      }).toThrow('Qubit index 2 out of range');
+    });
   });
 
   describe('Circuit Reset', () => {
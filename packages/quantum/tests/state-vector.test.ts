@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { StateVector, complex } from '../src/circuits/state-vector.js';
+import type { Complex } from '../src/types/index.js';
+
+const h = 1 / Math.sqrt(2);
+const H: Complex[][] = [[complex(h), complex(h)], [complex(h), complex(-h)]];
+const X: Complex[][] = [[complex(0), complex(1)], [complex(1), complex(0)]];
+const S: Complex[][] = [[complex(1), complex(0)], [complex(0), complex(0, 1)]];
+
+function expectAmplitudes(state: StateVector, expected: Complex[]): void {
+  state.getAmplitudes().forEach((amplitude, index) => {
+    expect(amplitude.real).toBeCloseTo(expected[index]!.real, 10);
+    expect(amplitude.imaginary).toBeCloseTo(expected[index]!.imaginary, 10);
+  });
+}
+
+function bell(): StateVector {
+  const state = new StateVector(2);
+  state.applyGate(0, H);
+  state.applyGate(1, X, [0]);
+  return state;
+}
+
+describe('StateVector', () => {
+  it('should start in |0...0⟩', () => {
+    expectAmplitudes(new StateVector(2), [complex(1), complex(0), complex(0), complex(0)]);
+  });
+
+  it('should order basis states with qubit 0 as the least significant bit', () => {
+    const state = new StateVector(3);
+    state.applyGate(1, X);
+
+    expect(state.probabilities()).toEqual([0, 0, 1, 0, 0, 0, 0, 0]);
+  });
+
+  it('should produce the Bell state (|00⟩ + |11⟩)/√2', () => {
+    expectAmplitudes(bell(), [complex(h), complex(0), complex(0), complex(h)]);
+  });
+
+  it('should produce the GHZ state on three qubits', () => {
+    const state = new StateVector(3);
+    state.applyGate(0, H);
+    state.applyGate(1, X, [0]);
+    state.applyGate(2, X, [0]);
+
+    const probabilities = state.probabilities();
+    expect(probabilities[0]).toBeCloseTo(0.5, 10);
+    expect(probabilities[7]).toBeCloseTo(0.5, 10);
+    expect(probabilities.slice(1, 7).every(p => p < 1e-12)).toBe(true);
+  });
+
+  it('should apply a uniform superposition with H on every qubit', () => {
+    const state = new StateVector(3);
+    [0, 1, 2].forEach(qubit => state.applyGate(qubit, H));
+
+    state.probabilities().forEach(p => expect(p).toBeCloseTo(1 / 8, 10));
+  });
+
+  it('should keep relative phases', () => {
+    const state = new StateVector(1);
+    state.applyGate(0, H);
+    state.applyGate(0, S);
+
+    expectAmplitudes(state, [complex(h), complex(0, h)]);
+    expect(state.blochVector(0).y).toBeCloseTo(1, 10);
+  });
+
+  it('should swap qubits', () => {
+    const state = new StateVector(3);
+    state.applyGate(0, X);
+    state.swap(0, 2);
+
+    expect(state.probabilities()[4]).toBe(1);
+  });
+
+  it('should give entangled qubits a maximally mixed reduced state', () => {
+    const state = bell();
+    const rho = state.reducedDensityMatrix(0);
+
+    expect(rho[0]![0]!.real).toBeCloseTo(0.5, 10);
+    expect(rho[1]![1]!.real).toBeCloseTo(0.5, 10);
+    expect(Math.hypot(rho[0]![1]!.real, rho[0]![1]!.imaginary)).toBeCloseTo(0, 10);
+
+    const vector = state.blochVector(1);
+    expect(Math.hypot(vector.x, vector.y, vector.z)).toBeCloseTo(0, 10);
+    expect(state.purity(0)).toBeCloseTo(0.5, 10);
+    expect(state.isEntangled(0)).toBe(true);
+  });
+
+  it('should give partially entangled qubits a shortened Bloch vector', () => {
+    // RY(π/3) on the control leaves cos²(π/6) = 3/4 in |00⟩
+    const angle = Math.PI / 3;
+    const ry: Complex[][] = [
+      [complex(Math.cos(angle / 2)), complex(-Math.sin(angle / 2))],
+      [complex(Math.sin(angle / 2)), complex(Math.cos(angle / 2))],
+    ];
+    const state = new StateVector(2);
+    state.applyGate(0, ry);
+    state.applyGate(1, X, [0]);
+
+    expect(state.blochVector(1)).toEqual({ x: expect.closeTo(0, 10), y: expect.closeTo(0, 10), z: expect.closeTo(0.5, 10) });
+    expect(state.isEntangled(1)).toBe(true);
+  });
+
+  it('should not report product states as entangled', () => {
+    const state = new StateVector(2);
+    state.applyGate(0, H);
+    state.applyGate(1, X);
+
+    expect(state.isEntangled(0)).toBe(false);
+    expect(state.qubitState(0).alpha.real).toBeCloseTo(h, 10);
+    expect(state.qubitState(1).beta.real).toBeCloseTo(1, 10);
+  });
+
+  it('should collapse entangled partners on measurement', () => {
+    for (const draw of [0.1, 0.9]) {
+      const state = bell();
+      const first = state.measure(0, () => draw);
+      const second = state.measure(1);
+
+      expect(first.probability).toBeCloseTo(0.5, 10);
+      expect(second.outcome).toBe(first.outcome);
+      expect(second.probability).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should reject impossible collapses and out-of-range qubits', () => {
+    expect(() => new StateVector(1).collapse(0, 1)).toThrow('zero probability');
+    expect(() => new StateVector(2).applyGate(2, X)).toThrow('Qubit index 2 out of range');
+    expect(() => new StateVector(2).applyGate(0, X, [0])).toThrow('cannot be both control and target');
+    expect(() => new StateVector(21)).toThrow('at most 20 qubits');
+  });
+
+  it('should pick Kraus operators with probability ‖Kψ‖²', () => {
+    // Amplitude damping with γ = 1 always takes the decay branch from |1⟩
+    const decay: Complex[][][] = [
+      [[complex(1), complex(0)], [complex(0), complex(0)]],
+      [[complex(0), complex(1)], [complex(0), complex(0)]],
+    ];
+    const state = new StateVector(2);
+    state.applyGate(1, X);
+
+    expect(state.applyChannel(1, decay, () => 0.3)).toBe(1);
+    expect(state.probabilities()[0]).toBeCloseTo(1, 10);
+    expect(state.applyChannel(1, decay, () => 0.99)).toBe(0);
+  });
+
+  it('should normalize amplitudes passed in', () => {
+    const state = StateVector.fromAmplitudes([complex(1), complex(1)]);
+
+    expectAmplitudes(state, [complex(h), complex(h)]);
+  });
+});